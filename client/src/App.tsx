@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useAlertNotifications } from "@/hooks/useAlertNotifications";
 import NotFound from "@/pages/not-found";
 import LoginPage from "@/pages/Login";
 import Dashboard from "@/pages/Dashboard";
@@ -11,14 +12,22 @@ import Markets from "@/pages/Markets";
 import Portfolio from "@/pages/Portfolio";
 import Strategies from "@/pages/Strategies";
 import CoinDetail from "@/pages/CoinDetail";
+import Alerts from "@/pages/Alerts";
+import TaxReport from "@/pages/TaxReport";
+import Optimizer from "@/pages/Optimizer";
 
 function AuthenticatedRouter() {
+  useAlertNotifications();
+
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/markets" component={Markets} />
       <Route path="/portfolio" component={Portfolio} />
       <Route path="/strategies" component={Strategies} />
+      <Route path="/optimizer" component={Optimizer} />
+      <Route path="/alerts" component={Alerts} />
+      <Route path="/tax" component={TaxReport} />
       <Route path="/coin/:symbol" component={CoinDetail} />
       <Route component={NotFound} />
     </Switch>
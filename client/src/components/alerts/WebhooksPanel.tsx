@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Webhook, Plus, Trash2, Send, RefreshCw, ChevronDown, ChevronUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  fetchWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  rotateWebhookSecret,
+  sendWebhookTest,
+  fetchWebhookDeliveries,
+} from "@/lib/api";
+
+const EVENTS: Record<string, string> = {
+  'signal.changed': 'Signal changes (e.g. HOLD → BUY)',
+  'regime.changed': 'Market regime changes',
+  'alert.triggered': 'Alert triggered',
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  delivered: 'text-green-500',
+  pending: 'text-yellow-500',
+  failed: 'text-red-500',
+};
+
+const emptyForm = {
+  url: '',
+  description: '',
+  events: ['signal.changed'] as string[],
+  symbols: '',
+};
+
+function DeliveryLog({ endpointId }: { endpointId: number }) {
+  const { data: deliveries } = useQuery({
+    queryKey: ['webhook-deliveries', endpointId],
+    queryFn: () => fetchWebhookDeliveries(endpointId),
+    refetchInterval: 15000,
+  });
+
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground py-2">No deliveries yet</p>;
+  }
+
+  return (
+    <div className="space-y-1 py-2">
+      {deliveries.map((delivery: any) => (
+        <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs font-mono" data-testid={`row-webhook-delivery-${delivery.id}`}>
+          <span className="text-muted-foreground">{new Date(delivery.createdAt).toLocaleString()}</span>
+          <span className="text-foreground">{delivery.event}</span>
+          <span className={STATUS_STYLES[delivery.status] || 'text-muted-foreground'}>
+            {delivery.status}
+            {delivery.attempts > 1 && ` ×${delivery.attempts}`}
+            {delivery.error && ` (${delivery.error})`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function WebhooksPanel() {
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [revealedSecret, setRevealedSecret] = useState<{ id: number; secret: string } | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: webhooks } = useQuery({
+    queryKey: ['webhooks'],
+    queryFn: fetchWebhooks,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createWebhook,
+    onSuccess: (endpoint) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      setRevealedSecret({ id: endpoint.id, secret: endpoint.secret });
+      setIsCreateOpen(false);
+      setForm(emptyForm);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: number; enabled: boolean }) => updateWebhook(id, { enabled }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks'] }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWebhook,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks'] }),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: rotateWebhookSecret,
+    onSuccess: (endpoint) => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      setRevealedSecret({ id: endpoint.id, secret: endpoint.secret });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: sendWebhookTest,
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', delivery.endpointId] });
+      setExpandedId(delivery.endpointId);
+    },
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setForm({
+      ...form,
+      events: checked ? [...form.events, event] : form.events.filter(e => e !== event),
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbols = form.symbols.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+    createMutation.mutate({
+      url: form.url.trim(),
+      description: form.description.trim() || null,
+      events: form.events,
+      symbols: symbols.length > 0 ? symbols : null,
+    });
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm" data-testid="card-webhooks">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+        <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+          <Webhook className="h-5 w-5 text-primary" />
+          Webhooks
+        </h2>
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" data-testid="button-create-webhook">
+              <Plus className="h-4 w-4 mr-2" /> Add Endpoint
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="bg-card border-border w-[90%] md:w-full max-h-[85vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Webhook Endpoint</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input
+                  id="webhook-url"
+                  placeholder="https://bot.example.com/hooks/quantedge"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  className="bg-muted/50 border-border"
+                  data-testid="input-webhook-url"
+                />
+              </div>
+              <div>
+                <Label htmlFor="webhook-description">Description (optional)</Label>
+                <Input
+                  id="webhook-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="bg-muted/50 border-border"
+                  data-testid="input-webhook-description"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                {Object.entries(EVENTS).map(([event, label]) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      data-testid={`checkbox-webhook-event-${event}`}
+                    />
+                    <span className="font-mono text-xs">{event}</span>
+                    <span className="text-muted-foreground">{label}</span>
+                  </label>
+                ))}
+              </div>
+              <div>
+                <Label htmlFor="webhook-symbols">Symbols (optional)</Label>
+                <Input
+                  id="webhook-symbols"
+                  placeholder="BTC, ETH — leave empty for all"
+                  value={form.symbols}
+                  onChange={(e) => setForm({ ...form, symbols: e.target.value })}
+                  className="bg-muted/50 border-border"
+                  data-testid="input-webhook-symbols"
+                />
+              </div>
+
+              {createMutation.isError && (
+                <p className="text-xs text-destructive">
+                  ⚠ {createMutation.error instanceof Error ? createMutation.error.message : 'Failed to create webhook'}
+                </p>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!form.url || form.events.length === 0 || createMutation.isPending}
+                data-testid="button-submit-webhook"
+              >
+                {createMutation.isPending ? 'Creating...' : 'Create Endpoint'}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {revealedSecret && (
+        <div className="mx-6 mt-4 rounded-lg border border-primary/30 bg-primary/10 p-3 text-sm" data-testid="text-webhook-secret">
+          <div className="text-foreground mb-1">Signing secret for endpoint #{revealedSecret.id}. Copy it now; it won't be shown again.</div>
+          <div className="flex items-center justify-between gap-2">
+            <code className="font-mono text-xs break-all">{revealedSecret.secret}</code>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>Done</Button>
+          </div>
+        </div>
+      )}
+
+      {webhooks && webhooks.length > 0 ? (
+        <div className="divide-y divide-border">
+          {webhooks.map((webhook: any) => (
+            <div key={webhook.id} className="px-6 py-4" data-testid={`row-webhook-${webhook.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-mono text-sm text-foreground truncate">{webhook.url}</div>
+                  {webhook.description && <div className="text-sm text-muted-foreground">{webhook.description}</div>}
+                  <div className="text-xs text-muted-foreground">
+                    {webhook.events.join(', ')}
+                    {webhook.symbols?.length > 0 && ` · ${webhook.symbols.join(', ')}`}
+                    {` · ${webhook.secret}`}
+                  </div>
+                </div>
+                <Switch
+                  checked={webhook.enabled}
+                  onCheckedChange={(enabled) => toggleMutation.mutate({ id: webhook.id, enabled })}
+                  data-testid={`switch-webhook-${webhook.id}`}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => testMutation.mutate(webhook.id)}
+                  disabled={testMutation.isPending}
+                  data-testid={`button-test-webhook-${webhook.id}`}
+                >
+                  <Send className="h-3 w-3 mr-2" /> Send test
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => rotateMutation.mutate(webhook.id)}
+                  disabled={rotateMutation.isPending}
+                  data-testid={`button-rotate-webhook-${webhook.id}`}
+                >
+                  <RefreshCw className="h-3 w-3 mr-2" /> Rotate secret
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                  data-testid={`button-deliveries-webhook-${webhook.id}`}
+                >
+                  Deliveries
+                  {expandedId === webhook.id ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(webhook.id)}
+                  className="ml-auto text-muted-foreground hover:text-red-500"
+                  data-testid={`button-delete-webhook-${webhook.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {expandedId === webhook.id && <DeliveryLog endpointId={webhook.id} />}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="p-8 text-center">
+          <p className="text-muted-foreground text-sm">
+            No webhook endpoints. Add one to push signal, regime and alert events to your bots.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
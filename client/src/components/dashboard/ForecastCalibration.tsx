@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Target } from "lucide-react";
+import { fetchCalibration } from "@/lib/api";
+
+interface ForecastCalibrationProps {
+  symbol: string;
+  forecast?: {
+    direction: 'UP' | 'DOWN' | 'SIDEWAYS';
+    probability: number;
+  };
+}
+
+export function ForecastCalibration({ symbol, forecast }: ForecastCalibrationProps) {
+  const { data: report } = useQuery({
+    queryKey: ['calibration', symbol],
+    queryFn: () => fetchCalibration({ interval: '1d', symbol }),
+    refetchInterval: 900000, // Outcomes are recorded every 15 minutes
+  });
+
+  // Reliability bucket the current forecast falls into (10-point buckets)
+  const bucket = forecast ? report?.buckets[Math.min(9, Math.floor(forecast.probability / 10))] : undefined;
+
+  return (
+    <div className="rounded-xl border border-border bg-card/50 p-6 backdrop-blur-sm" data-testid="card-forecast-calibration">
+      <h3 className="font-display text-lg font-medium text-foreground mb-4 flex items-center gap-2">
+        <Target className="h-4 w-4 text-primary" />
+        Forecast Track Record
+      </h3>
+
+      {forecast && (
+        <div className="flex justify-between text-sm mb-3">
+          <span className="text-muted-foreground">Current Forecast</span>
+          <span className="font-mono font-medium">
+            {forecast.direction} {forecast.probability}%
+          </span>
+        </div>
+      )}
+
+      {report && report.directional > 0 ? (
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Hit Rate</span>
+            <span className="font-mono font-medium" data-testid="text-forecast-accuracy">
+              {report.accuracy.toFixed(1)}% of {report.directional}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Brier Score</span>
+            <span className="font-mono font-medium">{report.brierScore.toFixed(3)}</span>
+          </div>
+          {bucket?.observed !== null && bucket?.observed !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Observed at {bucket.range[0]}-{bucket.range[1]}%</span>
+              <span className="font-mono font-medium">{bucket.observed.toFixed(1)}% ({bucket.count})</span>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground pt-2">
+            Directional forecasts checked {report.horizonBars.join('/')} bars later. Brier 0.25 equals a coin flip.
+          </p>
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-sm">
+          No evaluated forecasts yet. Outcomes are recorded once the forecast horizon has passed.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,83 +1,490 @@
-import { 
-  AreaChart, 
-  Area, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
+import { useEffect, useRef, useState, type MouseEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  Scatter,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
   ResponsiveContainer,
 } from 'recharts';
+import { Activity, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Skeleton } from '@/components/ui/skeleton';
+import { fetchChart, fetchQuantHistory, fetchQuantScore, type ChartBar } from '@/lib/api';
 
-interface Kline {
-  openTime: number;
-  open: string;
-  high: string;
-  low: string;
-  close: string;
-  volume: string;
+type Interval = '1h' | '4h' | '1d' | '1w';
+type Overlay = 'sma20' | 'sma50' | 'ema20' | 'ema50' | 'bollinger' | 'levels' | 'signals';
+type Pane = 'rsi' | 'macd' | 'mfi';
+
+const INTERVALS: Interval[] = ['1h', '4h', '1d', '1w'];
+const CHART_BARS = 300;
+const DEFAULT_VISIBLE = 100;
+const MIN_VISIBLE = 20;
+
+const UP = '#22c55e';
+const DOWN = '#ef4444';
+
+const OVERLAYS: { key: Overlay; label: string; color: string }[] = [
+  { key: 'sma20', label: 'SMA 20', color: '#f59e0b' },
+  { key: 'sma50', label: 'SMA 50', color: '#3b82f6' },
+  { key: 'ema20', label: 'EMA 20', color: '#a855f7' },
+  { key: 'ema50', label: 'EMA 50', color: '#ec4899' },
+  { key: 'bollinger', label: 'Bollinger (20, 2)', color: '#94a3b8' },
+  { key: 'levels', label: 'Support / Resistance', color: '#eab308' },
+  { key: 'signals', label: 'Signal changes', color: 'hsl(var(--primary))' },
+];
+
+const FACTORS = ['trend', 'momentum', 'volatility', 'volume', 'risk', 'sentiment'];
+
+interface QuantSnapshot {
+  barCloseTime: string;
+  compositeScore: number;
+  signal: string;
+  confidence: number;
+  output: {
+    scores: Record<string, number>;
+  };
 }
 
-interface PriceChartProps {
-  klines: Kline[];
+interface SignalMarker {
+  signal: 'BUY' | 'SELL';
+  previousSignal: string;
+  compositeScore: number;
+  confidence: number;
+  scores: Record<string, number>;
 }
 
-export function PriceChart({ klines }: PriceChartProps) {
-  const data = klines.map(k => ({
-    time: new Date(k.openTime).toLocaleDateString(),
-    price: parseFloat(k.close),
-  }));
+type PlotBar = ChartBar & { marker?: SignalMarker; markerPrice?: number };
 
-  if (data.length === 0) {
-    return (
-      <div className="h-[400px] w-full rounded-xl border border-border bg-card/50 p-4 backdrop-blur-sm flex items-center justify-center">
-        <p className="text-muted-foreground">No chart data available</p>
-      </div>
-    );
+const PANES: { key: Pane; label: string }[] = [
+  { key: 'rsi', label: 'RSI (14)' },
+  { key: 'macd', label: 'MACD (12, 26, 9)' },
+  { key: 'mfi', label: 'MFI (14)' },
+];
+
+const axisTick = { fill: 'hsl(var(--muted-foreground))', fontSize: 12, fontFamily: 'var(--font-mono)' };
+
+const formatPrice = (val: number) =>
+  `$${val.toLocaleString(undefined, { maximumFractionDigits: val < 1 ? 6 : 2 })}`;
+
+const formatTime = (time: number, interval: Interval) => {
+  const date = new Date(time);
+  return interval === '1h' || interval === '4h'
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+/**
+ * Snapshots where the engine's signal changed into BUY or SELL, keyed by the open time of the bar
+ * they were computed on (the last bar whose open is at or before the snapshot's bar close)
+ */
+function signalMarkers(bars: ChartBar[], snapshots: QuantSnapshot[]): Map<number, SignalMarker> {
+  const markers = new Map<number, SignalMarker>();
+  const sorted = [...snapshots].sort((a, b) => new Date(a.barCloseTime).getTime() - new Date(b.barCloseTime).getTime());
+  let barIndex = 0;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const snapshot = sorted[i];
+    const previousSignal = sorted[i - 1].signal;
+    if (snapshot.signal === previousSignal || (snapshot.signal !== 'BUY' && snapshot.signal !== 'SELL')) continue;
+
+    const closeTime = new Date(snapshot.barCloseTime).getTime();
+    while (barIndex + 1 < bars.length && bars[barIndex + 1].time <= closeTime) barIndex++;
+    if (bars.length === 0 || bars[barIndex].time > closeTime) continue;
+
+    markers.set(bars[barIndex].time, {
+      signal: snapshot.signal,
+      previousSignal,
+      compositeScore: snapshot.compositeScore,
+      confidence: snapshot.confidence,
+      scores: snapshot.output.scores,
+    });
   }
+  return markers;
+}
+
+/**
+ * Triangle under the low for BUY, over the high for SELL
+ */
+function MarkerShape(props: any) {
+  const { cx, cy, payload } = props;
+  const marker = (payload as PlotBar).marker;
+  if (!marker || !Number.isFinite(cy)) return null;
+
+  const buy = marker.signal === 'BUY';
+  const tip = buy ? cy + 6 : cy - 6;
+  const base = buy ? tip + 10 : tip - 10;
+  return (
+    <path
+      d={`M ${cx} ${tip} L ${cx - 6} ${base} L ${cx + 6} ${base} Z`}
+      fill={buy ? UP : DOWN}
+      stroke="hsl(var(--background))"
+      strokeWidth={1}
+    />
+  );
+}
+
+/**
+ * Candle drawn from a [low, high] range bar: the bar spans the wick, the body is scaled inside it
+ */
+function Candle(props: any) {
+  const { x, y, width, height, payload } = props;
+  const { open, close, high, low } = payload as ChartBar;
+  const color = close >= open ? UP : DOWN;
+  const pxPerUnit = high === low ? 0 : Math.abs(height) / (high - low);
+  const bodyTop = y + (high - Math.max(open, close)) * pxPerUnit;
+  const bodyHeight = Math.max(1, Math.abs(close - open) * pxPerUnit);
+  const center = x + width / 2;
 
   return (
-    <div className="h-[400px] w-full rounded-xl border border-border bg-card/50 p-4 backdrop-blur-sm">
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={data}>
-          <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="hsl(var(--primary))" stopOpacity={0.3}/>
-              <stop offset="95%" stopColor="hsl(var(--primary))" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
-          <XAxis 
-            dataKey="time" 
-            hide 
-          />
-          <YAxis 
-            orientation="right" 
-            domain={['auto', 'auto']} 
-            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12, fontFamily: 'var(--font-mono)' }}
-            axisLine={false}
-            tickLine={false}
-            tickFormatter={(val) => `$${val.toLocaleString()}`}
-          />
-          <Tooltip 
-            contentStyle={{ 
-              backgroundColor: 'hsl(var(--card))', 
-              borderColor: 'hsl(var(--border))',
-              borderRadius: '8px',
-              boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.5)'
-            }}
-            itemStyle={{ color: 'hsl(var(--primary))', fontFamily: 'var(--font-mono)' }}
-            formatter={(val: number) => [`$${val.toFixed(2)}`, 'Price']}
-          />
-          <Area 
-            type="monotone" 
-            dataKey="price" 
-            stroke="hsl(var(--primary))" 
-            strokeWidth={2}
-            fillOpacity={1} 
-            fill="url(#colorPrice)" 
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + Math.abs(height)} stroke={color} strokeWidth={1} />
+      <rect x={x} y={bodyTop} width={Math.max(1, width)} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+function ChartTooltip({ active, payload, interval, overlays }: any) {
+  if (!active || !payload?.length) return null;
+  const bar = payload[0].payload as PlotBar;
+
+  const rows: [string, string][] = [
+    ['Open', formatPrice(bar.open)],
+    ['High', formatPrice(bar.high)],
+    ['Low', formatPrice(bar.low)],
+    ['Close', formatPrice(bar.close)],
+    ['Volume', bar.volume.toLocaleString(undefined, { maximumFractionDigits: 0 })],
+  ];
+  for (const overlay of OVERLAYS) {
+    if (!overlays.includes(overlay.key)) continue;
+    if (overlay.key === 'bollinger' && bar.bbUpper !== null) {
+      rows.push(['BB Upper', formatPrice(bar.bbUpper)], ['BB Lower', formatPrice(bar.bbLower!)]);
+    } else if (overlay.key !== 'bollinger' && overlay.key !== 'levels' && overlay.key !== 'signals' && bar[overlay.key] !== null) {
+      rows.push([overlay.label, formatPrice(bar[overlay.key]!)]);
+    }
+  }
+  if (bar.rsi !== null) rows.push(['RSI', bar.rsi.toFixed(1)]);
+  if (bar.macdHistogram !== null) rows.push(['MACD Hist', bar.macdHistogram.toFixed(2)]);
+  if (bar.mfi !== null) rows.push(['MFI', bar.mfi.toFixed(1)]);
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-3 text-xs shadow-lg">
+      <p className="mb-2 font-medium text-foreground">{formatTime(bar.time, interval)}</p>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="font-mono text-foreground">{value}</span>
+        </div>
+      ))}
+      {bar.marker && (
+        <div className="mt-2 border-t border-border pt-2" data-testid="tooltip-signal-marker">
+          <p className={`mb-1 font-bold ${bar.marker.signal === 'BUY' ? 'text-green-500' : 'text-red-500'}`}>
+            {bar.marker.previousSignal} → {bar.marker.signal}
+          </p>
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Composite</span>
+            <span className="font-mono text-foreground">{bar.marker.compositeScore}</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Confidence</span>
+            <span className="font-mono text-foreground">{bar.marker.confidence}%</span>
+          </div>
+          {FACTORS.filter(factor => bar.marker!.scores[factor] !== undefined).map(factor => (
+            <div key={factor} className="flex justify-between gap-4">
+              <span className="capitalize text-muted-foreground">{factor}</span>
+              <span className="font-mono text-foreground">{Math.round(bar.marker!.scores[factor])}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Candlestick chart with volume, selectable overlays and oscillator panes.
+ * Scroll to zoom, drag to pan; the crosshair is shared across panes.
+ */
+export function PriceChart({ symbol }: { symbol: string }) {
+  const [interval, setChartInterval] = useState<Interval>('1d');
+  const [overlays, setOverlays] = useState<Overlay[]>(['sma20', 'sma50', 'signals']);
+  const [panes, setPanes] = useState<Pane[]>(['rsi', 'macd']);
+  const [visible, setVisible] = useState(DEFAULT_VISIBLE);
+  const [offset, setOffset] = useState(0); // Bars hidden past the right edge
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; offset: number } | null>(null);
+
+  const { data: bars = [], isLoading } = useQuery({
+    queryKey: ['chart', symbol, interval],
+    queryFn: () => fetchChart(symbol, interval, CHART_BARS),
+    refetchInterval: 60000,
+  });
+
+  const { data: quantScore } = useQuery({
+    queryKey: ['quant-score', symbol, interval],
+    queryFn: () => fetchQuantScore(symbol, interval),
+    enabled: overlays.includes('levels'),
+    refetchInterval: 300000,
+  });
+
+  // Snapshots over the whole loaded range, so changes just left of the view still have a predecessor
+  const { data: snapshots = [] } = useQuery<QuantSnapshot[]>({
+    queryKey: ['chart-signals', symbol, interval, bars[0]?.time],
+    queryFn: () => fetchQuantHistory(symbol, { interval, from: String(bars[0].time) }),
+    enabled: overlays.includes('signals') && bars.length > 0,
+    refetchInterval: 300000,
+  });
+
+  const markers = overlays.includes('signals') ? signalMarkers(bars, snapshots) : new Map<number, SignalMarker>();
+  const count = Math.min(visible, bars.length);
+  const end = bars.length - Math.min(offset, Math.max(0, bars.length - count));
+  const data: PlotBar[] = bars.slice(Math.max(0, end - count), end).map(bar => {
+    const marker = markers.get(bar.time);
+    return marker ? { ...bar, marker, markerPrice: marker.signal === 'BUY' ? bar.low : bar.high } : bar;
+  });
+  const volumeMax = Math.max(0, ...data.map(b => b.volume));
+
+  const changeInterval = (next: Interval) => {
+    setChartInterval(next);
+    setVisible(DEFAULT_VISIBLE);
+    setOffset(0);
+  };
+
+  const toggle = <T,>(list: T[], item: T, on: boolean) => on ? [...list, item] : list.filter(i => i !== item);
+
+  // Native listener so zooming doesn't also scroll the page
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = e.deltaY > 0 ? 1.15 : 1 / 1.15;
+      setVisible(v => Math.round(Math.min(bars.length, Math.max(MIN_VISIBLE, v * factor))));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [bars.length]);
+
+  const handleMouseDown = (e: MouseEvent) => {
+    dragRef.current = { x: e.clientX, offset };
+  };
+
+  const handleMouseMove = (e: MouseEvent) => {
+    if (!dragRef.current || !containerRef.current || count === 0) return;
+    const barWidth = containerRef.current.clientWidth / count;
+    const shifted = Math.round((e.clientX - dragRef.current.x) / barWidth);
+    setOffset(Math.min(bars.length - count, Math.max(0, dragRef.current.offset + shifted)));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  const support = quantScore?.forecast?.support;
+  const resistance = quantScore?.forecast?.resistance;
+  const xAxis = (
+    <XAxis
+      dataKey="time"
+      tick={axisTick}
+      axisLine={false}
+      tickLine={false}
+      minTickGap={40}
+      tickFormatter={(time) => formatTime(time, interval)}
+    />
+  );
+  const tooltip = (
+    <Tooltip
+      content={<ChartTooltip interval={interval} overlays={overlays} />}
+      cursor={{ stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '3 3' }}
+      isAnimationActive={false}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex bg-card/50 rounded-lg p-1 border border-border">
+          {INTERVALS.map((tf) => (
+            <button
+              key={tf}
+              onClick={() => changeInterval(tf)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${tf === interval ? 'bg-primary text-primary-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
+              data-testid={`button-chart-interval-${tf}`}
+            >
+              {tf.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 gap-2 border-border bg-card/50"
+            disabled={visible === DEFAULT_VISIBLE && offset === 0}
+            onClick={() => { setVisible(DEFAULT_VISIBLE); setOffset(0); }}
+            data-testid="button-chart-reset"
+          >
+            <RotateCcw className="h-3 w-3" /> Reset
+          </Button>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 gap-2 border-border bg-card/50" data-testid="button-chart-indicators">
+                <Activity className="h-3 w-3" /> Indicators
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-56 space-y-4">
+              <div className="space-y-2">
+                <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Overlays</p>
+                {OVERLAYS.map(({ key, label, color }) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`overlay-${key}`}
+                      checked={overlays.includes(key)}
+                      onCheckedChange={(checked) => setOverlays(toggle(overlays, key, checked === true))}
+                      data-testid={`checkbox-overlay-${key}`}
+                    />
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+                    <Label htmlFor={`overlay-${key}`} className="text-sm font-normal">{label}</Label>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Panes</p>
+                {PANES.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`pane-${key}`}
+                      checked={panes.includes(key)}
+                      onCheckedChange={(checked) => setPanes(toggle(panes, key, checked === true))}
+                      data-testid={`checkbox-pane-${key}`}
+                    />
+                    <Label htmlFor={`pane-${key}`} className="text-sm font-normal">{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-[400px] w-full rounded-xl" />
+      ) : data.length === 0 ? (
+        <div className="h-[400px] w-full rounded-xl border border-border bg-card/50 p-4 backdrop-blur-sm flex items-center justify-center">
+          <p className="text-muted-foreground">No chart data available</p>
+        </div>
+      ) : (
+        <div
+          ref={containerRef}
+          className="w-full rounded-xl border border-border bg-card/50 p-4 backdrop-blur-sm select-none cursor-crosshair"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={endDrag}
+          onMouseLeave={endDrag}
+          data-testid="chart-price"
+        >
+          <div className="h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data} syncId="price-chart" margin={{ top: 5, right: 0, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                {xAxis}
+                <YAxis
+                  yAxisId="price"
+                  orientation="right"
+                  domain={['auto', 'auto']}
+                  tick={axisTick}
+                  axisLine={false}
+                  tickLine={false}
+                  width={80}
+                  tickFormatter={formatPrice}
+                />
+                <YAxis yAxisId="volume" hide domain={[0, volumeMax * 4]} />
+                {tooltip}
+                <Bar yAxisId="volume" dataKey="volume" isAnimationActive={false}>
+                  {data.map(bar => (
+                    <Cell key={bar.time} fill={bar.close >= bar.open ? UP : DOWN} fillOpacity={0.25} />
+                  ))}
+                </Bar>
+                <Bar
+                  yAxisId="price"
+                  dataKey={(bar: ChartBar) => [bar.low, bar.high]}
+                  shape={<Candle />}
+                  isAnimationActive={false}
+                />
+                {OVERLAYS.filter(o => overlays.includes(o.key) && o.key !== 'bollinger' && o.key !== 'levels').map(o => (
+                  <Line key={o.key} yAxisId="price" dataKey={o.key} stroke={o.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                ))}
+                {overlays.includes('bollinger') && ['bbUpper', 'bbMiddle', 'bbLower'].map(key => (
+                  <Line
+                    key={key}
+                    yAxisId="price"
+                    dataKey={key}
+                    stroke="#94a3b8"
+                    strokeWidth={1}
+                    strokeDasharray={key === 'bbMiddle' ? undefined : '4 4'}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+                {overlays.includes('signals') && (
+                  <Scatter yAxisId="price" dataKey="markerPrice" shape={<MarkerShape />} isAnimationActive={false} />
+                )}
+                {overlays.includes('levels') && support && (
+                  <ReferenceLine yAxisId="price" y={support} stroke={UP} strokeDasharray="6 3" ifOverflow="extendDomain" label={{ value: 'Support', fill: UP, fontSize: 11, position: 'insideBottomLeft' }} />
+                )}
+                {overlays.includes('levels') && resistance && (
+                  <ReferenceLine yAxisId="price" y={resistance} stroke={DOWN} strokeDasharray="6 3" ifOverflow="extendDomain" label={{ value: 'Resistance', fill: DOWN, fontSize: 11, position: 'insideTopLeft' }} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {panes.map(pane => (
+            <div key={pane} className="h-[120px] mt-2 border-t border-border pt-2" data-testid={`chart-pane-${pane}`}>
+              <p className="text-xs font-medium text-muted-foreground">{PANES.find(p => p.key === pane)!.label}</p>
+              <ResponsiveContainer width="100%" height="85%">
+                <ComposedChart data={data} syncId="price-chart" margin={{ top: 5, right: 0, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                  <XAxis dataKey="time" hide />
+                  <YAxis
+                    orientation="right"
+                    domain={pane === 'macd' ? ['auto', 'auto'] : [0, 100]}
+                    tick={axisTick}
+                    axisLine={false}
+                    tickLine={false}
+                    width={80}
+                    tickCount={3}
+                    tickFormatter={(val) => val.toFixed(pane === 'macd' ? 2 : 0)}
+                  />
+                  {tooltip}
+                  {pane === 'rsi' && <ReferenceLine y={70} stroke={DOWN} strokeDasharray="3 3" />}
+                  {pane === 'rsi' && <ReferenceLine y={30} stroke={UP} strokeDasharray="3 3" />}
+                  {pane === 'rsi' && <Line dataKey="rsi" stroke="#a855f7" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+                  {pane === 'mfi' && <ReferenceLine y={80} stroke={DOWN} strokeDasharray="3 3" />}
+                  {pane === 'mfi' && <ReferenceLine y={20} stroke={UP} strokeDasharray="3 3" />}
+                  {pane === 'mfi' && <Line dataKey="mfi" stroke="#06b6d4" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+                  {pane === 'macd' && (
+                    <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                      {data.map(bar => (
+                        <Cell key={bar.time} fill={(bar.macdHistogram ?? 0) >= 0 ? UP : DOWN} fillOpacity={0.6} />
+                      ))}
+                    </Bar>
+                  )}
+                  {pane === 'macd' && <Line dataKey="macd" stroke="#3b82f6" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+                  {pane === 'macd' && <Line dataKey="macdSignal" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+
+interface QuantSnapshot {
+  barCloseTime: string;
+  compositeScore: number;
+  signal: string;
+  output: {
+    scores: Record<string, number>;
+  };
+}
+
+interface ScoreHistoryChartProps {
+  snapshots: QuantSnapshot[];
+}
+
+const SERIES = [
+  { key: 'compositeScore', label: 'Composite', color: 'hsl(var(--primary))' },
+  { key: 'trend', label: 'Trend', color: 'hsl(var(--primary) / 0.6)' },
+  { key: 'momentum', label: 'Momentum', color: '#a855f7' },
+  { key: 'volatility', label: 'Volatility', color: '#3b82f6' },
+  { key: 'volume', label: 'Volume', color: '#eab308' },
+  { key: 'risk', label: 'Risk', color: '#ef4444' },
+  { key: 'sentiment', label: 'Sentiment', color: '#22c55e' },
+];
+
+export function ScoreHistoryChart({ snapshots }: ScoreHistoryChartProps) {
+  const [visible, setVisible] = useState<Record<string, boolean>>({ compositeScore: true, trend: true, momentum: true });
+
+  const data = snapshots.map(s => ({
+    time: new Date(s.barCloseTime).toLocaleDateString(),
+    compositeScore: s.compositeScore,
+    ...s.output.scores,
+  }));
+
+  return (
+    <div className="rounded-xl border border-border bg-card/50 p-4 backdrop-blur-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <h3 className="font-display text-lg font-medium text-foreground">Score History</h3>
+        <div className="flex flex-wrap gap-1">
+          {SERIES.map(series => (
+            <button
+              key={series.key}
+              onClick={() => setVisible({ ...visible, [series.key]: !visible[series.key] })}
+              className={`px-2 py-1 text-xs font-medium rounded-md border transition-all ${
+                visible[series.key] ? 'border-border bg-muted/50 text-foreground' : 'border-transparent text-muted-foreground hover:text-foreground'
+              }`}
+              data-testid={`toggle-history-${series.key}`}
+            >
+              <span className="inline-block h-2 w-2 rounded-full mr-1" style={{ backgroundColor: series.color }} />
+              {series.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data.length < 2 ? (
+        <div className="h-[260px] flex items-center justify-center">
+          <p className="text-muted-foreground text-sm">
+            Not enough history yet. A snapshot is stored for every bar the engine analyzes.
+          </p>
+        </div>
+      ) : (
+        <div className="h-[260px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+              <XAxis dataKey="time" hide />
+              <YAxis
+                orientation="right"
+                domain={[0, 100]}
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12, fontFamily: 'var(--font-mono)' }}
+                axisLine={false}
+                tickLine={false}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  borderColor: 'hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+                formatter={(val: number, name: string) => [val, SERIES.find(s => s.key === name)?.label ?? name]}
+              />
+              <ReferenceLine y={50} stroke="rgba(255,255,255,0.15)" strokeDasharray="4 4" />
+              {SERIES.filter(series => visible[series.key]).map(series => (
+                <Line
+                  key={series.key}
+                  type="monotone"
+                  dataKey={series.key}
+                  stroke={series.color}
+                  strokeWidth={series.key === 'compositeScore' ? 2 : 1}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
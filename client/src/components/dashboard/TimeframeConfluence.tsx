@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { Layers } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { fetchQuantConfluence } from "@/lib/api";
+
+interface TimeframeSignal {
+  interval: string;
+  signal: 'BUY' | 'SELL' | 'HOLD' | null;
+  compositeScore: number | null;
+  confidence: number | null;
+  trendDirection: 'Up' | 'Down' | 'Sideways' | null;
+  error: string | null;
+}
+
+interface Confluence {
+  confluenceScore: number;
+  bias: 'bullish' | 'bearish' | 'neutral';
+  aligned: number;
+  analyzed: number;
+  timeframes: TimeframeSignal[];
+}
+
+const SIGNAL_STYLES: Record<string, string> = {
+  BUY: 'border-green-500/30 bg-green-500/10 text-green-500',
+  SELL: 'border-red-500/30 bg-red-500/10 text-red-500',
+  HOLD: 'border-yellow-500/30 bg-yellow-500/10 text-yellow-500',
+};
+
+const BIAS_STYLES: Record<Confluence['bias'], string> = {
+  bullish: 'text-green-500',
+  bearish: 'text-red-500',
+  neutral: 'text-yellow-500',
+};
+
+export function TimeframeConfluence({ symbol }: { symbol: string }) {
+  const { data: confluence, isLoading } = useQuery<Confluence>({
+    queryKey: ['quant-mtf', symbol],
+    queryFn: () => fetchQuantConfluence(symbol),
+    refetchInterval: 300000, // Refresh every 5 minutes
+  });
+
+  return (
+    <div className="rounded-xl border border-border bg-card/50 p-6 backdrop-blur-sm" data-testid="card-timeframe-confluence">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-display text-lg font-medium text-foreground flex items-center gap-2">
+          <Layers className="h-4 w-4 text-primary" />
+          Timeframe Confluence
+        </h3>
+        {confluence && (
+          <span className={`font-mono font-bold text-lg ${BIAS_STYLES[confluence.bias]}`} data-testid="text-confluence-score">
+            {confluence.confluenceScore}/100
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : confluence ? (
+        <>
+          <div className="grid grid-cols-4 gap-2">
+            {confluence.timeframes.map(tf => (
+              <div
+                key={tf.interval}
+                className={`rounded-lg border p-2 text-center ${tf.signal ? SIGNAL_STYLES[tf.signal] : 'border-border text-muted-foreground'}`}
+                title={tf.error ?? `Trend ${tf.trendDirection}, confidence ${tf.confidence}%`}
+                data-testid={`cell-timeframe-${tf.interval}`}
+              >
+                <div className="text-xs uppercase text-muted-foreground">{tf.interval}</div>
+                <div className="font-bold text-sm">{tf.signal ?? 'N/A'}</div>
+                <div className="font-mono text-xs">{tf.compositeScore ?? '-'}</div>
+              </div>
+            ))}
+          </div>
+          <p className="mt-3 text-xs text-muted-foreground">
+            <span className={`font-medium capitalize ${BIAS_STYLES[confluence.bias]}`}>{confluence.bias}</span>
+            {' '}· {confluence.aligned} of {confluence.analyzed} timeframes aligned
+          </p>
+        </>
+      ) : (
+        <p className="text-muted-foreground text-sm">Failed to load multi-timeframe analysis</p>
+      )}
+    </div>
+  );
+}
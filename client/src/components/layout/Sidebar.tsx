@@ -4,6 +4,9 @@ import {
   LineChart, 
   Wallet, 
   BrainCircuit, 
+  Scale,
+  Bell,
+  FileText,
   Settings, 
   LogOut,
   Activity,
@@ -12,6 +15,7 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
+import { PortfolioSwitcher } from "@/components/portfolio/PortfolioSwitcher";
 
 export function Sidebar() {
   const [location] = useLocation();
@@ -22,6 +26,9 @@ export function Sidebar() {
     { href: "/markets", label: "Markets", icon: LineChart },
     { href: "/portfolio", label: "Portfolio", icon: Wallet },
     { href: "/strategies", label: "Quant Lab", icon: BrainCircuit },
+    { href: "/optimizer", label: "Optimizer", icon: Scale },
+    { href: "/alerts", label: "Alerts", icon: Bell },
+    { href: "/tax", label: "Tax Report", icon: FileText },
   ];
 
   const closeMobileMenu = () => setMobileMenuOpen(false);
@@ -88,6 +95,12 @@ export function Sidebar() {
             })}
           </nav>
 
+          {/* Portfolio */}
+          <div className="mb-4 space-y-2 px-1">
+            <span className="px-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">Portfolio</span>
+            <PortfolioSwitcher testId="select-portfolio-mobile" />
+          </div>
+
           {/* Bottom */}
           <div className="border-t border-border pt-4">
             <button 
@@ -139,6 +152,12 @@ export function Sidebar() {
             })}
           </nav>
 
+          {/* Portfolio */}
+          <div className="mb-4 space-y-2 px-1">
+            <span className="px-2 text-xs font-medium uppercase tracking-wider text-muted-foreground">Portfolio</span>
+            <PortfolioSwitcher testId="select-portfolio-sidebar" />
+          </div>
+
           {/* Bottom */}
           <div className="border-t border-border pt-4">
             <button 
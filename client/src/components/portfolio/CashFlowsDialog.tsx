@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Wallet, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createCashFlow, deleteCashFlow, fetchCashFlows } from "@/lib/api";
+
+const emptyForm = () => ({
+  type: 'deposit' as 'deposit' | 'withdrawal',
+  amount: '',
+  date: new Date().toISOString().slice(0, 10),
+  note: '',
+});
+
+/**
+ * Record deposits and withdrawals so performance can tell new money apart from returns
+ */
+export function CashFlowsDialog({ portfolioId, disabled }: { portfolioId?: number; disabled?: boolean }) {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: flows = [] } = useQuery<any[]>({
+    queryKey: ['portfolio', 'cash-flows', portfolioId],
+    queryFn: () => fetchCashFlows(portfolioId!),
+    enabled: isOpen && portfolioId !== undefined,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+
+  const addMutation = useMutation({
+    mutationFn: () => createCashFlow(portfolioId!, {
+      type: form.type,
+      amount: form.amount,
+      date: new Date(form.date),
+      note: form.note.trim() || undefined,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setForm(emptyForm());
+      setError(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => deleteCashFlow(portfolioId!, id),
+    onSuccess: () => {
+      invalidate();
+      setError(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) setError(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={portfolioId === undefined} data-testid="button-cash-flows">
+          <Wallet className="mr-2 h-4 w-4" /> Cash Flows
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border w-[95%] md:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Deposits &amp; Withdrawals</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-xs text-muted-foreground">
+          Without any recorded, each buy counts as money in and each sell as money out.
+        </p>
+
+        {!disabled && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); addMutation.mutate(); }}
+            className="grid gap-3 grid-cols-2"
+          >
+            <div>
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as typeof form.type })}>
+                <SelectTrigger className="bg-muted/50 border-border" data-testid="select-cash-flow-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deposit">Deposit</SelectItem>
+                  <SelectItem value="withdrawal">Withdrawal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="cash-flow-amount">Amount ($)</Label>
+              <Input
+                id="cash-flow-amount"
+                type="number"
+                min={0}
+                step="any"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-cash-flow-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cash-flow-date">Date</Label>
+              <Input
+                id="cash-flow-date"
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-cash-flow-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cash-flow-note">Note</Label>
+              <Input
+                id="cash-flow-note"
+                maxLength={200}
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-cash-flow-note"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="col-span-2"
+              disabled={!form.amount || !form.date || addMutation.isPending}
+              data-testid="button-add-cash-flow"
+            >
+              {addMutation.isPending ? 'Saving...' : 'Add'}
+            </Button>
+            {error && <p className="col-span-2 text-xs text-destructive">⚠ {error}</p>}
+          </form>
+        )}
+
+        {flows.length > 0 ? (
+          <div className="rounded-lg border border-border overflow-hidden">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Date</th>
+                  <th className="px-3 py-2 font-medium">Note</th>
+                  <th className="px-3 py-2 font-medium text-right">Amount</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {flows.map((flow) => (
+                  <tr key={flow.id} data-testid={`row-cash-flow-${flow.id}`}>
+                    <td className="px-3 py-2 text-muted-foreground">{new Date(flow.date).toLocaleDateString()}</td>
+                    <td className="px-3 py-2 text-muted-foreground">{flow.note}</td>
+                    <td className={`px-3 py-2 text-right font-mono ${flow.type === 'deposit' ? 'text-green-500' : 'text-red-500'}`}>
+                      {flow.type === 'deposit' ? '+' : '-'}${parseFloat(flow.amount).toFixed(2)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={disabled || deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(flow.id)}
+                        data-testid={`button-delete-cash-flow-${flow.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No deposits or withdrawals recorded</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { fetchTradeImportPresets, importTradesCsv } from "@/lib/api";
+
+const MAPPING_FIELDS: Array<{ key: string; label: string }> = [
+  { key: 'date', label: 'Date' },
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'side', label: 'Side' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'price', label: 'Price' },
+  { key: 'fee', label: 'Fee (optional)' },
+];
+
+const STATUS_STYLES: Record<string, { label: string; row: string; badge: string }> = {
+  valid: { label: 'Ready', row: '', badge: 'bg-green-500/20 text-green-500' },
+  duplicate: { label: 'Duplicate', row: 'opacity-60', badge: 'bg-yellow-500/20 text-yellow-500' },
+  invalid: { label: 'Error', row: 'bg-red-500/10', badge: 'bg-red-500/20 text-red-500' },
+  skipped: { label: 'Skipped', row: 'opacity-60', badge: 'bg-muted text-muted-foreground' },
+};
+
+/**
+ * Import trades from an exchange CSV: pick a layout, preview the validated rows, then import the valid ones
+ */
+export function ImportTradesDialog({ portfolioId, disabled }: { portfolioId?: number; disabled?: boolean }) {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [csv, setCsv] = useState('');
+  const [preset, setPreset] = useState('generic');
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<any>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: presets = [] } = useQuery<any[]>({
+    queryKey: ['trade-import-presets'],
+    queryFn: fetchTradeImportPresets,
+    enabled: isOpen,
+  });
+  const presetColumns = presets.find((p) => p.name === preset)?.columns || {};
+
+  const reset = () => {
+    setCsv('');
+    setMapping({});
+    setPreview(null);
+    setError(null);
+  };
+
+  // Any change to the input invalidates the preview
+  const edit = (apply: () => void) => {
+    apply();
+    setPreview(null);
+    setError(null);
+  };
+
+  const request = (dryRun: boolean) => importTradesCsv(portfolioId!, {
+    csv,
+    preset,
+    mapping: preset === 'generic' ? Object.fromEntries(Object.entries(mapping).filter(([, column]) => column.trim())) : undefined,
+    dryRun,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => request(true),
+    onSuccess: (result) => {
+      setPreview(result);
+      setError(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => request(false),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-report'] });
+      setIsOpen(false);
+      reset();
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    edit(() => setCsv(text));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled || portfolioId === undefined} data-testid="button-import-trades">
+          <Upload className="mr-2 h-4 w-4" /> Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border w-[95%] md:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Trades from CSV</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label>Layout</Label>
+              <Select value={preset} onValueChange={(value) => edit(() => setPreset(value))}>
+                <SelectTrigger className="bg-muted/50 border-border" data-testid="select-import-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map((p) => (
+                    <SelectItem key={p.name} value={p.name}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="bg-muted/50 border-border"
+                data-testid="input-import-file"
+              />
+            </div>
+          </div>
+
+          {preset === 'generic' && (
+            <div>
+              <Label>Column Names</Label>
+              <div className="grid gap-2 grid-cols-2 sm:grid-cols-3 mt-1">
+                {MAPPING_FIELDS.map(({ key, label }) => (
+                  <Input
+                    key={key}
+                    placeholder={`${label}: ${presetColumns[key] ?? ''}`}
+                    value={mapping[key] ?? ''}
+                    onChange={(e) => edit(() => setMapping({ ...mapping, [key]: e.target.value }))}
+                    className="bg-muted/50 border-border"
+                    data-testid={`input-import-column-${key}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="import-csv">Or paste CSV</Label>
+            <Textarea
+              id="import-csv"
+              rows={5}
+              value={csv}
+              onChange={(e) => edit(() => setCsv(e.target.value))}
+              className="bg-muted/50 border-border font-mono text-xs"
+              data-testid="input-import-csv"
+            />
+          </div>
+
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={!csv.trim() || previewMutation.isPending}
+            onClick={() => previewMutation.mutate()}
+            data-testid="button-preview-import"
+          >
+            {previewMutation.isPending ? 'Checking...' : 'Preview'}
+          </Button>
+
+          {preview && (
+            <>
+              <p className="text-sm text-muted-foreground" data-testid="text-import-counts">
+                {preview.counts.valid} ready · {preview.counts.duplicate} duplicates · {preview.counts.invalid} with errors · {preview.counts.skipped} skipped
+              </p>
+              <div className="rounded-lg border border-border overflow-x-auto max-h-72">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-muted/30 text-muted-foreground sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Date</th>
+                      <th className="px-3 py-2 font-medium">Symbol</th>
+                      <th className="px-3 py-2 font-medium">Side</th>
+                      <th className="px-3 py-2 font-medium text-right">Quantity</th>
+                      <th className="px-3 py-2 font-medium text-right">Price</th>
+                      <th className="px-3 py-2 font-medium text-right">Fee</th>
+                      <th className="px-3 py-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {preview.rows.map((row: any) => {
+                      const style = STATUS_STYLES[row.status];
+                      const values = row.values;
+                      return (
+                        <tr key={row.row} className={style.row} data-testid={`row-import-${row.row}`}>
+                          <td className="px-3 py-2 font-mono text-muted-foreground">{row.row}</td>
+                          <td className="px-3 py-2">
+                            {row.trade ? new Date(row.trade.date).toLocaleString() : values[preview.mapping.date]}
+                          </td>
+                          <td className="px-3 py-2 font-bold">{row.trade?.symbol ?? values[preview.mapping.symbol]}</td>
+                          <td className="px-3 py-2">{row.trade?.side ?? values[preview.mapping.side]}</td>
+                          <td className="px-3 py-2 text-right font-mono">{row.trade?.quantity ?? values[preview.mapping.quantity]}</td>
+                          <td className="px-3 py-2 text-right font-mono">{row.trade?.buyPrice ?? values[preview.mapping.price]}</td>
+                          <td className="px-3 py-2 text-right font-mono">{row.trade?.tax ?? (preview.mapping.fee ? values[preview.mapping.fee] : '')}</td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 rounded font-medium ${style.badge}`}>{style.label}</span>
+                            {[...row.errors, ...row.warnings].map((message: string) => (
+                              <div key={message} className={row.errors.includes(message) ? 'text-red-500 mt-1' : 'text-muted-foreground mt-1'}>
+                                {message}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <Button
+                className="w-full"
+                disabled={preview.counts.valid === 0 || importMutation.isPending}
+                onClick={() => importMutation.mutate()}
+                data-testid="button-confirm-import"
+              >
+                {importMutation.isPending ? 'Importing...' : `Import ${preview.counts.valid} Trade${preview.counts.valid === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+
+          {error && <p className="text-xs text-destructive">⚠ {error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
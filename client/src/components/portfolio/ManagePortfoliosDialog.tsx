@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Settings2, Plus, Trash2, Archive, ArchiveRestore, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { createPortfolio, updatePortfolio, deletePortfolio } from "@/lib/api";
+import { usePortfolioSelection } from "@/hooks/usePortfolioSelection";
+
+function PortfolioRow({ portfolio, onError }: { portfolio: any; onError: (message: string | null) => void }) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(portfolio.name);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['portfolios'] });
+    queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+    queryClient.invalidateQueries({ queryKey: ['tax-report'] });
+    onError(null);
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (update: { name?: string; archived?: boolean }) => updatePortfolio(portfolio.id, update),
+    onSuccess: invalidate,
+    onError: (error: Error) => onError(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deletePortfolio(portfolio.id),
+    onSuccess: invalidate,
+    onError: (error: Error) => onError(error.message),
+  });
+
+  const renamed = name.trim() !== '' && name.trim() !== portfolio.name;
+
+  return (
+    <div className="flex items-center gap-2" data-testid={`row-portfolio-${portfolio.id}`}>
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className={`bg-muted/50 border-border ${portfolio.archived ? 'text-muted-foreground' : ''}`}
+        data-testid={`input-portfolio-name-${portfolio.id}`}
+      />
+      <Button
+        size="icon"
+        variant="ghost"
+        disabled={!renamed || updateMutation.isPending}
+        onClick={() => updateMutation.mutate({ name: name.trim() })}
+        title="Rename"
+        data-testid={`button-rename-portfolio-${portfolio.id}`}
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        disabled={updateMutation.isPending}
+        onClick={() => updateMutation.mutate({ archived: !portfolio.archived })}
+        title={portfolio.archived ? 'Unarchive' : 'Archive'}
+        data-testid={`button-archive-portfolio-${portfolio.id}`}
+      >
+        {portfolio.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="text-destructive hover:text-destructive/80 hover:bg-destructive/10"
+        disabled={deleteMutation.isPending}
+        onClick={() => {
+          if (confirm(`Delete "${portfolio.name}" and all of its trades?`)) deleteMutation.mutate();
+        }}
+        title="Delete"
+        data-testid={`button-delete-portfolio-${portfolio.id}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Create, rename, archive and delete portfolios
+ */
+export function ManagePortfoliosDialog() {
+  const queryClient = useQueryClient();
+  const { portfolios, select } = usePortfolioSelection();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: createPortfolio,
+    onSuccess: (portfolio) => {
+      queryClient.invalidateQueries({ queryKey: ['portfolios'] });
+      select(portfolio.id);
+      setNewName('');
+      setError(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) createMutation.mutate(newName.trim());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className="shrink-0" title="Manage portfolios" data-testid="button-manage-portfolios">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border w-[90%] md:w-full max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage Portfolios</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {portfolios.map((portfolio: any) => (
+            // Keyed by name too so the input resets after a rename elsewhere
+            <PortfolioRow key={`${portfolio.id}-${portfolio.name}`} portfolio={portfolio} onError={setError} />
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Archived portfolios are read-only and left out of the "All portfolios" view.
+        </p>
+
+        <form onSubmit={handleCreate} className="space-y-2 pt-4 border-t border-border">
+          <Label htmlFor="new-portfolio">New Portfolio</Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-portfolio"
+              placeholder="Long-term, Trading..."
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="bg-muted/50 border-border"
+              data-testid="input-new-portfolio"
+            />
+            <Button type="submit" disabled={!newName.trim() || createMutation.isPending} data-testid="button-create-portfolio">
+              <Plus className="mr-2 h-4 w-4" /> Create
+            </Button>
+          </div>
+        </form>
+
+        {error && <p className="text-xs text-destructive">⚠ {error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
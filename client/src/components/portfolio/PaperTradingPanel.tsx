@@ -0,0 +1,443 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  cancelOrder,
+  fetchOrders,
+  fetchPaperAccount,
+  openPaperAccount,
+  placeOrder,
+  updatePaperSettings,
+  type OrderSide,
+  type OrderType,
+} from "@/lib/api";
+
+const MATCH_REFRESH = 15 * 1000; // Matches the server's matching loop
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const STATUS_STYLES: Record<string, string> = {
+  open: 'bg-blue-500/10 text-blue-500',
+  filled: 'bg-green-500/10 text-green-500',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+const emptyTicket = () => ({
+  symbol: '',
+  side: 'buy' as OrderSide,
+  type: 'market' as OrderType,
+  quantity: '',
+  limitPrice: '',
+});
+
+/**
+ * Simulated trading against a virtual cash balance: enable the account, place market and limit
+ * orders and follow them from open to filled or cancelled
+ */
+export function PaperTradingPanel({ portfolioId, disabled }: { portfolioId?: number; disabled?: boolean }) {
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState({ startingCash: '10000', slippageBps: '5', feePercent: '0.1' });
+  const [settings, setSettings] = useState<{ slippageBps: string; feePercent: string } | null>(null);
+  const [ticket, setTicket] = useState(emptyTicket);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: account, isLoading } = useQuery({
+    queryKey: ['portfolio', 'paper', portfolioId],
+    queryFn: () => fetchPaperAccount(portfolioId!),
+    enabled: portfolioId !== undefined,
+  });
+
+  const { data: orders = [] } = useQuery<any[]>({
+    queryKey: ['portfolio', 'orders', portfolioId],
+    queryFn: () => fetchOrders(portfolioId!),
+    enabled: portfolioId !== undefined && !!account,
+    // Resting limit orders fill in the background; poll until none are left
+    refetchInterval: (query) => (query.state.data?.some((o: any) => o.status === 'open') ? MATCH_REFRESH : false),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+    queryClient.invalidateQueries({ queryKey: ['tax-report'] });
+  };
+
+  const openMutation = useMutation({
+    mutationFn: () => openPaperAccount(portfolioId!, {
+      startingCash: parseFloat(setup.startingCash),
+      slippageBps: parseInt(setup.slippageBps) || 0,
+      feeRate: (parseFloat(setup.feePercent) || 0) / 100,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setError(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: () => updatePaperSettings(portfolioId!, {
+      slippageBps: parseInt(settings!.slippageBps) || 0,
+      feeRate: (parseFloat(settings!.feePercent) || 0) / 100,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setSettings(null);
+      setError(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const placeMutation = useMutation({
+    mutationFn: () => placeOrder(portfolioId!, {
+      symbol: ticket.symbol.trim().toUpperCase(),
+      side: ticket.side,
+      type: ticket.type,
+      quantity: ticket.quantity,
+      limitPrice: ticket.type === 'limit' ? ticket.limitPrice : undefined,
+    }),
+    onSuccess: (order: any) => {
+      invalidate();
+      setTicket(emptyTicket());
+      setError(order.status === 'cancelled' ? order.cancelReason : null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (orderId: number) => cancelOrder(portfolioId!, orderId),
+    onSuccess: invalidate,
+    onError: (error: Error) => setError(error.message),
+  });
+
+  if (portfolioId === undefined) {
+    return (
+      <div className="rounded-xl border border-border bg-card/50 p-12 text-center backdrop-blur-sm">
+        <p className="text-muted-foreground">Select a single portfolio to paper trade</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-[300px] w-full" />;
+  }
+
+  if (!account) {
+    return (
+      <div className="rounded-xl border border-border bg-card/50 p-6 backdrop-blur-sm max-w-xl">
+        <h2 className="text-lg font-bold text-foreground mb-1">Enable Paper Trading</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Orders fill against live prices with simulated slippage and fees, using a virtual cash balance.
+          The starting balance is recorded as a deposit.
+        </p>
+        <form
+          onSubmit={(e) => { e.preventDefault(); openMutation.mutate(); }}
+          className="grid gap-3 grid-cols-3"
+        >
+          <div>
+            <Label htmlFor="paper-starting-cash">Starting Cash ($)</Label>
+            <Input
+              id="paper-starting-cash"
+              type="number"
+              min={0}
+              step="any"
+              value={setup.startingCash}
+              onChange={(e) => setSetup({ ...setup, startingCash: e.target.value })}
+              className="bg-muted/50 border-border"
+              data-testid="input-paper-starting-cash"
+            />
+          </div>
+          <div>
+            <Label htmlFor="paper-slippage">Slippage (bps)</Label>
+            <Input
+              id="paper-slippage"
+              type="number"
+              min={0}
+              max={500}
+              step={1}
+              value={setup.slippageBps}
+              onChange={(e) => setSetup({ ...setup, slippageBps: e.target.value })}
+              className="bg-muted/50 border-border"
+              data-testid="input-paper-slippage"
+            />
+          </div>
+          <div>
+            <Label htmlFor="paper-fee">Fee (%)</Label>
+            <Input
+              id="paper-fee"
+              type="number"
+              min={0}
+              max={5}
+              step="any"
+              value={setup.feePercent}
+              onChange={(e) => setSetup({ ...setup, feePercent: e.target.value })}
+              className="bg-muted/50 border-border"
+              data-testid="input-paper-fee"
+            />
+          </div>
+          <Button
+            type="submit"
+            className="col-span-3"
+            disabled={disabled || !(parseFloat(setup.startingCash) > 0) || openMutation.isPending}
+            data-testid="button-enable-paper"
+          >
+            {openMutation.isPending ? 'Enabling...' : 'Enable Paper Trading'}
+          </Button>
+          {error && <p className="col-span-3 text-xs text-destructive">⚠ {error}</p>}
+        </form>
+      </div>
+    );
+  }
+
+  const metricCards = [
+    { label: 'Cash', value: formatMoney(account.cash) },
+    { label: 'Committed', value: formatMoney(account.reservedCash) },
+    { label: 'Available', value: formatMoney(account.availableCash) },
+    { label: 'Holdings', value: formatMoney(account.holdingsValue) },
+    { label: 'Equity', value: formatMoney(account.equity) },
+  ];
+  const feePercent = parseFloat(account.account.feeRate) * 100;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        {metricCards.map(card => (
+          <div key={card.label} className="rounded-xl border border-border bg-card/50 p-4">
+            <div className="text-xs text-muted-foreground mb-1">{card.label}</div>
+            <div className="font-mono font-bold text-lg text-foreground" data-testid={`text-paper-${card.label.toLowerCase()}`}>
+              {card.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Order ticket */}
+        <div className="rounded-xl border border-border bg-card/50 p-6 backdrop-blur-sm lg:col-span-2">
+          <h2 className="text-lg font-bold text-foreground mb-4">New Order</h2>
+          <form
+            onSubmit={(e) => { e.preventDefault(); placeMutation.mutate(); }}
+            className="grid gap-3 grid-cols-2 md:grid-cols-5 items-end"
+          >
+            <div>
+              <Label htmlFor="order-symbol">Symbol</Label>
+              <Input
+                id="order-symbol"
+                placeholder="BTC"
+                value={ticket.symbol}
+                onChange={(e) => setTicket({ ...ticket, symbol: e.target.value.toUpperCase() })}
+                className="bg-muted/50 border-border"
+                data-testid="input-order-symbol"
+              />
+            </div>
+            <div>
+              <Label>Side</Label>
+              <Select value={ticket.side} onValueChange={(value) => setTicket({ ...ticket, side: value as OrderSide })}>
+                <SelectTrigger className="bg-muted/50 border-border" data-testid="select-order-side">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buy">Buy</SelectItem>
+                  <SelectItem value="sell">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={ticket.type} onValueChange={(value) => setTicket({ ...ticket, type: value as OrderType })}>
+                <SelectTrigger className="bg-muted/50 border-border" data-testid="select-order-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="market">Market</SelectItem>
+                  <SelectItem value="limit">Limit</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="order-quantity">Quantity</Label>
+              <Input
+                id="order-quantity"
+                type="number"
+                min={0}
+                step="any"
+                value={ticket.quantity}
+                onChange={(e) => setTicket({ ...ticket, quantity: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-order-quantity"
+              />
+            </div>
+            <div>
+              <Label htmlFor="order-limit-price">Limit Price ($)</Label>
+              <Input
+                id="order-limit-price"
+                type="number"
+                min={0}
+                step="any"
+                disabled={ticket.type !== 'limit'}
+                value={ticket.limitPrice}
+                onChange={(e) => setTicket({ ...ticket, limitPrice: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-order-limit-price"
+              />
+            </div>
+            <Button
+              type="submit"
+              className={`col-span-2 md:col-span-5 text-white ${ticket.side === 'buy' ? 'bg-green-500 hover:bg-green-600' : 'bg-red-500 hover:bg-red-600'}`}
+              disabled={
+                disabled || !ticket.symbol.trim() || !ticket.quantity
+                || (ticket.type === 'limit' && !ticket.limitPrice) || placeMutation.isPending
+              }
+              data-testid="button-place-order"
+            >
+              {placeMutation.isPending ? 'Placing...' : `Place ${ticket.type} ${ticket.side}`}
+            </Button>
+            {error && <p className="col-span-2 md:col-span-5 text-xs text-destructive">⚠ {error}</p>}
+          </form>
+        </div>
+
+        {/* Execution settings */}
+        <div className="rounded-xl border border-border bg-card/50 p-6 backdrop-blur-sm">
+          <h2 className="text-lg font-bold text-foreground mb-4">Execution</h2>
+          {settings ? (
+            <form
+              onSubmit={(e) => { e.preventDefault(); settingsMutation.mutate(); }}
+              className="grid gap-3 grid-cols-2"
+            >
+              <div>
+                <Label htmlFor="paper-settings-slippage">Slippage (bps)</Label>
+                <Input
+                  id="paper-settings-slippage"
+                  type="number"
+                  min={0}
+                  max={500}
+                  step={1}
+                  value={settings.slippageBps}
+                  onChange={(e) => setSettings({ ...settings, slippageBps: e.target.value })}
+                  className="bg-muted/50 border-border"
+                  data-testid="input-paper-settings-slippage"
+                />
+              </div>
+              <div>
+                <Label htmlFor="paper-settings-fee">Fee (%)</Label>
+                <Input
+                  id="paper-settings-fee"
+                  type="number"
+                  min={0}
+                  max={5}
+                  step="any"
+                  value={settings.feePercent}
+                  onChange={(e) => setSettings({ ...settings, feePercent: e.target.value })}
+                  className="bg-muted/50 border-border"
+                  data-testid="input-paper-settings-fee"
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={() => setSettings(null)}>Cancel</Button>
+              <Button type="submit" disabled={settingsMutation.isPending} data-testid="button-save-paper-settings">
+                {settingsMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </form>
+          ) : (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Slippage</span>
+                <span className="font-mono" data-testid="text-paper-slippage">{account.account.slippageBps} bps</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Fee</span>
+                <span className="font-mono" data-testid="text-paper-fee">{feePercent.toFixed(2)}%</span>
+              </div>
+              <Button
+                variant="outline"
+                className="w-full mt-2"
+                disabled={disabled}
+                onClick={() => setSettings({ slippageBps: account.account.slippageBps.toString(), feePercent: feePercent.toString() })}
+                data-testid="button-edit-paper-settings"
+              >
+                Edit
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Orders */}
+      <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+        <div className="px-6 py-4 border-b border-border">
+          <h2 className="text-lg font-bold text-foreground">Orders</h2>
+        </div>
+        {orders.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 text-muted-foreground">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Placed</th>
+                  <th className="px-6 py-3 font-medium">Asset</th>
+                  <th className="px-6 py-3 font-medium">Order</th>
+                  <th className="px-6 py-3 font-medium text-right">Quantity</th>
+                  <th className="px-6 py-3 font-medium text-right">Limit</th>
+                  <th className="px-6 py-3 font-medium">Status</th>
+                  <th className="px-6 py-3 font-medium text-right">Fill Price</th>
+                  <th className="px-6 py-3 font-medium text-right">Fee</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {orders.map((order) => (
+                  <tr key={order.id} className="hover:bg-white/5" data-testid={`row-order-${order.id}`}>
+                    <td className="px-6 py-4 text-muted-foreground">{new Date(order.createdAt).toLocaleString()}</td>
+                    <td className="px-6 py-4 font-bold">{order.symbol}</td>
+                    <td className={`px-6 py-4 capitalize ${order.side === 'buy' ? 'text-green-500' : 'text-red-500'}`}>
+                      {order.type} {order.side}
+                    </td>
+                    <td className="px-6 py-4 text-right font-mono">{parseFloat(order.quantity)}</td>
+                    <td className="px-6 py-4 text-right font-mono">
+                      {order.limitPrice ? `$${parseFloat(order.limitPrice).toFixed(2)}` : '-'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`rounded px-2 py-0.5 text-xs font-medium capitalize ${STATUS_STYLES[order.status]}`}
+                        title={order.cancelReason ?? undefined}
+                        data-testid={`status-order-${order.id}`}
+                      >
+                        {order.status}
+                      </span>
+                      {order.cancelReason && (
+                        <div className="mt-1 text-xs text-muted-foreground">{order.cancelReason}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right font-mono">
+                      {order.fillPrice ? `$${parseFloat(order.fillPrice).toFixed(2)}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-right font-mono">
+                      {order.fee ? `$${parseFloat(order.fee).toFixed(2)}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {order.status === 'open' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={disabled || cancelMutation.isPending}
+                          onClick={() => cancelMutation.mutate(order.id)}
+                          data-testid={`button-cancel-order-${order.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">No orders placed yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
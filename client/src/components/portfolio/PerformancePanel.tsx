@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { fetchPerformance, type PortfolioSelection } from "@/lib/api";
+
+const RANGES = [
+  { days: 30, label: '30D' },
+  { days: 90, label: '90D' },
+  { days: 365, label: '1Y' },
+  { days: 1095, label: '3Y' },
+];
+
+const SERIES_LABELS: Record<string, string> = {
+  twrIndex: 'Portfolio',
+  btcIndex: 'BTC',
+  top10Index: 'Top 10 (equal weight)',
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? '-' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Growth of 100 (time-weighted, so deposits and withdrawals don't count) against BTC and the top 10
+ */
+export function PerformancePanel({ selection }: { selection?: PortfolioSelection }) {
+  const [days, setDays] = useState(365);
+
+  const { data: performance, isLoading } = useQuery({
+    queryKey: ['portfolio', 'performance', selection, days],
+    queryFn: () => fetchPerformance(selection!, days),
+    enabled: selection !== undefined,
+  });
+
+  const metricCards = performance ? [
+    { label: 'Time-Weighted', value: performance.twr },
+    { label: 'TWR (annualized)', value: performance.twrAnnualized },
+    { label: 'Money-Weighted (annualized)', value: performance.mwr },
+    { label: 'BTC', value: performance.benchmarks.btc },
+    { label: 'Top 10', value: performance.benchmarks.top10 },
+  ] : [];
+
+  return (
+    <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm mb-8">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between gap-4">
+        <h2 className="text-lg font-bold text-foreground">Performance</h2>
+        <Select value={days.toString()} onValueChange={(value) => setDays(parseInt(value))}>
+          <SelectTrigger className="w-24 bg-muted/50 border-border" data-testid="select-performance-range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map(range => (
+              <SelectItem key={range.days} value={range.days.toString()}>{range.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="p-6">
+          <Skeleton className="h-[300px] w-full" />
+        </div>
+      ) : performance?.points.length > 0 ? (
+        <div className="p-6 space-y-4">
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+            {metricCards.map(card => (
+              <div key={card.label} className="rounded-xl border border-border bg-card/50 p-4">
+                <div className="text-xs text-muted-foreground mb-1">{card.label}</div>
+                <div
+                  className={`font-mono font-bold text-lg ${card.value === null ? 'text-muted-foreground' : card.value >= 0 ? 'text-green-500' : 'text-red-500'}`}
+                  data-testid={`text-performance-${card.label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`}
+                >
+                  {formatPercent(card.value)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-[300px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={performance.points}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  axisLine={false}
+                  tickLine={false}
+                  minTickGap={40}
+                />
+                <YAxis
+                  orientation="right"
+                  domain={['auto', 'auto']}
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12, fontFamily: 'var(--font-mono)' }}
+                  axisLine={false}
+                  tickLine={false}
+                  tickFormatter={(val) => Math.round(val).toString()}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    borderColor: 'hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(val: number, name: string) => [val.toFixed(2), SERIES_LABELS[name] ?? name]}
+                />
+                <Legend formatter={(name) => SERIES_LABELS[name] ?? name} />
+                <Line type="monotone" dataKey="twrIndex" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="btcIndex" stroke="#f7931a" strokeWidth={1} dot={false} connectNulls />
+                <Line type="monotone" dataKey="top10Index" stroke="hsl(var(--muted-foreground))" strokeWidth={1} dot={false} strokeDasharray="4 4" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {performance.missingPrices.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              No daily closes for {performance.missingPrices.join(', ')}; valued at the last known price.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="p-12 text-center">
+          <p className="text-muted-foreground">No trades to measure yet</p>
+        </div>
+      )}
+    </div>
+  );
+}
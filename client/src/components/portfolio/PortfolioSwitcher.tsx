@@ -0,0 +1,40 @@
+import { Layers } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePortfolioSelection } from "@/hooks/usePortfolioSelection";
+import { cn } from "@/lib/utils";
+
+/**
+ * Pick the active portfolio or the combined "All portfolios" view. Archived portfolios are hidden
+ * unless one is currently selected.
+ */
+export function PortfolioSwitcher({ className, testId = "select-portfolio" }: { className?: string; testId?: string }) {
+  const { portfolios, selection, select } = usePortfolioSelection();
+  const options = portfolios.filter((p: any) => !p.archived || p.id === selection);
+  const activeCount = portfolios.filter((p: any) => !p.archived).length;
+
+  return (
+    <Select
+      value={selection === undefined ? "" : selection.toString()}
+      onValueChange={(value) => select(value === "all" ? "all" : parseInt(value))}
+    >
+      <SelectTrigger className={cn("bg-muted/50 border-border", className)} data-testid={testId}>
+        <SelectValue placeholder="Select portfolio" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((portfolio: any) => (
+          <SelectItem key={portfolio.id} value={portfolio.id.toString()}>
+            {portfolio.name}
+            {portfolio.archived && " (archived)"}
+          </SelectItem>
+        ))}
+        {(activeCount > 1 || selection === "all") && (
+          <SelectItem value="all">
+            <span className="flex items-center gap-2">
+              <Layers className="h-3 w-3" /> All portfolios
+            </span>
+          </SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Scale, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { optimizeAllocation, rebalancePortfolio, type AllocationObjective } from "@/lib/api";
+
+const TARGET_SOURCES: Array<{ value: 'current' | 'equal' | AllocationObjective; label: string }> = [
+  { value: 'current', label: 'Current weights' },
+  { value: 'equal', label: 'Equal weight' },
+  { value: 'mean-variance', label: 'Optimizer: Mean-Variance' },
+  { value: 'min-variance', label: 'Optimizer: Minimum Variance' },
+  { value: 'risk-parity', label: 'Optimizer: Risk Parity' },
+  { value: 'score-tilted', label: 'Optimizer: Quant Score Tilt' },
+];
+
+const ACTION_STYLES: Record<string, string> = {
+  buy: 'bg-green-500/20 text-green-500',
+  sell: 'bg-red-500/20 text-red-500',
+  hold: 'bg-muted text-muted-foreground',
+};
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+type Target = { symbol: string; weight: string };
+
+/**
+ * Set target weights (by hand or from the optimizer), preview the orders, then save them as trades
+ */
+export function RebalanceDialog({ portfolioId, holdings, disabled }: { portfolioId?: number; holdings: any[]; disabled?: boolean }) {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [targets, setTargets] = useState<Target[]>([]);
+  const [newSymbol, setNewSymbol] = useState('');
+  const [settings, setSettings] = useState({ driftBand: '5', minTradeValue: '10', cash: '0' });
+  const [plan, setPlan] = useState<any>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalValue = holdings.reduce((sum, h) => sum + h.value, 0);
+  const targetSum = targets.reduce((sum, t) => sum + (parseFloat(t.weight) || 0), 0);
+
+  // Any change to the inputs invalidates the plan
+  const edit = (apply: () => void) => {
+    apply();
+    setPlan(null);
+    setError(null);
+  };
+
+  const currentTargets = (): Target[] => holdings.map(h => ({
+    symbol: h.symbol,
+    weight: totalValue > 0 ? ((h.value / totalValue) * 100).toFixed(2) : '0',
+  }));
+
+  const optimizeMutation = useMutation({
+    mutationFn: (objective: AllocationObjective) => optimizeAllocation({
+      symbols: targets.map(t => t.symbol),
+      objective,
+      maxWeight: 1,
+    }),
+    onSuccess: (result) => edit(() => setTargets(
+      result.allocations.map((a: any) => ({ symbol: a.symbol, weight: a.weight.toFixed(2) }))
+    )),
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const applySource = (source: string) => {
+    if (source === 'current') {
+      edit(() => setTargets(currentTargets()));
+    } else if (source === 'equal') {
+      edit(() => setTargets(targets.map(t => ({ ...t, weight: (100 / targets.length).toFixed(2) }))));
+    } else {
+      optimizeMutation.mutate(source as AllocationObjective);
+    }
+  };
+
+  const request = (dryRun: boolean) => rebalancePortfolio(portfolioId!, {
+    targets: targets.map(t => ({ symbol: t.symbol, weight: parseFloat(t.weight) || 0 })),
+    driftBand: parseFloat(settings.driftBand) || 0,
+    minTradeValue: parseFloat(settings.minTradeValue) || 0,
+    cash: parseFloat(settings.cash) || 0,
+    dryRun,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => request(true),
+    onSuccess: (result) => {
+      setPlan(result);
+      setError(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const executeMutation = useMutation({
+    mutationFn: () => request(false),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-report'] });
+      setIsOpen(false);
+      setPlan(null);
+    },
+    onError: (error: Error) => setError(error.message),
+  });
+
+  const addSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol || targets.some(t => t.symbol === symbol)) return;
+    edit(() => setTargets([...targets, { symbol, weight: '0' }]));
+    setNewSymbol('');
+  };
+
+  const orderCount = plan?.rows.filter((r: any) => r.action !== 'hold').length ?? 0;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) setTargets(currentTargets());
+        setPlan(null);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled || portfolioId === undefined || holdings.length === 0} data-testid="button-rebalance">
+          <Scale className="mr-2 h-4 w-4" /> Rebalance
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-card border-border w-[95%] md:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rebalance Portfolio</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label>Targets from</Label>
+              <Select value="" onValueChange={applySource} disabled={optimizeMutation.isPending}>
+                <SelectTrigger className="bg-muted/50 border-border" data-testid="select-rebalance-source">
+                  <SelectValue placeholder={optimizeMutation.isPending ? 'Optimizing...' : 'Choose...'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {TARGET_SOURCES.map(source => (
+                    <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="rebalance-add-symbol">Add coin</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="rebalance-add-symbol"
+                  placeholder="SOL"
+                  value={newSymbol}
+                  onChange={(e) => setNewSymbol(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addSymbol(); } }}
+                  className="bg-muted/50 border-border"
+                  data-testid="input-rebalance-add-symbol"
+                />
+                <Button variant="outline" onClick={addSymbol} data-testid="button-rebalance-add-symbol">Add</Button>
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-lg border border-border overflow-hidden">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Asset</th>
+                  <th className="px-3 py-2 font-medium text-right">Target (%)</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {targets.map((target, i) => (
+                  <tr key={target.symbol}>
+                    <td className="px-3 py-2 font-bold">{target.symbol}</td>
+                    <td className="px-3 py-2 text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="any"
+                        value={target.weight}
+                        onChange={(e) => edit(() => setTargets(targets.map((t, j) => (j === i ? { ...t, weight: e.target.value } : t))))}
+                        className="ml-auto w-28 bg-muted/50 border-border text-right font-mono"
+                        data-testid={`input-rebalance-weight-${target.symbol}`}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => edit(() => setTargets(targets.filter((_, j) => j !== i)))}
+                        data-testid={`button-rebalance-remove-${target.symbol}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className={`text-xs ${targetSum > 100.01 ? 'text-destructive' : 'text-muted-foreground'}`} data-testid="text-rebalance-target-sum">
+            Targets add up to {targetSum.toFixed(2)}%{targetSum < 99.99 ? '; the rest is left as cash' : ''}. Held coins without a target are sold.
+          </p>
+
+          <div className="grid gap-4 grid-cols-3">
+            <div>
+              <Label htmlFor="rebalance-drift">Drift band (pts)</Label>
+              <Input
+                id="rebalance-drift"
+                type="number"
+                min={0}
+                max={50}
+                step="any"
+                value={settings.driftBand}
+                onChange={(e) => edit(() => setSettings({ ...settings, driftBand: e.target.value }))}
+                className="bg-muted/50 border-border"
+                data-testid="input-rebalance-drift"
+              />
+            </div>
+            <div>
+              <Label htmlFor="rebalance-min-trade">Min trade ($)</Label>
+              <Input
+                id="rebalance-min-trade"
+                type="number"
+                min={0}
+                step="any"
+                value={settings.minTradeValue}
+                onChange={(e) => edit(() => setSettings({ ...settings, minTradeValue: e.target.value }))}
+                className="bg-muted/50 border-border"
+                data-testid="input-rebalance-min-trade"
+              />
+            </div>
+            <div>
+              <Label htmlFor="rebalance-cash">New cash ($)</Label>
+              <Input
+                id="rebalance-cash"
+                type="number"
+                min={0}
+                step="any"
+                value={settings.cash}
+                onChange={(e) => edit(() => setSettings({ ...settings, cash: e.target.value }))}
+                className="bg-muted/50 border-border"
+                data-testid="input-rebalance-cash"
+              />
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={targets.length === 0 || targetSum > 100.01 || previewMutation.isPending}
+            onClick={() => previewMutation.mutate()}
+            data-testid="button-preview-rebalance"
+          >
+            {previewMutation.isPending ? 'Planning...' : 'Preview Orders'}
+          </Button>
+
+          {plan && (
+            <>
+              <div className="rounded-lg border border-border overflow-x-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-muted/30 text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Asset</th>
+                      <th className="px-3 py-2 font-medium text-right">Current</th>
+                      <th className="px-3 py-2 font-medium text-right">Target</th>
+                      <th className="px-3 py-2 font-medium">Order</th>
+                      <th className="px-3 py-2 font-medium text-right">Quantity</th>
+                      <th className="px-3 py-2 font-medium text-right">Value</th>
+                      <th className="px-3 py-2 font-medium text-right">Fee</th>
+                      <th className="px-3 py-2 font-medium text-right">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {plan.rows.map((row: any) => (
+                      <tr key={row.symbol} data-testid={`row-rebalance-${row.symbol}`}>
+                        <td className="px-3 py-2 font-bold">{row.symbol}</td>
+                        <td className="px-3 py-2 text-right font-mono">{row.currentWeight.toFixed(1)}%</td>
+                        <td className="px-3 py-2 text-right font-mono">{row.targetWeight.toFixed(1)}%</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded font-medium uppercase ${ACTION_STYLES[row.action]}`}>{row.action}</span>
+                          {row.reason && <div className="text-muted-foreground mt-1">{row.reason}</div>}
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono">{row.quantity > 0 ? parseFloat(row.quantity.toFixed(8)) : '-'}</td>
+                        <td className="px-3 py-2 text-right font-mono">{row.value > 0 ? formatMoney(row.value) : '-'}</td>
+                        <td className="px-3 py-2 text-right font-mono">{row.fee > 0 ? formatMoney(row.fee) : '-'}</td>
+                        <td className="px-3 py-2 text-right font-mono">{row.postWeight.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-sm text-muted-foreground" data-testid="text-rebalance-totals">
+                Buy {formatMoney(plan.totals.buyValue)} · Sell {formatMoney(plan.totals.sellValue)} · Fees {formatMoney(plan.totals.fees)} · Turnover {plan.totals.turnover.toFixed(1)}% · Cash left {formatMoney(plan.totals.residualCash)}
+              </p>
+
+              <Button
+                className="w-full"
+                disabled={orderCount === 0 || executeMutation.isPending}
+                onClick={() => executeMutation.mutate()}
+                data-testid="button-execute-rebalance"
+              >
+                {executeMutation.isPending ? 'Saving...' : `Execute ${orderCount} Order${orderCount === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+
+          {error && <p className="text-xs text-destructive">⚠ {error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { fetchPortfolioRisk, type PortfolioSelection } from "@/lib/api";
+
+const RANGES = [
+  { days: 90, label: '90D' },
+  { days: 180, label: '180D' },
+  { days: 365, label: '1Y' },
+  { days: 730, label: '2Y' },
+];
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Red for strong positive correlation, green for negative; intensity follows the magnitude
+ */
+const correlationStyle = (value: number) => ({
+  backgroundColor: value >= 0
+    ? `rgba(239, 68, 68, ${Math.min(1, value) * 0.5})`
+    : `rgba(34, 197, 94, ${Math.min(1, -value) * 0.5})`,
+});
+
+/**
+ * Portfolio-level VaR/CVaR, beta to BTC, correlations, risk contribution and concentration
+ */
+export function RiskPanel({ selection }: { selection?: PortfolioSelection }) {
+  const [days, setDays] = useState(365);
+
+  const { data: risk, isLoading } = useQuery({
+    queryKey: ['portfolio', 'risk', selection, days],
+    queryFn: () => fetchPortfolioRisk(selection!, days),
+    enabled: selection !== undefined,
+  });
+
+  const hasRisk = risk?.valueAtRisk.length > 0;
+  const metricCards = risk ? [
+    { label: 'Volatility (ann.)', value: `${risk.volatility.toFixed(1)}%` },
+    { label: 'Beta to BTC', value: risk.beta === null ? '-' : risk.beta.toFixed(2) },
+    { label: 'Max Drawdown', value: `${risk.maxDrawdown.toFixed(1)}%` },
+    { label: 'Effective Positions', value: risk.concentration.effectivePositions.toFixed(1) },
+    { label: 'Largest Weight', value: `${risk.concentration.largestWeight.toFixed(1)}%` },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Current holdings replayed over daily closes{risk?.startDate ? ` from ${risk.startDate} to ${risk.endDate}` : ''}. VaR is one-day.
+        </p>
+        <Select value={days.toString()} onValueChange={(value) => setDays(parseInt(value))}>
+          <SelectTrigger className="w-24 bg-muted/50 border-border" data-testid="select-risk-range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map(range => (
+              <SelectItem key={range.days} value={range.days.toString()}>{range.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-[300px] w-full" />
+      ) : !hasRisk ? (
+        <div className="rounded-xl border border-border bg-card/50 p-12 text-center backdrop-blur-sm">
+          <p className="text-muted-foreground">Not enough holdings or price history to measure risk</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+            {metricCards.map(card => (
+              <div key={card.label} className="rounded-xl border border-border bg-card/50 p-4">
+                <div className="text-xs text-muted-foreground mb-1">{card.label}</div>
+                <div
+                  className="font-mono font-bold text-lg text-foreground"
+                  data-testid={`text-risk-${card.label.toLowerCase().replace(/[^a-z]+/g, '-')}`}
+                >
+                  {card.value}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Value at Risk */}
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+            <div className="px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-bold text-foreground">Value at Risk</h2>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 text-muted-foreground">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Method</th>
+                  <th className="px-6 py-3 font-medium">Confidence</th>
+                  <th className="px-6 py-3 font-medium text-right">VaR</th>
+                  <th className="px-6 py-3 font-medium text-right">CVaR</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {risk.valueAtRisk.map((v: any) => (
+                  <tr key={`${v.method}-${v.confidence}`} className="hover:bg-white/5" data-testid={`row-var-${v.method}-${v.confidence}`}>
+                    <td className="px-6 py-4 capitalize">{v.method}</td>
+                    <td className="px-6 py-4 font-mono">{v.confidence}%</td>
+                    <td className="px-6 py-4 text-right font-mono text-red-500">
+                      {formatMoney(v.varAmount)} <span className="text-muted-foreground">({v.var.toFixed(2)}%)</span>
+                    </td>
+                    <td className="px-6 py-4 text-right font-mono text-red-500">
+                      {formatMoney(v.cvarAmount)} <span className="text-muted-foreground">({v.cvar.toFixed(2)}%)</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Contribution to risk */}
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+            <div className="px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-bold text-foreground">Risk by Position</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-muted/30 text-muted-foreground">
+                  <tr>
+                    <th className="px-6 py-3 font-medium">Asset</th>
+                    <th className="px-6 py-3 font-medium text-right">Weight</th>
+                    <th className="px-6 py-3 font-medium text-right">Volatility</th>
+                    <th className="px-6 py-3 font-medium text-right">Beta</th>
+                    <th className="px-6 py-3 font-medium text-right">VaR 95%</th>
+                    <th className="px-6 py-3 font-medium text-right">Risk Contribution</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {risk.positions.map((p: any) => (
+                    <tr key={p.symbol} className="hover:bg-white/5" data-testid={`row-risk-${p.symbol}`}>
+                      <td className="px-6 py-4 font-bold">{p.symbol}</td>
+                      <td className="px-6 py-4 text-right font-mono">{p.weight.toFixed(1)}%</td>
+                      <td className="px-6 py-4 text-right font-mono">{p.volatility.toFixed(1)}%</td>
+                      <td className="px-6 py-4 text-right font-mono">{p.beta === null ? '-' : p.beta.toFixed(2)}</td>
+                      <td className="px-6 py-4 text-right font-mono">{p.var95.toFixed(2)}%</td>
+                      <td className="px-6 py-4 text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <div className="h-2 w-24 rounded bg-muted overflow-hidden">
+                            <div className="h-full bg-primary" style={{ width: `${Math.max(0, Math.min(100, p.riskContribution))}%` }} />
+                          </div>
+                          <span className="font-mono w-14">{p.riskContribution.toFixed(1)}%</span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Correlation matrix */}
+          {risk.correlation.symbols.length > 1 && (
+            <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+              <div className="px-6 py-4 border-b border-border">
+                <h2 className="text-lg font-bold text-foreground">Correlation</h2>
+              </div>
+              <div className="overflow-x-auto p-4">
+                <table className="text-xs font-mono" data-testid="table-correlation">
+                  <thead>
+                    <tr>
+                      <th className="px-2 py-1"></th>
+                      {risk.correlation.symbols.map((symbol: string) => (
+                        <th key={symbol} className="px-2 py-1 font-medium text-muted-foreground">{symbol}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {risk.correlation.matrix.map((row: number[], i: number) => (
+                      <tr key={risk.correlation.symbols[i]}>
+                        <th className="px-2 py-1 font-medium text-muted-foreground text-left">{risk.correlation.symbols[i]}</th>
+                        {row.map((value, j) => (
+                          <td key={j} className="px-2 py-1 text-center" style={correlationStyle(value)}>
+                            {value.toFixed(2)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {risk.missingPrices.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Not enough price history for {risk.missingPrices.join(', ')}; left out of VaR and correlations.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { runBacktest } from "@/lib/api";
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export function BacktestPanel() {
+  const [form, setForm] = useState({
+    symbol: 'BTC',
+    interval: '1d',
+    limit: '500',
+    initialCapital: '10000',
+  });
+
+  const backtestMutation = useMutation({ mutationFn: runBacktest });
+  const result = backtestMutation.data;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    backtestMutation.mutate({
+      symbol: form.symbol.toUpperCase(),
+      interval: form.interval,
+      limit: parseInt(form.limit) || 500,
+      initialCapital: parseFloat(form.initialCapital) || 10000,
+    });
+  };
+
+  const chartData = result?.equityCurve.map((point: any) => ({
+    time: new Date(point.time).toLocaleDateString(),
+    strategy: point.equity,
+    buyHold: point.benchmark,
+  })) || [];
+
+  const metrics = result?.metrics;
+  const metricCards = metrics ? [
+    { label: 'Total Return', value: formatPercent(metrics.totalReturn), positive: metrics.totalReturn >= 0 },
+    { label: 'CAGR', value: formatPercent(metrics.cagr), positive: metrics.cagr >= 0 },
+    { label: 'Sharpe', value: metrics.sharpeRatio.toFixed(2), positive: metrics.sharpeRatio >= 0 },
+    { label: 'Sortino', value: metrics.sortinoRatio.toFixed(2), positive: metrics.sortinoRatio >= 0 },
+    { label: 'Max Drawdown', value: `-${metrics.maxDrawdown.toFixed(2)}%`, positive: false },
+    { label: 'Hit Rate', value: `${metrics.hitRate.toFixed(1)}%`, positive: metrics.hitRate >= 50 },
+    { label: 'Trades', value: metrics.tradeCount.toString(), positive: true },
+    { label: 'Turnover', value: `${metrics.turnover.toFixed(2)}x`, positive: true },
+    { label: 'Exposure', value: `${metrics.exposure.toFixed(1)}%`, positive: true },
+    { label: 'Buy & Hold', value: formatPercent(metrics.benchmarkReturn), positive: metrics.benchmarkReturn >= 0 },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm grid gap-4 grid-cols-2 md:grid-cols-5 items-end">
+        <div>
+          <Label htmlFor="backtest-symbol">Symbol</Label>
+          <Input
+            id="backtest-symbol"
+            value={form.symbol}
+            onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-backtest-symbol"
+          />
+        </div>
+        <div>
+          <Label>Interval</Label>
+          <Select value={form.interval} onValueChange={(value) => setForm({ ...form, interval: value })}>
+            <SelectTrigger className="bg-muted/50 border-border" data-testid="select-backtest-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['1h', '4h', '1d', '1w'].map(interval => (
+                <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="backtest-limit">Bars</Label>
+          <Input
+            id="backtest-limit"
+            type="number"
+            min={260}
+            max={1000}
+            value={form.limit}
+            onChange={(e) => setForm({ ...form, limit: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-backtest-limit"
+          />
+        </div>
+        <div>
+          <Label htmlFor="backtest-capital">Capital ($)</Label>
+          <Input
+            id="backtest-capital"
+            type="number"
+            min={1}
+            value={form.initialCapital}
+            onChange={(e) => setForm({ ...form, initialCapital: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-backtest-capital"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="col-span-2 md:col-span-1"
+          disabled={!form.symbol || backtestMutation.isPending}
+          data-testid="button-run-backtest"
+        >
+          <FlaskConical className="mr-2 h-4 w-4" />
+          {backtestMutation.isPending ? 'Running...' : 'Run Backtest'}
+        </Button>
+      </form>
+
+      {backtestMutation.isError && (
+        <div className="rounded-xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-500">
+          {backtestMutation.error instanceof Error ? backtestMutation.error.message : 'Backtest failed'}
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+            {metricCards.map(card => (
+              <div key={card.label} className="rounded-xl border border-border bg-card/50 p-4">
+                <div className="text-xs text-muted-foreground mb-1">{card.label}</div>
+                <div className={`font-mono font-bold text-lg ${card.positive ? 'text-foreground' : 'text-red-500'}`}>
+                  {card.value}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-[360px] w-full rounded-xl border border-border bg-card/50 p-4 backdrop-blur-sm">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" vertical={false} />
+                <XAxis dataKey="time" hide />
+                <YAxis
+                  orientation="right"
+                  domain={['auto', 'auto']}
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12, fontFamily: 'var(--font-mono)' }}
+                  axisLine={false}
+                  tickLine={false}
+                  tickFormatter={(val) => `$${Math.round(val).toLocaleString()}`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    borderColor: 'hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(val: number, name: string) => [`$${val.toFixed(2)}`, name === 'strategy' ? 'Strategy' : 'Buy & Hold']}
+                />
+                <Legend formatter={(name) => name === 'strategy' ? 'Strategy' : 'Buy & Hold'} />
+                <Line type="monotone" dataKey="strategy" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="buyHold" stroke="hsl(var(--muted-foreground))" strokeWidth={1} dot={false} strokeDasharray="4 4" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+            <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+              <h2 className="text-lg font-bold text-foreground">Simulated Trades</h2>
+              <span className="text-xs text-muted-foreground font-mono">
+                BUY {result.signalCounts.BUY} · HOLD {result.signalCounts.HOLD} · SELL {result.signalCounts.SELL}
+              </span>
+            </div>
+            {result.trades.length > 0 ? (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-muted/30 text-muted-foreground">
+                  <tr>
+                    <th className="px-6 py-3 font-medium">Entry</th>
+                    <th className="px-6 py-3 font-medium">Exit</th>
+                    <th className="px-6 py-3 font-medium text-right">Entry Price</th>
+                    <th className="px-6 py-3 font-medium text-right">Exit Price</th>
+                    <th className="px-6 py-3 font-medium text-right">Return</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {result.trades.map((trade: any) => (
+                    <tr key={trade.entryTime} className="hover:bg-white/5">
+                      <td className="px-6 py-4 text-muted-foreground">{new Date(trade.entryTime).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 text-muted-foreground">
+                        {trade.exitTime ? new Date(trade.exitTime).toLocaleDateString() : 'Open'}
+                      </td>
+                      <td className="px-6 py-4 text-right font-mono">${trade.entryPrice.toFixed(2)}</td>
+                      <td className="px-6 py-4 text-right font-mono">
+                        {trade.exitPrice !== null ? `$${trade.exitPrice.toFixed(2)}` : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        {trade.returnPct !== null ? (
+                          <span className={`font-mono font-bold ${trade.returnPct >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                            {formatPercent(trade.returnPct)}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="p-12 text-center">
+                <p className="text-muted-foreground">The engine produced no trades over this period</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
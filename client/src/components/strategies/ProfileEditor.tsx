@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  fetchStrategyProfiles,
+  createStrategyProfile,
+  updateStrategyProfile,
+  deleteStrategyProfile,
+  type StrategyProfileInput,
+} from "@/lib/api";
+
+const FACTORS = ['trend', 'momentum', 'volatility', 'volume', 'risk', 'sentiment'] as const;
+
+const emptyDraft = (): StrategyProfileInput => ({
+  name: '',
+  description: '',
+  weights: { trend: 0.25, momentum: 0.25, volatility: 0.15, volume: 0.15, risk: 0.10, sentiment: 0.10 },
+  buyThreshold: 65,
+  sellThreshold: 35,
+});
+
+export function ProfileEditor() {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<StrategyProfileInput>(emptyDraft());
+
+  const { data: profiles, isLoading } = useQuery({
+    queryKey: ['strategy-profiles'],
+    queryFn: fetchStrategyProfiles,
+  });
+
+  const selected = profiles?.find((p: any) => p.id === selectedId);
+
+  useEffect(() => {
+    if (selected) {
+      setDraft({
+        name: selected.name,
+        description: selected.description ?? '',
+        weights: selected.weights,
+        buyThreshold: selected.buyThreshold,
+        sellThreshold: selected.sellThreshold,
+      });
+    }
+  }, [selected]);
+
+  const onSaved = (profile: any) => {
+    queryClient.invalidateQueries({ queryKey: ['strategy-profiles'] });
+    queryClient.invalidateQueries({ queryKey: ['quant-top50'] });
+    setSelectedId(profile.id);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => selectedId !== null ? updateStrategyProfile(selectedId, draft) : createStrategyProfile(draft),
+    onSuccess: onSaved,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => deleteStrategyProfile(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['strategy-profiles'] });
+      setSelectedId(null);
+      setDraft(emptyDraft());
+    },
+  });
+
+  const weightTotal = FACTORS.reduce((sum, factor) => sum + (draft.weights[factor] || 0), 0);
+  const mutationError = saveMutation.error || deleteMutation.error;
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+        <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+          <h2 className="text-lg font-bold text-foreground">Profiles</h2>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => { setSelectedId(null); setDraft(emptyDraft()); }}
+            data-testid="button-new-profile"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Button>
+        </div>
+        {isLoading ? (
+          <div className="p-4"><Skeleton className="h-32 w-full" /></div>
+        ) : (
+          <div className="divide-y divide-border">
+            {profiles?.map((profile: any) => (
+              <button
+                key={profile.id}
+                onClick={() => setSelectedId(profile.id)}
+                className={`w-full text-left px-6 py-3 hover:bg-muted/30 transition-colors ${profile.id === selectedId ? 'bg-muted/50' : ''}`}
+                data-testid={`profile-${profile.name}`}
+              >
+                <div className="font-mono font-semibold text-foreground">{profile.name}</div>
+                {profile.description && (
+                  <div className="text-xs text-muted-foreground truncate">{profile.description}</div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); saveMutation.mutate(); }}
+        className="md:col-span-2 rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm space-y-4"
+      >
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="profile-name">Name</Label>
+            <Input
+              id="profile-name"
+              value={draft.name}
+              placeholder="momentum-heavy"
+              onChange={(e) => setDraft({ ...draft, name: e.target.value.toLowerCase() })}
+              disabled={selected?.name === 'default'}
+              className="bg-muted/50 border-border font-mono"
+              data-testid="input-profile-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-description">Description</Label>
+            <Input
+              id="profile-description"
+              value={draft.description ?? ''}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              className="bg-muted/50 border-border"
+              data-testid="input-profile-description"
+            />
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label>Factor Weights</Label>
+            <span className="text-xs text-muted-foreground font-mono">
+              Sum {weightTotal.toFixed(2)} (normalized by the engine)
+            </span>
+          </div>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+            {FACTORS.map(factor => (
+              <div key={factor}>
+                <Label htmlFor={`weight-${factor}`} className="text-xs text-muted-foreground capitalize">{factor}</Label>
+                <Input
+                  id={`weight-${factor}`}
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={draft.weights[factor]}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    weights: { ...draft.weights, [factor]: parseFloat(e.target.value) || 0 },
+                  })}
+                  className="bg-muted/50 border-border font-mono"
+                  data-testid={`input-weight-${factor}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2">
+          <div>
+            <Label htmlFor="profile-buy">Buy Threshold</Label>
+            <Input
+              id="profile-buy"
+              type="number"
+              min={0}
+              max={100}
+              value={draft.buyThreshold}
+              onChange={(e) => setDraft({ ...draft, buyThreshold: parseInt(e.target.value) || 0 })}
+              className="bg-muted/50 border-border font-mono"
+              data-testid="input-profile-buy-threshold"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-sell">Sell Threshold</Label>
+            <Input
+              id="profile-sell"
+              type="number"
+              min={0}
+              max={100}
+              value={draft.sellThreshold}
+              onChange={(e) => setDraft({ ...draft, sellThreshold: parseInt(e.target.value) || 0 })}
+              className="bg-muted/50 border-border font-mono"
+              data-testid="input-profile-sell-threshold"
+            />
+          </div>
+        </div>
+
+        {mutationError && (
+          <div className="rounded-xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-500">
+            {mutationError instanceof Error ? mutationError.message : 'Request failed'}
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          {selected && selected.name !== 'default' && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => deleteMutation.mutate(selected.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-profile"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button type="submit" disabled={!draft.name || saveMutation.isPending} data-testid="button-save-profile">
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : selectedId !== null ? 'Save Changes' : 'Create Profile'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Play, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  createScreen,
+  deleteScreen,
+  fetchScreenerFields,
+  fetchScreens,
+  fetchStrategyProfiles,
+  runScreener,
+  updateScreen,
+} from "@/lib/api";
+
+interface ScreenerResult {
+  expression: string;
+  interval: string;
+  profile: string;
+  evaluated: number;
+  matches: any[];
+}
+
+const EXAMPLE_EXPRESSION = 'scores.momentum > 70 and metrics.volatility.regime == "Low" and forecast.probability > 60';
+
+const SIGNAL_COLORS: Record<string, string> = {
+  BUY: 'text-green-500',
+  SELL: 'text-red-500',
+  HOLD: 'text-yellow-500',
+};
+
+const emptyForm = () => ({
+  expression: EXAMPLE_EXPRESSION,
+  interval: '1d',
+  profile: 'default',
+});
+
+/**
+ * Filter the top coins with an expression over engine output fields, and keep named screens
+ * to re-run later
+ */
+export function ScreenerPanel() {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const [screenName, setScreenName] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [result, setResult] = useState<ScreenerResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: screens = [] } = useQuery<any[]>({
+    queryKey: ['screens'],
+    queryFn: fetchScreens,
+  });
+
+  const { data: profiles = [] } = useQuery<any[]>({
+    queryKey: ['strategy-profiles'],
+    queryFn: fetchStrategyProfiles,
+  });
+
+  const { data: fields = [] } = useQuery<{ field: string; type: 'number' | 'string' }[]>({
+    queryKey: ['screener-fields'],
+    queryFn: fetchScreenerFields,
+    staleTime: Infinity,
+  });
+
+  const onError = (error: Error) => setError(error.message);
+  const invalidateScreens = () => {
+    queryClient.invalidateQueries({ queryKey: ['screens'] });
+    setError(null);
+  };
+
+  const runMutation = useMutation({
+    mutationFn: () => runScreener({ expression: form.expression, interval: form.interval, profile: form.profile }),
+    onSuccess: (data) => {
+      setResult(data);
+      setError(null);
+    },
+    onError,
+  });
+
+  // Saving over the loaded screen updates it; a new name creates another one
+  const selected = screens.find(s => s.id === selectedId);
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const screen = { name: screenName.trim(), ...form };
+      return selected && selected.name === screen.name ? updateScreen(selected.id, screen) : createScreen(screen);
+    },
+    onSuccess: (screen) => {
+      invalidateScreens();
+      setSelectedId(screen.id);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteScreen,
+    onSuccess: (_, id) => {
+      invalidateScreens();
+      if (id === selectedId) {
+        setSelectedId(null);
+        setScreenName('');
+      }
+    },
+    onError,
+  });
+
+  const loadScreen = (screen: any) => {
+    setSelectedId(screen.id);
+    setScreenName(screen.name);
+    setForm({ expression: screen.expression, interval: screen.interval, profile: screen.profile });
+    setResult(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={(e) => { e.preventDefault(); runMutation.mutate(); }}
+        className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm space-y-4"
+      >
+        <div>
+          <Label htmlFor="screener-expression">Filter Expression</Label>
+          <Input
+            id="screener-expression"
+            maxLength={1000}
+            value={form.expression}
+            onChange={(e) => setForm({ ...form, expression: e.target.value })}
+            className="bg-muted/50 border-border font-mono"
+            data-testid="input-screener-expression"
+          />
+        </div>
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4 items-end">
+          <div>
+            <Label>Interval</Label>
+            <Select value={form.interval} onValueChange={(value) => setForm({ ...form, interval: value })}>
+              <SelectTrigger className="bg-muted/50 border-border" data-testid="select-screener-interval">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {['1h', '4h', '1d', '1w'].map(interval => (
+                  <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Profile</Label>
+            <Select value={form.profile} onValueChange={(value) => setForm({ ...form, profile: value })}>
+              <SelectTrigger className="bg-muted/50 border-border" data-testid="select-screener-profile">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((p: any) => (
+                  <SelectItem key={p.id} value={p.name}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="submit"
+            className="col-span-2"
+            disabled={!form.expression.trim() || runMutation.isPending}
+            data-testid="button-run-screener"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {runMutation.isPending ? 'Screening...' : 'Run Screen'}
+          </Button>
+        </div>
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <Label htmlFor="screen-name">Screen Name</Label>
+            <Input
+              id="screen-name"
+              maxLength={100}
+              value={screenName}
+              onChange={(e) => setScreenName(e.target.value)}
+              className="bg-muted/50 border-border"
+              data-testid="input-screen-name"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!screenName.trim() || !form.expression.trim() || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+            data-testid="button-save-screen"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {selected && selected.name === screenName.trim() ? 'Update' : 'Save'}
+          </Button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-500" data-testid="text-screener-error">{error}</div>
+      )}
+
+      {screens.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {screens.map(screen => (
+            <div
+              key={screen.id}
+              className={`flex items-center rounded-lg border text-sm ${screen.id === selectedId ? 'border-primary bg-primary/10' : 'border-border bg-card/50'}`}
+            >
+              <button
+                type="button"
+                className="px-3 py-1.5 text-foreground"
+                title={`${screen.expression} · ${screen.profile} · ${screen.interval}`}
+                onClick={() => loadScreen(screen)}
+                data-testid={`button-load-screen-${screen.id}`}
+              >
+                {screen.name}
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Delete"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(screen.id)}
+                data-testid={`button-delete-screen-${screen.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result && (
+        <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+          <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+            <h2 className="text-lg font-bold text-foreground">Matches</h2>
+            <span className="text-sm text-muted-foreground" data-testid="text-screener-count">
+              {result.matches.length} of {result.evaluated} coins · {result.profile} · {result.interval}
+            </span>
+          </div>
+          {result.matches.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-muted/30 text-muted-foreground">
+                  <tr>
+                    <th className="px-6 py-3 font-medium">Asset</th>
+                    <th className="px-6 py-3 font-medium text-right">Price</th>
+                    <th className="px-6 py-3 font-medium">Signal</th>
+                    <th className="px-6 py-3 font-medium text-right">Score</th>
+                    <th className="px-6 py-3 font-medium text-right">Trend</th>
+                    <th className="px-6 py-3 font-medium text-right">Momentum</th>
+                    <th className="px-6 py-3 font-medium text-right">Volatility</th>
+                    <th className="px-6 py-3 font-medium">Forecast</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {result.matches.map(row => (
+                    <tr key={row.symbol} data-testid={`row-screener-${row.symbol}`}>
+                      <td className="px-6 py-4 font-bold text-foreground">{row.symbol}</td>
+                      <td className="px-6 py-4 text-right font-mono">${row.currentPrice.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                      <td className={`px-6 py-4 font-semibold ${SIGNAL_COLORS[row.signal]}`}>{row.signal}</td>
+                      <td className="px-6 py-4 text-right font-mono font-bold">{row.scores.compositeScore}</td>
+                      <td className="px-6 py-4 text-right font-mono">{row.scores.trend}</td>
+                      <td className="px-6 py-4 text-right font-mono">{row.scores.momentum}</td>
+                      <td className="px-6 py-4 text-right font-mono">{row.metrics.volatility.regime}</td>
+                      <td className="px-6 py-4 font-mono text-xs">
+                        {row.forecast ? `${row.forecast.direction} ${row.forecast.probability}%` : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">No coins match this screen</p>
+          )}
+        </div>
+      )}
+
+      <div className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm">
+        <h3 className="text-sm font-medium text-foreground mb-2">Expression Syntax</h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          Compare fields with <code>== != &gt; &gt;= &lt; &lt;=</code>, combine with <code>and</code>, <code>or</code>,
+          <code> not</code> and parentheses. Text values go in quotes and match regardless of case; a field a coin
+          doesn't have (such as a missing forecast) never matches.
+        </p>
+        <div className="flex flex-wrap gap-1.5" data-testid="list-screener-fields">
+          {fields.map(({ field, type }) => (
+            <button
+              key={field}
+              type="button"
+              className="rounded bg-muted px-2 py-0.5 font-mono text-xs text-muted-foreground hover:text-foreground"
+              title={`${type} — click to append`}
+              onClick={() => setForm({ ...form, expression: `${form.expression.trimEnd()} ${field}`.trimStart() })}
+            >
+              {field}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
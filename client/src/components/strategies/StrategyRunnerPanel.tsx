@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Pause, Play, Trash2, Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  createStrategyRunner,
+  deleteStrategyRunner,
+  fetchPortfolios,
+  fetchStrategyProfiles,
+  fetchStrategyRunners,
+  fetchStrategyRuns,
+  runStrategyRunner,
+  updateStrategyRunner,
+  type PositionSizingMethod,
+} from "@/lib/api";
+
+const SIZING_LABELS: Record<PositionSizingMethod, string> = {
+  'equal-weight': 'Equal weight',
+  'fixed-amount': 'Fixed $ amount',
+  'equity-percent': '% of equity',
+};
+
+const ACTION_STYLES: Record<string, string> = {
+  buy: 'bg-green-500/10 text-green-500',
+  sell: 'bg-red-500/10 text-red-500',
+  none: 'bg-muted text-muted-foreground',
+};
+
+const emptyForm = () => ({
+  name: '',
+  portfolioId: '',
+  profile: 'default',
+  interval: '1d',
+  universe: 'BTC, ETH, SOL',
+  sizingMethod: 'equal-weight' as PositionSizingMethod,
+  sizingValue: '',
+});
+
+const describeSizing = (runner: any) => {
+  if (runner.sizingMethod === 'fixed-amount') return `$${parseFloat(runner.sizingValue).toFixed(0)} per entry`;
+  if (runner.sizingMethod === 'equity-percent') return `${parseFloat(runner.sizingValue)}% of equity`;
+  return `1/${runner.universe.length} of equity`;
+};
+
+/**
+ * Bind a scoring profile and universe to a paper portfolio, trade its signal changes on every
+ * bar close, and review what each run decided
+ */
+export function StrategyRunnerPanel() {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: runners = [] } = useQuery<any[]>({
+    queryKey: ['strategy-runners'],
+    queryFn: fetchStrategyRunners,
+  });
+
+  const { data: portfolios = [] } = useQuery<any[]>({
+    queryKey: ['portfolios'],
+    queryFn: fetchPortfolios,
+  });
+
+  const { data: profiles = [] } = useQuery<any[]>({
+    queryKey: ['strategy-profiles'],
+    queryFn: fetchStrategyProfiles,
+  });
+
+  const { data: runs = [] } = useQuery<any[]>({
+    queryKey: ['strategy-runs', selectedId],
+    queryFn: () => fetchStrategyRuns(selectedId!),
+    enabled: selectedId !== null,
+    refetchInterval: 60000, // Scheduled runs happen in the background
+  });
+
+  const onError = (error: Error) => setError(error.message);
+  const invalidateRunners = () => {
+    queryClient.invalidateQueries({ queryKey: ['strategy-runners'] });
+    setError(null);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createStrategyRunner({
+      name: form.name.trim(),
+      portfolioId: parseInt(form.portfolioId),
+      profile: form.profile,
+      interval: form.interval,
+      universe: form.universe.split(/[\s,]+/).filter(Boolean).map(s => s.toUpperCase()),
+      sizingMethod: form.sizingMethod,
+      sizingValue: form.sizingMethod === 'equal-weight' ? null : form.sizingValue,
+    }),
+    onSuccess: (runner) => {
+      invalidateRunners();
+      setForm(emptyForm());
+      setSelectedId(runner.id);
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (runner: any) => updateStrategyRunner(runner.id, { status: runner.status === 'active' ? 'paused' : 'active' }),
+    onSuccess: invalidateRunners,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteStrategyRunner,
+    onSuccess: (_, id) => {
+      invalidateRunners();
+      if (id === selectedId) setSelectedId(null);
+    },
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: runStrategyRunner,
+    onSuccess: (_, id) => {
+      invalidateRunners();
+      setSelectedId(id);
+      queryClient.invalidateQueries({ queryKey: ['strategy-runs', id] });
+      queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-report'] });
+    },
+    onError,
+  });
+
+  const activePortfolios = portfolios.filter((p: any) => !p.archived);
+  const portfolioName = (id: number) => portfolios.find((p: any) => p.id === id)?.name ?? `#${id}`;
+  const selected = runners.find(r => r.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={(e) => { e.preventDefault(); createMutation.mutate(); }}
+        className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm grid gap-4 grid-cols-2 md:grid-cols-4 items-end"
+      >
+        <div>
+          <Label htmlFor="runner-name">Name</Label>
+          <Input
+            id="runner-name"
+            maxLength={100}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-runner-name"
+          />
+        </div>
+        <div>
+          <Label>Paper Portfolio</Label>
+          <Select value={form.portfolioId} onValueChange={(value) => setForm({ ...form, portfolioId: value })}>
+            <SelectTrigger className="bg-muted/50 border-border" data-testid="select-runner-portfolio">
+              <SelectValue placeholder="Select portfolio" />
+            </SelectTrigger>
+            <SelectContent>
+              {activePortfolios.map((p: any) => (
+                <SelectItem key={p.id} value={p.id.toString()}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Profile</Label>
+          <Select value={form.profile} onValueChange={(value) => setForm({ ...form, profile: value })}>
+            <SelectTrigger className="bg-muted/50 border-border" data-testid="select-runner-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p: any) => (
+                <SelectItem key={p.id} value={p.name}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Interval</Label>
+          <Select value={form.interval} onValueChange={(value) => setForm({ ...form, interval: value })}>
+            <SelectTrigger className="bg-muted/50 border-border" data-testid="select-runner-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['1h', '4h', '1d', '1w'].map(interval => (
+                <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-2">
+          <Label htmlFor="runner-universe">Universe</Label>
+          <Input
+            id="runner-universe"
+            placeholder="BTC, ETH, SOL"
+            value={form.universe}
+            onChange={(e) => setForm({ ...form, universe: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-runner-universe"
+          />
+        </div>
+        <div>
+          <Label>Position Sizing</Label>
+          <Select value={form.sizingMethod} onValueChange={(value) => setForm({ ...form, sizingMethod: value as PositionSizingMethod })}>
+            <SelectTrigger className="bg-muted/50 border-border" data-testid="select-runner-sizing">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SIZING_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="runner-size">{form.sizingMethod === 'fixed-amount' ? 'Amount ($)' : 'Size (%)'}</Label>
+          <Input
+            id="runner-size"
+            type="number"
+            min={0}
+            step="any"
+            disabled={form.sizingMethod === 'equal-weight'}
+            value={form.sizingValue}
+            onChange={(e) => setForm({ ...form, sizingValue: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-runner-size"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="col-span-2 md:col-span-4"
+          disabled={
+            !form.name.trim() || !form.portfolioId || !form.universe.trim()
+            || (form.sizingMethod !== 'equal-weight' && !form.sizingValue) || createMutation.isPending
+          }
+          data-testid="button-create-runner"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create Runner'}
+        </Button>
+      </form>
+
+      <p className="text-xs text-muted-foreground">
+        Runners trade in portfolios with paper trading enabled. A change of signal into BUY opens a position and
+        into SELL closes it; a new runner's first run only records the current signals.
+      </p>
+
+      {error && (
+        <div className="rounded-xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-500">{error}</div>
+      )}
+
+      {runners.length > 0 ? (
+        <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 text-muted-foreground">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Runner</th>
+                  <th className="px-6 py-3 font-medium">Portfolio</th>
+                  <th className="px-6 py-3 font-medium">Strategy</th>
+                  <th className="px-6 py-3 font-medium">Universe</th>
+                  <th className="px-6 py-3 font-medium">Sizing</th>
+                  <th className="px-6 py-3 font-medium">Status</th>
+                  <th className="px-6 py-3 font-medium">Last Bar</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {runners.map((runner) => (
+                  <tr
+                    key={runner.id}
+                    className={`cursor-pointer hover:bg-white/5 ${runner.id === selectedId ? 'bg-white/5' : ''}`}
+                    onClick={() => setSelectedId(runner.id)}
+                    data-testid={`row-runner-${runner.id}`}
+                  >
+                    <td className="px-6 py-4 font-bold text-foreground">{runner.name}</td>
+                    <td className="px-6 py-4">{portfolioName(runner.portfolioId)}</td>
+                    <td className="px-6 py-4 font-mono">{runner.profile} · {runner.interval}</td>
+                    <td className="px-6 py-4 font-mono text-xs">{runner.universe.join(', ')}</td>
+                    <td className="px-6 py-4">{describeSizing(runner)}</td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`rounded px-2 py-0.5 text-xs font-medium capitalize ${runner.status === 'active' ? 'bg-green-500/10 text-green-500' : 'bg-muted text-muted-foreground'}`}
+                        data-testid={`status-runner-${runner.id}`}
+                      >
+                        {runner.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-muted-foreground">
+                      {runner.lastBarCloseTime ? new Date(runner.lastBarCloseTime).toLocaleString() : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={runner.status === 'active' ? 'Pause' : 'Resume'}
+                        disabled={toggleMutation.isPending}
+                        onClick={() => toggleMutation.mutate(runner)}
+                        data-testid={`button-toggle-runner-${runner.id}`}
+                      >
+                        {runner.status === 'active' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Run now"
+                        disabled={runMutation.isPending}
+                        onClick={() => runMutation.mutate(runner.id)}
+                        data-testid={`button-run-runner-${runner.id}`}
+                      >
+                        <Zap className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Delete"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(runner.id)}
+                        data-testid={`button-delete-runner-${runner.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border bg-card/50 p-12 text-center backdrop-blur-sm">
+          <p className="text-muted-foreground">No strategy runners yet</p>
+        </div>
+      )}
+
+      {selected && (
+        <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+          <div className="px-6 py-4 border-b border-border">
+            <h2 className="text-lg font-bold text-foreground">Run Log · {selected.name}</h2>
+          </div>
+          {runs.length > 0 ? (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 text-muted-foreground">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Ran</th>
+                  <th className="px-6 py-3 font-medium">Bar Close</th>
+                  <th className="px-6 py-3 font-medium">Trigger</th>
+                  <th className="px-6 py-3 font-medium">Decisions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {runs.map((run) => (
+                  <tr key={run.id} data-testid={`row-strategy-run-${run.id}`}>
+                    <td className="px-6 py-4 text-muted-foreground whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</td>
+                    <td className="px-6 py-4 text-muted-foreground whitespace-nowrap">{new Date(run.barCloseTime).toLocaleString()}</td>
+                    <td className="px-6 py-4 capitalize">{run.trigger}</td>
+                    <td className="px-6 py-4">
+                      {run.status === 'failed' ? (
+                        <span className="text-red-500">⚠ {run.error}</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          {run.decisions.map((d: any) => (
+                            <span
+                              key={d.symbol}
+                              className={`rounded px-2 py-0.5 text-xs font-mono ${ACTION_STYLES[d.action]}`}
+                              title={d.reason ?? undefined}
+                            >
+                              {d.symbol} {d.signal ?? '?'}
+                              {d.compositeScore !== null && ` ${d.compositeScore}`}
+                              {d.action !== 'none' && ` → ${d.action.toUpperCase()}${d.orderStatus ? ` ${d.orderStatus}` : ''}`}
+                              {d.reason && ` · ${d.reason}`}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">No runs yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
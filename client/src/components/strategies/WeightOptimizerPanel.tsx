@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Sparkles, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  fetchOptimizerRuns,
+  fetchOptimizerRun,
+  startOptimizerRun,
+  applyOptimizerCandidate,
+} from "@/lib/api";
+
+const OBJECTIVES: Record<string, string> = {
+  sharpeRatio: 'Sharpe',
+  sortinoRatio: 'Sortino',
+  totalReturn: 'Return',
+};
+
+const FACTOR_LABELS: [string, string][] = [
+  ['trend', 'T'],
+  ['momentum', 'M'],
+  ['volatility', 'V'],
+  ['volume', 'Vol'],
+  ['risk', 'R'],
+  ['sentiment', 'S'],
+];
+
+const formatMetric = (objective: string, value: number) =>
+  objective === 'totalReturn' ? `${value >= 0 ? '+' : ''}${value.toFixed(2)}%` : value.toFixed(2);
+
+export function WeightOptimizerPanel() {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    symbol: 'BTC',
+    interval: '1d',
+    candidates: '300',
+    trainBars: '120',
+    testBars: '40',
+    objective: 'sharpeRatio',
+  });
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [profileName, setProfileName] = useState('');
+
+  const { data: runs } = useQuery({
+    queryKey: ['optimizer-runs'],
+    queryFn: fetchOptimizerRuns,
+  });
+
+  const { data: run } = useQuery({
+    queryKey: ['optimizer-run', selectedRunId],
+    queryFn: () => fetchOptimizerRun(selectedRunId as number),
+    enabled: selectedRunId !== null,
+    // Poll while the job is running
+    refetchInterval: (query) => query.state.data?.status === 'running' ? 2000 : false,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: startOptimizerRun,
+    onSuccess: (newRun) => {
+      setSelectedRunId(newRun.id);
+      queryClient.invalidateQueries({ queryKey: ['optimizer-runs'] });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: ({ rank }: { rank: number }) => applyOptimizerCandidate(selectedRunId as number, rank, profileName),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['strategy-profiles'] });
+      setProfileName('');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startMutation.mutate({
+      symbol: form.symbol.toUpperCase(),
+      interval: form.interval,
+      candidates: parseInt(form.candidates) || 300,
+      trainBars: parseInt(form.trainBars) || 120,
+      testBars: parseInt(form.testBars) || 40,
+      objective: form.objective,
+    });
+  };
+
+  const results = run?.status === 'completed' ? run.results : null;
+  const objective = results?.objective ?? form.objective;
+  const mutationError = startMutation.error || applyMutation.error;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm grid gap-4 grid-cols-2 md:grid-cols-7 items-end">
+        <div>
+          <Label htmlFor="optimizer-symbol">Symbol</Label>
+          <Input
+            id="optimizer-symbol"
+            value={form.symbol}
+            onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-optimizer-symbol"
+          />
+        </div>
+        <div>
+          <Label>Interval</Label>
+          <Select value={form.interval} onValueChange={(value) => setForm({ ...form, interval: value })}>
+            <SelectTrigger className="bg-muted/50 border-border" data-testid="select-optimizer-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['1h', '4h', '1d', '1w'].map(interval => (
+                <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Objective</Label>
+          <Select value={form.objective} onValueChange={(value) => setForm({ ...form, objective: value })}>
+            <SelectTrigger className="bg-muted/50 border-border" data-testid="select-optimizer-objective">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(OBJECTIVES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="optimizer-candidates">Candidates</Label>
+          <Input
+            id="optimizer-candidates"
+            type="number"
+            min={10}
+            max={2000}
+            value={form.candidates}
+            onChange={(e) => setForm({ ...form, candidates: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-optimizer-candidates"
+          />
+        </div>
+        <div>
+          <Label htmlFor="optimizer-train">Train Bars</Label>
+          <Input
+            id="optimizer-train"
+            type="number"
+            min={30}
+            value={form.trainBars}
+            onChange={(e) => setForm({ ...form, trainBars: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-optimizer-train"
+          />
+        </div>
+        <div>
+          <Label htmlFor="optimizer-test">Test Bars</Label>
+          <Input
+            id="optimizer-test"
+            type="number"
+            min={10}
+            value={form.testBars}
+            onChange={(e) => setForm({ ...form, testBars: e.target.value })}
+            className="bg-muted/50 border-border"
+            data-testid="input-optimizer-test"
+          />
+        </div>
+        <Button
+          type="submit"
+          disabled={!form.symbol || startMutation.isPending}
+          data-testid="button-run-optimizer"
+        >
+          <Sparkles className="mr-2 h-4 w-4" />
+          Optimize
+        </Button>
+      </form>
+
+      <p className="text-xs text-muted-foreground">
+        Uses cached history only. Run a backtest for the symbol first so enough bars are loaded.
+      </p>
+
+      {mutationError && (
+        <div className="rounded-xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-500">
+          {mutationError instanceof Error ? mutationError.message : 'Request failed'}
+        </div>
+      )}
+
+      {runs && runs.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {runs.map((r: any) => (
+            <Button
+              key={r.id}
+              size="sm"
+              variant={r.id === selectedRunId ? 'default' : 'outline'}
+              onClick={() => setSelectedRunId(r.id)}
+              data-testid={`button-optimizer-run-${r.id}`}
+            >
+              #{r.id} {r.symbol} {r.interval}
+              <span className="ml-2 text-xs opacity-70">{r.status}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {run?.status === 'running' && (
+        <div className="rounded-xl border border-border bg-card/50 p-4">
+          <div className="text-sm text-muted-foreground mb-2">Optimizing {run.symbol}... {run.progress}%</div>
+          <Progress value={run.progress} />
+        </div>
+      )}
+
+      {run?.status === 'failed' && (
+        <div className="rounded-xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-500">
+          {run.error || 'Optimizer run failed'}
+        </div>
+      )}
+
+      {results && (
+        <>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+            <div className="rounded-xl border border-border bg-card/50 p-4">
+              <div className="text-xs text-muted-foreground mb-1">Folds</div>
+              <div className="font-mono font-bold text-lg">{results.folds.length}</div>
+            </div>
+            <div className="rounded-xl border border-border bg-card/50 p-4">
+              <div className="text-xs text-muted-foreground mb-1">Candidates Tested</div>
+              <div className="font-mono font-bold text-lg">{results.candidatesTested}</div>
+            </div>
+            <div className="rounded-xl border border-border bg-card/50 p-4">
+              <div className="text-xs text-muted-foreground mb-1">Walk-Forward {OBJECTIVES[objective]}</div>
+              <div className="font-mono font-bold text-lg">{formatMetric(objective, results.walkForward[objective])}</div>
+            </div>
+            <div className="rounded-xl border border-border bg-card/50 p-4">
+              <div className="text-xs text-muted-foreground mb-1">Default Profile OOS {OBJECTIVES[objective]}</div>
+              <div className="font-mono font-bold text-lg">{formatMetric(objective, results.baseline.outOfSample[objective])}</div>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+            <div className="px-6 py-4 border-b border-border flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <h2 className="text-lg font-bold text-foreground">Ranked Weight Vectors</h2>
+              <Input
+                placeholder="New profile name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value.toLowerCase())}
+                className="bg-muted/50 border-border md:w-56 font-mono"
+                data-testid="input-optimizer-profile-name"
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-muted/30 text-muted-foreground">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">#</th>
+                    <th className="px-4 py-3 font-medium">Weights</th>
+                    <th className="px-4 py-3 font-medium text-right">Buy / Sell</th>
+                    <th className="px-4 py-3 font-medium text-right">IS {OBJECTIVES[objective]}</th>
+                    <th className="px-4 py-3 font-medium text-right">OOS {OBJECTIVES[objective]}</th>
+                    <th className="px-4 py-3 font-medium text-right">OOS Return</th>
+                    <th className="px-4 py-3 font-medium text-right">Folds Won</th>
+                    <th className="px-4 py-3 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {results.ranked.map((entry: any) => (
+                    <tr key={entry.rank} className="hover:bg-white/5">
+                      <td className="px-4 py-3 font-mono">{entry.rank}</td>
+                      <td className="px-4 py-3 font-mono text-xs text-muted-foreground">
+                        {FACTOR_LABELS.map(([key, label]) => `${label} ${entry.weights[key].toFixed(2)}`).join(' · ')}
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono">{entry.thresholds.buy} / {entry.thresholds.sell}</td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMetric(objective, entry.inSample[objective])}</td>
+                      <td className={`px-4 py-3 text-right font-mono font-bold ${entry.outOfSample[objective] >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                        {formatMetric(objective, entry.outOfSample[objective])}
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono">{formatMetric('totalReturn', entry.outOfSample.totalReturn)}</td>
+                      <td className="px-4 py-3 text-right font-mono">{entry.foldsWon}</td>
+                      <td className="px-4 py-3 text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!profileName || applyMutation.isPending}
+                          onClick={() => applyMutation.mutate({ rank: entry.rank })}
+                          data-testid={`button-apply-candidate-${entry.rank}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Apply
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { fetchAlertEvents } from "@/lib/api";
+
+const LAST_SEEN_KEY = "quantedge:lastAlertEventId";
+
+/**
+ * Poll for new alert events and show each one as a toast.
+ * The last seen event id is kept in localStorage so reloads don't replay old alerts.
+ */
+export function useAlertNotifications() {
+  const queryClient = useQueryClient();
+  const stored = localStorage.getItem(LAST_SEEN_KEY);
+  const lastSeenId = useRef<number>(parseInt(stored || "0") || 0);
+  // On the very first visit, mark existing events as seen instead of toasting the backlog
+  const skipBacklog = useRef(stored === null);
+
+  const { data: events } = useQuery({
+    queryKey: ["alert-events", "notifications"],
+    queryFn: () => fetchAlertEvents(lastSeenId.current, 20),
+    refetchInterval: 30000,
+  });
+
+  useEffect(() => {
+    if (!events) return;
+    if (events.length === 0) {
+      skipBacklog.current = false;
+      return;
+    }
+
+    const fresh = events.filter((event: any) => event.id > lastSeenId.current);
+    if (fresh.length === 0) return;
+
+    if (!skipBacklog.current) {
+      // Events arrive newest first; toast them oldest first
+      for (const event of [...fresh].reverse()) {
+        toast({
+          title: `Alert: ${event.symbol}`,
+          description: event.message,
+        });
+      }
+    }
+    skipBacklog.current = false;
+
+    lastSeenId.current = Math.max(...fresh.map((event: any) => event.id));
+    localStorage.setItem(LAST_SEEN_KEY, lastSeenId.current.toString());
+    queryClient.invalidateQueries({ queryKey: ["alert-events", "history"] });
+  }, [events, queryClient]);
+}
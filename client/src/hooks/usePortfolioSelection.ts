@@ -0,0 +1,46 @@
+import { useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fetchPortfolios, type PortfolioSelection } from "@/lib/api";
+
+const SELECTED_KEY = "quantedge:portfolioId";
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function parseSelection(stored: string | null): PortfolioSelection | undefined {
+  if (stored === "all") return "all";
+  const id = parseInt(stored || "");
+  return Number.isNaN(id) ? undefined : id;
+}
+
+export function selectPortfolio(selection: PortfolioSelection) {
+  localStorage.setItem(SELECTED_KEY, selection.toString());
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * The portfolio picked in the switcher, shared by every component and kept across reloads.
+ * A missing or deleted selection resolves to the first active portfolio.
+ */
+export function usePortfolioSelection() {
+  const stored = useSyncExternalStore(subscribe, () => localStorage.getItem(SELECTED_KEY));
+  const { data: portfolios = [], isLoading } = useQuery<any[]>({
+    queryKey: ["portfolios"],
+    queryFn: fetchPortfolios,
+  });
+
+  const requested = parseSelection(stored);
+  const exists = requested === "all" || portfolios.some((p) => p.id === requested);
+  const fallback = (portfolios.find((p) => !p.archived) ?? portfolios[0])?.id;
+  const selection: PortfolioSelection | undefined = exists ? requested : fallback;
+  const selected = typeof selection === "number" ? portfolios.find((p) => p.id === selection) : undefined;
+
+  return { portfolios, selection, selected, select: selectPortfolio, isLoading };
+}
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+
+const STREAM_PATH = "/ws/prices";
+const MAX_RECONNECT_DELAY = 30000;
+
+export interface PriceTick {
+  symbol: string;
+  price: number;
+  timestamp: number;
+}
+
+export interface PortfolioUpdate {
+  portfolioId: number | "all";
+  holdings: any[];
+  totalValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+}
+
+type Listener = (message: any) => void;
+
+/**
+ * One WebSocket shared by every component. Symbol and portfolio subscriptions are
+ * reference counted and replayed after a reconnect.
+ */
+class PriceSocket {
+  private socket: WebSocket | null = null;
+  private symbolCounts = new Map<string, number>();
+  private portfolioWatchers = 0;
+  private portfolioId: number | "all" | undefined;
+  private listeners = new Set<Listener>();
+  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  connected = false;
+
+  private connect() {
+    if (this.socket || this.reconnectTimer) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    const socket = new WebSocket(`${protocol}://${window.location.host}${STREAM_PATH}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = 1000;
+      this.setConnected(true);
+      const symbols = Array.from(this.symbolCounts.keys());
+      if (symbols.length > 0) this.send({ type: "subscribe", symbols });
+      if (this.portfolioWatchers > 0) this.send({ type: "portfolio", portfolioId: this.portfolioId });
+    };
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        this.listeners.forEach((listener) => listener(message));
+      } catch {
+        // Ignore malformed messages
+      }
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      this.setConnected(false);
+      if (!this.isIdle()) {
+        // Back off up to 30s between reconnect attempts
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          this.connect();
+        }, this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      }
+    };
+  }
+
+  private isIdle() {
+    return this.symbolCounts.size === 0 && this.portfolioWatchers === 0;
+  }
+
+  private closeIfIdle() {
+    if (!this.isIdle()) return;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+  }
+
+  private setConnected(connected: boolean) {
+    this.connected = connected;
+    this.listeners.forEach((listener) => listener({ type: "connection", connected }));
+  }
+
+  private send(message: Record<string, unknown>) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  listen(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  subscribe(symbols: string[]) {
+    const added = symbols.filter((symbol) => {
+      const count = this.symbolCounts.get(symbol) || 0;
+      this.symbolCounts.set(symbol, count + 1);
+      return count === 0;
+    });
+    this.connect();
+    if (added.length > 0) this.send({ type: "subscribe", symbols: added });
+  }
+
+  unsubscribe(symbols: string[]) {
+    const removed = symbols.filter((symbol) => {
+      const count = (this.symbolCounts.get(symbol) || 0) - 1;
+      if (count > 0) {
+        this.symbolCounts.set(symbol, count);
+        return false;
+      }
+      this.symbolCounts.delete(symbol);
+      return true;
+    });
+    if (removed.length > 0) this.send({ type: "unsubscribe", symbols: removed });
+    this.closeIfIdle();
+  }
+
+  watchPortfolio(portfolioId?: number | "all") {
+    this.portfolioWatchers++;
+    this.portfolioId = portfolioId;
+    this.connect();
+    this.send({ type: "portfolio", portfolioId });
+  }
+
+  unwatchPortfolio() {
+    this.portfolioWatchers = Math.max(0, this.portfolioWatchers - 1);
+    if (this.portfolioWatchers === 0) this.send({ type: "portfolio", portfolioId: null });
+    this.closeIfIdle();
+  }
+}
+
+const priceSocket = new PriceSocket();
+
+/**
+ * Live prices for a set of symbols, pushed by the server as they change
+ */
+export function usePriceStream(symbols: string[]) {
+  const [prices, setPrices] = useState<Record<string, PriceTick>>({});
+  const [connected, setConnected] = useState(priceSocket.connected);
+  const key = Array.from(new Set(symbols.map((s) => s.toUpperCase()))).sort().join(",");
+
+  useEffect(() => {
+    const wanted = key ? key.split(",") : [];
+    if (wanted.length === 0) return;
+
+    const stopListening = priceSocket.listen((message) => {
+      if (message.type === "connection") setConnected(message.connected);
+      if (message.type === "ticker" && wanted.includes(message.symbol)) {
+        setPrices((current) => ({ ...current, [message.symbol]: message }));
+      }
+    });
+    priceSocket.subscribe(wanted);
+
+    return () => {
+      stopListening();
+      priceSocket.unsubscribe(wanted);
+    };
+  }, [key]);
+
+  return { prices, connected };
+}
+
+/**
+ * Live holding values for a portfolio, or "all" for the combined view (defaults to the user's first portfolio)
+ */
+export function usePortfolioStream(portfolioId?: number | "all") {
+  const [update, setUpdate] = useState<PortfolioUpdate | null>(null);
+  const [connected, setConnected] = useState(priceSocket.connected);
+
+  useEffect(() => {
+    // Don't show the previous portfolio's values while the new one loads
+    setUpdate(null);
+    const stopListening = priceSocket.listen((message) => {
+      if (message.type === "connection") setConnected(message.connected);
+      if (message.type === "portfolio" && (portfolioId === undefined || message.portfolioId === portfolioId)) {
+        setUpdate(message);
+      }
+    });
+    priceSocket.watchPortfolio(portfolioId);
+
+    return () => {
+      stopListening();
+      priceSocket.unwatchPortfolio();
+    };
+  }, [portfolioId]);
+
+  return { update, connected };
+}
@@ -20,24 +20,82 @@ export async function fetchKlines(symbol: string, interval: string = '1d', limit
   return response.json();
 }
 
-export async function fetchQuantScore(symbol: string, interval: string = '1d') {
-  const response = await fetch(`${API_BASE}/quant/${symbol}?interval=${interval}`);
+export interface ChartBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  sma20: number | null;
+  sma50: number | null;
+  ema20: number | null;
+  ema50: number | null;
+  bbUpper: number | null;
+  bbMiddle: number | null;
+  bbLower: number | null;
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHistogram: number | null;
+  mfi: number | null;
+}
+
+export async function fetchChart(symbol: string, interval: string = '1d', limit: number = 200): Promise<ChartBar[]> {
+  const response = await fetch(`${API_BASE}/chart/${symbol}?interval=${interval}&limit=${limit}`);
+  if (!response.ok) throw new Error('Failed to fetch chart data');
+  return response.json();
+}
+
+const profileParam = (profile?: string) => profile ? `&profile=${encodeURIComponent(profile)}` : '';
+
+export async function fetchQuantScore(symbol: string, interval: string = '1d', profile?: string) {
+  const response = await fetch(`${API_BASE}/quant/${symbol}?interval=${interval}${profileParam(profile)}`);
   if (!response.ok) throw new Error('Failed to fetch quant score');
   return response.json();
 }
 
-export async function fetchQuantTop50(limit: number = 50, interval: string = '1d') {
-  const response = await fetch(`${API_BASE}/quant/top50?limit=${limit}&interval=${interval}`);
+export async function fetchQuantTop50(limit: number = 50, interval: string = '1d', profile?: string, mtf: boolean = false) {
+  const response = await fetch(`${API_BASE}/quant/top50?limit=${limit}&interval=${interval}${profileParam(profile)}${mtf ? '&mtf=true' : ''}`);
   if (!response.ok) throw new Error('Failed to fetch top 50 quant scores');
   return response.json();
 }
 
-export async function fetchQuantSignal(symbol: string, interval: string = '1d') {
-  const response = await fetch(`${API_BASE}/quant/signal/${symbol}?interval=${interval}`);
+export async function fetchQuantSignal(symbol: string, interval: string = '1d', profile?: string) {
+  const response = await fetch(`${API_BASE}/quant/signal/${symbol}?interval=${interval}${profileParam(profile)}`);
   if (!response.ok) throw new Error('Failed to fetch quant signal');
   return response.json();
 }
 
+export async function fetchQuantConfluence(symbol: string, profile?: string) {
+  const query = profile ? `?profile=${encodeURIComponent(profile)}` : '';
+  const response = await fetch(`${API_BASE}/quant/${symbol}/mtf${query}`);
+  if (!response.ok) throw new Error('Failed to fetch multi-timeframe analysis');
+  return response.json();
+}
+
+export async function fetchQuantHistory(
+  symbol: string,
+  params: { interval?: string; profile?: string; from?: string; to?: string } = {}
+) {
+  const query = new URLSearchParams({ interval: params.interval || '1d' });
+  if (params.profile) query.set('profile', params.profile);
+  if (params.from) query.set('from', params.from);
+  if (params.to) query.set('to', params.to);
+  const response = await fetch(`${API_BASE}/quant/${symbol}/history?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch quant history');
+  return response.json();
+}
+
+export async function fetchCalibration(params: { interval?: string; profile?: string; symbol?: string } = {}) {
+  const query = new URLSearchParams({ interval: params.interval || '1d' });
+  if (params.profile) query.set('profile', params.profile);
+  if (params.symbol) query.set('symbol', params.symbol);
+  const response = await fetch(`${API_BASE}/quant/calibration?${query}`);
+  if (!response.ok) throw new Error('Failed to fetch calibration report');
+  return response.json();
+}
+
 export async function fetchMarketRegime() {
   const response = await fetch(`${API_BASE}/regime`);
   if (!response.ok) throw new Error('Failed to fetch market regime');
@@ -50,12 +108,494 @@ export async function fetchQuantSignals(limit: number = 10) {
   return response.json();
 }
 
-export async function fetchPortfolio() {
-  const response = await fetch(`${API_BASE}/portfolio`);
+export async function runBacktest(params: {
+  symbol: string;
+  interval: string;
+  limit?: number;
+  lookback?: number;
+  initialCapital?: number;
+  feeRate?: number;
+}) {
+  const response = await fetch(`${API_BASE}/backtest`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to run backtest');
+  }
+  return response.json();
+}
+
+export type AllocationObjective = 'mean-variance' | 'min-variance' | 'risk-parity' | 'score-tilted';
+
+export async function optimizeAllocation(params: {
+  symbols?: string[];
+  universeSize?: number;
+  objective: AllocationObjective;
+  days?: number;
+  maxWeight?: number;
+  longOnly?: boolean;
+  excludeStablecoins?: boolean;
+  riskAversion?: number;
+}) {
+  const response = await fetch(`${API_BASE}/allocation/optimize`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to optimize allocation');
+  }
+  return response.json();
+}
+
+export async function fetchOptimizerRuns() {
+  const response = await fetch(`${API_BASE}/weight-optimizer/runs`);
+  if (!response.ok) throw new Error('Failed to fetch optimizer runs');
+  return response.json();
+}
+
+export async function fetchOptimizerRun(id: number) {
+  const response = await fetch(`${API_BASE}/weight-optimizer/runs/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch optimizer run');
+  return response.json();
+}
+
+export async function startOptimizerRun(params: {
+  symbol: string;
+  interval: string;
+  candidates?: number;
+  trainBars?: number;
+  testBars?: number;
+  objective?: string;
+}) {
+  const response = await fetch(`${API_BASE}/weight-optimizer/runs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to start optimizer run');
+  }
+  return response.json();
+}
+
+export async function applyOptimizerCandidate(runId: number, rank: number, name: string) {
+  const response = await fetch(`${API_BASE}/weight-optimizer/runs/${runId}/apply`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rank, name }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to apply optimizer result');
+  }
+  return response.json();
+}
+
+export interface StrategyProfileInput {
+  name: string;
+  description?: string | null;
+  weights: Record<'trend' | 'momentum' | 'volatility' | 'volume' | 'risk' | 'sentiment', number>;
+  buyThreshold: number;
+  sellThreshold: number;
+}
+
+export async function fetchStrategyProfiles() {
+  const response = await fetch(`${API_BASE}/strategy-profiles`);
+  if (!response.ok) throw new Error('Failed to fetch strategy profiles');
+  return response.json();
+}
+
+export async function createStrategyProfile(profile: StrategyProfileInput) {
+  const response = await fetch(`${API_BASE}/strategy-profiles`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(profile),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create strategy profile');
+  }
+  return response.json();
+}
+
+export async function updateStrategyProfile(id: number, profile: Partial<StrategyProfileInput>) {
+  const response = await fetch(`${API_BASE}/strategy-profiles/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(profile),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update strategy profile');
+  }
+  return response.json();
+}
+
+export async function deleteStrategyProfile(id: number) {
+  const response = await fetch(`${API_BASE}/strategy-profiles/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to delete strategy profile');
+  }
+  return response.json();
+}
+
+export type PositionSizingMethod = 'fixed-amount' | 'equity-percent' | 'equal-weight';
+
+export interface StrategyRunnerInput {
+  name: string;
+  portfolioId: number;
+  profile: string;
+  interval: string;
+  universe: string[];
+  sizingMethod: PositionSizingMethod;
+  sizingValue?: string | null;
+  status?: 'active' | 'paused';
+}
+
+export async function fetchStrategyRunners() {
+  const response = await fetch(`${API_BASE}/strategy-runners`);
+  if (!response.ok) throw new Error('Failed to fetch strategy runners');
+  return response.json();
+}
+
+export async function createStrategyRunner(runner: StrategyRunnerInput) {
+  const response = await fetch(`${API_BASE}/strategy-runners`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(runner),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create strategy runner');
+  }
+  return response.json();
+}
+
+export async function updateStrategyRunner(id: number, runner: Partial<StrategyRunnerInput>) {
+  const response = await fetch(`${API_BASE}/strategy-runners/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(runner),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update strategy runner');
+  }
+  return response.json();
+}
+
+export async function deleteStrategyRunner(id: number) {
+  const response = await fetch(`${API_BASE}/strategy-runners/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to delete strategy runner');
+  return response.json();
+}
+
+export async function runStrategyRunner(id: number) {
+  const response = await fetch(`${API_BASE}/strategy-runners/${id}/run`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to run strategy');
+  }
+  return response.json();
+}
+
+export async function fetchStrategyRuns(id: number, limit: number = 50) {
+  const response = await fetch(`${API_BASE}/strategy-runners/${id}/runs?limit=${limit}`);
+  if (!response.ok) throw new Error('Failed to fetch strategy runs');
+  return response.json();
+}
+
+export interface ScreenInput {
+  name: string;
+  expression: string;
+  interval: string;
+  profile: string;
+}
+
+export async function fetchScreenerFields() {
+  const response = await fetch(`${API_BASE}/screener/fields`);
+  if (!response.ok) throw new Error('Failed to fetch screener fields');
+  return response.json();
+}
+
+export async function runScreener(request: { expression: string; interval: string; profile?: string; limit?: number }) {
+  const response = await fetch(`${API_BASE}/screener/run`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to run screen');
+  }
+  return response.json();
+}
+
+export async function fetchScreens() {
+  const response = await fetch(`${API_BASE}/screens`);
+  if (!response.ok) throw new Error('Failed to fetch screens');
+  return response.json();
+}
+
+export async function createScreen(screen: ScreenInput) {
+  const response = await fetch(`${API_BASE}/screens`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(screen),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to save screen');
+  }
+  return response.json();
+}
+
+export async function updateScreen(id: number, screen: Partial<ScreenInput>) {
+  const response = await fetch(`${API_BASE}/screens/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(screen),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update screen');
+  }
+  return response.json();
+}
+
+export async function deleteScreen(id: number) {
+  const response = await fetch(`${API_BASE}/screens/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to delete screen');
+  return response.json();
+}
+
+export interface AlertInput {
+  symbol: string;
+  interval: string;
+  metric: string;
+  condition: string;
+  threshold?: string | null;
+  targetValue?: string | null;
+  cooldownMinutes: number;
+  enabled?: boolean;
+}
+
+export async function fetchAlerts() {
+  const response = await fetch(`${API_BASE}/alerts`);
+  if (!response.ok) throw new Error('Failed to fetch alerts');
+  return response.json();
+}
+
+export async function createAlert(alert: AlertInput) {
+  const response = await fetch(`${API_BASE}/alerts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(alert),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create alert');
+  }
+  return response.json();
+}
+
+export async function updateAlert(id: number, alert: Partial<AlertInput>) {
+  const response = await fetch(`${API_BASE}/alerts/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(alert),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update alert');
+  }
+  return response.json();
+}
+
+export async function deleteAlert(id: number) {
+  const response = await fetch(`${API_BASE}/alerts/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to delete alert');
+  return response.json();
+}
+
+export async function fetchAlertEvents(afterId: number = 0, limit: number = 50) {
+  const response = await fetch(`${API_BASE}/alert-events?afterId=${afterId}&limit=${limit}`);
+  if (!response.ok) throw new Error('Failed to fetch alert events');
+  return response.json();
+}
+
+export async function markAlertEventsRead(ids?: number[]) {
+  const response = await fetch(`${API_BASE}/alert-events/read`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids }),
+  });
+  if (!response.ok) throw new Error('Failed to mark alert events as read');
+  return response.json();
+}
+
+export interface WebhookInput {
+  url: string;
+  description?: string | null;
+  events: string[];
+  symbols?: string[] | null;
+  enabled?: boolean;
+}
+
+export async function fetchWebhooks() {
+  const response = await fetch(`${API_BASE}/webhooks`);
+  if (!response.ok) throw new Error('Failed to fetch webhooks');
+  return response.json();
+}
+
+export async function createWebhook(webhook: WebhookInput) {
+  const response = await fetch(`${API_BASE}/webhooks`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(webhook),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create webhook');
+  }
+  return response.json();
+}
+
+export async function updateWebhook(id: number, webhook: Partial<WebhookInput>) {
+  const response = await fetch(`${API_BASE}/webhooks/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(webhook),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update webhook');
+  }
+  return response.json();
+}
+
+export async function deleteWebhook(id: number) {
+  const response = await fetch(`${API_BASE}/webhooks/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw new Error('Failed to delete webhook');
+  return response.json();
+}
+
+export async function rotateWebhookSecret(id: number) {
+  const response = await fetch(`${API_BASE}/webhooks/${id}/rotate-secret`, {
+    method: 'POST',
+  });
+  if (!response.ok) throw new Error('Failed to rotate webhook secret');
+  return response.json();
+}
+
+export async function sendWebhookTest(id: number) {
+  const response = await fetch(`${API_BASE}/webhooks/${id}/test`, {
+    method: 'POST',
+  });
+  if (!response.ok) throw new Error('Failed to send test event');
+  return response.json();
+}
+
+export async function fetchWebhookDeliveries(id: number, limit: number = 20) {
+  const response = await fetch(`${API_BASE}/webhooks/${id}/deliveries?limit=${limit}`);
+  if (!response.ok) throw new Error('Failed to fetch webhook deliveries');
+  return response.json();
+}
+
+export type PortfolioSelection = number | 'all';
+
+export async function fetchPortfolios() {
+  const response = await fetch(`${API_BASE}/portfolios`);
+  if (!response.ok) throw new Error('Failed to fetch portfolios');
+  return response.json();
+}
+
+/**
+ * A portfolio's holdings and trades; 'all' combines every active portfolio, no selection is the default one
+ */
+export async function fetchPortfolio(selection?: PortfolioSelection) {
+  const path = selection === undefined ? 'portfolio' : `portfolios/${selection}`;
+  const response = await fetch(`${API_BASE}/${path}`);
   if (!response.ok) throw new Error('Failed to fetch portfolio');
   return response.json();
 }
 
+export async function createPortfolio(name: string) {
+  const response = await fetch(`${API_BASE}/portfolios`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to create portfolio');
+  }
+  return response.json();
+}
+
+export type CostBasisMethod = 'average' | 'fifo' | 'lifo' | 'specific';
+
+export async function updatePortfolio(
+  id: number,
+  update: { name?: string; archived?: boolean; costBasisMethod?: CostBasisMethod }
+) {
+  const response = await fetch(`${API_BASE}/portfolios/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update portfolio');
+  }
+  return response.json();
+}
+
+export async function deletePortfolio(id: number) {
+  const response = await fetch(`${API_BASE}/portfolios/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to delete portfolio');
+  }
+  return response.json();
+}
+
+/**
+ * Capital gains report URL; csv downloads a file and html opens a printable page
+ */
+export function taxReportUrl(selection: PortfolioSelection, year?: number, format: 'json' | 'csv' | 'html' = 'json') {
+  const params = new URLSearchParams({ format });
+  if (year !== undefined) params.set('year', year.toString());
+  return `${API_BASE}/portfolios/${selection}/tax-report?${params}`;
+}
+
+export async function fetchTaxReport(selection: PortfolioSelection, year?: number) {
+  const response = await fetch(taxReportUrl(selection, year));
+  if (!response.ok) throw new Error('Failed to fetch tax report');
+  return response.json();
+}
+
 export async function addTrade(trade: {
   portfolioId: number;
   symbol: string;
@@ -66,13 +606,60 @@ export async function addTrade(trade: {
   totalCost?: string;
   side: string;
   date: Date;
+  lots?: Array<{ tradeId: number; quantity: string }>; // Specific-lot sells only
 }) {
   const response = await fetch(`${API_BASE}/portfolio/trade`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(trade),
   });
-  if (!response.ok) throw new Error('Failed to add trade');
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to add trade');
+  }
+  return response.json();
+}
+
+export async function fetchTradeImportPresets() {
+  const response = await fetch(`${API_BASE}/trade-import/presets`);
+  if (!response.ok) throw new Error('Failed to fetch import presets');
+  return response.json();
+}
+
+export async function importTradesCsv(portfolioId: number, request: {
+  csv: string;
+  preset: string;
+  mapping?: Record<string, string>;
+  dryRun: boolean;
+}) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/trades/import`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to import trades');
+  }
+  return response.json();
+}
+
+export async function rebalancePortfolio(portfolioId: number, request: {
+  targets: Array<{ symbol: string; weight: number }>;
+  driftBand?: number;
+  minTradeValue?: number;
+  cash?: number;
+  dryRun: boolean;
+}) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/rebalance`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to rebalance portfolio');
+  }
   return response.json();
 }
 
@@ -84,6 +671,136 @@ export async function deleteTrade(id: number) {
   return response.json();
 }
 
+export async function fetchPerformance(selection: PortfolioSelection, days: number = 365) {
+  const params = new URLSearchParams({ portfolioId: selection.toString(), days: days.toString() });
+  const response = await fetch(`${API_BASE}/portfolio/performance?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch performance');
+  return response.json();
+}
+
+export async function fetchPortfolioRisk(selection: PortfolioSelection, days: number = 365) {
+  const params = new URLSearchParams({ portfolioId: selection.toString(), days: days.toString() });
+  const response = await fetch(`${API_BASE}/portfolio/risk?${params}`);
+  if (!response.ok) throw new Error('Failed to fetch portfolio risk');
+  return response.json();
+}
+
+export async function fetchCashFlows(portfolioId: number) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/cash-flows`);
+  if (!response.ok) throw new Error('Failed to fetch cash flows');
+  return response.json();
+}
+
+export async function createCashFlow(portfolioId: number, flow: {
+  type: 'deposit' | 'withdrawal';
+  amount: string;
+  date: Date;
+  note?: string;
+}) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/cash-flows`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(flow),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to record cash flow');
+  }
+  return response.json();
+}
+
+export async function deleteCashFlow(portfolioId: number, id: number) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/cash-flows/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to delete cash flow');
+  }
+  return response.json();
+}
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit';
+export type OrderStatus = 'open' | 'filled' | 'cancelled';
+
+/**
+ * Paper account summary, or null when paper trading isn't enabled for the portfolio
+ */
+export async function fetchPaperAccount(portfolioId: number) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/paper`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error('Failed to fetch paper account');
+  return response.json();
+}
+
+export async function openPaperAccount(portfolioId: number, settings: {
+  startingCash: number;
+  slippageBps?: number;
+  feeRate?: number;
+}) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/paper`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to enable paper trading');
+  }
+  return response.json();
+}
+
+export async function updatePaperSettings(portfolioId: number, settings: { slippageBps?: number; feeRate?: number }) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/paper`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update paper settings');
+  }
+  return response.json();
+}
+
+export async function fetchOrders(portfolioId: number, status?: OrderStatus) {
+  const params = status ? `?${new URLSearchParams({ status })}` : '';
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/orders${params}`);
+  if (!response.ok) throw new Error('Failed to fetch orders');
+  return response.json();
+}
+
+export async function placeOrder(portfolioId: number, order: {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: string;
+  limitPrice?: string;
+}) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/orders`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(order),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to place order');
+  }
+  return response.json();
+}
+
+export async function cancelOrder(portfolioId: number, orderId: number) {
+  const response = await fetch(`${API_BASE}/portfolios/${portfolioId}/orders/${orderId}/cancel`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to cancel order');
+  }
+  return response.json();
+}
+
 export async function sendChatMessage(message: string) {
   const response = await fetch(`${API_BASE}/chat`, {
     method: 'POST',
@@ -0,0 +1,376 @@
+import { Sidebar } from "@/components/layout/Sidebar";
+import { useState } from "react";
+import { Bell, Plus, Trash2, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WebhooksPanel } from "@/components/alerts/WebhooksPanel";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchAlerts,
+  createAlert,
+  updateAlert,
+  deleteAlert,
+  fetchAlertEvents,
+  markAlertEventsRead,
+} from "@/lib/api";
+
+const METRICS: Record<string, string> = {
+  price: 'Price',
+  compositeScore: 'Composite Score',
+  trend: 'Trend Score',
+  momentum: 'Momentum Score',
+  volatility: 'Volatility Score',
+  volume: 'Volume Score',
+  risk: 'Risk Score',
+  rsi: 'RSI',
+  regime: 'Market Regime',
+  signal: 'Signal',
+};
+
+const NUMERIC_CONDITIONS: Record<string, string> = {
+  above: 'Is above',
+  below: 'Is below',
+  crosses_above: 'Crosses above',
+  crosses_below: 'Crosses below',
+};
+
+const CATEGORICAL_CONDITIONS: Record<string, string> = {
+  changes_to: 'Changes to',
+  is: 'Is',
+};
+
+const CATEGORICAL_TARGETS: Record<string, string[]> = {
+  regime: ['bull', 'bear', 'sideways'],
+  signal: ['BUY', 'SELL', 'HOLD'],
+};
+
+const emptyForm = {
+  symbol: '',
+  interval: '1d',
+  metric: 'price',
+  condition: 'crosses_above',
+  threshold: '',
+  targetValue: '',
+  cooldownMinutes: '60',
+};
+
+export default function Alerts() {
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const isCategorical = form.metric in CATEGORICAL_TARGETS;
+
+  const { data: alerts, isLoading } = useQuery({
+    queryKey: ['alerts'],
+    queryFn: fetchAlerts,
+  });
+
+  const { data: events } = useQuery({
+    queryKey: ['alert-events', 'history'],
+    queryFn: () => fetchAlertEvents(0, 100),
+    refetchInterval: 30000,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createAlert,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] });
+      setIsCreateOpen(false);
+      setForm(emptyForm);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: number; enabled: boolean }) => updateAlert(id, { enabled }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['alerts'] }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAlert,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['alert-events'] });
+    },
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: () => markAlertEventsRead(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['alert-events'] }),
+  });
+
+  const handleMetricChange = (metric: string) => {
+    const categorical = metric in CATEGORICAL_TARGETS;
+    setForm({
+      ...form,
+      metric,
+      condition: categorical ? 'changes_to' : 'crosses_above',
+      targetValue: categorical ? CATEGORICAL_TARGETS[metric][0] : '',
+      threshold: categorical ? '' : form.threshold,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      symbol: form.symbol.toUpperCase(),
+      interval: form.interval,
+      metric: form.metric,
+      condition: form.condition,
+      threshold: isCategorical ? null : form.threshold,
+      targetValue: isCategorical ? form.targetValue : null,
+      cooldownMinutes: parseInt(form.cooldownMinutes) || 0,
+    });
+  };
+
+  const describeRule = (alert: any) => {
+    const conditions = { ...NUMERIC_CONDITIONS, ...CATEGORICAL_CONDITIONS };
+    const target = alert.targetValue ?? parseFloat(alert.threshold).toLocaleString();
+    const interval = alert.metric === 'price' ? '' : ` (${alert.interval})`;
+    return `${METRICS[alert.metric] || alert.metric}${interval} ${(conditions[alert.condition] || alert.condition).toLowerCase()} ${target}`;
+  };
+
+  const unreadCount = events?.filter((event: any) => !event.read).length || 0;
+
+  return (
+    <div className="flex min-h-screen bg-background font-sans">
+      <Sidebar />
+
+      <main className="flex-1 pt-16 md:pt-0 md:ml-64 p-4 md:p-8">
+        <header className="mb-6 md:mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground tracking-tight flex items-center gap-2 md:gap-3">
+              <Bell className="h-6 w-6 md:h-8 md:w-8 text-primary" />
+              Alerts
+            </h1>
+            <p className="text-sm md:text-base text-muted-foreground">Price and signal rules checked every minute</p>
+          </div>
+
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-primary text-primary-foreground hover:bg-primary/90" data-testid="button-create-alert">
+                <Plus className="mr-2 h-4 w-4" /> New Alert
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="bg-card border-border w-[90%] md:w-full max-h-[85vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>New Alert</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid gap-4 grid-cols-2">
+                  <div>
+                    <Label htmlFor="alert-symbol">Symbol</Label>
+                    <Input
+                      id="alert-symbol"
+                      placeholder="BTC, ETH, SOL..."
+                      value={form.symbol}
+                      onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+                      className="bg-muted/50 border-border"
+                      data-testid="input-alert-symbol"
+                    />
+                  </div>
+                  <div>
+                    <Label>Interval</Label>
+                    <Select
+                      value={form.interval}
+                      onValueChange={(value) => setForm({ ...form, interval: value })}
+                      disabled={form.metric === 'price'}
+                    >
+                      <SelectTrigger className="bg-muted/50 border-border" data-testid="select-alert-interval">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {['1h', '4h', '1d', '1w'].map(interval => (
+                          <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 grid-cols-2">
+                  <div>
+                    <Label>Metric</Label>
+                    <Select value={form.metric} onValueChange={handleMetricChange}>
+                      <SelectTrigger className="bg-muted/50 border-border" data-testid="select-alert-metric">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(METRICS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Condition</Label>
+                    <Select value={form.condition} onValueChange={(value) => setForm({ ...form, condition: value })}>
+                      <SelectTrigger className="bg-muted/50 border-border" data-testid="select-alert-condition">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(isCategorical ? CATEGORICAL_CONDITIONS : NUMERIC_CONDITIONS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 grid-cols-2">
+                  {isCategorical ? (
+                    <div>
+                      <Label>Value</Label>
+                      <Select value={form.targetValue} onValueChange={(value) => setForm({ ...form, targetValue: value })}>
+                        <SelectTrigger className="bg-muted/50 border-border" data-testid="select-alert-target">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CATEGORICAL_TARGETS[form.metric].map(value => (
+                            <SelectItem key={value} value={value}>{value}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div>
+                      <Label htmlFor="alert-threshold">Threshold</Label>
+                      <Input
+                        id="alert-threshold"
+                        type="number"
+                        step="any"
+                        placeholder={form.metric === 'price' ? '70000' : '35'}
+                        value={form.threshold}
+                        onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                        className="bg-muted/50 border-border"
+                        data-testid="input-alert-threshold"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="alert-cooldown">Cooldown (minutes)</Label>
+                    <Input
+                      id="alert-cooldown"
+                      type="number"
+                      min={0}
+                      value={form.cooldownMinutes}
+                      onChange={(e) => setForm({ ...form, cooldownMinutes: e.target.value })}
+                      className="bg-muted/50 border-border"
+                      data-testid="input-alert-cooldown"
+                    />
+                  </div>
+                </div>
+
+                {createMutation.isError && (
+                  <p className="text-xs text-destructive">
+                    ⚠ {createMutation.error instanceof Error ? createMutation.error.message : 'Failed to create alert'}
+                  </p>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={!form.symbol || (!isCategorical && !form.threshold) || createMutation.isPending}
+                  data-testid="button-submit-alert"
+                >
+                  {createMutation.isPending ? 'Creating...' : 'Create Alert'}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </header>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Alert Rules */}
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+            <div className="px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-bold text-foreground">Rules</h2>
+            </div>
+            {isLoading ? (
+              <div className="p-6"><Skeleton className="h-32 w-full" /></div>
+            ) : alerts && alerts.length > 0 ? (
+              <div className="divide-y divide-border">
+                {alerts.map((alert: any) => (
+                  <div key={alert.id} className="px-6 py-4 flex items-center justify-between gap-4" data-testid={`row-alert-${alert.id}`}>
+                    <div className="min-w-0">
+                      <div className="font-mono font-bold text-foreground">{alert.symbol}</div>
+                      <div className="text-sm text-muted-foreground truncate">{describeRule(alert)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Cooldown {alert.cooldownMinutes}m
+                        {alert.lastTriggeredAt && ` · Last triggered ${new Date(alert.lastTriggeredAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Switch
+                        checked={alert.enabled}
+                        onCheckedChange={(enabled) => toggleMutation.mutate({ id: alert.id, enabled })}
+                        data-testid={`switch-alert-${alert.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(alert.id)}
+                        className="text-muted-foreground hover:text-red-500"
+                        data-testid={`button-delete-alert-${alert.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="p-12 text-center">
+                <Bell className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No alerts yet. Create one to get notified.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Triggered Events */}
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+            <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+              <h2 className="text-lg font-bold text-foreground">
+                Triggered
+                {unreadCount > 0 && <span className="ml-2 text-sm text-primary font-mono">{unreadCount} new</span>}
+              </h2>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => markReadMutation.mutate()}
+                disabled={unreadCount === 0 || markReadMutation.isPending}
+                data-testid="button-mark-alerts-read"
+              >
+                <CheckCheck className="h-4 w-4 mr-2" />
+                Mark all read
+              </Button>
+            </div>
+            {events && events.length > 0 ? (
+              <div className="divide-y divide-border max-h-[600px] overflow-y-auto">
+                {events.map((event: any) => (
+                  <div key={event.id} className={`px-6 py-3 ${event.read ? '' : 'bg-primary/5'}`} data-testid={`row-alert-event-${event.id}`}>
+                    <div className="text-sm text-foreground">{event.message}</div>
+                    <div className="text-xs text-muted-foreground">{new Date(event.triggeredAt).toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="p-12 text-center">
+                <p className="text-muted-foreground">No alerts have triggered yet</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <WebhooksPanel />
+        </div>
+      </main>
+    </div>
+  );
+}
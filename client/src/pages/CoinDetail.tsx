@@ -1,12 +1,15 @@
 import { useParams, Link } from "wouter";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { PriceChart } from "@/components/dashboard/PriceChart";
+import { ScoreHistoryChart } from "@/components/dashboard/ScoreHistoryChart";
+import { ForecastCalibration } from "@/components/dashboard/ForecastCalibration";
+import { TimeframeConfluence } from "@/components/dashboard/TimeframeConfluence";
 import { AIChatWidget } from "@/components/dashboard/AIChatWidget";
-import { ArrowLeft, ArrowUpRight, ArrowDownRight, Zap, Activity } from "lucide-react";
+import { ArrowLeft, ArrowUpRight, ArrowDownRight, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useQuery } from "@tanstack/react-query";
-import { fetchCoin, fetchKlines, fetchQuantScore } from "@/lib/api";
+import { fetchCoin, fetchQuantScore, fetchQuantHistory } from "@/lib/api";
 import { Skeleton } from "@/components/ui/skeleton";
 
 export default function CoinDetail() {
@@ -18,13 +21,6 @@ export default function CoinDetail() {
     enabled: !!symbol,
   });
 
-  const { data: klines, isLoading: klinesLoading } = useQuery({
-    queryKey: ['klines', symbol],
-    queryFn: () => fetchKlines(symbol || 'BTC', '1d', 100),
-    enabled: !!symbol,
-    refetchInterval: 60000,
-  });
-
   const { data: quantScore, isLoading: scoreLoading } = useQuery({
     queryKey: ['quant-score', symbol],
     queryFn: () => fetchQuantScore(symbol || 'BTC', '1d'),
@@ -32,6 +28,13 @@ export default function CoinDetail() {
     refetchInterval: 300000, // Refresh every 5 minutes
   });
 
+  const { data: quantHistory } = useQuery({
+    queryKey: ['quant-history', symbol],
+    queryFn: () => fetchQuantHistory(symbol || 'BTC', { interval: '1d' }),
+    enabled: !!symbol && !!quantScore, // Wait for the analysis so the latest snapshot is included
+    refetchInterval: 300000,
+  });
+
   if (coinLoading || !coinData) {
     return (
       <div className="flex min-h-screen bg-background font-sans">
@@ -100,30 +103,9 @@ export default function CoinDetail() {
         {/* Chart Section */}
         <div className="grid gap-6 lg:grid-cols-3 mb-8">
           <div className="lg:col-span-2 space-y-6">
-            {/* Controls */}
-            <div className="flex items-center justify-between">
-              <div className="flex bg-card/50 rounded-lg p-1 border border-border">
-                {['1H', '4H', '1D', '1W', '1M'].map((tf) => (
-                  <button 
-                    key={tf} 
-                    className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${tf === '1D' ? 'bg-primary text-primary-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'}`}
-                  >
-                    {tf}
-                  </button>
-                ))}
-              </div>
-              <div className="flex gap-2">
-                <Button variant="outline" size="sm" className="h-8 gap-2 border-border bg-card/50">
-                  <Activity className="h-3 w-3" /> Indicators
-                </Button>
-              </div>
-            </div>
-            
-            {klinesLoading ? (
-              <Skeleton className="h-[400px] w-full rounded-xl" />
-            ) : (
-              <PriceChart klines={klines || []} />
-            )}
+            <PriceChart symbol={(symbol || 'BTC').toUpperCase()} />
+
+            <ScoreHistoryChart snapshots={quantHistory || []} />
           </div>
 
           {/* Quant Stats Panel */}
@@ -243,6 +225,10 @@ export default function CoinDetail() {
               )}
             </div>
 
+            <TimeframeConfluence symbol={(symbol || 'BTC').toUpperCase()} />
+
+            <ForecastCalibration symbol={(symbol || 'BTC').toUpperCase()} forecast={quantScore?.forecast} />
+
             {/* Key Stats */}
             <div className="grid grid-cols-2 gap-4">
                <div className="rounded-xl border border-border bg-card/50 p-4">
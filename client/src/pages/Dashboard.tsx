@@ -10,6 +10,7 @@ import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { fetchMarkets, fetchMarketRegime, fetchPortfolio } from "@/lib/api";
 import { Skeleton } from "@/components/ui/skeleton";
+import { usePortfolioSelection } from "@/hooks/usePortfolioSelection";
 
 export default function Dashboard() {
   const { data: markets, isLoading: marketsLoading } = useQuery({
@@ -24,9 +25,11 @@ export default function Dashboard() {
     refetchInterval: 300000, // Refresh every 5 minutes
   });
 
+  const { selection } = usePortfolioSelection();
   const { data: portfolio, isLoading: portfolioLoading } = useQuery({
-    queryKey: ['portfolio'],
-    queryFn: () => fetchPortfolio(),
+    queryKey: ['portfolio', selection],
+    queryFn: () => fetchPortfolio(selection),
+    enabled: selection !== undefined,
     refetchInterval: 60000,
   });
 
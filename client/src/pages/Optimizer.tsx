@@ -0,0 +1,301 @@
+import { Sidebar } from "@/components/layout/Sidebar";
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { Scale } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { optimizeAllocation, type AllocationObjective } from "@/lib/api";
+
+const OBJECTIVES: Array<{ value: AllocationObjective; label: string }> = [
+  { value: 'mean-variance', label: 'Mean-Variance' },
+  { value: 'min-variance', label: 'Minimum Variance' },
+  { value: 'risk-parity', label: 'Risk Parity' },
+  { value: 'score-tilted', label: 'Quant Score Tilt' },
+];
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export default function Optimizer() {
+  const [form, setForm] = useState({
+    symbols: '',
+    universeSize: '10',
+    objective: 'mean-variance' as AllocationObjective,
+    days: '365',
+    maxWeight: '40',
+    riskAversion: '3',
+    longOnly: true,
+    excludeStablecoins: true,
+  });
+
+  const optimizeMutation = useMutation({ mutationFn: optimizeAllocation });
+  const result = optimizeMutation.data;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbols = form.symbols.split(/[\s,]+/).map(s => s.trim().toUpperCase()).filter(Boolean);
+    optimizeMutation.mutate({
+      symbols: symbols.length > 0 ? symbols : undefined,
+      universeSize: parseInt(form.universeSize) || 10,
+      objective: form.objective,
+      days: parseInt(form.days) || 365,
+      maxWeight: (parseFloat(form.maxWeight) || 40) / 100,
+      riskAversion: parseFloat(form.riskAversion) || 3,
+      longOnly: form.longOnly,
+      excludeStablecoins: form.excludeStablecoins,
+    });
+  };
+
+  const metricCards = result ? [
+    { label: 'Expected Return (ann.)', value: formatPercent(result.portfolio.expectedReturn), positive: result.portfolio.expectedReturn >= 0 },
+    { label: 'Volatility (ann.)', value: `${result.portfolio.volatility.toFixed(2)}%`, positive: true },
+    { label: 'Sharpe', value: result.portfolio.sharpe.toFixed(2), positive: result.portfolio.sharpe >= 0 },
+    { label: 'Observations', value: `${result.observations} days`, positive: true },
+  ] : [];
+
+  return (
+    <div className="flex min-h-screen bg-background font-sans">
+      <Sidebar />
+
+      <main className="flex-1 pt-16 md:pt-0 md:ml-64 p-4 md:p-8">
+        <header className="mb-6 md:mb-8">
+          <h1 className="text-2xl md:text-3xl font-bold text-foreground tracking-tight flex items-center gap-2 md:gap-3">
+            <Scale className="h-6 w-6 md:h-8 md:w-8 text-primary" />
+            Optimizer
+          </h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            Target weights from daily candle history, with the efficient frontier
+          </p>
+        </header>
+
+        <div className="space-y-6">
+          <form onSubmit={handleSubmit} className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm grid gap-4 grid-cols-2 md:grid-cols-4 items-end">
+            <div className="col-span-2">
+              <Label htmlFor="optimizer-symbols">Coins (blank for the top coins by market cap)</Label>
+              <Input
+                id="optimizer-symbols"
+                placeholder="BTC, ETH, SOL"
+                value={form.symbols}
+                onChange={(e) => setForm({ ...form, symbols: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-optimizer-symbols"
+              />
+            </div>
+            <div>
+              <Label htmlFor="optimizer-universe">Top N</Label>
+              <Input
+                id="optimizer-universe"
+                type="number"
+                min={2}
+                max={30}
+                disabled={form.symbols.trim() !== ''}
+                value={form.universeSize}
+                onChange={(e) => setForm({ ...form, universeSize: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-optimizer-universe"
+              />
+            </div>
+            <div>
+              <Label>Objective</Label>
+              <Select value={form.objective} onValueChange={(value) => setForm({ ...form, objective: value as AllocationObjective })}>
+                <SelectTrigger className="bg-muted/50 border-border" data-testid="select-optimizer-objective">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OBJECTIVES.map(objective => (
+                    <SelectItem key={objective.value} value={objective.value}>{objective.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="optimizer-days">History (days)</Label>
+              <Input
+                id="optimizer-days"
+                type="number"
+                min={60}
+                max={1095}
+                value={form.days}
+                onChange={(e) => setForm({ ...form, days: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-optimizer-days"
+              />
+            </div>
+            <div>
+              <Label htmlFor="optimizer-max-weight">Max Weight (%)</Label>
+              <Input
+                id="optimizer-max-weight"
+                type="number"
+                min={1}
+                max={100}
+                value={form.maxWeight}
+                onChange={(e) => setForm({ ...form, maxWeight: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-optimizer-max-weight"
+              />
+            </div>
+            <div>
+              <Label htmlFor="optimizer-risk-aversion">Risk Aversion</Label>
+              <Input
+                id="optimizer-risk-aversion"
+                type="number"
+                min={0.1}
+                max={100}
+                step="any"
+                disabled={form.objective === 'min-variance' || form.objective === 'risk-parity'}
+                value={form.riskAversion}
+                onChange={(e) => setForm({ ...form, riskAversion: e.target.value })}
+                className="bg-muted/50 border-border"
+                data-testid="input-optimizer-risk-aversion"
+              />
+            </div>
+            <div className="flex flex-col gap-2 pb-1">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={form.longOnly}
+                  onCheckedChange={(checked) => setForm({ ...form, longOnly: checked })}
+                  data-testid="switch-optimizer-long-only"
+                />
+                Long only
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={form.excludeStablecoins}
+                  onCheckedChange={(checked) => setForm({ ...form, excludeStablecoins: checked })}
+                  data-testid="switch-optimizer-exclude-stablecoins"
+                />
+                Exclude stablecoins
+              </label>
+            </div>
+            <Button
+              type="submit"
+              className="col-span-2 md:col-span-4"
+              disabled={optimizeMutation.isPending}
+              data-testid="button-run-optimizer"
+            >
+              <Scale className="mr-2 h-4 w-4" />
+              {optimizeMutation.isPending ? 'Optimizing...' : 'Optimize'}
+            </Button>
+          </form>
+
+          {optimizeMutation.isError && (
+            <div className="rounded-xl border border-red-500/20 bg-red-500/10 p-4 text-sm text-red-500">
+              {optimizeMutation.error instanceof Error ? optimizeMutation.error.message : 'Optimization failed'}
+            </div>
+          )}
+
+          {result && (
+            <>
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                {metricCards.map(card => (
+                  <div key={card.label} className="rounded-xl border border-border bg-card/50 p-4">
+                    <div className="text-xs text-muted-foreground mb-1">{card.label}</div>
+                    <div className={`font-mono font-bold text-lg ${card.positive ? 'text-foreground' : 'text-red-500'}`}>
+                      {card.value}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-6 lg:grid-cols-2">
+                {/* Suggested weights */}
+                <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+                  <div className="px-6 py-4 border-b border-border">
+                    <h2 className="text-lg font-bold text-foreground">Suggested Weights</h2>
+                  </div>
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-muted/30 text-muted-foreground">
+                      <tr>
+                        <th className="px-6 py-3 font-medium">Asset</th>
+                        <th className="px-6 py-3 font-medium text-right">Weight</th>
+                        <th className="px-6 py-3 font-medium text-right">Exp. Return</th>
+                        <th className="px-6 py-3 font-medium text-right">Volatility</th>
+                        <th className="px-6 py-3 font-medium text-right">Risk Share</th>
+                        {result.objective === 'score-tilted' && <th className="px-6 py-3 font-medium text-right">Score</th>}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {result.allocations.map((a: any) => (
+                        <tr key={a.symbol} className="hover:bg-white/5" data-testid={`row-allocation-${a.symbol}`}>
+                          <td className="px-6 py-4 font-bold">{a.symbol}</td>
+                          <td className="px-6 py-4 text-right">
+                            <div className="flex items-center justify-end gap-2">
+                              <div className="h-2 w-20 rounded bg-muted overflow-hidden">
+                                <div className="h-full bg-primary" style={{ width: `${Math.min(100, Math.abs(a.weight))}%` }} />
+                              </div>
+                              <span className={`font-mono w-14 ${a.weight < 0 ? 'text-red-500' : ''}`}>{a.weight.toFixed(1)}%</span>
+                            </div>
+                          </td>
+                          <td className={`px-6 py-4 text-right font-mono ${a.expectedReturn >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                            {formatPercent(a.expectedReturn)}
+                          </td>
+                          <td className="px-6 py-4 text-right font-mono">{a.volatility.toFixed(1)}%</td>
+                          <td className="px-6 py-4 text-right font-mono">{a.riskContribution.toFixed(1)}%</td>
+                          {result.objective === 'score-tilted' && <td className="px-6 py-4 text-right font-mono">{a.score}</td>}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Efficient frontier */}
+                <div className="h-[420px] rounded-xl border border-border bg-card/50 p-4 backdrop-blur-sm">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart>
+                      <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                      <XAxis
+                        type="number"
+                        dataKey="volatility"
+                        name="Volatility"
+                        domain={['auto', 'auto']}
+                        tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12, fontFamily: 'var(--font-mono)' }}
+                        tickFormatter={(val) => `${Math.round(val)}%`}
+                      />
+                      <YAxis
+                        type="number"
+                        dataKey="expectedReturn"
+                        name="Return"
+                        domain={['auto', 'auto']}
+                        tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12, fontFamily: 'var(--font-mono)' }}
+                        tickFormatter={(val) => `${Math.round(val)}%`}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          borderColor: 'hsl(var(--border))',
+                          borderRadius: '8px',
+                        }}
+                        formatter={(val: number) => `${val.toFixed(2)}%`}
+                      />
+                      <Legend />
+                      <Scatter name="Efficient frontier" data={result.frontier} fill="hsl(var(--muted-foreground))" line />
+                      <Scatter name="Suggested" data={[result.portfolio]} fill="hsl(var(--primary))" />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {result.startDate} to {result.endDate} · max {Math.round(result.constraints.maxWeight * 100)}% per coin
+                {result.constraints.longOnly ? ' · long only' : ''}
+                {result.excluded.length > 0 && ` · excluded ${result.excluded.map((e: any) => `${e.symbol} (${e.reason})`).join(', ')}`}
+              </p>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,62 @@
 import { Sidebar } from "@/components/layout/Sidebar";
-import { useState, useRef } from "react";
-import { Plus, TrendingUp, TrendingDown, DollarSign, PieChart, TrendingDownIcon } from "lucide-react";
+import { Fragment, useState, useRef } from "react";
+import { Plus, TrendingUp, TrendingDown, DollarSign, PieChart, TrendingDownIcon, Archive, ChevronDown, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { fetchPortfolio, addTrade, deleteTrade } from "@/lib/api";
+import { fetchPortfolio, addTrade, deleteTrade, updatePortfolio, type CostBasisMethod } from "@/lib/api";
 import { Skeleton } from "@/components/ui/skeleton";
+import { usePortfolioStream } from "@/hooks/usePriceStream";
+import { usePortfolioSelection } from "@/hooks/usePortfolioSelection";
+import { PortfolioSwitcher } from "@/components/portfolio/PortfolioSwitcher";
+import { ManagePortfoliosDialog } from "@/components/portfolio/ManagePortfoliosDialog";
+import { ImportTradesDialog } from "@/components/portfolio/ImportTradesDialog";
+import { CashFlowsDialog } from "@/components/portfolio/CashFlowsDialog";
+import { RebalanceDialog } from "@/components/portfolio/RebalanceDialog";
+import { PerformancePanel } from "@/components/portfolio/PerformancePanel";
+import { RiskPanel } from "@/components/portfolio/RiskPanel";
+import { PaperTradingPanel } from "@/components/portfolio/PaperTradingPanel";
+
+const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  average: 'Average cost',
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  specific: 'Specific lots',
+};
+
+/**
+ * Realized PnL a sell would book, matching lots the same way the server does
+ */
+function estimateRealizedPnl(
+  holding: any,
+  quantity: number,
+  price: number,
+  method: CostBasisMethod,
+  lotQuantities: Record<number, string>
+): number {
+  if (method === 'average') return (price - holding.avgEntry) * quantity;
+
+  const lots = [...(holding.lots || [])].sort(
+    (a: any, b: any) => new Date(a.acquiredAt).getTime() - new Date(b.acquiredAt).getTime()
+  );
+  if (method === 'specific') {
+    return lots.reduce((pnl: number, lot: any) => pnl + (price - lot.costBasis) * (parseFloat(lotQuantities[lot.tradeId]) || 0), 0);
+  }
+
+  let left = quantity;
+  let pnl = 0;
+  for (const lot of method === 'lifo' ? lots.reverse() : lots) {
+    const take = Math.min(left, lot.quantity);
+    pnl += (price - lot.costBasis) * take;
+    left -= take;
+    if (left <= 0) break;
+  }
+  return pnl;
+}
 
 export default function Portfolio() {
   const queryClient = useQueryClient();
@@ -32,17 +80,30 @@ export default function Portfolio() {
   const [isSellLoadingPrice, setIsSellLoadingPrice] = useState(false);
   const [sellPriceError, setSellPriceError] = useState<string | null>(null);
   const [deletingTradeId, setDeletingTradeId] = useState<number | null>(null);
+  const [lotQuantities, setLotQuantities] = useState<Record<number, string>>({});
+  const [expandedSymbol, setExpandedSymbol] = useState<string | null>(null);
+
+  const { portfolios, selection, selected } = usePortfolioSelection();
+  const isAll = selection === 'all';
+  const isArchived = !!selected?.archived;
+  const isReadOnly = isAll || isArchived;
+  const costBasisMethod: CostBasisMethod = selected?.costBasisMethod ?? 'average';
+  const isSpecific = costBasisMethod === 'specific';
 
   const { data: portfolio, isLoading } = useQuery({
-    queryKey: ['portfolio'],
-    queryFn: () => fetchPortfolio(),
-    refetchInterval: 1000, // Refresh every 1 second for live price/PnL updates
+    queryKey: ['portfolio', selection],
+    queryFn: () => fetchPortfolio(selection),
+    enabled: selection !== undefined,
   });
 
+  // Live price/PnL updates are pushed over the price stream
+  const { update: liveValuation, connected: isLive } = usePortfolioStream(selection);
+
   const addTradeMutation = useMutation({
     mutationFn: addTrade,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-report'] });
       setIsAddOpen(false);
       setFormData({ symbol: '', quantity: '' });
       setLivePrice(null);
@@ -51,6 +112,15 @@ export default function Portfolio() {
     },
   });
 
+  const costBasisMutation = useMutation({
+    mutationFn: (method: CostBasisMethod) => updatePortfolio(selected.id, { costBasisMethod: method }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portfolios'] });
+      queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-report'] });
+    },
+  });
+
   const deleteTradeMutation = useMutation({
     mutationFn: deleteTrade,
     onMutate: (tradeId: number) => {
@@ -58,6 +128,7 @@ export default function Portfolio() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-report'] });
       setDeletingTradeId(null);
     },
     onError: () => {
@@ -148,6 +219,7 @@ export default function Portfolio() {
   const openSellModal = async (holding: any) => {
     setSelectedHolding(holding);
     setSellFormData({ quantity: '' });
+    setLotQuantities({});
     setIsSellOpen(true);
     
     // Auto-fetch current sell price
@@ -193,6 +265,12 @@ export default function Portfolio() {
     const tax = subtotal * 0.001; // 0.1% tax
     const totalValue = subtotal - tax; // Sell receives money minus tax
 
+    const lots = isSpecific
+      ? Object.entries(lotQuantities)
+          .filter(([, lotQuantity]) => parseFloat(lotQuantity) > 0)
+          .map(([tradeId, lotQuantity]) => ({ tradeId: parseInt(tradeId), quantity: lotQuantity }))
+      : undefined;
+
     addTradeMutation.mutate({
       portfolioId: portfolio.portfolio.id,
       symbol: selectedHolding.symbol,
@@ -203,20 +281,38 @@ export default function Portfolio() {
       totalCost: totalValue.toString(),
       side: 'sell',
       date: new Date(),
+      lots,
+    }, {
+      onSuccess: () => {
+        setIsSellOpen(false);
+        setSellFormData({ quantity: '' });
+        setLotQuantities({});
+        setSelectedHolding(null);
+        setSellLivePrice(null);
+      },
+      onError: (error: Error) => setSellPriceError(error.message),
     });
-    
-    setIsSellOpen(false);
-    setSellFormData({ quantity: '' });
-    setSelectedHolding(null);
-    setSellLivePrice(null);
   };
 
-  const totalValue = portfolio?.totalValue || 0;
-  const realizedPnl = portfolio?.realizedPnl || 0;
-  const unrealizedPnl = portfolio?.unrealizedPnl || 0;
-  const totalPnl = portfolio?.totalPnl || 0;
-  const holdings = portfolio?.holdings || [];
+  const handleLotQuantityChange = (tradeId: number, value: string) => {
+    const next = { ...lotQuantities, [tradeId]: value };
+    const total = Object.values(next).reduce((sum, lotQuantity) => sum + (parseFloat(lotQuantity) || 0), 0);
+    setLotQuantities(next);
+    setSellFormData({ quantity: total > 0 ? parseFloat(total.toFixed(8)).toString() : '' });
+  };
+
+  const valuation = liveValuation ?? portfolio;
+  const totalValue = valuation?.totalValue || 0;
+  const realizedPnl = valuation?.realizedPnl || 0;
+  const unrealizedPnl = valuation?.unrealizedPnl || 0;
+  const totalPnl = valuation?.totalPnl || 0;
+  const holdings = valuation?.holdings || [];
   const trades = portfolio?.trades || [];
+  const breakdown = portfolio?.portfolios || [];
+  const portfolioNames: Record<number, string> = Object.fromEntries(portfolios.map((p: any) => [p.id, p.name]));
+  const estimatedPnl = selectedHolding && sellLivePrice && sellFormData.quantity
+    ? estimateRealizedPnl(selectedHolding, parseFloat(sellFormData.quantity), sellLivePrice, costBasisMethod, lotQuantities)
+    : 0;
 
   return (
     <div className="flex min-h-screen bg-background font-sans">
@@ -226,13 +322,25 @@ export default function Portfolio() {
         <header className="mb-6 md:mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
             <h1 className="text-2xl md:text-3xl font-bold text-foreground tracking-tight">Portfolio</h1>
-            <p className="text-sm md:text-base text-muted-foreground">Track your crypto holdings and performance</p>
+            <p className="text-sm md:text-base text-muted-foreground flex items-center gap-2">
+              {isAll ? 'Combined holdings across all active portfolios' : 'Track your crypto holdings and performance'}
+              {isLive && (
+                <span className="inline-flex items-center gap-1 text-xs text-green-500" data-testid="status-live-prices">
+                  <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+                  Live
+                </span>
+              )}
+            </p>
           </div>
           
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
+            <div className="flex gap-2 w-full sm:w-auto">
+              <PortfolioSwitcher className="sm:w-48" />
+              <ManagePortfoliosDialog />
+            </div>
             <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
               <DialogTrigger asChild>
-                <Button className="bg-primary text-primary-foreground hover:bg-primary/90" data-testid="button-add-trade">
+                <Button className="bg-primary text-primary-foreground hover:bg-primary/90" disabled={isReadOnly} data-testid="button-add-trade">
                   <Plus className="mr-2 h-4 w-4" /> Add Trade
                 </Button>
               </DialogTrigger>
@@ -312,12 +420,16 @@ export default function Portfolio() {
             </DialogContent>
           </Dialog>
           
+          <ImportTradesDialog portfolioId={selected?.id} disabled={isReadOnly} />
+          <CashFlowsDialog portfolioId={isAll ? undefined : selected?.id} disabled={isReadOnly} />
+          <RebalanceDialog portfolioId={isAll ? undefined : selected?.id} holdings={holdings} disabled={isReadOnly} />
+
           <Dialog open={isSellOpen} onOpenChange={setIsSellOpen}>
             <DialogTrigger asChild>
               <Button 
                 variant="outline" 
                 className="bg-red-500/10 text-red-500 border-red-500/20 hover:bg-red-500/20"
-                disabled={holdings.length === 0}
+                disabled={holdings.length === 0 || isReadOnly}
                 data-testid="button-sell-trade"
               >
                 <TrendingDownIcon className="mr-2 h-4 w-4" /> Sell Trade
@@ -363,7 +475,35 @@ export default function Portfolio() {
                         <span className="text-muted-foreground">Avg Entry:</span>
                         <span className="font-mono">${selectedHolding.avgEntry.toFixed(2)}</span>
                       </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Cost Basis:</span>
+                        <span>{COST_BASIS_LABELS[costBasisMethod]}</span>
+                      </div>
                     </div>
+
+                    {isSpecific && (
+                      <div className="space-y-2">
+                        <Label>Lots to Sell</Label>
+                        {(selectedHolding.lots || []).map((lot: any) => (
+                          <div key={lot.tradeId} className="flex items-center gap-2 text-sm" data-testid={`row-sell-lot-${lot.tradeId}`}>
+                            <div className="flex-1">
+                              <div className="font-mono">{lot.quantity.toFixed(8)} @ ${lot.costBasis.toFixed(2)}</div>
+                              <div className="text-xs text-muted-foreground">Bought {new Date(lot.acquiredAt).toLocaleDateString()}</div>
+                            </div>
+                            <Input
+                              type="number"
+                              step="0.00000001"
+                              placeholder="0"
+                              value={lotQuantities[lot.tradeId] || ''}
+                              onChange={(e) => handleLotQuantityChange(lot.tradeId, e.target.value)}
+                              className="w-36 bg-muted/50 border-border"
+                              max={lot.quantity}
+                              data-testid={`input-sell-lot-${lot.tradeId}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     
                     <div>
                       <Label htmlFor="sell-quantity-header">Quantity to Sell</Label>
@@ -377,6 +517,7 @@ export default function Portfolio() {
                         className="bg-muted/50 border-border"
                         data-testid="input-sell-quantity"
                         max={selectedHolding.quantity}
+                        readOnly={isSpecific} // The sum of the lot quantities
                       />
                     </div>
                     
@@ -406,8 +547,8 @@ export default function Portfolio() {
                               </div>
                               <div className="flex justify-between text-sm pt-2 border-t border-border">
                                 <span className="text-muted-foreground">Est. Realized PnL:</span>
-                                <span className={`font-mono font-bold ${(sellLivePrice - selectedHolding.avgEntry) * parseFloat(sellFormData.quantity) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                                  {(sellLivePrice - selectedHolding.avgEntry) * parseFloat(sellFormData.quantity) >= 0 ? '+' : ''}${((sellLivePrice - selectedHolding.avgEntry) * parseFloat(sellFormData.quantity)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                <span className={`font-mono font-bold ${estimatedPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                                  {estimatedPnl >= 0 ? '+' : ''}${estimatedPnl.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                                 </span>
                               </div>
                             </>
@@ -435,6 +576,13 @@ export default function Portfolio() {
           </div>
         </header>
 
+        {isArchived && (
+          <div className="mb-6 flex items-center gap-2 rounded-lg border border-border bg-muted/30 px-4 py-3 text-sm text-muted-foreground" data-testid="status-portfolio-archived">
+            <Archive className="h-4 w-4" />
+            This portfolio is archived and read-only. Unarchive it to add or sell trades.
+          </div>
+        )}
+
         {/* Portfolio Summary */}
         <div className="grid gap-4 md:gap-6 grid-cols-2 lg:grid-cols-5 mb-6 md:mb-8">
           <div className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm">
@@ -488,126 +636,237 @@ export default function Portfolio() {
           </div>
         </div>
 
-        {/* Holdings Table */}
-        <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm mb-8">
-          <div className="px-6 py-4 border-b border-border">
-            <h2 className="text-lg font-bold text-foreground">Current Holdings</h2>
-          </div>
-          
-          {isLoading ? (
-            <div className="p-6 space-y-4">
-              {[1,2,3].map(i => <Skeleton key={i} className="h-16 w-full" />)}
+        {/* Per-portfolio breakdown (All portfolios view) */}
+        {isAll && breakdown.length > 0 && (
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm mb-8">
+            <div className="px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-bold text-foreground">By Portfolio</h2>
             </div>
-          ) : holdings.length > 0 ? (
             <table className="w-full text-left text-sm">
               <thead className="bg-muted/30 text-muted-foreground">
                 <tr>
-                  <th className="px-6 py-3 font-medium">Asset</th>
-                  <th className="px-6 py-3 font-medium text-right">Quantity</th>
-                  <th className="px-6 py-3 font-medium text-right">Avg Entry</th>
-                  <th className="px-6 py-3 font-medium text-right">Current Price</th>
+                  <th className="px-6 py-3 font-medium">Portfolio</th>
+                  <th className="px-6 py-3 font-medium text-right">Holdings</th>
                   <th className="px-6 py-3 font-medium text-right">Value</th>
-                  <th className="px-6 py-3 font-medium text-right">P&L</th>
-                  <th className="px-6 py-3 font-medium text-right">Action</th>
+                  <th className="px-6 py-3 font-medium text-right">Realized</th>
+                  <th className="px-6 py-3 font-medium text-right">Unrealized</th>
+                  <th className="px-6 py-3 font-medium text-right">Total PnL</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-border">
-                {holdings.map((holding: any) => (
-                  <tr key={holding.symbol} className="hover:bg-white/5" data-testid={`row-holding-${holding.symbol}`}>
-                    <td className="px-6 py-4 font-bold text-foreground">{holding.symbol}</td>
-                    <td className="px-6 py-4 text-right font-mono">{holding.quantity.toFixed(8)}</td>
-                    <td className="px-6 py-4 text-right font-mono">${holding.avgEntry.toFixed(2)}</td>
-                    <td className="px-6 py-4 text-right font-mono">${holding.currentPrice.toFixed(2)}</td>
-                    <td className="px-6 py-4 text-right font-mono font-bold">${holding.value.toFixed(2)}</td>
-                    <td className="px-6 py-4 text-right">
-                      <span className={`font-mono font-bold ${holding.pnlPercent >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                        {holding.pnlPercent >= 0 ? '+' : ''}{holding.pnlPercent.toFixed(2)}%
-                      </span>
+                {breakdown.map((entry: any) => (
+                  <tr key={entry.portfolioId} className="hover:bg-white/5" data-testid={`row-portfolio-breakdown-${entry.portfolioId}`}>
+                    <td className="px-6 py-4 font-bold text-foreground">{entry.name}</td>
+                    <td className="px-6 py-4 text-right font-mono">{entry.holdings}</td>
+                    <td className="px-6 py-4 text-right font-mono font-bold">${entry.totalValue.toFixed(2)}</td>
+                    <td className={`px-6 py-4 text-right font-mono ${entry.realizedPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {entry.realizedPnl >= 0 ? '+' : ''}${entry.realizedPnl.toFixed(2)}
+                    </td>
+                    <td className={`px-6 py-4 text-right font-mono ${entry.unrealizedPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {entry.unrealizedPnl >= 0 ? '+' : ''}${entry.unrealizedPnl.toFixed(2)}
                     </td>
-                    <td className="px-6 py-4 text-right">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => openSellModal(holding)}
-                        className="bg-red-500/10 text-red-500 border-red-500/20 hover:bg-red-500/20"
-                        data-testid={`button-sell-${holding.symbol}`}
-                      >
-                        Sell
-                      </Button>
+                    <td className={`px-6 py-4 text-right font-mono font-bold ${entry.totalPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {entry.totalPnl >= 0 ? '+' : ''}${entry.totalPnl.toFixed(2)}
                     </td>
                   </tr>
                 ))}
               </tbody>
             </table>
-          ) : (
-            <div className="p-12 text-center">
-              <p className="text-muted-foreground mb-4">No holdings yet</p>
-              <Button onClick={() => setIsAddOpen(true)}>Add Your First Trade</Button>
+          </div>
+        )}
+
+        <Tabs defaultValue="holdings">
+          <TabsList className="mb-6">
+            <TabsTrigger value="holdings" data-testid="tab-holdings">Holdings</TabsTrigger>
+            <TabsTrigger value="performance" data-testid="tab-performance">Performance</TabsTrigger>
+            <TabsTrigger value="risk" data-testid="tab-risk">Risk</TabsTrigger>
+            <TabsTrigger value="paper" data-testid="tab-paper">Paper Trading</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="holdings">
+            {/* Holdings Table */}
+            <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm mb-8">
+              <div className="px-6 py-4 border-b border-border flex items-center justify-between gap-4">
+                <h2 className="text-lg font-bold text-foreground">Current Holdings</h2>
+                {selected && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span className="hidden sm:inline">Cost basis</span>
+                    <Select
+                      value={costBasisMethod}
+                      onValueChange={(value) => costBasisMutation.mutate(value as CostBasisMethod)}
+                      disabled={isArchived || costBasisMutation.isPending}
+                    >
+                      <SelectTrigger className="w-36 bg-muted/50 border-border" data-testid="select-cost-basis">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map((method) => (
+                          <SelectItem key={method} value={method}>{COST_BASIS_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+          
+              {isLoading ? (
+                <div className="p-6 space-y-4">
+                  {[1,2,3].map(i => <Skeleton key={i} className="h-16 w-full" />)}
+                </div>
+              ) : holdings.length > 0 ? (
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-muted/30 text-muted-foreground">
+                    <tr>
+                      <th className="px-6 py-3 font-medium">Asset</th>
+                      <th className="px-6 py-3 font-medium text-right">Quantity</th>
+                      <th className="px-6 py-3 font-medium text-right">Avg Entry</th>
+                      <th className="px-6 py-3 font-medium text-right">Current Price</th>
+                      <th className="px-6 py-3 font-medium text-right">Value</th>
+                      <th className="px-6 py-3 font-medium text-right">P&L</th>
+                      {!isReadOnly && <th className="px-6 py-3 font-medium text-right">Action</th>}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {holdings.map((holding: any) => (
+                      <Fragment key={holding.symbol}>
+                      <tr className="hover:bg-white/5" data-testid={`row-holding-${holding.symbol}`}>
+                        <td className="px-6 py-4 font-bold text-foreground">
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1"
+                            onClick={() => setExpandedSymbol(expandedSymbol === holding.symbol ? null : holding.symbol)}
+                            title="Show lots"
+                            data-testid={`button-lots-${holding.symbol}`}
+                          >
+                            {expandedSymbol === holding.symbol ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                            {holding.symbol}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 text-right font-mono">{holding.quantity.toFixed(8)}</td>
+                        <td className="px-6 py-4 text-right font-mono">${holding.avgEntry.toFixed(2)}</td>
+                        <td className="px-6 py-4 text-right font-mono">${holding.currentPrice.toFixed(2)}</td>
+                        <td className="px-6 py-4 text-right font-mono font-bold">${holding.value.toFixed(2)}</td>
+                        <td className="px-6 py-4 text-right">
+                          <span className={`font-mono font-bold ${holding.pnlPercent >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                            {holding.pnlPercent >= 0 ? '+' : ''}{holding.pnlPercent.toFixed(2)}%
+                          </span>
+                        </td>
+                        {!isReadOnly && (
+                          <td className="px-6 py-4 text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openSellModal(holding)}
+                              className="bg-red-500/10 text-red-500 border-red-500/20 hover:bg-red-500/20"
+                              data-testid={`button-sell-${holding.symbol}`}
+                            >
+                              Sell
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                      {expandedSymbol === holding.symbol && (holding.lots || []).map((lot: any) => (
+                        <tr key={`${holding.symbol}-${lot.tradeId}`} className="bg-muted/10 text-xs text-muted-foreground" data-testid={`row-lot-${lot.tradeId}`}>
+                          <td className="px-6 py-2 pl-10">Lot bought {new Date(lot.acquiredAt).toLocaleDateString()}</td>
+                          <td className="px-6 py-2 text-right font-mono">{lot.quantity.toFixed(8)}</td>
+                          <td className="px-6 py-2 text-right font-mono">${lot.costBasis.toFixed(2)}</td>
+                          <td className="px-6 py-2" />
+                          <td className="px-6 py-2 text-right font-mono">${(lot.quantity * holding.currentPrice).toFixed(2)}</td>
+                          <td className={`px-6 py-2 text-right font-mono ${lot.unrealizedPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                            {lot.unrealizedPnl >= 0 ? '+' : ''}${lot.unrealizedPnl.toFixed(2)}
+                          </td>
+                          {!isReadOnly && <td className="px-6 py-2" />}
+                        </tr>
+                      ))}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="p-12 text-center">
+                  <p className="text-muted-foreground mb-4">No holdings yet</p>
+                  {!isReadOnly && <Button onClick={() => setIsAddOpen(true)}>Add Your First Trade</Button>}
+                </div>
+              )}
             </div>
-          )}
-        </div>
 
-        {/* Trade History */}
-        <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
-          <div className="px-6 py-4 border-b border-border">
-            <h2 className="text-lg font-bold text-foreground">Trade History</h2>
-          </div>
+            {/* Trade History */}
+            <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+              <div className="px-6 py-4 border-b border-border">
+                <h2 className="text-lg font-bold text-foreground">Trade History</h2>
+              </div>
           
-          {trades.length > 0 ? (
-            <table className="w-full text-left text-sm">
-              <thead className="bg-muted/30 text-muted-foreground">
-                <tr>
-                  <th className="px-6 py-3 font-medium">Date</th>
-                  <th className="px-6 py-3 font-medium">Symbol</th>
-                  <th className="px-6 py-3 font-medium">Side</th>
-                  <th className="px-6 py-3 font-medium text-right">Quantity</th>
-                  <th className="px-6 py-3 font-medium text-right">Price</th>
-                  <th className="px-6 py-3 font-medium text-right">Action</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-border">
-                {trades.map((trade: any) => (
-                  <tr key={trade.id} className="hover:bg-white/5" data-testid={`row-trade-${trade.id}`}>
-                    <td className="px-6 py-4 text-muted-foreground">
-                      {new Date(trade.date).toLocaleDateString()}
-                    </td>
-                    <td className="px-6 py-4 font-bold">{trade.symbol}</td>
-                    <td className="px-6 py-4">
-                      <span className={`px-2 py-1 rounded text-xs font-medium ${trade.side === 'buy' ? 'bg-green-500/20 text-green-500' : 'bg-red-500/20 text-red-500'}`}>
-                        {trade.side.toUpperCase()}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 text-right font-mono">{trade.quantity}</td>
-                    <td className="px-6 py-4 text-right font-mono">${trade.buyPrice}</td>
-                    <td className="px-6 py-4 text-right relative z-10">
-                      <Button
-                        type="button"
-                        size="sm"
-                        variant="ghost"
-                        className="text-destructive hover:text-destructive/80 hover:bg-destructive/10 cursor-pointer active:bg-destructive/20 relative z-20"
-                        onClick={(e) => {
-                          e.preventDefault();
-                          e.stopPropagation();
-                          if (deletingTradeId === null) {
-                            deleteTradeMutation.mutate(trade.id);
-                          }
-                        }}
-                        disabled={deletingTradeId !== null}
-                        data-testid={`button-delete-${trade.id}`}
-                      >
-                        {deletingTradeId === trade.id ? 'Deleting...' : 'Delete'}
-                      </Button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          ) : (
-            <div className="p-12 text-center">
-              <p className="text-muted-foreground">No trades recorded</p>
+              {trades.length > 0 ? (
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-muted/30 text-muted-foreground">
+                    <tr>
+                      <th className="px-6 py-3 font-medium">Date</th>
+                      {isAll && <th className="px-6 py-3 font-medium">Portfolio</th>}
+                      <th className="px-6 py-3 font-medium">Symbol</th>
+                      <th className="px-6 py-3 font-medium">Side</th>
+                      <th className="px-6 py-3 font-medium text-right">Quantity</th>
+                      <th className="px-6 py-3 font-medium text-right">Price</th>
+                      <th className="px-6 py-3 font-medium text-right">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {trades.map((trade: any) => (
+                      <tr key={trade.id} className="hover:bg-white/5" data-testid={`row-trade-${trade.id}`}>
+                        <td className="px-6 py-4 text-muted-foreground">
+                          {new Date(trade.date).toLocaleDateString()}
+                        </td>
+                        {isAll && <td className="px-6 py-4 text-muted-foreground">{portfolioNames[trade.portfolioId]}</td>}
+                        <td className="px-6 py-4 font-bold">{trade.symbol}</td>
+                        <td className="px-6 py-4">
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${trade.side === 'buy' ? 'bg-green-500/20 text-green-500' : 'bg-red-500/20 text-red-500'}`}>
+                            {trade.side.toUpperCase()}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-right font-mono">{trade.quantity}</td>
+                        <td className="px-6 py-4 text-right font-mono">${trade.buyPrice}</td>
+                        <td className="px-6 py-4 text-right relative z-10">
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="ghost"
+                            className="text-destructive hover:text-destructive/80 hover:bg-destructive/10 cursor-pointer active:bg-destructive/20 relative z-20"
+                            onClick={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              if (deletingTradeId === null) {
+                                deleteTradeMutation.mutate(trade.id);
+                              }
+                            }}
+                            disabled={deletingTradeId !== null || isArchived}
+                            data-testid={`button-delete-${trade.id}`}
+                          >
+                            {deletingTradeId === trade.id ? 'Deleting...' : 'Delete'}
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <div className="p-12 text-center">
+                  <p className="text-muted-foreground">No trades recorded</p>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </TabsContent>
+
+          <TabsContent value="performance">
+            <PerformancePanel selection={selection} />
+          </TabsContent>
+
+          <TabsContent value="risk">
+            <RiskPanel selection={selection} />
+          </TabsContent>
+
+          <TabsContent value="paper">
+            <PaperTradingPanel portfolioId={isAll ? undefined : selected?.id} disabled={isReadOnly} />
+          </TabsContent>
+        </Tabs>
       </main>
     </div>
   );
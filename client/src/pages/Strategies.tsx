@@ -1,24 +1,47 @@
 import { Sidebar } from "@/components/layout/Sidebar";
-import { BrainCircuit, ArrowUpDown, RefreshCw } from "lucide-react";
+import { BrainCircuit, ArrowUpDown, RefreshCw, Layers } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useState, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { fetchQuantTop50 } from "@/lib/api";
+import { fetchQuantTop50, fetchStrategyProfiles } from "@/lib/api";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BacktestPanel } from "@/components/strategies/BacktestPanel";
+import { ProfileEditor } from "@/components/strategies/ProfileEditor";
+import { WeightOptimizerPanel } from "@/components/strategies/WeightOptimizerPanel";
+import { StrategyRunnerPanel } from "@/components/strategies/StrategyRunnerPanel";
+import { ScreenerPanel } from "@/components/strategies/ScreenerPanel";
 
-type SortField = 'symbol' | 'score' | 'signal' | 'confidence';
+type SortField = 'symbol' | 'score' | 'signal' | 'confidence' | 'confluence';
 type SortDirection = 'asc' | 'desc';
 
+const BIAS_SIGNALS: Record<string, string> = { bullish: 'Bullish', bearish: 'Bearish', neutral: 'Neutral' };
+
+const TIMEFRAME_STYLES: Record<string, string> = {
+  BUY: 'bg-green-500/10 text-green-500',
+  SELL: 'bg-red-500/10 text-red-500',
+  HOLD: 'bg-yellow-500/10 text-yellow-500',
+};
+
 export default function Strategies() {
   const [sortField, setSortField] = useState<SortField>('score');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [searchQuery, setSearchQuery] = useState('');
+  const [profile, setProfile] = useState('default');
+  const [quantInterval, setQuantInterval] = useState('1d');
+  const [multiTimeframe, setMultiTimeframe] = useState(false);
+
+  const { data: profiles } = useQuery({
+    queryKey: ['strategy-profiles'],
+    queryFn: fetchStrategyProfiles,
+  });
 
   // Fetch top 50 coins with quant analysis
   const { data: quantData, isLoading: marketsLoading, error, refetch } = useQuery({
-    queryKey: ['quant-top50'],
-    queryFn: () => fetchQuantTop50(50, '1d'),
+    queryKey: ['quant-top50', profile, quantInterval, multiTimeframe],
+    queryFn: () => fetchQuantTop50(50, quantInterval, profile, multiTimeframe),
     refetchInterval: 300000, // Refresh every 5 minutes
     retry: 2, // Retry failed requests twice
   });
@@ -43,10 +66,10 @@ export default function Strategies() {
     console.log(`[Strategies] Processing ${quantData.length} coins`);
     
     return quantData.map((item: any) => {
-      // Determine signal directly from composite score to ensure consistency
+      // Signal comes from the engine using the selected profile's thresholds
       const compositeScore = item.scores?.compositeScore ?? item.score ?? 50;
-      const signal = compositeScore >= 65 ? 'Bullish' : 
-                     compositeScore <= 35 ? 'Bearish' : 'Neutral';
+      const signal = item.signal === 'BUY' ? 'Bullish' :
+                     item.signal === 'SELL' ? 'Bearish' : 'Neutral';
       
       return {
         id: item.symbol.toLowerCase(),
@@ -68,7 +91,8 @@ export default function Strategies() {
           }
         },
         isLoadingScore: false,
-        marketRegime: item.marketRegime
+        marketRegime: item.marketRegime,
+        confluence: item.confluence ?? null
       };
     });
   }, [quantData]);
@@ -106,6 +130,11 @@ export default function Strategies() {
           aVal = a.quantScore?.confidence ?? -1;
           bVal = b.quantScore?.confidence ?? -1;
           break;
+        case 'confluence':
+          // Bullish agreement first, bearish last
+          aVal = a.confluence ? (a.confluence.bias === 'bearish' ? -1 : 1) * a.confluence.confluenceScore : -101;
+          bVal = b.confluence ? (b.confluence.bias === 'bearish' ? -1 : 1) * b.confluence.confluenceScore : -101;
+          break;
       }
 
       if (sortDirection === 'asc') {
@@ -144,172 +173,280 @@ export default function Strategies() {
             </h1>
             <p className="text-sm md:text-base text-muted-foreground">Top 50 crypto assets with real-time quant analysis</p>
           </div>
-          <div className="w-full md:w-64">
-            <Input
-              placeholder="Search coins..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="bg-card/50 border-border"
-              data-testid="input-search-coins"
-            />
-          </div>
         </header>
 
-        {/* Quant Scores Table */}
-        <div className="rounded-xl border border-border bg-card/50 backdrop-blur-sm overflow-hidden">
-          {marketsLoading ? (
-            <div className="p-8">
-              <Skeleton className="h-96 w-full" />
+        <Tabs defaultValue="signals">
+          <TabsList className="mb-6">
+            <TabsTrigger value="signals" data-testid="tab-signals">Signals</TabsTrigger>
+            <TabsTrigger value="screener" data-testid="tab-screener">Screener</TabsTrigger>
+            <TabsTrigger value="backtest" data-testid="tab-backtest">Backtest</TabsTrigger>
+            <TabsTrigger value="optimizer" data-testid="tab-optimizer">Optimizer</TabsTrigger>
+            <TabsTrigger value="runners" data-testid="tab-runners">Runners</TabsTrigger>
+            <TabsTrigger value="profiles" data-testid="tab-profiles">Profiles</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="signals">
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div className="w-full md:w-64">
+                <Input
+                  placeholder="Search coins..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="bg-card/50 border-border"
+                  data-testid="input-search-coins"
+                />
+              </div>
+              <div className="w-full md:w-56">
+                <Select value={profile} onValueChange={setProfile}>
+                  <SelectTrigger className="bg-card/50 border-border" data-testid="select-strategy-profile">
+                    <SelectValue placeholder="Strategy profile" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(profiles ?? [{ name: 'default' }]).map((p: any) => (
+                      <SelectItem key={p.name} value={p.name}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-full md:w-32">
+                <Select value={quantInterval} onValueChange={setQuantInterval}>
+                  <SelectTrigger className="bg-card/50 border-border" data-testid="select-quant-interval">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['1h', '4h', '1d', '1w'].map(tf => (
+                      <SelectItem key={tf} value={tf}>{tf.toUpperCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant={multiTimeframe ? 'default' : 'outline'}
+                className={multiTimeframe ? '' : 'bg-card/50 border-border'}
+                onClick={() => {
+                  setMultiTimeframe(!multiTimeframe);
+                  if (multiTimeframe && sortField === 'confluence') setSortField('score');
+                }}
+                data-testid="button-toggle-mtf"
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                Multi-timeframe
+              </Button>
             </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead>
-                  <tr className="border-b border-border bg-muted/50">
-                    <th className="text-left p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
-                      <button
-                        onClick={() => handleSort('symbol')}
-                        className="flex items-center gap-2 hover:text-foreground transition-colors"
-                        data-testid="sort-symbol"
-                      >
-                        Symbol
-                        <ArrowUpDown className="h-3 w-3" />
-                      </button>
-                    </th>
-                    <th className="text-left p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
-                      Name
-                    </th>
-                    <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
-                      <button
-                        onClick={() => handleSort('score')}
-                        className="flex items-center gap-2 ml-auto hover:text-foreground transition-colors"
-                        data-testid="sort-score"
-                      >
-                        Score
-                        <ArrowUpDown className="h-3 w-3" />
-                      </button>
-                    </th>
-                    <th className="text-left p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
-                      <button
-                        onClick={() => handleSort('signal')}
-                        className="flex items-center gap-2 hover:text-foreground transition-colors"
-                        data-testid="sort-signal"
-                      >
-                        Signal
-                        <ArrowUpDown className="h-3 w-3" />
-                      </button>
-                    </th>
-                    <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
-                      <button
-                        onClick={() => handleSort('confidence')}
-                        className="flex items-center gap-2 ml-auto hover:text-foreground transition-colors"
-                        data-testid="sort-confidence"
-                      >
-                        Confidence
-                        <ArrowUpDown className="h-3 w-3" />
-                      </button>
-                    </th>
-                    <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
-                      Price
-                    </th>
-                    <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
-                      24h %
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {filteredAndSortedCoins.map((coin: any, index: number) => (
-                    <tr
-                      key={coin.id}
-                      className="border-b border-border/50 hover:bg-muted/30 transition-colors"
-                      data-testid={`row-coin-${coin.symbol}`}
-                    >
-                      <td className="p-4">
-                        <span className="font-mono font-bold text-foreground">{coin.symbol.toUpperCase()}</span>
-                      </td>
-                      <td className="p-4">
-                        <span className="text-muted-foreground">{coin.name}</span>
-                      </td>
-                      <td className="p-4 text-right">
-                        {coin.isLoadingScore ? (
-                          <Skeleton className="h-5 w-12 ml-auto" />
-                        ) : coin.quantScore ? (
-                          <span className="font-mono font-bold text-lg text-foreground" data-testid={`score-${coin.symbol}`}>
-                            {coin.quantScore.score}
-                          </span>
-                        ) : (
-                          <span className="text-muted-foreground text-sm">-</span>
-                        )}
-                      </td>
-                      <td className="p-4">
-                        {coin.isLoadingScore ? (
-                          <Skeleton className="h-5 w-20" />
-                        ) : coin.quantScore ? (
-                          <span className={`font-semibold ${getSignalColor(coin.quantScore.signal)}`} data-testid={`signal-${coin.symbol}`}>
-                            {coin.quantScore.signal}
-                          </span>
-                        ) : (
-                          <span className="text-muted-foreground text-sm">-</span>
-                        )}
-                      </td>
-                      <td className="p-4 text-right">
-                        {coin.isLoadingScore ? (
-                          <Skeleton className="h-5 w-12 ml-auto" />
-                        ) : coin.quantScore ? (
-                          <span className="text-muted-foreground font-mono" data-testid={`confidence-${coin.symbol}`}>
-                            {coin.quantScore.confidence}%
-                          </span>
-                        ) : (
-                          <span className="text-muted-foreground text-sm">-</span>
+
+            {/* Quant Scores Table */}
+            <div className="rounded-xl border border-border bg-card/50 backdrop-blur-sm overflow-hidden">
+              {marketsLoading ? (
+                <div className="p-8">
+                  <Skeleton className="h-96 w-full" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-border bg-muted/50">
+                        <th className="text-left p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                          <button
+                            onClick={() => handleSort('symbol')}
+                            className="flex items-center gap-2 hover:text-foreground transition-colors"
+                            data-testid="sort-symbol"
+                          >
+                            Symbol
+                            <ArrowUpDown className="h-3 w-3" />
+                          </button>
+                        </th>
+                        <th className="text-left p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                          Name
+                        </th>
+                        <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                          <button
+                            onClick={() => handleSort('score')}
+                            className="flex items-center gap-2 ml-auto hover:text-foreground transition-colors"
+                            data-testid="sort-score"
+                          >
+                            Score
+                            <ArrowUpDown className="h-3 w-3" />
+                          </button>
+                        </th>
+                        <th className="text-left p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                          <button
+                            onClick={() => handleSort('signal')}
+                            className="flex items-center gap-2 hover:text-foreground transition-colors"
+                            data-testid="sort-signal"
+                          >
+                            Signal
+                            <ArrowUpDown className="h-3 w-3" />
+                          </button>
+                        </th>
+                        <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                          <button
+                            onClick={() => handleSort('confidence')}
+                            className="flex items-center gap-2 ml-auto hover:text-foreground transition-colors"
+                            data-testid="sort-confidence"
+                          >
+                            Confidence
+                            <ArrowUpDown className="h-3 w-3" />
+                          </button>
+                        </th>
+                        {multiTimeframe && (
+                          <th className="text-left p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                            <button
+                              onClick={() => handleSort('confluence')}
+                              className="flex items-center gap-2 hover:text-foreground transition-colors"
+                              data-testid="sort-confluence"
+                            >
+                              Confluence
+                              <ArrowUpDown className="h-3 w-3" />
+                            </button>
+                          </th>
                         )}
-                      </td>
-                      <td className="p-4 text-right">
-                        <span className="text-foreground font-mono">
-                          ${coin.current_price?.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </span>
-                      </td>
-                      <td className="p-4 text-right">
-                        <span className={coin.price_change_percentage_24h >= 0 ? 'text-green-500' : 'text-red-500'}>
-                          {coin.price_change_percentage_24h >= 0 ? '+' : ''}
-                          {coin.price_change_percentage_24h?.toFixed(2)}%
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+                        <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                          Price
+                        </th>
+                        <th className="text-right p-4 font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                          24h %
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredAndSortedCoins.map((coin: any, index: number) => (
+                        <tr
+                          key={coin.id}
+                          className="border-b border-border/50 hover:bg-muted/30 transition-colors"
+                          data-testid={`row-coin-${coin.symbol}`}
+                        >
+                          <td className="p-4">
+                            <span className="font-mono font-bold text-foreground">{coin.symbol.toUpperCase()}</span>
+                          </td>
+                          <td className="p-4">
+                            <span className="text-muted-foreground">{coin.name}</span>
+                          </td>
+                          <td className="p-4 text-right">
+                            {coin.isLoadingScore ? (
+                              <Skeleton className="h-5 w-12 ml-auto" />
+                            ) : coin.quantScore ? (
+                              <span className="font-mono font-bold text-lg text-foreground" data-testid={`score-${coin.symbol}`}>
+                                {coin.quantScore.score}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground text-sm">-</span>
+                            )}
+                          </td>
+                          <td className="p-4">
+                            {coin.isLoadingScore ? (
+                              <Skeleton className="h-5 w-20" />
+                            ) : coin.quantScore ? (
+                              <span className={`font-semibold ${getSignalColor(coin.quantScore.signal)}`} data-testid={`signal-${coin.symbol}`}>
+                                {coin.quantScore.signal}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground text-sm">-</span>
+                            )}
+                          </td>
+                          <td className="p-4 text-right">
+                            {coin.isLoadingScore ? (
+                              <Skeleton className="h-5 w-12 ml-auto" />
+                            ) : coin.quantScore ? (
+                              <span className="text-muted-foreground font-mono" data-testid={`confidence-${coin.symbol}`}>
+                                {coin.quantScore.confidence}%
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground text-sm">-</span>
+                            )}
+                          </td>
+                          {multiTimeframe && (
+                            <td className="p-4">
+                              {coin.confluence ? (
+                                <div className="flex items-center gap-3" data-testid={`confluence-${coin.symbol}`}>
+                                  <span className={`font-mono font-bold w-8 ${getSignalColor(BIAS_SIGNALS[coin.confluence.bias])}`}>
+                                    {coin.confluence.confluenceScore}
+                                  </span>
+                                  <div className="flex gap-1">
+                                    {coin.confluence.timeframes.map((tf: any) => (
+                                      <span
+                                        key={tf.interval}
+                                        className={`rounded px-1.5 py-0.5 text-[10px] font-mono uppercase ${TIMEFRAME_STYLES[tf.signal] ?? 'bg-muted text-muted-foreground'}`}
+                                        title={`${tf.interval}: ${tf.signal ?? tf.error}`}
+                                      >
+                                        {tf.interval}
+                                      </span>
+                                    ))}
+                                  </div>
+                                </div>
+                              ) : (
+                                <span className="text-muted-foreground text-sm">-</span>
+                              )}
+                            </td>
+                          )}
+                          <td className="p-4 text-right">
+                            <span className="text-foreground font-mono">
+                              ${coin.current_price?.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                            </span>
+                          </td>
+                          <td className="p-4 text-right">
+                            <span className={coin.price_change_percentage_24h >= 0 ? 'text-green-500' : 'text-red-500'}>
+                              {coin.price_change_percentage_24h >= 0 ? '+' : ''}
+                              {coin.price_change_percentage_24h?.toFixed(2)}%
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
-          )}
-        </div>
 
-        {error && (
-          <div className="rounded-xl border border-border bg-card/50 p-12 text-center mt-8">
-            <BrainCircuit className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-            <p className="text-red-500 mb-2 font-semibold">Error loading quant data</p>
-            <p className="text-muted-foreground text-sm mb-4">{error instanceof Error ? error.message : 'Unknown error'}</p>
-            <Button onClick={() => refetch()} variant="outline" size="sm">
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Retry
-            </Button>
-          </div>
-        )}
-        {filteredAndSortedCoins.length === 0 && !marketsLoading && !error && (
-          <div className="rounded-xl border border-border bg-card/50 p-12 text-center mt-8">
-            <BrainCircuit className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-            <p className="text-muted-foreground mb-2">
-              {searchQuery ? `No coins found matching "${searchQuery}"` : 'No quant data available yet.'}
-            </p>
-            <p className="text-muted-foreground text-sm mb-4">
-              {searchQuery ? 'Try a different search term.' : 'The analysis may still be processing. This can take a minute for 50 coins.'}
-            </p>
-            {!searchQuery && (
-              <Button onClick={() => refetch()} variant="outline" size="sm">
-                <RefreshCw className="h-4 w-4 mr-2" />
-                Refresh Data
-              </Button>
+            {error && (
+              <div className="rounded-xl border border-border bg-card/50 p-12 text-center mt-8">
+                <BrainCircuit className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <p className="text-red-500 mb-2 font-semibold">Error loading quant data</p>
+                <p className="text-muted-foreground text-sm mb-4">{error instanceof Error ? error.message : 'Unknown error'}</p>
+                <Button onClick={() => refetch()} variant="outline" size="sm">
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Retry
+                </Button>
+              </div>
             )}
-          </div>
-        )}
+            {filteredAndSortedCoins.length === 0 && !marketsLoading && !error && (
+              <div className="rounded-xl border border-border bg-card/50 p-12 text-center mt-8">
+                <BrainCircuit className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground mb-2">
+                  {searchQuery ? `No coins found matching "${searchQuery}"` : 'No quant data available yet.'}
+                </p>
+                <p className="text-muted-foreground text-sm mb-4">
+                  {searchQuery ? 'Try a different search term.' : 'The analysis may still be processing. This can take a minute for 50 coins.'}
+                </p>
+                {!searchQuery && (
+                  <Button onClick={() => refetch()} variant="outline" size="sm">
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Refresh Data
+                  </Button>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="screener">
+            <ScreenerPanel />
+          </TabsContent>
+
+          <TabsContent value="backtest">
+            <BacktestPanel />
+          </TabsContent>
+
+          <TabsContent value="optimizer">
+            <WeightOptimizerPanel />
+          </TabsContent>
+
+          <TabsContent value="runners">
+            <StrategyRunnerPanel />
+          </TabsContent>
+
+          <TabsContent value="profiles">
+            <ProfileEditor />
+          </TabsContent>
+        </Tabs>
       </main>
     </div>
   );
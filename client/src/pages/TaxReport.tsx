@@ -0,0 +1,200 @@
+import { Sidebar } from "@/components/layout/Sidebar";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Printer, Receipt, TrendingUp, Clock, CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PortfolioSwitcher } from "@/components/portfolio/PortfolioSwitcher";
+import { usePortfolioSelection } from "@/hooks/usePortfolioSelection";
+import { fetchTaxReport, taxReportUrl } from "@/lib/api";
+
+const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const gainClass = (value: number) => (value >= 0 ? 'text-green-500' : 'text-red-500');
+
+export default function TaxReport() {
+  const { selection } = usePortfolioSelection();
+  const [year, setYear] = useState<number | undefined>(undefined);
+
+  // Every year is loaded once; the year picker filters locally
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['tax-report', selection],
+    queryFn: () => fetchTaxReport(selection!),
+    enabled: selection !== undefined,
+  });
+
+  const years: any[] = report?.years || [];
+  const disposals = (report?.disposals || []).filter(
+    (d: any) => year === undefined || new Date(d.soldAt).getUTCFullYear() === year
+  );
+  const totals = year === undefined ? report?.totals : years.find((y) => y.year === year);
+
+  const summaryCards = [
+    { label: 'Proceeds', value: totals?.proceeds || 0, icon: Receipt, colored: false },
+    { label: 'Short-Term Gain', value: totals?.shortTermGain || 0, icon: Clock, colored: true },
+    { label: 'Long-Term Gain', value: totals?.longTermGain || 0, icon: CalendarClock, colored: true },
+    { label: 'Total Gain/Loss', value: totals?.totalGain || 0, icon: TrendingUp, colored: true },
+  ];
+
+  return (
+    <div className="flex min-h-screen bg-background font-sans">
+      <Sidebar />
+
+      <main className="flex-1 pt-16 md:pt-0 md:ml-64 p-4 md:p-8">
+        <header className="mb-6 md:mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-foreground tracking-tight">Tax Report</h1>
+            <p className="text-sm md:text-base text-muted-foreground">
+              Capital gains per disposal, split into short and long term (held over one year)
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <PortfolioSwitcher className="sm:w-48" testId="select-tax-portfolio" />
+            <Select
+              value={year === undefined ? 'all' : year.toString()}
+              onValueChange={(value) => setYear(value === 'all' ? undefined : parseInt(value))}
+            >
+              <SelectTrigger className="w-32 bg-muted/50 border-border" data-testid="select-tax-year">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All years</SelectItem>
+                {years.map((y) => (
+                  <SelectItem key={y.year} value={y.year.toString()}>{y.year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" disabled={selection === undefined} asChild>
+              <a href={selection !== undefined ? taxReportUrl(selection, year, 'csv') : undefined} data-testid="button-export-csv">
+                <Download className="mr-2 h-4 w-4" /> CSV
+              </a>
+            </Button>
+            <Button variant="outline" disabled={selection === undefined} asChild>
+              <a
+                href={selection !== undefined ? taxReportUrl(selection, year, 'html') : undefined}
+                target="_blank"
+                rel="noreferrer"
+                data-testid="button-print-report"
+              >
+                <Printer className="mr-2 h-4 w-4" /> Printable
+              </a>
+            </Button>
+          </div>
+        </header>
+
+        {selection === 'all' && (
+          <p className="mb-6 text-sm text-muted-foreground">Covers every portfolio, including archived ones.</p>
+        )}
+
+        <div className="grid gap-4 md:gap-6 grid-cols-2 lg:grid-cols-4 mb-6 md:mb-8">
+          {summaryCards.map(({ label, value, icon: Icon, colored }) => (
+            <div key={label} className="rounded-xl border border-border bg-card/50 p-4 md:p-6 backdrop-blur-sm">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs md:text-sm text-muted-foreground">{label}</span>
+                <Icon className="h-4 w-4 text-primary" />
+              </div>
+              <div
+                className={`text-xl md:text-2xl font-bold font-mono ${colored ? gainClass(value) : 'text-foreground'}`}
+                data-testid={`text-tax-${label.toLowerCase().replace(/[^a-z]+/g, '-')}`}
+              >
+                {formatMoney(value)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Yearly totals */}
+        {year === undefined && years.length > 1 && (
+          <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm mb-8">
+            <div className="px-6 py-4 border-b border-border">
+              <h2 className="text-lg font-bold text-foreground">By Year</h2>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 text-muted-foreground">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Year</th>
+                  <th className="px-6 py-3 font-medium text-right">Disposals</th>
+                  <th className="px-6 py-3 font-medium text-right">Proceeds</th>
+                  <th className="px-6 py-3 font-medium text-right">Cost Basis</th>
+                  <th className="px-6 py-3 font-medium text-right">Short Term</th>
+                  <th className="px-6 py-3 font-medium text-right">Long Term</th>
+                  <th className="px-6 py-3 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {years.map((y) => (
+                  <tr key={y.year} className="hover:bg-white/5" data-testid={`row-tax-year-${y.year}`}>
+                    <td className="px-6 py-4 font-bold text-foreground">{y.year}</td>
+                    <td className="px-6 py-4 text-right font-mono">{y.disposals}</td>
+                    <td className="px-6 py-4 text-right font-mono">{formatMoney(y.proceeds)}</td>
+                    <td className="px-6 py-4 text-right font-mono">{formatMoney(y.costBasis)}</td>
+                    <td className={`px-6 py-4 text-right font-mono ${gainClass(y.shortTermGain)}`}>{formatMoney(y.shortTermGain)}</td>
+                    <td className={`px-6 py-4 text-right font-mono ${gainClass(y.longTermGain)}`}>{formatMoney(y.longTermGain)}</td>
+                    <td className={`px-6 py-4 text-right font-mono font-bold ${gainClass(y.totalGain)}`}>{formatMoney(y.totalGain)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Disposals */}
+        <div className="rounded-xl border border-border bg-card/50 overflow-hidden backdrop-blur-sm">
+          <div className="px-6 py-4 border-b border-border">
+            <h2 className="text-lg font-bold text-foreground">Disposals</h2>
+          </div>
+
+          {isLoading ? (
+            <div className="p-6 space-y-4">
+              {[1, 2, 3].map(i => <Skeleton key={i} className="h-12 w-full" />)}
+            </div>
+          ) : disposals.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-muted/30 text-muted-foreground">
+                  <tr>
+                    {selection === 'all' && <th className="px-6 py-3 font-medium">Portfolio</th>}
+                    <th className="px-6 py-3 font-medium">Asset</th>
+                    <th className="px-6 py-3 font-medium text-right">Quantity</th>
+                    <th className="px-6 py-3 font-medium">Acquired</th>
+                    <th className="px-6 py-3 font-medium">Sold</th>
+                    <th className="px-6 py-3 font-medium text-right">Proceeds</th>
+                    <th className="px-6 py-3 font-medium text-right">Cost Basis</th>
+                    <th className="px-6 py-3 font-medium text-right">Gain/Loss</th>
+                    <th className="px-6 py-3 font-medium">Term</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {disposals.map((d: any, i: number) => (
+                    <tr key={`${d.sellTradeId}-${d.lotTradeId}-${i}`} className="hover:bg-white/5" data-testid={`row-disposal-${i}`}>
+                      {selection === 'all' && <td className="px-6 py-4 text-muted-foreground">{d.portfolioName}</td>}
+                      <td className="px-6 py-4 font-bold">{d.symbol}</td>
+                      <td className="px-6 py-4 text-right font-mono">{parseFloat(d.quantity.toFixed(8))}</td>
+                      <td className="px-6 py-4 text-muted-foreground">{new Date(d.acquiredAt).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 text-muted-foreground">{new Date(d.soldAt).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 text-right font-mono">{formatMoney(d.proceeds)}</td>
+                      <td className="px-6 py-4 text-right font-mono">{formatMoney(d.costBasis)}</td>
+                      <td className={`px-6 py-4 text-right font-mono font-bold ${gainClass(d.gain)}`}>{formatMoney(d.gain)}</td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${d.holdingPeriod === 'long' ? 'bg-primary/20 text-primary' : 'bg-muted text-muted-foreground'}`}>
+                          {d.holdingPeriod === 'long' ? 'Long' : 'Short'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="p-12 text-center">
+              <p className="text-muted-foreground">No disposals{year !== undefined ? ` in ${year}` : ''} yet</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ declare module 'http' {
   }
 }
 app.use(express.json({
+  limit: '5mb', // Trade history CSV imports are posted as JSON
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
@@ -0,0 +1,191 @@
+// Alert rules engine
+// Evaluates user alerts on a schedule against live prices and cached quant analysis,
+// records trigger events and enforces per-alert cooldowns
+
+import { CATEGORICAL_ALERT_METRICS, type Alert, type AlertEvent } from '@shared/schema';
+import { storage } from '../storage';
+import { fetchCurrentPrice } from './marketData';
+import { analyzeSymbol, type QuantInterval } from './analysis';
+import type { QuantEngineOutput } from './quant/engine';
+import { dispatchWebhookEvent } from './webhooks';
+
+const EVALUATION_INTERVAL = 60 * 1000; // 1 minute
+
+const METRIC_LABELS: Record<string, string> = {
+  price: 'price',
+  compositeScore: 'composite score',
+  trend: 'trend score',
+  momentum: 'momentum score',
+  volatility: 'volatility score',
+  volume: 'volume score',
+  risk: 'risk score',
+  rsi: 'RSI',
+  regime: 'market regime',
+  signal: 'signal',
+};
+
+/**
+ * Read an alert's metric from a quant analysis
+ */
+function readQuantMetric(metric: string, output: QuantEngineOutput): string | null {
+  switch (metric) {
+    case 'compositeScore':
+    case 'trend':
+    case 'momentum':
+    case 'volatility':
+    case 'volume':
+    case 'risk':
+      return output.scores[metric].toString();
+    case 'rsi':
+      return output.metrics.momentum.rsi.toFixed(2);
+    case 'regime':
+      return output.marketRegime;
+    case 'signal':
+      return output.signal;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check an alert's condition against the current and previous value
+ */
+export function isConditionMet(alert: Alert, value: string, previous: string | null): boolean {
+  if ((CATEGORICAL_ALERT_METRICS as readonly string[]).includes(alert.metric)) {
+    const target = (alert.targetValue || '').toLowerCase();
+    const current = value.toLowerCase();
+    if (alert.condition === 'is') return current === target;
+    // changes_to needs a previous value that was different
+    return current === target && previous !== null && previous.toLowerCase() !== target;
+  }
+
+  const current = parseFloat(value);
+  const threshold = parseFloat(alert.threshold || '');
+  if (isNaN(current) || isNaN(threshold)) return false;
+
+  const prior = previous !== null ? parseFloat(previous) : NaN;
+  switch (alert.condition) {
+    case 'above':
+      return current > threshold;
+    case 'below':
+      return current < threshold;
+    case 'crosses_above':
+      return !isNaN(prior) && prior <= threshold && current > threshold;
+    case 'crosses_below':
+      return !isNaN(prior) && prior >= threshold && current < threshold;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Human readable trigger message, e.g. "BTC price crossed above 70000 (now 70125.5)"
+ */
+export function describeAlert(alert: Alert, value?: string): string {
+  const label = METRIC_LABELS[alert.metric] || alert.metric;
+  const interval = alert.metric === 'price' ? '' : ` (${alert.interval})`;
+  const conditions: Record<string, string> = {
+    above: 'is above',
+    below: 'is below',
+    crosses_above: 'crossed above',
+    crosses_below: 'crossed below',
+    is: 'is',
+    changes_to: 'changed to',
+  };
+  const target = alert.targetValue ?? alert.threshold;
+  const suffix = value !== undefined ? ` (now ${value})` : '';
+  return `${alert.symbol} ${label}${interval} ${conditions[alert.condition] || alert.condition} ${target}${suffix}`;
+}
+
+/**
+ * Evaluate every enabled alert once. Prices and analyses are looked up once per symbol.
+ * Returns the events that were triggered.
+ */
+export async function evaluateAlerts(): Promise<AlertEvent[]> {
+  const enabled = await storage.getEnabledAlerts();
+  if (enabled.length === 0) return [];
+
+  const prices: Record<string, number | null> = {};
+  const analyses: Record<string, QuantEngineOutput | null> = {};
+  const triggered: AlertEvent[] = [];
+
+  for (const alert of enabled) {
+    try {
+      let value: string | null = null;
+
+      if (alert.metric === 'price') {
+        if (!(alert.symbol in prices)) {
+          prices[alert.symbol] = await fetchCurrentPrice(alert.symbol);
+        }
+        const price = prices[alert.symbol];
+        value = price !== null ? price.toString() : null;
+      } else {
+        const key = `${alert.symbol}_${alert.interval}`;
+        if (!(key in analyses)) {
+          // Cache-first: reuses the analysis the quant routes already computed
+          const analysis = await analyzeSymbol(alert.symbol, { interval: alert.interval as QuantInterval });
+          analyses[key] = analysis?.result ?? null;
+        }
+        const output = analyses[key];
+        value = output ? readQuantMetric(alert.metric, output) : null;
+      }
+
+      if (value === null) continue;
+
+      const now = new Date();
+      const coolingDown = alert.lastTriggeredAt !== null &&
+        now.getTime() - alert.lastTriggeredAt.getTime() < alert.cooldownMinutes * 60 * 1000;
+
+      if (!coolingDown && isConditionMet(alert, value, alert.lastValue)) {
+        const event = await storage.createAlertEvent({
+          alertId: alert.id,
+          userId: alert.userId,
+          symbol: alert.symbol,
+          message: describeAlert(alert, value),
+          value,
+        });
+        triggered.push(event);
+        await storage.updateAlert(alert.id, { lastValue: value, lastTriggeredAt: now });
+        await dispatchWebhookEvent('alert.triggered', {
+          alertId: alert.id,
+          eventId: event.id,
+          symbol: alert.symbol,
+          interval: alert.interval,
+          metric: alert.metric,
+          condition: alert.condition,
+          threshold: alert.threshold,
+          targetValue: alert.targetValue,
+          value,
+          message: event.message,
+          triggeredAt: event.triggeredAt.toISOString(),
+        }, { userId: alert.userId, symbol: alert.symbol });
+      } else {
+        await storage.updateAlert(alert.id, { lastValue: value });
+      }
+    } catch (error) {
+      console.error(`[alerts] Failed to evaluate alert ${alert.id} (${alert.symbol} ${alert.metric}):`, error);
+    }
+  }
+
+  return triggered;
+}
+
+/**
+ * Run the alert evaluator on a fixed schedule
+ */
+export function startAlertEvaluator(): void {
+  let running = false;
+
+  setInterval(() => {
+    // Skip a tick rather than overlap when a slow evaluation is still in progress
+    if (running) return;
+    running = true;
+
+    evaluateAlerts()
+      .then(events => {
+        if (events.length > 0) console.log(`[alerts] Triggered ${events.length} alerts`);
+      })
+      .catch(error => console.error('[alerts] Evaluation failed:', error))
+      .finally(() => { running = false; });
+  }, EVALUATION_INTERVAL);
+}
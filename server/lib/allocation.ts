@@ -0,0 +1,276 @@
+// Allocation optimizer
+// Proposes target weights for a universe of coins from daily candle history. Expected returns
+// and covariances are annualized from daily log returns; every objective is solved under the
+// same constraints (weights sum to 1, per-coin cap, optionally long-only) by projected
+// iteration, so the frontier and the suggested portfolio are directly comparable.
+
+import { z } from 'zod';
+import { fetchTopCoins, isStablecoin } from './marketData';
+import { analyzeSymbol } from './analysis';
+import { alignedCloses } from './portfolioRisk';
+import { covariance, logReturns, mean } from './quant/statistics';
+
+const DAYS_PER_YEAR = 365;
+const MAX_ITERATIONS = 5000;
+const TOLERANCE = 1e-10;
+const RIDGE = 1e-8; // Keeps the covariance matrix invertible when a coin barely moves
+const SCORE_SHARPE = 0.5; // Sharpe ratio implied by a composite score of 0 or 100
+
+export const allocationObjectives = ['mean-variance', 'min-variance', 'risk-parity', 'score-tilted'] as const;
+export type AllocationObjective = typeof allocationObjectives[number];
+
+export const allocationRequestSchema = z.object({
+  symbols: z.array(z.string().min(1).transform(s => s.toUpperCase())).min(2).max(30).optional(), // Defaults to the top coins
+  universeSize: z.coerce.number().int().min(2).max(30).default(10),
+  objective: z.enum(allocationObjectives).default('mean-variance'),
+  days: z.coerce.number().int().min(60).max(1095).default(365),
+  maxWeight: z.coerce.number().min(0.01).max(1).default(0.4),
+  longOnly: z.boolean().default(true),
+  excludeStablecoins: z.boolean().default(true),
+  riskAversion: z.coerce.number().min(0.1).max(100).default(3), // λ in μᵀw - λ/2 · wᵀΣw
+  frontierPoints: z.coerce.number().int().min(5).max(50).default(20),
+});
+
+export type AllocationRequest = z.infer<typeof allocationRequestSchema>;
+
+export interface AssetAllocation {
+  symbol: string;
+  weight: number; // %
+  expectedReturn: number; // Annualized %, as used by the objective
+  volatility: number; // Annualized %
+  riskContribution: number; // % of portfolio variance
+  score: number | null; // Composite quant score (score-tilted only)
+}
+
+export interface PortfolioPoint {
+  expectedReturn: number; // Annualized %
+  volatility: number; // Annualized %
+  sharpe: number; // Risk-free rate of 0
+}
+
+export interface FrontierPoint extends PortfolioPoint {
+  weights: Record<string, number>; // %
+}
+
+export interface AllocationResult {
+  objective: AllocationObjective;
+  startDate: string;
+  endDate: string;
+  observations: number;
+  constraints: { maxWeight: number; longOnly: boolean; excludeStablecoins: boolean };
+  allocations: AssetAllocation[];
+  portfolio: PortfolioPoint;
+  frontier: FrontierPoint[];
+  excluded: Array<{ symbol: string; reason: string }>;
+}
+
+type Vector = number[];
+type Matrix = number[][];
+
+const dot = (a: Vector, b: Vector) => a.reduce((sum, x, i) => sum + x * b[i], 0);
+const multiply = (m: Matrix, v: Vector): Vector => m.map(row => dot(row, v));
+
+/**
+ * Euclidean projection onto { Σw = 1, lower ≤ w ≤ upper }: clip(v - τ) with τ found by bisection
+ */
+export function projectToCappedSimplex(v: Vector, lower: number, upper: number): Vector {
+  const total = (tau: number) => v.reduce((sum, x) => sum + Math.min(upper, Math.max(lower, x - tau)), 0);
+  let low = Math.min(...v) - upper;
+  let high = Math.max(...v) - lower;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (total(mid) > 1) low = mid;
+    else high = mid;
+  }
+  const tau = (low + high) / 2;
+  return v.map(x => Math.min(upper, Math.max(lower, x - tau)));
+}
+
+/**
+ * Largest eigenvalue by power iteration; sets the gradient step size
+ */
+function largestEigenvalue(m: Matrix): number {
+  let v: Vector = m.map(() => 1 / Math.sqrt(m.length));
+  let eigenvalue = 0;
+  for (let i = 0; i < 50; i++) {
+    const next = multiply(m, v);
+    const norm = Math.sqrt(dot(next, next));
+    if (norm === 0) return 0;
+    eigenvalue = dot(v, next);
+    v = next.map(x => x / norm);
+  }
+  return eigenvalue;
+}
+
+/**
+ * Maximize μᵀw - λ/2 · wᵀΣw by projected gradient ascent. μ = 0 gives the minimum-variance portfolio.
+ */
+export function meanVariance(mu: Vector, sigma: Matrix, lambda: number, lower: number, upper: number): Vector {
+  const step = 1 / Math.max(lambda * largestEigenvalue(sigma), RIDGE);
+  let w = projectToCappedSimplex(mu.map(() => 1 / mu.length), lower, upper);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const gradient = multiply(sigma, w).map((x, j) => mu[j] - lambda * x);
+    const next = projectToCappedSimplex(w.map((x, j) => x + step * gradient[j]), lower, upper);
+    const change = next.reduce((sum, x, j) => sum + Math.abs(x - w[j]), 0);
+    w = next;
+    if (change < TOLERANCE) break;
+  }
+  return w;
+}
+
+/**
+ * Equal risk contributions (long-only). Solves min ½·yᵀΣy - Σ log(y_i) / n by cyclical coordinate
+ * descent, which converges even with negative correlations, then normalizes y into weights.
+ * The per-coin cap is applied afterwards, so capped coins carry less than an equal share.
+ */
+export function riskParity(sigma: Matrix, upper: number): Vector {
+  const n = sigma.length;
+  const y: Vector = sigma.map((row, i) => 1 / Math.sqrt(n * row[i])); // Inverse volatility start
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      const b = sigma[i].reduce((sum, c, j) => (j === i ? sum : sum + c * y[j]), 0);
+      const next = (-b + Math.sqrt(b * b + (4 * sigma[i][i]) / n)) / (2 * sigma[i][i]);
+      change += Math.abs(next - y[i]);
+      y[i] = next;
+    }
+    if (change < TOLERANCE) break;
+  }
+
+  const total = y.reduce((sum, x) => sum + x, 0);
+  return projectToCappedSimplex(y.map(x => x / total), 0, upper);
+}
+
+function describe(w: Vector, mu: Vector, sigma: Matrix): PortfolioPoint {
+  const expectedReturn = dot(w, mu) * 100;
+  const volatility = Math.sqrt(Math.max(0, dot(w, multiply(sigma, w)))) * 100;
+  return { expectedReturn, volatility, sharpe: volatility > 0 ? expectedReturn / volatility : 0 };
+}
+
+/**
+ * Mean-variance portfolios from very risk-averse to nearly return-only, keeping the efficient ones
+ */
+function efficientFrontier(symbols: string[], mu: Vector, sigma: Matrix, points: number, lower: number, upper: number): FrontierPoint[] {
+  const frontier: FrontierPoint[] = [];
+  for (let i = 0; i < points; i++) {
+    const lambda = 1000 * Math.pow(0.1 / 1000, i / (points - 1));
+    const w = meanVariance(mu, sigma, lambda, lower, upper);
+    frontier.push({
+      ...describe(w, mu, sigma),
+      weights: Object.fromEntries(symbols.map((symbol, j) => [symbol, w[j] * 100])),
+    });
+  }
+
+  frontier.sort((a, b) => a.volatility - b.volatility);
+  let best = -Infinity;
+  return frontier.filter(point => {
+    if (point.expectedReturn <= best + 0.01) return false; // Within 0.01% of a less risky point
+    best = point.expectedReturn;
+    return true;
+  });
+}
+
+/**
+ * The request's universe: the given symbols or the largest coins by market cap
+ */
+async function resolveUniverse(request: AllocationRequest, excluded: AllocationResult['excluded']): Promise<string[]> {
+  const candidates = request.symbols
+    ?? (await fetchTopCoins(request.universeSize * 2)).map(coin => coin.symbol.toUpperCase());
+
+  const universe: string[] = [];
+  for (const symbol of Array.from(new Set(candidates))) {
+    if (request.excludeStablecoins && isStablecoin(symbol)) {
+      if (request.symbols) excluded.push({ symbol, reason: 'Stablecoin' });
+      continue;
+    }
+    universe.push(symbol);
+  }
+  return request.symbols ? universe : universe.slice(0, request.universeSize);
+}
+
+/**
+ * Composite score per symbol from the (cached) quant analysis; 50 is neutral
+ */
+async function compositeScores(symbols: string[]): Promise<Vector> {
+  return Promise.all(symbols.map(async symbol => {
+    try {
+      const analysis = await analyzeSymbol(symbol, { interval: '1d' });
+      return analysis?.result.scores.compositeScore ?? 50;
+    } catch (error) {
+      console.error(`[allocation] No quant score for ${symbol}:`, error);
+      return 50;
+    }
+  }));
+}
+
+/**
+ * Suggested weights for the chosen objective plus the efficient frontier
+ */
+export async function optimizeAllocation(request: AllocationRequest): Promise<AllocationResult> {
+  const excluded: AllocationResult['excluded'] = [];
+  const universe = await resolveUniverse(request, excluded);
+
+  const { dates, series, missing } = await alignedCloses(universe, request.days);
+  excluded.push(...missing.map(symbol => ({ symbol, reason: 'Not enough price history' })));
+  const symbols = universe.filter(symbol => series.has(symbol));
+
+  if (symbols.length < 2) {
+    throw new Error('At least two coins with price history are needed');
+  }
+  if (symbols.length * request.maxWeight < 1) {
+    throw new Error(`A max weight of ${request.maxWeight * 100}% can't be fully invested across ${symbols.length} coins`);
+  }
+
+  const returns = symbols.map(symbol => logReturns(series.get(symbol)!));
+  const historicalMu = returns.map(r => mean(r) * DAYS_PER_YEAR);
+  const sigma = returns.map((x, i) => returns.map((y, j) => covariance(x, y) * DAYS_PER_YEAR + (i === j ? RIDGE : 0)));
+  const volatilities = sigma.map((row, i) => Math.sqrt(row[i]));
+
+  const scores = request.objective === 'score-tilted' ? await compositeScores(symbols) : null;
+  // The tilt replaces trailing returns with a view: a Sharpe ratio proportional to the score's distance from neutral
+  const mu = scores
+    ? scores.map((score, i) => ((score - 50) / 50) * SCORE_SHARPE * volatilities[i])
+    : historicalMu;
+
+  // Risk parity is long-only by construction
+  const lower = request.longOnly || request.objective === 'risk-parity' ? 0 : -request.maxWeight;
+  const upper = request.maxWeight;
+
+  let weights: Vector;
+  switch (request.objective) {
+    case 'min-variance':
+      weights = meanVariance(mu.map(() => 0), sigma, 1, lower, upper);
+      break;
+    case 'risk-parity':
+      weights = riskParity(sigma, upper);
+      break;
+    default:
+      weights = meanVariance(mu, sigma, request.riskAversion, lower, upper);
+  }
+
+  const marginal = multiply(sigma, weights);
+  const variance = dot(weights, marginal);
+
+  return {
+    objective: request.objective,
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    observations: dates.length - 1,
+    constraints: { maxWeight: request.maxWeight, longOnly: lower === 0, excludeStablecoins: request.excludeStablecoins },
+    allocations: symbols
+      .map((symbol, i) => ({
+        symbol,
+        weight: weights[i] * 100,
+        expectedReturn: mu[i] * 100,
+        volatility: volatilities[i] * 100,
+        riskContribution: variance > 0 ? (weights[i] * marginal[i] / variance) * 100 : 0,
+        score: scores ? scores[i] : null,
+      }))
+      .sort((a, b) => b.weight - a.weight),
+    portfolio: describe(weights, mu, sigma),
+    frontier: efficientFrontier(symbols, mu, sigma, request.frontierPoints, lower, upper),
+    excluded,
+  };
+}
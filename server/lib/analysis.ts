@@ -0,0 +1,173 @@
+// Cached quant analysis for a single symbol
+// Shared by the quant routes so fetching, engine runs and caching stay consistent
+
+import type { StrategyProfile } from '@shared/schema';
+import { storage } from '../storage';
+import { fetchOHLCData, klinesToOHLC, extractPriceVolume } from './marketData';
+import { runQuantEngine, type QuantEngineOutput } from './quant/engine';
+import { quantCache } from './cache';
+import { DEFAULT_PROFILE_NAME, profileToEngineConfig } from './profiles';
+import { dispatchWebhookEvent } from './webhooks';
+
+export type QuantInterval = '1h' | '4h' | '1d' | '1w';
+
+export interface AnalysisOptions {
+  interval?: QuantInterval;
+  profile?: StrategyProfile;
+  skipCache?: boolean;
+}
+
+export interface AnalysisResult {
+  result: QuantEngineOutput;
+  fromCache: boolean;
+}
+
+export interface RecordOptions {
+  interval: QuantInterval;
+  profile: string;
+  barCloseTime: Date; // Close time of the last kline the analysis saw
+}
+
+const ANALYSIS_TTL = 60 * 1000; // 1 minute
+
+/**
+ * Cache key for an analysis. The default profile keeps the legacy key format
+ * so other readers of quantCache (chat, regime) keep hitting the same entries.
+ */
+export function quantCacheKey(symbol: string, interval: QuantInterval, profileName?: string): string {
+  const base = `quant_${symbol.toUpperCase()}_${interval}`;
+  return !profileName || profileName === DEFAULT_PROFILE_NAME ? base : `${base}_${profileName}`;
+}
+
+/**
+ * Drop cached analyses scored with a profile, e.g. after its weights or thresholds change
+ */
+export function evictProfileAnalyses(profileName: string): number {
+  return quantCache.deleteWhere(key => {
+    const match = /^quant_[^_]+_(?:1h|4h|1d|1w)(?:_(.+))?$/.exec(key);
+    return match !== null && (match[1] ?? DEFAULT_PROFILE_NAME) === profileName;
+  });
+}
+
+/**
+ * Run (or reuse a cached) quant analysis for a symbol.
+ * Fresh analyses are persisted as snapshots; returns null when no market data is available.
+ */
+export async function analyzeSymbol(
+  symbol: string,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult | null> {
+  const symbolUpper = symbol.toUpperCase();
+  const { interval = '1d', profile, skipCache = false } = options;
+  const cacheKey = quantCacheKey(symbolUpper, interval, profile?.name);
+
+  if (!skipCache) {
+    const cached = quantCache.get<QuantEngineOutput>(cacheKey);
+    if (cached) {
+      return { result: cached, fromCache: true };
+    }
+  }
+
+  const klines = await fetchOHLCData(symbolUpper, interval, 200);
+  if (klines.length === 0) {
+    return null;
+  }
+
+  const ohlc = klinesToOHLC(klines);
+  const { closes, volumes } = extractPriceVolume(klines);
+  const { weights, thresholds } = profileToEngineConfig(profile);
+
+  const result = await runQuantEngine({
+    symbol: symbolUpper,
+    prices: closes,
+    ohlc,
+    volumes,
+    interval,
+    sentimentScore: 50, // Default, will be updated with sentiment API
+    weights,
+    thresholds
+  });
+
+  quantCache.set(cacheKey, result, ANALYSIS_TTL);
+
+  try {
+    await recordAnalysis(result, {
+      interval,
+      profile: profile?.name ?? DEFAULT_PROFILE_NAME,
+      barCloseTime: new Date(klines[klines.length - 1].closeTime),
+    });
+  } catch (error) {
+    // Persistence problems shouldn't fail the analysis itself
+    console.error(`[analysis] Failed to record snapshot for ${symbolUpper}:`, error);
+  }
+
+  return { result, fromCache: false };
+}
+
+/**
+ * Upsert the full engine output for the current bar. The summary quant_signals row
+ * is only written the first time a bar is seen, so repeated refreshes don't duplicate it.
+ * A signal.changed webhook fires when the signal differs from the latest stored snapshot.
+ */
+export async function recordAnalysis(result: QuantEngineOutput, options: RecordOptions): Promise<void> {
+  const { interval, profile, barCloseTime } = options;
+  const existing = await storage.getQuantSnapshot(result.symbol, interval, profile, barCloseTime);
+  const previous = existing ?? (await storage.getQuantSnapshots(result.symbol, {
+    interval,
+    profile,
+    to: new Date(barCloseTime.getTime() - 1),
+    limit: 1,
+  }))[0];
+
+  await storage.upsertQuantSnapshot({
+    symbol: result.symbol,
+    interval,
+    profile,
+    barCloseTime,
+    compositeScore: result.scores.compositeScore,
+    signal: result.signal,
+    confidence: result.confidence,
+    marketRegime: result.marketRegime,
+    output: result,
+  });
+
+  if (!existing) {
+    await recordQuantSignal(result);
+  }
+
+  // Not awaited: a slow subscriber must not hold up the analysis
+  if (previous && previous.signal !== result.signal) {
+    void dispatchWebhookEvent('signal.changed', {
+      symbol: result.symbol,
+      interval,
+      profile,
+      previousSignal: previous.signal,
+      signal: result.signal,
+      compositeScore: result.scores.compositeScore,
+      confidence: result.confidence,
+      marketRegime: result.marketRegime,
+      barCloseTime: barCloseTime.toISOString(),
+    }, { symbol: result.symbol });
+  }
+}
+
+/**
+ * Save a summary row for an analysis to the quant_signals table
+ */
+export async function recordQuantSignal(result: QuantEngineOutput): Promise<void> {
+  await storage.createQuantSignal({
+    symbol: result.symbol,
+    score: result.scores.compositeScore,
+    signal: result.signal === 'BUY' ? 'Bullish' : result.signal === 'SELL' ? 'Bearish' : 'Neutral',
+    confidence: result.confidence,
+    factors: {
+      trend: result.scores.trend,
+      momentum: result.scores.momentum,
+      volatility: result.scores.volatility,
+      volume: result.scores.volume,
+      risk: result.scores.risk,
+      sentiment: result.scores.sentiment
+    } as any,
+    explanation: `Composite: ${result.scores.compositeScore}, Regime: ${result.marketRegime}`,
+  });
+}
@@ -0,0 +1,315 @@
+// Historical backtesting for quant engine signals
+// Replays runQuantEngine over rolling windows of kline history and simulates
+// long-only trading on the resulting BUY/SELL/HOLD output
+
+import { z } from 'zod';
+import {
+  fetchOHLCData,
+  klinesToOHLC,
+  extractPriceVolume,
+  type BinanceKline
+} from './marketData';
+import { runQuantEngine, type QuantEngineOutput } from './quant/engine';
+import { calculateSharpeRatio, calculateSortinoRatio } from './quant/momentum';
+import { calculateMaxDrawdown } from './quant/risk';
+
+export type KlineInterval = '1h' | '4h' | '1d' | '1w';
+export type TradingSignal = QuantEngineOutput['signal'];
+
+/**
+ * Number of bars per year for each supported interval (crypto trades 24/7)
+ */
+export const BARS_PER_YEAR: Record<KlineInterval, number> = {
+  '1h': 24 * 365,
+  '4h': 6 * 365,
+  '1d': 365,
+  '1w': 52,
+};
+
+export const klineSchema = z.object({
+  openTime: z.number(),
+  open: z.coerce.string(),
+  high: z.coerce.string(),
+  low: z.coerce.string(),
+  close: z.coerce.string(),
+  volume: z.coerce.string(),
+  closeTime: z.number(),
+});
+
+export const backtestRequestSchema = z.object({
+  symbol: z.string().min(1).transform(s => s.toUpperCase()),
+  interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+  limit: z.coerce.number().int().min(60).max(5000).default(500), // Bars to load when no klines are supplied
+  lookback: z.coerce.number().int().min(30).max(500).default(200), // Rolling window fed to the engine
+  initialCapital: z.coerce.number().positive().default(10000),
+  feeRate: z.coerce.number().min(0).max(0.05).default(0.001), // 0.1% per side, matches trade tax
+  klines: z.array(klineSchema).optional(), // Optional supplied kline file instead of fetching
+});
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+/**
+ * A single bar with the engine output computed from the window ending at that bar
+ */
+export interface ScoredBar {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  close: number;
+  scores: QuantEngineOutput['scores'];
+  signal: TradingSignal;
+}
+
+export interface BacktestTrade {
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number | null;
+  exitPrice: number | null;
+  quantity: number;
+  pnl: number | null;
+  returnPct: number | null;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+  benchmark: number; // Buy & hold equity with the same starting capital
+  inPosition: boolean;
+  signal: TradingSignal;
+}
+
+export interface BacktestMetrics {
+  totalReturn: number; // Percentage
+  cagr: number; // Percentage
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number; // Percentage
+  hitRate: number; // Percentage of closed trades with positive PnL
+  turnover: number; // Traded notional / average equity
+  tradeCount: number; // Closed round trips
+  exposure: number; // Percentage of bars spent in a position
+  benchmarkReturn: number; // Buy & hold percentage return
+  finalEquity: number;
+}
+
+export interface BacktestResult {
+  symbol: string;
+  interval: KlineInterval;
+  lookback: number;
+  bars: number;
+  startTime: number;
+  endTime: number;
+  metrics: BacktestMetrics;
+  signalCounts: Record<TradingSignal, number>;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+export interface SimulationOptions {
+  initialCapital: number;
+  feeRate: number;
+  interval: KlineInterval;
+}
+
+/**
+ * Run the quant engine on every rolling window of the kline history.
+ * Bar i is scored using only the `lookback` bars ending at (and including) bar i,
+ * so no future data leaks into the signal.
+ */
+export async function scoreHistory(
+  symbol: string,
+  klines: BinanceKline[],
+  lookback: number,
+  interval: KlineInterval,
+  onProgress?: (scored: number, total: number) => void
+): Promise<ScoredBar[]> {
+  if (klines.length <= lookback) {
+    throw new Error(`Insufficient data: need more than ${lookback} bars, got ${klines.length}`);
+  }
+
+  const ohlc = klinesToOHLC(klines);
+  const { closes, volumes } = extractPriceVolume(klines);
+  const scored: ScoredBar[] = [];
+  const total = klines.length - lookback + 1;
+
+  for (let i = lookback - 1; i < klines.length; i++) {
+    const start = i - lookback + 1;
+    const result = await runQuantEngine({
+      symbol,
+      prices: closes.slice(start, i + 1),
+      ohlc: ohlc.slice(start, i + 1),
+      volumes: volumes.slice(start, i + 1),
+      interval,
+      sentimentScore: 50
+    });
+
+    scored.push({
+      openTime: klines[i].openTime,
+      closeTime: klines[i].closeTime,
+      open: ohlc[i].open,
+      close: ohlc[i].close,
+      scores: result.scores,
+      signal: result.signal,
+    });
+
+    // Yield to the event loop periodically so long replays don't block other requests
+    if (scored.length % 25 === 0) {
+      onProgress?.(scored.length, total);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  return scored;
+}
+
+/**
+ * Annualize a ratio computed by the momentum helpers (which assume daily bars)
+ */
+function annualizeRatio(ratio: number, interval: KlineInterval): number {
+  return ratio * Math.sqrt(BARS_PER_YEAR[interval] / 365);
+}
+
+/**
+ * Simulate long-only, all-in trading on a signal series.
+ * A signal observed at the close of bar i is executed at the open of bar i + 1.
+ * BUY opens a position when flat, SELL closes it, HOLD keeps the current state.
+ */
+export function simulateSignals(
+  bars: ScoredBar[],
+  signals: TradingSignal[],
+  options: SimulationOptions
+): { metrics: BacktestMetrics; equityCurve: EquityPoint[]; trades: BacktestTrade[] } {
+  const { initialCapital, feeRate, interval } = options;
+
+  let cash = initialCapital;
+  let units = 0;
+  let pending: 'BUY' | 'SELL' | null = null;
+  let tradedNotional = 0;
+  let barsInPosition = 0;
+  let openTrade: BacktestTrade | null = null;
+  let entryCost = 0;
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  const firstPrice = bars.length > 0 ? bars[0].close : 0;
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+
+    // Execute the order decided at the previous close
+    if (pending === 'BUY' && units === 0 && cash > 0) {
+      const fee = cash * feeRate;
+      units = (cash - fee) / bar.open;
+      tradedNotional += cash;
+      entryCost = cash;
+      cash = 0;
+      openTrade = {
+        entryTime: bar.openTime,
+        entryPrice: bar.open,
+        exitTime: null,
+        exitPrice: null,
+        quantity: units,
+        pnl: null,
+        returnPct: null,
+      };
+    } else if (pending === 'SELL' && units > 0) {
+      const gross = units * bar.open;
+      const proceeds = gross - gross * feeRate;
+      tradedNotional += gross;
+      cash = proceeds;
+      units = 0;
+      if (openTrade) {
+        openTrade.exitTime = bar.openTime;
+        openTrade.exitPrice = bar.open;
+        openTrade.pnl = proceeds - entryCost;
+        openTrade.returnPct = ((proceeds - entryCost) / entryCost) * 100;
+        trades.push(openTrade);
+        openTrade = null;
+      }
+    }
+    pending = null;
+
+    if (units > 0) barsInPosition++;
+
+    const signal = signals[i];
+    equityCurve.push({
+      time: bar.closeTime,
+      equity: cash + units * bar.close,
+      benchmark: firstPrice > 0 ? initialCapital * (bar.close / firstPrice) : initialCapital,
+      inPosition: units > 0,
+      signal,
+    });
+
+    if (signal === 'BUY' && units === 0) pending = 'BUY';
+    else if (signal === 'SELL' && units > 0) pending = 'SELL';
+  }
+
+  // Report a still-open position without counting it as a closed trade
+  if (openTrade) trades.push(openTrade);
+
+  const equities = equityCurve.map(p => p.equity);
+  const finalEquity = equities.length > 0 ? equities[equities.length - 1] : initialCapital;
+  const periods = Math.max(1, equities.length - 1);
+  const years = periods / BARS_PER_YEAR[interval];
+  const closedTrades = trades.filter(t => t.pnl !== null);
+  const winners = closedTrades.filter(t => (t.pnl as number) > 0);
+  const averageEquity = equities.length > 0
+    ? equities.reduce((sum, e) => sum + e, 0) / equities.length
+    : initialCapital;
+  const lastPrice = bars.length > 0 ? bars[bars.length - 1].close : firstPrice;
+
+  const metrics: BacktestMetrics = {
+    totalReturn: ((finalEquity - initialCapital) / initialCapital) * 100,
+    cagr: finalEquity > 0 ? (Math.pow(finalEquity / initialCapital, 1 / years) - 1) * 100 : -100,
+    sharpeRatio: annualizeRatio(calculateSharpeRatio(equities, periods), interval),
+    sortinoRatio: annualizeRatio(calculateSortinoRatio(equities, periods), interval),
+    maxDrawdown: calculateMaxDrawdown(equities),
+    hitRate: closedTrades.length > 0 ? (winners.length / closedTrades.length) * 100 : 0,
+    turnover: averageEquity > 0 ? tradedNotional / averageEquity : 0,
+    tradeCount: closedTrades.length,
+    exposure: bars.length > 0 ? (barsInPosition / bars.length) * 100 : 0,
+    benchmarkReturn: firstPrice > 0 ? ((lastPrice - firstPrice) / firstPrice) * 100 : 0,
+    finalEquity,
+  };
+
+  return { metrics, equityCurve, trades };
+}
+
+/**
+ * Run a full backtest: load history, replay the engine and simulate trading
+ */
+export async function runBacktest(request: BacktestRequest): Promise<BacktestResult> {
+  const { symbol, interval, limit, lookback, initialCapital, feeRate } = request;
+
+  const klines: BinanceKline[] = request.klines
+    ? [...request.klines].sort((a, b) => a.openTime - b.openTime)
+    : await fetchOHLCData(symbol, interval, limit);
+
+  if (klines.length === 0) {
+    throw new Error(`No kline data available for ${symbol}`);
+  }
+
+  const bars = await scoreHistory(symbol, klines, lookback, interval);
+  const signals = bars.map(bar => bar.signal);
+  const { metrics, equityCurve, trades } = simulateSignals(bars, signals, {
+    initialCapital,
+    feeRate,
+    interval,
+  });
+
+  const signalCounts: Record<TradingSignal, number> = { BUY: 0, SELL: 0, HOLD: 0 };
+  for (const signal of signals) signalCounts[signal]++;
+
+  return {
+    symbol,
+    interval,
+    lookback,
+    bars: bars.length,
+    startTime: bars[0].openTime,
+    endTime: bars[bars.length - 1].closeTime,
+    metrics,
+    signalCounts,
+    equityCurve,
+    trades,
+  };
+}
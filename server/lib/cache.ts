@@ -51,6 +51,20 @@ class QuantCache {
     this.cache.delete(key);
   }
 
+  /**
+   * Delete every entry whose key matches, returning how many were removed
+   */
+  deleteWhere(predicate: (key: string) => boolean): number {
+    let deleted = 0;
+    Array.from(this.cache.keys()).forEach(key => {
+      if (predicate(key)) {
+        this.cache.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
   /**
    * Clear all cache
    */
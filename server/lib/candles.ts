@@ -0,0 +1,302 @@
+// Local OHLCV candle store
+// Bars are persisted per symbol/interval and kept current by an incremental sync that
+// only fetches bars from the last stored one onward, backfills gaps and pages further
+// back on demand, so history is no longer limited to what one API call returns
+
+import { z } from 'zod';
+import type { Candle, InsertCandle } from '@shared/schema';
+import { storage } from '../storage';
+import {
+  barOpenTime,
+  getMarketDataProvider,
+  KLINE_INTERVAL_MS,
+  type BinanceKline,
+  type KlineInterval,
+  type KlineRange,
+  type MarketDataProvider,
+} from './providers';
+
+const PAGE_SIZE = 1000; // Binance's per-request cap
+const MAX_PAGES = 20; // Per direction, per sync pass
+const INITIAL_BARS = 200;
+const GAP_SCAN_BARS = 5000; // Only the most recent bars are checked for gaps
+const FRESH_FOR = 60 * 1000; // Serve stored bars without syncing for this long after a sync
+const SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const MAX_SYNC_BARS = 20000;
+
+export const candleSyncRequestSchema = z.object({
+  interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+  bars: z.coerce.number().int().min(1).max(MAX_SYNC_BARS).default(1000), // Page back until this many are stored
+});
+
+export interface CandleSyncResult {
+  symbol: string;
+  interval: KlineInterval;
+  fetched: number; // Bars written this pass (new or refreshed)
+  stored: number; // Bars stored after the pass
+  firstOpenTime: number | null;
+  lastOpenTime: number | null;
+}
+
+// Gaps already requested once; bars the exchange never produced are not refetched every pass
+const attemptedGaps = new Set<string>();
+// Oldest bar each provider has for a series, once paging back returned nothing older
+const historyStart = new Map<string, number>();
+const inFlight = new Map<string, Promise<CandleSyncResult>>();
+
+const seriesKey = (symbol: string, interval: KlineInterval) => `${symbol}_${interval}`;
+
+/**
+ * Stored candle in the kline shape the rest of the app uses
+ */
+export function candleToKline(candle: Candle): BinanceKline {
+  const openTime = candle.openTime.getTime();
+  return {
+    openTime,
+    // Drop the trailing zeros of the numeric columns
+    open: Number(candle.open).toString(),
+    high: Number(candle.high).toString(),
+    low: Number(candle.low).toString(),
+    close: Number(candle.close).toString(),
+    volume: Number(candle.volume).toString(),
+    closeTime: openTime + KLINE_INTERVAL_MS[candle.interval as KlineInterval] - 1,
+    source: candle.source,
+  };
+}
+
+/**
+ * Whether bars are spaced at the requested interval. The CoinGecko fallback returns
+ * daily points for every interval, and those must not be stored as e.g. 4h bars.
+ */
+function hasIntervalSpacing(klines: BinanceKline[], interval: KlineInterval): boolean {
+  if (klines.length < 2) return true;
+  const gaps = klines.slice(1).map((k, i) => k.openTime - klines[i].openTime).sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return Math.abs(median - KLINE_INTERVAL_MS[interval]) < KLINE_INTERVAL_MS[interval] * 0.01;
+}
+
+/**
+ * Bars fit to store: on the interval grid, correctly spaced and from a live source.
+ * Fixture bars are already local and must never mix with real history.
+ */
+function storableBars(klines: BinanceKline[], interval: KlineInterval): BinanceKline[] {
+  if (!hasIntervalSpacing(klines, interval)) return [];
+  return klines.filter(k => k.source !== 'fixture' && barOpenTime(k.openTime, interval) === k.openTime);
+}
+
+/**
+ * Fetch one page from the provider and store the usable bars. Returns the stored bars.
+ */
+async function fetchAndStore(
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: KlineInterval,
+  limit: number,
+  range?: KlineRange
+): Promise<BinanceKline[]> {
+  const klines = storableBars(await provider.klines(symbol, interval, limit, range), interval);
+  if (klines.length === 0) return [];
+
+  const rows: InsertCandle[] = klines.map(k => ({
+    symbol,
+    interval,
+    openTime: new Date(k.openTime),
+    open: k.open,
+    high: k.high,
+    low: k.low,
+    close: k.close,
+    volume: k.volume,
+    source: k.source ?? provider.name,
+  }));
+  await storage.upsertCandles(rows);
+  return klines;
+}
+
+/**
+ * Fetch bars from the last stored one (which may still have been forming) up to now
+ */
+async function syncForward(
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: KlineInterval,
+  lastOpenTime: number | null,
+  minBars: number
+): Promise<number> {
+  if (lastOpenTime === null) {
+    const page = await fetchAndStore(provider, symbol, interval, Math.min(Math.max(minBars, INITIAL_BARS), PAGE_SIZE));
+    return page.length;
+  }
+
+  const ms = KLINE_INTERVAL_MS[interval];
+  const currentOpen = barOpenTime(Date.now(), interval);
+  let cursor = lastOpenTime;
+  let fetched = 0;
+
+  for (let pages = 0; pages < MAX_PAGES && cursor <= currentOpen; pages++) {
+    const page = await fetchAndStore(provider, symbol, interval, PAGE_SIZE, { startTime: cursor });
+    fetched += page.length;
+    if (page.length === 0) break;
+    cursor = page[page.length - 1].openTime + ms;
+  }
+  return fetched;
+}
+
+/**
+ * Refetch missing bars between stored ones. Each gap is requested once per process.
+ */
+async function backfillGaps(provider: MarketDataProvider, symbol: string, interval: KlineInterval): Promise<number> {
+  const ms = KLINE_INTERVAL_MS[interval];
+  const stored = await storage.getCandles(symbol, { interval, limit: GAP_SCAN_BARS });
+  let fetched = 0;
+
+  for (let i = 1; i < stored.length; i++) {
+    const previous = stored[i - 1].openTime.getTime();
+    const next = stored[i].openTime.getTime();
+    if (next - previous <= ms) continue;
+
+    const gapKey = `${seriesKey(symbol, interval)}_${previous}_${next}`;
+    if (attemptedGaps.has(gapKey)) continue;
+    attemptedGaps.add(gapKey);
+
+    const missing = Math.round((next - previous) / ms) - 1;
+    let cursor = previous + ms;
+    for (let pages = 0; pages < MAX_PAGES && cursor < next; pages++) {
+      const page = await fetchAndStore(provider, symbol, interval, Math.min(missing, PAGE_SIZE), {
+        startTime: cursor,
+        endTime: next - ms,
+      });
+      fetched += page.length;
+      if (page.length === 0) break;
+      cursor = page[page.length - 1].openTime + ms;
+    }
+  }
+  return fetched;
+}
+
+/**
+ * Page back from the oldest stored bar until `minBars` are stored or the provider runs out
+ */
+async function backfillHistory(
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: KlineInterval,
+  minBars: number
+): Promise<number> {
+  const key = seriesKey(symbol, interval);
+  const ms = KLINE_INTERVAL_MS[interval];
+  let fetched = 0;
+
+  for (let pages = 0; pages < MAX_PAGES; pages++) {
+    const [series] = await storage.getCandleSeries(symbol, interval);
+    if (!series || series.count >= minBars) break;
+
+    const firstOpenTime = series.firstOpenTime.getTime();
+    if (historyStart.get(key) === firstOpenTime) break;
+
+    const page = await fetchAndStore(provider, symbol, interval, Math.min(minBars - series.count, PAGE_SIZE), {
+      endTime: firstOpenTime - ms,
+    });
+    fetched += page.length;
+    if (page.length === 0 || page[0].openTime >= firstOpenTime) {
+      historyStart.set(key, firstOpenTime);
+      break;
+    }
+  }
+  return fetched;
+}
+
+/**
+ * Bring a stored series up to date: new bars, gaps, then older history until at least
+ * `minBars` are stored. Concurrent calls for the same series share one pass.
+ */
+export function syncCandles(
+  symbol: string,
+  interval: KlineInterval,
+  minBars: number = 0,
+  provider: MarketDataProvider = getMarketDataProvider()
+): Promise<CandleSyncResult> {
+  const symbolUpper = symbol.toUpperCase();
+  const key = seriesKey(symbolUpper, interval);
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const run = (async (): Promise<CandleSyncResult> => {
+    const [before] = await storage.getCandleSeries(symbolUpper, interval);
+    let fetched = await syncForward(provider, symbolUpper, interval, before?.lastOpenTime.getTime() ?? null, minBars);
+    fetched += await backfillGaps(provider, symbolUpper, interval);
+    fetched += await backfillHistory(provider, symbolUpper, interval, Math.min(minBars, MAX_SYNC_BARS));
+
+    const [after] = await storage.getCandleSeries(symbolUpper, interval);
+    return {
+      symbol: symbolUpper,
+      interval,
+      fetched,
+      stored: after?.count ?? 0,
+      firstOpenTime: after?.firstOpenTime.getTime() ?? null,
+      lastOpenTime: after?.lastOpenTime.getTime() ?? null,
+    };
+  })();
+
+  inFlight.set(key, run);
+  return run.finally(() => inFlight.delete(key));
+}
+
+/**
+ * Stored bars only - never calls external APIs
+ */
+export async function getStoredKlines(symbol: string, interval: KlineInterval, limit: number): Promise<BinanceKline[]> {
+  const stored = await storage.getCandles(symbol.toUpperCase(), { interval, limit });
+  return stored.map(candleToKline);
+}
+
+/**
+ * The most recent `limit` bars from the store, syncing first when the series is stale or
+ * too short. Returns null when the store can't serve the request (e.g. the provider only
+ * has data that isn't storable at this interval) so the caller can fetch directly.
+ */
+export async function loadKlines(symbol: string, interval: KlineInterval, limit: number): Promise<BinanceKline[] | null> {
+  const symbolUpper = symbol.toUpperCase();
+  const key = seriesKey(symbolUpper, interval);
+  const [series] = await storage.getCandleSeries(symbolUpper, interval);
+
+  const fresh = series && Date.now() - series.lastUpdatedAt.getTime() < FRESH_FOR;
+  const complete = series && (series.count >= limit || historyStart.get(key) === series.firstOpenTime.getTime());
+  if (!fresh || !complete) {
+    await syncCandles(symbolUpper, interval, limit);
+  }
+
+  const klines = await getStoredKlines(symbolUpper, interval, limit);
+  if (klines.length === 0) return null;
+  // Fewer bars than asked for is fine once paging back has reached the start of history
+  return klines.length >= limit || historyStart.get(key) === klines[0].openTime ? klines : null;
+}
+
+/**
+ * Keep every stored series current. Series are added the first time they are requested.
+ */
+export function startCandleSync(): void {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const series = await storage.getCandleSeries();
+      let fetched = 0;
+      for (const { symbol, interval } of series) {
+        try {
+          fetched += (await syncCandles(symbol, interval as KlineInterval)).fetched;
+        } catch (error) {
+          console.error(`[candles] Failed to sync ${symbol} ${interval}:`, error);
+        }
+      }
+      if (fetched > 0) console.log(`[candles] Synced ${fetched} bars across ${series.length} series`);
+    } catch (error) {
+      console.error('[candles] Sync failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  setInterval(run, SYNC_INTERVAL);
+}
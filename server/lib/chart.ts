@@ -0,0 +1,84 @@
+// Price chart data
+// Candles for CoinDetail's chart with every overlay and sub-pane value on each bar. Indicators
+// are computed over extra warm-up bars that are then trimmed, so the first visible bar is settled.
+
+import { z } from 'zod';
+import { fetchOHLCData, extractPriceVolume } from './marketData';
+import { simpleMovingAverage, exponentialMovingAverage } from './quant/statistics';
+import { computeIndicatorSeries, WARMUP_BARS } from './indicators';
+
+export const chartQuerySchema = z.object({
+  interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+  limit: z.coerce.number().int().min(20).max(500).default(200),
+});
+
+export type ChartQuery = z.infer<typeof chartQuerySchema>;
+
+export interface ChartBar {
+  time: number; // Open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  // Overlays (null until the window is full)
+  sma20: number | null;
+  sma50: number | null;
+  ema20: number | null;
+  ema50: number | null;
+  bbUpper: number | null;
+  bbMiddle: number | null;
+  bbLower: number | null;
+  // Sub-panes
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHistogram: number | null;
+  mfi: number | null;
+}
+
+const valueAt = (series: number[], i: number, period: number): number | null =>
+  i >= period - 1 && Number.isFinite(series[i]) ? series[i] : null;
+
+/**
+ * Candles with overlays and oscillators, using the same indicator series as /api/indicators
+ */
+export async function getChartData(symbol: string, { interval, limit }: ChartQuery): Promise<ChartBar[]> {
+  const klines = await fetchOHLCData(symbol, interval, limit + WARMUP_BARS);
+  const bars = extractPriceVolume(klines);
+  const { opens, highs, lows, closes, volumes } = bars;
+
+  const sma20 = simpleMovingAverage(closes, 20);
+  const sma50 = simpleMovingAverage(closes, 50);
+  const ema20 = exponentialMovingAverage(closes, 20);
+  const ema50 = exponentialMovingAverage(closes, 50);
+  const { rsi, macd, mfi, bbands } = computeIndicatorSeries(bars, ['rsi', 'macd', 'mfi', 'bbands']);
+
+  const start = Math.max(0, klines.length - limit);
+  const chart: ChartBar[] = [];
+
+  for (let i = start; i < klines.length; i++) {
+    chart.push({
+      time: klines[i].openTime,
+      open: opens[i],
+      high: highs[i],
+      low: lows[i],
+      close: closes[i],
+      volume: volumes[i],
+      sma20: valueAt(sma20, i, 20),
+      sma50: valueAt(sma50, i, 50),
+      ema20: valueAt(ema20, i, 20),
+      ema50: valueAt(ema50, i, 50),
+      bbUpper: bbands![i]?.upper ?? null,
+      bbMiddle: bbands![i]?.middle ?? null,
+      bbLower: bbands![i]?.lower ?? null,
+      rsi: rsi![i],
+      macd: macd![i]?.macd ?? null,
+      macdSignal: macd![i]?.signal ?? null,
+      macdHistogram: macd![i]?.histogram ?? null,
+      mfi: mfi![i],
+    });
+  }
+
+  return chart;
+}
@@ -0,0 +1,94 @@
+// Multi-timeframe confluence
+// Runs the engine for a symbol on every supported interval and scores how strongly the
+// timeframes agree on a direction
+
+import type { StrategyProfile } from '@shared/schema';
+import { analyzeSymbol, type QuantInterval } from './analysis';
+import type { QuantEngineOutput } from './quant/engine';
+
+export const MTF_INTERVALS: QuantInterval[] = ['1h', '4h', '1d', '1w'];
+
+export type ConfluenceBias = 'bullish' | 'bearish' | 'neutral';
+
+export interface TimeframeSignal {
+  interval: QuantInterval;
+  signal: QuantEngineOutput['signal'] | null; // null when the timeframe couldn't be analyzed
+  compositeScore: number | null;
+  confidence: number | null;
+  trendDirection: QuantEngineOutput['metrics']['trend']['trendDirection'] | null;
+  error: string | null;
+}
+
+export interface ConfluenceSummary {
+  confluenceScore: number; // 0-100: 100 when every analyzed timeframe says BUY, or every one says SELL
+  bias: ConfluenceBias;
+  aligned: number; // Timeframes whose signal matches the bias (HOLD for neutral)
+  analyzed: number;
+}
+
+export interface ConfluenceResult extends ConfluenceSummary {
+  symbol: string;
+  profile: string;
+  timeframes: TimeframeSignal[];
+}
+
+const SIGNAL_VOTE: Record<QuantEngineOutput['signal'], number> = { BUY: 1, HOLD: 0, SELL: -1 };
+
+/**
+ * Net vote of the analyzed timeframes. BUY and SELL cancel out and HOLD dilutes, so the score
+ * is only high when the timeframes point the same way.
+ */
+export function scoreConfluence(timeframes: TimeframeSignal[]): ConfluenceSummary {
+  const signals = timeframes.map(tf => tf.signal).filter((s): s is QuantEngineOutput['signal'] => s !== null);
+  if (signals.length === 0) {
+    return { confluenceScore: 0, bias: 'neutral', aligned: 0, analyzed: 0 };
+  }
+
+  const net = signals.reduce((sum, signal) => sum + SIGNAL_VOTE[signal], 0) / signals.length;
+  const bias: ConfluenceBias = net > 0 ? 'bullish' : net < 0 ? 'bearish' : 'neutral';
+  const biasSignal = bias === 'bullish' ? 'BUY' : bias === 'bearish' ? 'SELL' : 'HOLD';
+
+  return {
+    confluenceScore: Math.round(Math.abs(net) * 100),
+    bias,
+    aligned: signals.filter(signal => signal === biasSignal).length,
+    analyzed: signals.length,
+  };
+}
+
+/**
+ * Analyze a symbol on every interval (reusing cached analyses) and score their agreement.
+ * Returns null when no timeframe has market data.
+ */
+export async function analyzeConfluence(
+  symbol: string,
+  profile: StrategyProfile,
+  options: { skipCache?: boolean } = {}
+): Promise<ConfluenceResult | null> {
+  const timeframes = await Promise.all(MTF_INTERVALS.map(async (interval): Promise<TimeframeSignal> => {
+    try {
+      const analysis = await analyzeSymbol(symbol, { interval, profile, skipCache: options.skipCache });
+      if (!analysis) {
+        return { interval, signal: null, compositeScore: null, confidence: null, trendDirection: null, error: 'No data available' };
+      }
+      const { result } = analysis;
+      return {
+        interval,
+        signal: result.signal,
+        compositeScore: result.scores.compositeScore,
+        confidence: result.confidence,
+        trendDirection: result.metrics.trend.trendDirection,
+        error: null,
+      };
+    } catch (error: any) {
+      return { interval, signal: null, compositeScore: null, confidence: null, trendDirection: null, error: error.message || 'Analysis failed' };
+    }
+  }));
+
+  const summary = scoreConfluence(timeframes);
+  if (summary.analyzed === 0) {
+    return null;
+  }
+
+  return { symbol: symbol.toUpperCase(), profile: profile.name, timeframes, ...summary };
+}
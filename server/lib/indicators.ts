@@ -0,0 +1,96 @@
+// Indicator series
+// Full histories of the engine's indicators aligned to kline open times, for charts and API
+// consumers. Extra warm-up bars are fetched and trimmed so the first returned point is settled.
+
+import { z } from 'zod';
+import { fetchOHLCData, extractPriceVolume } from './marketData';
+import { calculateRSISeries } from './quant/momentum';
+import { calculateMACDSeries, type MACDPoint } from './quant/trend';
+import { calculateMFISeries } from './quant/volume';
+import { calculateATRSeries, calculateBollingerSeries, type BollingerPoint } from './quant/volatility';
+
+export const INDICATOR_NAMES = ['rsi', 'macd', 'mfi', 'atr', 'bbands'] as const;
+export type IndicatorName = typeof INDICATOR_NAMES[number];
+
+export const WARMUP_BARS = 60; // Covers MACD (12, 26, 9) and the 20-bar Bollinger window
+
+export const indicatorQuerySchema = z.object({
+  names: z.string()
+    .default(INDICATOR_NAMES.join(','))
+    .transform(names => Array.from(new Set(names.split(',').map(name => name.trim().toLowerCase()).filter(Boolean))))
+    .pipe(z.array(z.enum(INDICATOR_NAMES, {
+      errorMap: () => ({ message: `Indicators must be among: ${INDICATOR_NAMES.join(', ')}` }),
+    })).min(1, 'Request at least one indicator')),
+  interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export type IndicatorQuery = z.infer<typeof indicatorQuerySchema>;
+
+export interface IndicatorSeries {
+  rsi?: (number | null)[];
+  macd?: (MACDPoint | null)[];
+  mfi?: (number | null)[];
+  atr?: (number | null)[];
+  bbands?: (BollingerPoint | null)[];
+}
+
+export interface IndicatorResponse {
+  symbol: string;
+  interval: IndicatorQuery['interval'];
+  times: number[]; // Kline open times; every series is aligned to these
+  indicators: IndicatorSeries;
+}
+
+/**
+ * Compute the requested series over whole arrays of bars, one value (or null) per bar
+ */
+export function computeIndicatorSeries(
+  bars: { opens: number[]; highs: number[]; lows: number[]; closes: number[]; volumes: number[] },
+  names: readonly IndicatorName[]
+): IndicatorSeries {
+  const { opens, highs, lows, closes, volumes } = bars;
+  const series: IndicatorSeries = {};
+
+  for (const name of names) {
+    switch (name) {
+      case 'rsi':
+        series.rsi = calculateRSISeries(closes, 14);
+        break;
+      case 'macd':
+        series.macd = calculateMACDSeries(closes);
+        break;
+      case 'mfi':
+        series.mfi = calculateMFISeries(highs, lows, closes, volumes, 14);
+        break;
+      case 'atr':
+        series.atr = calculateATRSeries(closes.map((close, i) => ({ open: opens[i], high: highs[i], low: lows[i], close })), 14);
+        break;
+      case 'bbands':
+        series.bbands = calculateBollingerSeries(closes, 20, 2);
+        break;
+    }
+  }
+  return series;
+}
+
+/**
+ * Indicator histories for the latest `limit` bars of a symbol
+ */
+export async function getIndicatorSeries(symbol: string, { names, interval, limit }: IndicatorQuery): Promise<IndicatorResponse> {
+  const klines = await fetchOHLCData(symbol, interval, limit + WARMUP_BARS);
+  const start = Math.max(0, klines.length - limit);
+  const series = computeIndicatorSeries(extractPriceVolume(klines), names);
+
+  const indicators: IndicatorSeries = {};
+  for (const [name, values] of Object.entries(series) as [IndicatorName, unknown[]][]) {
+    (indicators as Record<IndicatorName, unknown[]>)[name] = values.slice(start);
+  }
+
+  return {
+    symbol: symbol.toUpperCase(),
+    interval,
+    times: klines.slice(start).map(k => k.openTime),
+    indicators,
+  };
+}
@@ -0,0 +1,199 @@
+// Lot accounting
+// Every buy opens a lot; every sell closes quantity from open lots of the same symbol.
+// Which lots a sell closes, and at what cost, depends on the portfolio's cost basis method:
+//
+//   average   Lots close oldest first, all at the running average cost of the position
+//   fifo      Oldest lots first, each at its own price
+//   lifo      Newest lots first, each at its own price
+//   specific  The lots named on the sell (trade.lots); sells without a selection fall back to FIFO
+
+import type { CostBasisMethod, InsertRealizedPnlLog, Trade } from '@shared/schema';
+
+const EPSILON = 0.00000001;
+
+export interface Lot {
+  tradeId: number; // The buy that opened the lot
+  symbol: string;
+  acquiredAt: Date;
+  quantity: number; // As bought
+  remaining: number;
+  price: number; // Buy price per unit
+  costBasis: number; // Per unit; the position's average cost under the average method
+}
+
+export interface LotMatch {
+  sellTradeId: number;
+  lotTradeId: number;
+  symbol: string;
+  quantity: number;
+  buyPrice: number; // Cost basis per unit
+  sellPrice: number;
+  acquiredAt: Date;
+  soldAt: Date;
+  realizedPnl: number;
+}
+
+// A trade the replay could not apply as recorded, e.g. a sell larger than the open position
+export interface LotIssue {
+  tradeId: number;
+  message: string;
+}
+
+export interface LotLedger {
+  method: CostBasisMethod;
+  openLots: Lot[];
+  matches: LotMatch[];
+  realizedPnl: number;
+  issues: LotIssue[];
+}
+
+/**
+ * Chronological order; trades on the same timestamp keep their entry order
+ */
+function byDate(a: Trade, b: Trade): number {
+  return new Date(a.date).getTime() - new Date(b.date).getTime() || a.id - b.id;
+}
+
+/**
+ * Lots to close for a sell and how much from each. Quantity the open lots can't cover is returned as `short`.
+ */
+function pickLots(
+  sell: Trade,
+  open: Lot[],
+  method: CostBasisMethod,
+  quantity: number,
+  issues: LotIssue[]
+): { picks: Array<{ lot: Lot; quantity: number }>; short: number } {
+  const picks: Array<{ lot: Lot; quantity: number }> = [];
+
+  if (method === 'specific' && sell.lots && sell.lots.length > 0) {
+    let selected = 0;
+    const picked = new Map<number, number>(); // Quantity already taken per lot, in case a lot is named twice
+    for (const selection of sell.lots) {
+      const lot = open.find(l => l.tradeId === selection.tradeId);
+      const wanted = parseFloat(selection.quantity);
+      if (!lot) {
+        issues.push({ tradeId: sell.id, message: `Lot ${selection.tradeId} is not an open ${sell.symbol} lot` });
+        continue;
+      }
+      const available = Math.max(0, lot.remaining - (picked.get(lot.tradeId) ?? 0));
+      if (wanted > available + EPSILON) {
+        issues.push({ tradeId: sell.id, message: `Lot ${selection.tradeId} only has ${available} ${sell.symbol} left` });
+      }
+      const take = Math.min(wanted, available);
+      picks.push({ lot, quantity: take });
+      picked.set(lot.tradeId, (picked.get(lot.tradeId) ?? 0) + take);
+      selected += take;
+    }
+    if (Math.abs(selected - quantity) > EPSILON) {
+      issues.push({ tradeId: sell.id, message: `Selected lots add up to ${selected}, not the ${quantity} sold` });
+    }
+    return { picks, short: Math.max(0, quantity - selected) };
+  }
+
+  const ordered = method === 'lifo' ? [...open].reverse() : open;
+  let left = quantity;
+  for (const lot of ordered) {
+    if (left <= EPSILON) break;
+    const take = Math.min(left, lot.remaining);
+    picks.push({ lot, quantity: take });
+    left -= take;
+  }
+  return { picks, short: left > EPSILON ? left : 0 };
+}
+
+/**
+ * Replay a portfolio's trades into open lots and realized matches under a cost basis method.
+ * Problems are collected rather than thrown so stored history can always be shown.
+ */
+export function replayLots(trades: Trade[], method: CostBasisMethod = 'average'): LotLedger {
+  const openBySymbol: Record<string, Lot[]> = {};
+  const matches: LotMatch[] = [];
+  const issues: LotIssue[] = [];
+  let realizedPnl = 0;
+
+  for (const trade of [...trades].sort(byDate)) {
+    const symbol = trade.symbol;
+    const quantity = parseFloat(trade.quantity);
+    const price = parseFloat(trade.buyPrice); // buyPrice holds the sell price for sell trades
+    const open = openBySymbol[symbol] || (openBySymbol[symbol] = []);
+
+    if (trade.side === 'buy') {
+      open.push({
+        tradeId: trade.id,
+        symbol,
+        acquiredAt: new Date(trade.date),
+        quantity,
+        remaining: quantity,
+        price,
+        costBasis: price,
+      });
+
+      if (method === 'average') {
+        const held = open.reduce((sum, lot) => sum + lot.remaining, 0);
+        const cost = open.reduce((sum, lot) => sum + lot.remaining * lot.costBasis, 0);
+        open.forEach(lot => { lot.costBasis = cost / held; });
+      }
+      continue;
+    }
+
+    const { picks, short } = pickLots(trade, open, method, quantity, issues);
+    if (short > 0) {
+      issues.push({ tradeId: trade.id, message: `Insufficient quantity to sell: ${short} ${symbol} short` });
+    }
+
+    for (const { lot, quantity: closed } of picks) {
+      if (closed <= 0) continue;
+      const pnl = (price - lot.costBasis) * closed;
+      realizedPnl += pnl;
+      lot.remaining -= closed;
+      matches.push({
+        sellTradeId: trade.id,
+        lotTradeId: lot.tradeId,
+        symbol,
+        quantity: closed,
+        buyPrice: lot.costBasis,
+        sellPrice: price,
+        acquiredAt: lot.acquiredAt,
+        soldAt: new Date(trade.date),
+        realizedPnl: pnl,
+      });
+    }
+    openBySymbol[symbol] = open.filter(lot => lot.remaining > EPSILON);
+  }
+
+  return {
+    method,
+    openLots: Object.values(openBySymbol).flat(),
+    matches,
+    realizedPnl,
+    issues,
+  };
+}
+
+/**
+ * Issues `after` has that `before` didn't, so a new trade is only blamed for problems it causes
+ */
+export function newIssues(before: LotLedger, after: LotLedger): LotIssue[] {
+  const known = new Set(before.issues.map(issue => `${issue.tradeId}:${issue.message}`));
+  return after.issues.filter(issue => !known.has(`${issue.tradeId}:${issue.message}`));
+}
+
+/**
+ * One realized PnL log row per lot a sell closed
+ */
+export function toRealizedPnlLogs(portfolioId: number, ledger: LotLedger): InsertRealizedPnlLog[] {
+  return ledger.matches.map(match => ({
+    portfolioId,
+    symbol: match.symbol,
+    quantity: match.quantity.toString(),
+    buyPrice: match.buyPrice.toString(),
+    sellPrice: match.sellPrice.toString(),
+    realizedPnl: match.realizedPnl.toString(),
+    tradeId: match.sellTradeId,
+    lotTradeId: match.lotTradeId,
+    acquiredAt: match.acquiredAt,
+    soldAt: match.soldAt,
+    method: ledger.method,
+  }));
+}
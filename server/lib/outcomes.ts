@@ -0,0 +1,244 @@
+// Signal outcome tracking and forecast calibration
+// Revisits stored snapshots once N bars have closed, records the realized return
+// and whether the forecast direction was right, and summarizes calibration
+
+import type { QuantSnapshot, SignalOutcome } from '@shared/schema';
+import { storage } from '../storage';
+import { fetchOHLCData, type BinanceKline } from './marketData';
+import type { QuantEngineOutput } from './quant/engine';
+import type { QuantInterval } from './analysis';
+
+export const DEFAULT_HORIZON_BARS = 5;
+
+export const INTERVAL_MS: Record<QuantInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+const TRACKER_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const BATCH_SIZE = 200;
+
+export interface CalibrationBucket {
+  range: [number, number]; // Predicted probability range (0-100)
+  count: number;
+  predicted: number | null; // Mean predicted probability (0-100)
+  observed: number | null; // Observed frequency of a correct direction (0-100)
+}
+
+export interface SymbolAccuracy {
+  symbol: string;
+  forecasts: number; // Directional (UP/DOWN) forecasts evaluated
+  correct: number;
+  accuracy: number; // Percentage
+  brierScore: number;
+  averageReturn: number; // Mean realized return across all evaluated outcomes (percentage)
+}
+
+export interface CalibrationReport {
+  interval: QuantInterval;
+  profile: string;
+  horizonBars: number[];
+  evaluated: number; // Outcomes with price data
+  directional: number; // UP/DOWN forecasts among them
+  sideways: number;
+  accuracy: number | null; // Percentage of directional forecasts that were right
+  brierScore: number | null; // Mean squared error of probability vs outcome (0 = perfect, 0.25 = coin flip)
+  buckets: CalibrationBucket[];
+  symbols: SymbolAccuracy[];
+}
+
+/**
+ * Find the bar a snapshot was taken on: the last kline closing at or before the snapshot's bar close
+ */
+function findBarIndex(klines: BinanceKline[], barCloseTime: number, intervalMs: number): number {
+  let index = -1;
+  for (let i = 0; i < klines.length; i++) {
+    if (klines[i].closeTime <= barCloseTime) index = i;
+    else break;
+  }
+  // Reject matches that are more than one bar away (gaps in the data)
+  if (index >= 0 && barCloseTime - klines[index].closeTime > intervalMs) return -1;
+  return index;
+}
+
+/**
+ * Evaluate one snapshot against kline history. Returns null while the klines don't reach the
+ * snapshot's horizon yet (e.g. a lagging provider), so it is retried on a later pass.
+ */
+function evaluateSnapshot(
+  snapshot: QuantSnapshot,
+  klines: BinanceKline[],
+  horizonBars: number
+) {
+  const output = snapshot.output as QuantEngineOutput;
+  const direction = output.forecast?.direction ?? 'SIDEWAYS';
+  const probability = output.forecast?.probability ?? 50;
+  const intervalMs = INTERVAL_MS[snapshot.interval as QuantInterval];
+
+  const base = {
+    snapshotId: snapshot.id,
+    symbol: snapshot.symbol,
+    interval: snapshot.interval,
+    profile: snapshot.profile,
+    barCloseTime: snapshot.barCloseTime,
+    horizonBars,
+    signal: snapshot.signal,
+    direction,
+    probability,
+  };
+
+  const barCloseTime = snapshot.barCloseTime.getTime();
+  const entryIndex = findBarIndex(klines, barCloseTime, intervalMs);
+  if (entryIndex < 0) {
+    // Older than the history we can fetch, or a gap inside it: the entry bar will never turn up
+    const covered = klines.length > 0 && barCloseTime <= klines[klines.length - 1].closeTime;
+    return covered ? { ...base, status: 'unavailable' } : null;
+  }
+
+  const exitIndex = entryIndex + horizonBars;
+  if (exitIndex >= klines.length || klines[exitIndex].closeTime > Date.now()) {
+    return null;
+  }
+
+  const entryPrice = parseFloat(klines[entryIndex].close);
+  const exitPrice = parseFloat(klines[exitIndex].close);
+  const realizedReturn = entryPrice > 0 ? ((exitPrice - entryPrice) / entryPrice) * 100 : 0;
+
+  return {
+    ...base,
+    status: 'evaluated',
+    entryPrice: entryPrice.toString(),
+    exitPrice: exitPrice.toString(),
+    realizedReturn: realizedReturn.toFixed(4),
+    correct: direction === 'UP' ? realizedReturn > 0 : direction === 'DOWN' ? realizedReturn < 0 : null,
+  };
+}
+
+/**
+ * Record outcomes for every snapshot whose horizon has fully closed.
+ * Klines are fetched once per symbol/interval.
+ */
+export async function evaluatePendingOutcomes(horizonBars: number = DEFAULT_HORIZON_BARS): Promise<number> {
+  let recorded = 0;
+
+  for (const interval of Object.keys(INTERVAL_MS) as QuantInterval[]) {
+    const intervalMs = INTERVAL_MS[interval];
+    // The exit bar must have closed: snapshot bar close + horizon bars <= now
+    const closedBefore = new Date(Date.now() - horizonBars * intervalMs);
+    const pending = await storage.getSnapshotsAwaitingOutcome(interval, closedBefore, BATCH_SIZE);
+    if (pending.length === 0) continue;
+
+    const bySymbol: Record<string, QuantSnapshot[]> = {};
+    for (const snapshot of pending) {
+      (bySymbol[snapshot.symbol] ||= []).push(snapshot);
+    }
+
+    for (const [symbol, snapshots] of Object.entries(bySymbol)) {
+      const oldest = snapshots[0].barCloseTime.getTime();
+      const barsNeeded = Math.ceil((Date.now() - oldest) / intervalMs) + horizonBars + 2;
+      const klines = await fetchOHLCData(symbol, interval, Math.min(1000, barsNeeded));
+      if (klines.length === 0) {
+        // Providers return no klines when a fetch fails; keep the snapshots pending for the next pass
+        console.warn(`[outcomes] No klines for ${symbol} ${interval}, leaving ${snapshots.length} snapshots pending`);
+        continue;
+      }
+
+      for (const snapshot of snapshots) {
+        const outcome = evaluateSnapshot(snapshot, klines, horizonBars);
+        if (!outcome) continue;
+        await storage.createSignalOutcome(outcome);
+        recorded++;
+      }
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Build a calibration report from recorded outcomes
+ */
+export async function getCalibrationReport(
+  interval: QuantInterval,
+  profile: string,
+  symbol?: string
+): Promise<CalibrationReport> {
+  const outcomes = (await storage.getSignalOutcomes({ interval, profile, symbol }))
+    .filter(o => o.status === 'evaluated');
+  const directional = outcomes.filter(o => o.correct !== null);
+
+  const brier = (items: SignalOutcome[]) =>
+    items.reduce((sum, o) => sum + Math.pow(o.probability / 100 - (o.correct ? 1 : 0), 2), 0) / items.length;
+
+  // Ten 10-point buckets; 100% falls into the last bucket
+  const buckets: CalibrationBucket[] = Array.from({ length: 10 }, (_, i) => {
+    const low = i * 10;
+    const high = low + 10;
+    const inBucket = directional.filter(o =>
+      o.probability >= low && (o.probability < high || (i === 9 && o.probability === 100))
+    );
+    return {
+      range: [low, high] as [number, number],
+      count: inBucket.length,
+      predicted: inBucket.length > 0
+        ? inBucket.reduce((sum, o) => sum + o.probability, 0) / inBucket.length
+        : null,
+      observed: inBucket.length > 0
+        ? (inBucket.filter(o => o.correct).length / inBucket.length) * 100
+        : null,
+    };
+  });
+
+  const bySymbol: Record<string, SignalOutcome[]> = {};
+  for (const outcome of outcomes) {
+    (bySymbol[outcome.symbol] ||= []).push(outcome);
+  }
+
+  const symbols: SymbolAccuracy[] = Object.entries(bySymbol)
+    .map(([sym, items]) => {
+      const directed = items.filter(o => o.correct !== null);
+      const correct = directed.filter(o => o.correct).length;
+      return {
+        symbol: sym,
+        forecasts: directed.length,
+        correct,
+        accuracy: directed.length > 0 ? (correct / directed.length) * 100 : 0,
+        brierScore: directed.length > 0 ? brier(directed) : 0,
+        averageReturn: items.reduce((sum, o) => sum + parseFloat(o.realizedReturn || '0'), 0) / items.length,
+      };
+    })
+    .sort((a, b) => b.forecasts - a.forecasts);
+
+  const correct = directional.filter(o => o.correct).length;
+
+  return {
+    interval,
+    profile,
+    horizonBars: Array.from(new Set(outcomes.map(o => o.horizonBars))),
+    evaluated: outcomes.length,
+    directional: directional.length,
+    sideways: outcomes.length - directional.length,
+    accuracy: directional.length > 0 ? (correct / directional.length) * 100 : null,
+    brierScore: directional.length > 0 ? brier(directional) : null,
+    buckets,
+    symbols,
+  };
+}
+
+/**
+ * Periodically evaluate snapshots whose horizon has passed
+ */
+export function startOutcomeTracker(): void {
+  const run = () => {
+    evaluatePendingOutcomes()
+      .then(recorded => {
+        if (recorded > 0) console.log(`[outcomes] Recorded ${recorded} signal outcomes`);
+      })
+      .catch(error => console.error('[outcomes] Failed to evaluate signal outcomes:', error));
+  };
+
+  run();
+  setInterval(run, TRACKER_INTERVAL);
+}
@@ -0,0 +1,376 @@
+// Paper trading
+// Simulated execution against a portfolio's virtual cash balance. Market orders fill when they
+// are placed; limit orders rest until the matching loop sees the price trade through them. Fills
+// are priced off the live/cached feed with the account's slippage and fee and saved as ordinary
+// trades, so positions, realized PnL and tax lots come from the same log as manual entries.
+
+import { z } from 'zod';
+import {
+  orderStatuses,
+  type CashFlow,
+  type InsertCashFlow,
+  type InsertOrder,
+  type InsertTrade,
+  type Order,
+  type PaperAccount,
+  type Portfolio,
+  type Trade,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { priceFeed } from './priceFeed';
+import { computePositions, costBasisMethodOf, getPortfolioValuation, syncRealizedPnlLogs, validateNewTrades } from './portfolio';
+import { notifyPortfolioChanged } from './priceStream';
+
+// Manual trades would move holdings without moving the virtual cash, so paper portfolios only trade through orders
+export const PAPER_MANUAL_TRADES_ERROR = 'Paper trading portfolios only trade through orders';
+
+const MATCH_INTERVAL = 15 * 1000; // 15 seconds
+const CASH_TOLERANCE = 0.005; // Half a cent, absorbs rounding of stored amounts
+const QUANTITY_TOLERANCE = 1e-8;
+
+export const paperAccountRequestSchema = z.object({
+  startingCash: z.coerce.number().positive().max(1e12),
+  slippageBps: z.coerce.number().int().min(0).max(500).default(5),
+  feeRate: z.coerce.number().min(0).max(0.05).default(0.001), // 0.1% per side, matches trade tax
+});
+
+export const paperSettingsSchema = z.object({
+  slippageBps: z.coerce.number().int().min(0).max(500).optional(),
+  feeRate: z.coerce.number().min(0).max(0.05).optional(),
+});
+
+export const orderQuerySchema = z.object({
+  status: z.enum(orderStatuses).optional(),
+});
+
+export type PaperAccountRequest = z.infer<typeof paperAccountRequestSchema>;
+export type PaperSettings = z.infer<typeof paperSettingsSchema>;
+
+export interface PaperAccountSummary {
+  account: PaperAccount;
+  cash: number;
+  reservedCash: number; // Committed to open buy orders, fees included
+  availableCash: number;
+  holdingsValue: number;
+  equity: number; // Cash plus holdings at current prices
+  openOrders: number;
+}
+
+// Orders for one account are placed, filled and cancelled one at a time so cash is never double-spent
+const accountQueues = new Map<number, Promise<unknown>>();
+
+function withAccountLock<T>(portfolioId: number, task: () => Promise<T>): Promise<T> {
+  const previous = accountQueues.get(portfolioId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  accountQueues.set(portfolioId, next);
+  const release = () => {
+    if (accountQueues.get(portfolioId) === next) accountQueues.delete(portfolioId);
+  };
+  next.then(release, release);
+  return next;
+}
+
+function reservedCash(openOrders: Order[], feeRate: number): number {
+  return openOrders
+    .filter(order => order.side === 'buy' && order.limitPrice)
+    .reduce((sum, order) => sum + parseFloat(order.quantity) * parseFloat(order.limitPrice!) * (1 + feeRate), 0);
+}
+
+function reservedQuantity(openOrders: Order[], symbol: string): number {
+  return openOrders
+    .filter(order => order.side === 'sell' && order.symbol === symbol)
+    .reduce((sum, order) => sum + parseFloat(order.quantity), 0);
+}
+
+async function heldQuantity(portfolio: Portfolio, symbol: string): Promise<number> {
+  const trades = await storage.getTradesByPortfolioId(portfolio.id);
+  return computePositions(trades, costBasisMethodOf(portfolio)).positions[symbol]?.quantity ?? 0;
+}
+
+async function requireAccount(portfolioId: number): Promise<PaperAccount> {
+  const account = await storage.getPaperAccount(portfolioId);
+  if (!account) {
+    throw new Error('Paper trading is not enabled for this portfolio');
+  }
+  return account;
+}
+
+/**
+ * Fill price for an order at the given market price, or null while a limit order can't fill.
+ * Slippage always works against the order; a limit order never fills worse than its limit.
+ */
+export function executionPrice(
+  order: { side: string; type: string; limitPrice?: string | null },
+  marketPrice: number,
+  slippageBps: number,
+): number | null {
+  const slippage = slippageBps / 10000;
+  const slipped = order.side === 'buy' ? marketPrice * (1 + slippage) : marketPrice * (1 - slippage);
+  if (order.type === 'market') return slipped;
+
+  const limit = parseFloat(order.limitPrice!);
+  if (order.side === 'buy') return marketPrice <= limit ? Math.min(slipped, limit) : null;
+  return marketPrice >= limit ? Math.max(slipped, limit) : null;
+}
+
+async function cancel(order: Order, reason: string): Promise<Order> {
+  const cancelled = await storage.updateOrder(order.id, { status: 'cancelled', cancelReason: reason, cancelledAt: new Date() });
+  return cancelled!;
+}
+
+/**
+ * Fill an open order if the market price allows it. Must run under the account lock.
+ */
+async function tryFill(portfolio: Portfolio, order: Order, marketPrice: number): Promise<Order> {
+  const account = await requireAccount(portfolio.id);
+  const price = executionPrice(order, marketPrice, account.slippageBps);
+  if (price === null) return order;
+
+  const quantity = parseFloat(order.quantity);
+  const value = quantity * price;
+  const fee = value * parseFloat(account.feeRate);
+  const cashChange = order.side === 'buy' ? -(value + fee) : value - fee;
+  // Cash is stored in cents; anything that still comes out negative is a real overdraft
+  const cash = Math.round((parseFloat(account.cash) + cashChange) * 100) / 100;
+  if (cash < 0) {
+    return cancel(order, `Insufficient cash at fill: $${Math.abs(cashChange).toFixed(2)} needed, $${account.cash} held`);
+  }
+
+  const trade: InsertTrade = {
+    portfolioId: portfolio.id,
+    symbol: order.symbol,
+    quantity: order.quantity,
+    buyPrice: price.toString(),
+    subtotal: value.toString(),
+    tax: fee.toString(),
+    totalCost: Math.abs(cashChange).toString(),
+    side: order.side,
+    date: new Date(),
+  };
+  try {
+    await validateNewTrades(portfolio, [trade]);
+  } catch (error: any) {
+    // e.g. the position was sold off while a sell order was resting
+    return cancel(order, error.message || 'Fill rejected');
+  }
+
+  const { order: filled } = await storage.fillPaperOrder(order.id, trade, cash.toFixed(2), {
+    fillPrice: price.toString(),
+    fee: fee.toFixed(2),
+    filledAt: new Date(),
+  });
+  await syncRealizedPnlLogs(portfolio);
+  notifyPortfolioChanged(portfolio.id);
+  return filled;
+}
+
+/**
+ * Enable paper trading on a portfolio. The starting balance is recorded as a deposit so
+ * performance tracks the account's cash.
+ */
+export async function openPaperAccount(portfolio: Portfolio, request: PaperAccountRequest): Promise<PaperAccountSummary> {
+  if (await storage.getPaperAccount(portfolio.id)) {
+    throw new Error('Paper trading is already enabled for this portfolio');
+  }
+
+  const cash = request.startingCash.toFixed(2);
+  await storage.createPaperAccount({
+    portfolioId: portfolio.id,
+    cash,
+    slippageBps: request.slippageBps,
+    feeRate: request.feeRate.toString(),
+  });
+  await storage.createCashFlow({
+    portfolioId: portfolio.id,
+    type: 'deposit',
+    amount: cash,
+    date: new Date(),
+    note: 'Paper trading starting balance',
+  });
+  return (await getPaperAccountSummary(portfolio))!;
+}
+
+/**
+ * Cash, commitments and equity of a portfolio's paper account, or undefined when it has none
+ */
+export async function getPaperAccountSummary(portfolio: Portfolio): Promise<PaperAccountSummary | undefined> {
+  const account = await storage.getPaperAccount(portfolio.id);
+  if (!account) return undefined;
+
+  const openOrders = await storage.getOrdersByPortfolioId(portfolio.id, 'open');
+  const { totalValue } = await getPortfolioValuation(portfolio);
+  const cash = parseFloat(account.cash);
+  const reserved = reservedCash(openOrders, parseFloat(account.feeRate));
+
+  return {
+    account,
+    cash,
+    reservedCash: reserved,
+    availableCash: Math.max(0, cash - reserved),
+    holdingsValue: totalValue,
+    equity: cash + totalValue,
+    openOrders: openOrders.length,
+  };
+}
+
+export async function updatePaperSettings(portfolio: Portfolio, settings: PaperSettings): Promise<PaperAccount> {
+  await requireAccount(portfolio.id);
+  const updated = await storage.updatePaperAccount(portfolio.id, {
+    ...(settings.slippageBps !== undefined && { slippageBps: settings.slippageBps }),
+    ...(settings.feeRate !== undefined && { feeRate: settings.feeRate.toString() }),
+  });
+  return updated!;
+}
+
+/**
+ * A paper account's cash after a deposit (positive) or withdrawal (negative). Rejected if it
+ * would spend cash committed to open orders.
+ */
+async function paperCashAfter(account: PaperAccount, delta: number): Promise<string> {
+  const openOrders = await storage.getOrdersByPortfolioId(account.portfolioId, 'open');
+  const cash = parseFloat(account.cash) + delta;
+  const reserved = reservedCash(openOrders, parseFloat(account.feeRate));
+  if (cash < reserved - CASH_TOLERANCE) {
+    throw new Error(`Only $${Math.max(0, parseFloat(account.cash) - reserved).toFixed(2)} of paper cash is uncommitted`);
+  }
+  return cash.toFixed(2);
+}
+
+const signedAmount = (flow: Pick<CashFlow, 'type' | 'amount'>) =>
+  flow.type === 'deposit' ? parseFloat(flow.amount) : -parseFloat(flow.amount);
+
+/**
+ * Record a deposit or withdrawal. On a paper portfolio the account's cash moves in the same write.
+ */
+export async function recordCashFlow(portfolioId: number, flow: InsertCashFlow): Promise<CashFlow> {
+  return withAccountLock(portfolioId, async () => {
+    const account = await storage.getPaperAccount(portfolioId);
+    if (!account) return storage.createCashFlow(flow);
+    return storage.createPaperCashFlow(flow, await paperCashAfter(account, signedAmount(flow)));
+  });
+}
+
+/**
+ * Delete a deposit or withdrawal, undoing its effect on a paper account's cash in the same write
+ */
+export async function removeCashFlow(flow: CashFlow): Promise<void> {
+  await withAccountLock(flow.portfolioId, async () => {
+    const account = await storage.getPaperAccount(flow.portfolioId);
+    if (!account) return storage.deleteCashFlow(flow.id);
+    await storage.deletePaperCashFlow(flow, await paperCashAfter(account, -signedAmount(flow)));
+  });
+}
+
+/**
+ * Save several trades at once (e.g. a rebalance) and settle their net cost against the paper
+ * account in the same write. Rejected if it would spend cash committed to open orders.
+ */
+export async function recordPaperTrades(portfolio: Portfolio, trades: InsertTrade[]): Promise<Trade[]> {
+  return withAccountLock(portfolio.id, async () => {
+    const account = await requireAccount(portfolio.id);
+    await validateNewTrades(portfolio, trades);
+
+    // totalCost includes fees: what a buy spends or a sell brings in
+    const net = trades.reduce((sum, trade) => {
+      const amount = parseFloat(trade.totalCost ?? '');
+      if (!Number.isFinite(amount)) throw new Error(`Trade for ${trade.symbol} has no total cost to settle`);
+      return sum + (trade.side === 'sell' ? amount : -amount);
+    }, 0);
+    const saved = await storage.createPaperTrades(portfolio.id, trades, await paperCashAfter(account, net));
+    await syncRealizedPnlLogs(portfolio);
+    return saved;
+  });
+}
+
+/**
+ * Place an order after checking available cash (buys) or uncommitted holdings (sells).
+ * Market orders and limits that are already marketable fill immediately.
+ */
+export async function placeOrder(portfolio: Portfolio, input: InsertOrder): Promise<Order> {
+  return withAccountLock(portfolio.id, async () => {
+    const account = await requireAccount(portfolio.id);
+    const openOrders = await storage.getOrdersByPortfolioId(portfolio.id, 'open');
+    const quantity = parseFloat(input.quantity);
+    const order: InsertOrder = { ...input, limitPrice: input.type === 'limit' ? input.limitPrice : null };
+
+    const marketPrice = await priceFeed.getPrice(order.symbol);
+    if (order.type === 'market' && marketPrice === null) {
+      throw new Error(`No price available for ${order.symbol}`);
+    }
+
+    if (order.side === 'buy') {
+      const feeRate = parseFloat(account.feeRate);
+      const price = order.type === 'limit' ? parseFloat(order.limitPrice!) : executionPrice(order, marketPrice!, account.slippageBps)!;
+      const cost = quantity * price * (1 + feeRate);
+      const available = parseFloat(account.cash) - reservedCash(openOrders, feeRate);
+      if (cost > available + CASH_TOLERANCE) {
+        throw new Error(`Insufficient paper cash: the order needs $${cost.toFixed(2)}, $${Math.max(0, available).toFixed(2)} is available`);
+      }
+    } else {
+      const available = (await heldQuantity(portfolio, order.symbol)) - reservedQuantity(openOrders, order.symbol);
+      if (quantity > available + QUANTITY_TOLERANCE) {
+        throw new Error(`Insufficient ${order.symbol}: the order sells ${quantity}, ${Math.max(0, available)} is available`);
+      }
+    }
+
+    const created = await storage.createOrder(order);
+    return marketPrice === null ? created : tryFill(portfolio, created, marketPrice);
+  });
+}
+
+export async function cancelOrder(portfolio: Portfolio, order: Order): Promise<Order> {
+  return withAccountLock(portfolio.id, async () => {
+    const current = await storage.getOrder(order.id);
+    if (!current || current.status !== 'open') {
+      throw new Error('Only open orders can be cancelled');
+    }
+    return cancel(current, 'Cancelled by user');
+  });
+}
+
+/**
+ * Try every open order against the current price, oldest first within each account.
+ * Archived portfolios are read-only, so their orders wait until they are restored.
+ */
+export async function matchOpenOrders(): Promise<Order[]> {
+  const portfolioIds = Array.from(new Set((await storage.getOpenOrders()).map(order => order.portfolioId)));
+  const filled: Order[] = [];
+
+  for (const portfolioId of portfolioIds) {
+    const portfolio = await storage.getPortfolio(portfolioId);
+    if (!portfolio || portfolio.archived) continue;
+
+    await withAccountLock(portfolioId, async () => {
+      // Re-read under the lock: orders may have filled or been cancelled since the scan
+      const openOrders = (await storage.getOrdersByPortfolioId(portfolioId, 'open'))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+      for (const order of openOrders) {
+        const price = await priceFeed.getPrice(order.symbol);
+        if (price === null) continue;
+        const result = await tryFill(portfolio, order, price);
+        if (result.status === 'filled') filled.push(result);
+      }
+    });
+  }
+  return filled;
+}
+
+/**
+ * Run the paper order matcher on a fixed schedule
+ */
+export function startPaperMatcher(): void {
+  let running = false;
+
+  setInterval(() => {
+    // Skip a tick rather than overlap when a slow match is still in progress
+    if (running) return;
+    running = true;
+
+    matchOpenOrders()
+      .then(filled => {
+        if (filled.length > 0) console.log(`[paper] Filled ${filled.length} orders`);
+      })
+      .catch(error => console.error('[paper] Matching failed:', error))
+      .finally(() => { running = false; });
+  }, MATCH_INTERVAL);
+}
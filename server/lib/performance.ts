@@ -0,0 +1,286 @@
+// Portfolio performance
+// Rebuilds a daily valuation series from trades, cash flows and historical daily closes, and
+// measures returns so money moving in and out doesn't count as performance:
+//
+//   - Portfolios with recorded cash flows hold a cash balance; deposits and withdrawals are the
+//     external flows and buys/sells only move value between cash and holdings.
+//   - Portfolios without any track holdings only; each buy is money in and each sell money out.
+//
+// Time-weighted return (TWR) chains daily returns with flows assumed at the start of the day.
+// Money-weighted return (MWR) is the annualized internal rate of return of the flows.
+
+import { z } from 'zod';
+import type { CashFlow, Portfolio, Trade } from '@shared/schema';
+import { storage } from '../storage';
+import { fetchOHLCData, fetchTopCoins } from './marketData';
+import { isStablecoin } from './providers';
+import { quantCache } from './cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+const MAX_DAYS = 1825;
+const BENCHMARK_SIZE = 10;
+const BENCHMARK_TTL = 6 * 60 * 60 * 1000; // The top-10 list is refreshed every 6 hours
+const EPSILON = 0.00000001;
+
+export const performanceQuerySchema = z.object({
+  portfolioId: z.union([z.literal('all'), z.coerce.number().int().positive()]).optional(),
+  days: z.coerce.number().int().min(7).max(MAX_DAYS).default(365),
+});
+
+export interface PerformancePoint {
+  date: string; // YYYY-MM-DD (UTC)
+  value: number; // Holdings plus cash at the day's close
+  cash: number;
+  netFlow: number; // Money in (+) or out (-) during the day
+  invested: number; // Net flows to date, including the opening value
+  twrIndex: number; // Time-weighted growth of 100
+  btcIndex: number | null;
+  top10Index: number | null;
+}
+
+export interface PerformanceReport {
+  startDate: string | null;
+  endDate: string | null;
+  portfolios: Array<{ id: number; name: string; usesCashFlows: boolean }>;
+  points: PerformancePoint[];
+  twr: number; // Cumulative %
+  twrAnnualized: number | null; // % per year; null for periods under a year
+  mwr: number | null; // Annualized IRR %; null when it has no solution
+  benchmarks: { btc: number | null; top10: number | null }; // Cumulative % over the same period
+  top10Symbols: string[];
+  missingPrices: string[]; // Symbols valued at their last trade price for lack of closes
+}
+
+interface LedgerEvent {
+  time: number;
+  symbol: string | null; // null for cash flows
+  quantity: number; // Signed: + buys, - sells
+  price: number;
+  cash: number; // Change in the cash balance
+  flow: number; // External money in (+) or out (-)
+}
+
+const dayStart = (time: number) => Math.floor(time / DAY_MS) * DAY_MS;
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Trades and cash flows as balance changes. Without recorded flows a trade's cost is itself the flow.
+ */
+function toEvents(trades: Trade[], flows: CashFlow[]): LedgerEvent[] {
+  const usesCashFlows = flows.length > 0;
+  const events: LedgerEvent[] = trades.map(trade => {
+    const quantity = parseFloat(trade.quantity);
+    const price = parseFloat(trade.buyPrice);
+    const amount = trade.totalCost ? parseFloat(trade.totalCost) : quantity * price;
+    const cash = trade.side === 'buy' ? -amount : amount;
+    return {
+      time: new Date(trade.date).getTime(),
+      symbol: trade.symbol,
+      quantity: trade.side === 'buy' ? quantity : -quantity,
+      price,
+      cash: usesCashFlows ? cash : 0,
+      flow: usesCashFlows ? 0 : -cash,
+    };
+  });
+
+  for (const flow of flows) {
+    const amount = parseFloat(flow.amount) * (flow.type === 'deposit' ? 1 : -1);
+    events.push({ time: new Date(flow.date).getTime(), symbol: null, quantity: 0, price: 0, cash: amount, flow: amount });
+  }
+
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Daily closes keyed by UTC day
+ */
+async function loadCloses(symbol: string, bars: number): Promise<Map<string, number>> {
+  const closes = new Map<string, number>();
+  if (isStablecoin(symbol)) return closes;
+  try {
+    const klines = await fetchOHLCData(symbol, '1d', bars);
+    for (const kline of klines) closes.set(dayKey(kline.openTime), parseFloat(kline.close));
+  } catch (error) {
+    console.error(`[performance] No daily closes for ${symbol}:`, error);
+  }
+  return closes;
+}
+
+/**
+ * The ten largest non-stablecoins by market cap
+ */
+async function top10Symbols(): Promise<string[]> {
+  const cached = quantCache.get<string[]>('benchmark:top10');
+  if (cached) return cached;
+
+  const coins = await fetchTopCoins(BENCHMARK_SIZE * 3);
+  const symbols = coins
+    .map(coin => coin.symbol.toUpperCase())
+    .filter(symbol => !isStablecoin(symbol))
+    .slice(0, BENCHMARK_SIZE);
+  quantCache.set('benchmark:top10', symbols, BENCHMARK_TTL);
+  return symbols;
+}
+
+/**
+ * Annualized internal rate of return by bisection. Flows are from the investor's side:
+ * money put in is negative, the final value positive.
+ */
+export function irr(flows: Array<{ years: number; amount: number }>): number | null {
+  const npv = (rate: number) => flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.years), 0);
+  let low = -0.9999;
+  let high = 1000;
+  let npvLow = npv(low);
+  if (!Number.isFinite(npvLow) || Math.sign(npvLow) === Math.sign(npv(high))) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < EPSILON) return mid;
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid;
+      npvLow = npvMid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Daily value series, TWR/MWR and benchmark comparison for one or more portfolios over the last `days`
+ */
+export async function getPerformance(portfolios: Portfolio[], days: number): Promise<PerformanceReport> {
+  const loaded = await Promise.all(portfolios.map(async portfolio => ({
+    portfolio,
+    trades: await storage.getTradesByPortfolioId(portfolio.id),
+    flows: await storage.getCashFlowsByPortfolioId(portfolio.id),
+  })));
+  const events = loaded
+    .flatMap(({ trades, flows }) => toEvents(trades, flows))
+    .sort((a, b) => a.time - b.time);
+  const summary = loaded.map(({ portfolio, flows }) => ({ id: portfolio.id, name: portfolio.name, usesCashFlows: flows.length > 0 }));
+
+  const empty: PerformanceReport = {
+    startDate: null,
+    endDate: null,
+    portfolios: summary,
+    points: [],
+    twr: 0,
+    twrAnnualized: null,
+    mwr: null,
+    benchmarks: { btc: null, top10: null },
+    top10Symbols: [],
+    missingPrices: [],
+  };
+  if (events.length === 0) return empty;
+
+  // The series opens the day before the window (or before the first activity) so day one has a return
+  const today = dayStart(Date.now());
+  const openDay = Math.max(dayStart(events[0].time) - DAY_MS, today - days * DAY_MS);
+  const dayCount = Math.round((today - openDay) / DAY_MS) + 1;
+
+  const heldSymbols = Array.from(new Set(events.flatMap(e => (e.symbol ? [e.symbol] : []))));
+  const benchmarkSymbols = await top10Symbols().catch(error => {
+    console.error('[performance] Could not load the top-10 benchmark:', error);
+    return [] as string[];
+  });
+  const symbols = Array.from(new Set([...heldSymbols, 'BTC', ...benchmarkSymbols]));
+  const closes = new Map(await Promise.all(
+    symbols.map(async symbol => [symbol, await loadCloses(symbol, dayCount + 1)] as const)
+  ));
+
+  const quantities = new Map<string, number>();
+  const lastPrice = new Map<string, number>();
+  const missingPrices = new Set<string>();
+  let cash = 0;
+  let invested = 0;
+  let eventIndex = 0;
+  let twrIndex = 100;
+  let previousValue = 0;
+  let top10Index = 100;
+  const mwrFlows: Array<{ years: number; amount: number }> = [];
+  const points: PerformancePoint[] = [];
+  const btcOpen = closes.get('BTC')?.get(dayKey(openDay));
+
+  for (let day = openDay; day <= today; day += DAY_MS) {
+    const key = dayKey(day);
+    let netFlow = 0;
+
+    // Everything up to the open day is opening balance rather than a flow in the window
+    while (eventIndex < events.length && dayStart(events[eventIndex].time) <= day) {
+      const event = events[eventIndex++];
+      cash += event.cash;
+      if (day > openDay) netFlow += event.flow;
+      if (event.symbol) {
+        quantities.set(event.symbol, (quantities.get(event.symbol) ?? 0) + event.quantity);
+        if (!lastPrice.has(event.symbol) || !closes.get(event.symbol)?.size) lastPrice.set(event.symbol, event.price);
+      }
+    }
+
+    let value = cash;
+    for (const [symbol, quantity] of Array.from(quantities)) {
+      if (Math.abs(quantity) < EPSILON) continue;
+      const close = isStablecoin(symbol) ? 1 : closes.get(symbol)?.get(key);
+      if (close !== undefined) lastPrice.set(symbol, close);
+      else if (!isStablecoin(symbol)) missingPrices.add(symbol);
+      value += quantity * (lastPrice.get(symbol) ?? 0);
+    }
+
+    const years = (day - openDay) / YEAR_MS;
+    if (day === openDay) {
+      invested = value;
+      if (value > 0) mwrFlows.push({ years, amount: -value });
+    } else {
+      invested += netFlow;
+      if (netFlow !== 0) mwrFlows.push({ years, amount: -netFlow });
+      const base = previousValue + netFlow;
+      if (base > EPSILON) twrIndex *= value / base;
+
+      // Equal weight, rebalanced daily: the average of the constituents' daily returns
+      const returns = benchmarkSymbols.flatMap(symbol => {
+        const series = closes.get(symbol);
+        const close = series?.get(key);
+        const prior = series?.get(dayKey(day - DAY_MS));
+        return close !== undefined && prior ? [close / prior - 1] : [];
+      });
+      if (returns.length > 0) top10Index *= 1 + returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    }
+
+    const btcClose = closes.get('BTC')?.get(key);
+    points.push({
+      date: key,
+      value,
+      cash,
+      netFlow,
+      invested,
+      twrIndex,
+      btcIndex: btcOpen && btcClose ? (btcClose / btcOpen) * 100 : null,
+      top10Index: benchmarkSymbols.length > 0 ? top10Index : null,
+    });
+    previousValue = value;
+  }
+
+  const last = points[points.length - 1];
+  const spanYears = (today - openDay) / YEAR_MS;
+  if (last.value > 0) mwrFlows.push({ years: spanYears, amount: last.value });
+  const mwr = irr(mwrFlows);
+  const twr = last.twrIndex - 100;
+
+  return {
+    ...empty,
+    startDate: points[0].date,
+    endDate: last.date,
+    points,
+    twr,
+    twrAnnualized: spanYears >= 1 ? (Math.pow(last.twrIndex / 100, 1 / spanYears) - 1) * 100 : null,
+    mwr: mwr === null ? null : mwr * 100,
+    benchmarks: {
+      btc: last.btcIndex !== null ? last.btcIndex - 100 : null,
+      top10: last.top10Index !== null ? last.top10Index - 100 : null,
+    },
+    top10Symbols: benchmarkSymbols,
+    missingPrices: Array.from(missingPrices),
+  };
+}
@@ -0,0 +1,306 @@
+// Portfolio valuation
+// Rebuilds positions and realized PnL from the trade log and values them at current prices.
+// Shared by the portfolio routes and the live price stream.
+
+import type { CostBasisMethod, InsertTrade, Portfolio, Trade } from '@shared/schema';
+import { storage } from '../storage';
+import { priceFeed } from './priceFeed';
+import { newIssues, replayLots, toRealizedPnlLogs, type Lot, type LotLedger } from './lots';
+
+export interface Position {
+  quantity: number;
+  avgEntry: number;
+  lots: Lot[];
+}
+
+export interface LotValue {
+  tradeId: number;
+  acquiredAt: Date;
+  quantity: number;
+  costBasis: number;
+  unrealizedPnl: number;
+}
+
+export interface HoldingValue {
+  symbol: string;
+  quantity: number;
+  avgEntry: number;
+  currentPrice: number;
+  value: number;
+  unrealizedPnl: number;
+  pnlPercent: number;
+  lots: LotValue[];
+}
+
+export interface PortfolioValuation {
+  holdings: HoldingValue[];
+  totalValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+}
+
+export interface PositionSummary {
+  positions: Record<string, Position>;
+  realizedPnl: number;
+}
+
+export interface PortfolioBreakdown {
+  portfolioId: number;
+  name: string;
+  totalValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  holdings: number;
+}
+
+export interface AggregateValuation extends PortfolioValuation {
+  trades: Trade[];
+  portfolios: PortfolioBreakdown[];
+}
+
+// Selector for the combined view of every active portfolio
+export const ALL_PORTFOLIOS = 'all';
+export type PortfolioSelector = number | typeof ALL_PORTFOLIOS;
+
+export const DEFAULT_PORTFOLIO_NAME = 'Default Portfolio';
+
+/**
+ * Replay trades into open positions and realized PnL under the given cost basis method
+ */
+export function computePositions(trades: Trade[], method: CostBasisMethod = 'average'): PositionSummary {
+  const ledger = replayLots(trades, method);
+  const positions: Record<string, Position> = {};
+
+  for (const lot of ledger.openLots) {
+    const position = positions[lot.symbol] || (positions[lot.symbol] = { quantity: 0, avgEntry: 0, lots: [] });
+    const cost = position.quantity * position.avgEntry + lot.remaining * lot.costBasis;
+    position.quantity += lot.remaining;
+    position.avgEntry = cost / position.quantity;
+    position.lots.push(lot);
+  }
+
+  return { positions, realizedPnl: ledger.realizedPnl };
+}
+
+/**
+ * Combine per-portfolio positions. Quantities add up and the average entry is weighted by quantity,
+ * so each portfolio's own cost basis and realized PnL are kept as booked.
+ */
+export function mergePositions(summaries: PositionSummary[]): PositionSummary {
+  const positions: Record<string, Position> = {};
+  let realizedPnl = 0;
+
+  for (const summary of summaries) {
+    realizedPnl += summary.realizedPnl;
+    for (const [symbol, position] of Object.entries(summary.positions)) {
+      if (position.quantity <= 0) continue;
+      const merged = positions[symbol] || { quantity: 0, avgEntry: 0, lots: [] };
+      const cost = merged.quantity * merged.avgEntry + position.quantity * position.avgEntry;
+      merged.quantity += position.quantity;
+      merged.avgEntry = cost / merged.quantity;
+      merged.lots = [...merged.lots, ...position.lots];
+      positions[symbol] = merged;
+    }
+  }
+
+  return { positions, realizedPnl };
+}
+
+/**
+ * Symbols with an open position
+ */
+export function openSymbols(summary: PositionSummary): string[] {
+  return Object.entries(summary.positions)
+    .filter(([, position]) => position.quantity > 0)
+    .map(([symbol]) => symbol);
+}
+
+/**
+ * Value open positions at the given prices. Missing prices fall back to the average entry.
+ */
+export function valuePositions(
+  summary: PositionSummary,
+  prices: Record<string, number | null | undefined>
+): PortfolioValuation {
+  let totalValue = 0;
+  let unrealizedPnl = 0;
+  const holdings: HoldingValue[] = [];
+
+  for (const symbol of openSymbols(summary)) {
+    const { quantity, avgEntry, lots } = summary.positions[symbol];
+    const currentPrice = prices[symbol] || avgEntry;
+    const value = quantity * currentPrice;
+    const pnl = (currentPrice - avgEntry) * quantity;
+
+    totalValue += value;
+    unrealizedPnl += pnl;
+
+    holdings.push({
+      symbol,
+      quantity,
+      avgEntry,
+      currentPrice,
+      value,
+      unrealizedPnl: pnl,
+      pnlPercent: ((currentPrice - avgEntry) / avgEntry) * 100,
+      lots: lots.map(lot => ({
+        tradeId: lot.tradeId,
+        acquiredAt: lot.acquiredAt,
+        quantity: lot.remaining,
+        costBasis: lot.costBasis,
+        unrealizedPnl: (currentPrice - lot.costBasis) * lot.remaining,
+      })),
+    });
+  }
+
+  return {
+    holdings,
+    totalValue,
+    realizedPnl: summary.realizedPnl,
+    unrealizedPnl,
+    totalPnl: summary.realizedPnl + unrealizedPnl,
+  };
+}
+
+/**
+ * Prices for every open symbol from the shared price feed
+ */
+async function getPrices(summary: PositionSummary): Promise<Record<string, number | null>> {
+  const prices: Record<string, number | null> = {};
+  await Promise.all(openSymbols(summary).map(async symbol => {
+    prices[symbol] = await priceFeed.getPrice(symbol);
+  }));
+  return prices;
+}
+
+/**
+ * The portfolio's cost basis method
+ */
+export function costBasisMethodOf(portfolio: Portfolio): CostBasisMethod {
+  return portfolio.costBasisMethod as CostBasisMethod;
+}
+
+/**
+ * Load a portfolio's trades and value them using the shared price feed
+ */
+export async function getPortfolioValuation(portfolio: Portfolio): Promise<PortfolioValuation & { trades: Trade[] }> {
+  const trades = await storage.getTradesByPortfolioId(portfolio.id);
+  const summary = computePositions(trades, costBasisMethodOf(portfolio));
+  return { ...valuePositions(summary, await getPrices(summary)), trades };
+}
+
+/**
+ * Combined holdings and PnL across portfolios, with a per-portfolio breakdown
+ */
+export async function getAggregateValuation(portfolios: Portfolio[]): Promise<AggregateValuation> {
+  const loaded = await Promise.all(portfolios.map(async portfolio => {
+    const trades = await storage.getTradesByPortfolioId(portfolio.id);
+    return { portfolio, trades, summary: computePositions(trades, costBasisMethodOf(portfolio)) };
+  }));
+
+  const merged = mergePositions(loaded.map(entry => entry.summary));
+  const prices = await getPrices(merged);
+
+  return {
+    ...valuePositions(merged, prices),
+    trades: loaded
+      .flatMap(entry => entry.trades)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    portfolios: loaded.map(({ portfolio, summary }) => {
+      const valuation = valuePositions(summary, prices);
+      return {
+        portfolioId: portfolio.id,
+        name: portfolio.name,
+        totalValue: valuation.totalValue,
+        realizedPnl: valuation.realizedPnl,
+        unrealizedPnl: valuation.unrealizedPnl,
+        totalPnl: valuation.totalPnl,
+        holdings: valuation.holdings.length,
+      };
+    }),
+  };
+}
+
+/**
+ * A user's portfolios, creating the default one on first use
+ */
+export async function ensurePortfolios(userId: string): Promise<Portfolio[]> {
+  const portfolios = await storage.getPortfoliosByUserId(userId);
+  if (portfolios.length > 0) return portfolios;
+
+  const portfolio = await storage.createPortfolio({ userId, name: DEFAULT_PORTFOLIO_NAME });
+  return [portfolio];
+}
+
+/**
+ * The portfolio shown when none is selected: the first active one
+ */
+export function defaultPortfolio(portfolios: Portfolio[]): Portfolio | undefined {
+  return portfolios.find(p => !p.archived) ?? portfolios[0];
+}
+
+/**
+ * Open lots and realized lot matches for a portfolio
+ */
+export async function getLotLedger(portfolio: Portfolio): Promise<LotLedger> {
+  return replayLots(await storage.getTradesByPortfolioId(portfolio.id), costBasisMethodOf(portfolio));
+}
+
+/**
+ * Rewrite a portfolio's realized PnL logs, one row per lot closed. Any trade change can move
+ * later matches (e.g. a backdated buy under FIFO), so the logs are always rebuilt in full.
+ */
+export async function syncRealizedPnlLogs(portfolio: Portfolio): Promise<void> {
+  const ledger = await getLotLedger(portfolio);
+  await storage.replaceRealizedPnlLogs(portfolio.id, toRealizedPnlLogs(portfolio.id, ledger));
+}
+
+/**
+ * Throw if adding the trades would leave a sell uncovered or name lots that aren't open
+ */
+export async function validateNewTrades(portfolio: Portfolio, trades: InsertTrade[]): Promise<void> {
+  const method = costBasisMethodOf(portfolio);
+  if (trades.some(trade => trade.lots) && method !== 'specific') {
+    throw new Error('Lot selection requires the specific-lot cost basis method');
+  }
+
+  const existing = await storage.getTradesByPortfolioId(portfolio.id);
+  const candidates = trades.map((trade, i) =>
+    ({ ...trade, id: Number.MAX_SAFE_INTEGER - trades.length + i, lots: trade.lots ?? null, createdAt: new Date() }) as Trade
+  );
+  const [issue] = newIssues(replayLots(existing, method), replayLots([...existing, ...candidates], method));
+  if (issue) {
+    throw new Error(issue.message);
+  }
+}
+
+/**
+ * Save a trade. It is rejected if it leaves a sell uncovered or names lots that aren't open.
+ */
+export async function recordTrade(portfolio: Portfolio, trade: InsertTrade): Promise<Trade> {
+  await validateNewTrades(portfolio, [trade]);
+  const saved = await storage.createTrade(trade);
+  await syncRealizedPnlLogs(portfolio);
+  return saved;
+}
+
+/**
+ * Save several trades at once, all or nothing, under the same checks as recordTrade
+ */
+export async function recordTrades(portfolio: Portfolio, trades: InsertTrade[]): Promise<Trade[]> {
+  await validateNewTrades(portfolio, trades);
+  const saved = await storage.createTrades(trades);
+  await syncRealizedPnlLogs(portfolio);
+  return saved;
+}
+
+/**
+ * Delete a trade together with the realized PnL logs that reference it
+ */
+export async function removeTrade(portfolio: Portfolio, trade: Trade): Promise<void> {
+  await storage.deleteRealizedPnlLogByTradeId(trade.id); // Logs where it is the buy lot cascade
+  await storage.deleteTrade(trade.id);
+  await syncRealizedPnlLogs(portfolio);
+}
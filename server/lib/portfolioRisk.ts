@@ -0,0 +1,223 @@
+// Portfolio risk
+// Portfolio-level counterparts of the per-coin risk module. Current holdings are replayed over
+// aligned daily closes (historical simulation), so VaR, beta and drawdown describe the book as
+// it stands today. Figures are one-day and in percent unless noted; dollar amounts are against
+// the holdings that have price history.
+
+import { z } from 'zod';
+import type { Portfolio } from '@shared/schema';
+import { fetchOHLCData } from './marketData';
+import { isStablecoin } from './providers';
+import { getAggregateValuation, getPortfolioValuation, type HoldingValue } from './portfolio';
+import {
+  calculateBeta,
+  calculateCVaR,
+  calculateMaxDrawdown,
+  calculateParametricCVaR,
+  calculateParametricVaR,
+  calculateVaR,
+} from './quant/risk';
+import { correlation, covariance, logReturns, standardDeviation } from './quant/statistics';
+
+const MIN_OBSERVATIONS = 30; // The risk module needs 30 closes for VaR and beta
+const BENCHMARK = 'BTC';
+
+export const riskQuerySchema = z.object({
+  portfolioId: z.union([z.literal('all'), z.coerce.number().int().positive()]).optional(),
+  days: z.coerce.number().int().min(MIN_OBSERVATIONS).max(730).default(365),
+});
+
+export interface VaREstimate {
+  method: 'historical' | 'parametric';
+  confidence: 95 | 99;
+  var: number;
+  cvar: number;
+  varAmount: number; // $
+  cvarAmount: number; // $
+}
+
+export interface PositionRisk {
+  symbol: string;
+  value: number;
+  weight: number; // % of the covered value
+  volatility: number; // Annualized %
+  beta: number | null;
+  var95: number;
+  riskContribution: number; // % of portfolio variance; sums to 100
+}
+
+export interface ConcentrationMetrics {
+  hhi: number; // Herfindahl-Hirschman index of weights, 0-10000
+  effectivePositions: number; // 1 / sum of squared weights
+  largestWeight: number; // %
+  top3Weight: number; // %
+}
+
+export interface PortfolioRisk {
+  startDate: string | null;
+  endDate: string | null;
+  observations: number;
+  totalValue: number;
+  coveredValue: number; // Value of holdings with enough price history
+  volatility: number; // Annualized %
+  beta: number | null; // vs BTC
+  maxDrawdown: number;
+  valueAtRisk: VaREstimate[];
+  positions: PositionRisk[];
+  correlation: { symbols: string[]; matrix: number[][] };
+  concentration: ConcentrationMetrics;
+  missingPrices: string[]; // Holdings left out for lack of price history
+}
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Daily closes for the symbols on the days they all traded, trimmed to the last `days` + 1.
+ * Stablecoins are pinned at 1; symbols with too little history are reported as missing.
+ */
+export async function alignedCloses(symbols: string[], days: number) {
+  const loaded = await Promise.all(symbols.map(async symbol => {
+    if (isStablecoin(symbol)) return { symbol, closes: null };
+    try {
+      const klines = await fetchOHLCData(symbol, '1d', days + 1);
+      return { symbol, closes: new Map(klines.map(k => [dayKey(k.openTime), parseFloat(k.close)])) };
+    } catch (error) {
+      console.error(`[risk] No daily closes for ${symbol}:`, error);
+      return { symbol, closes: new Map<string, number>() };
+    }
+  }));
+
+  const missing = loaded.filter(l => l.closes && l.closes.size < MIN_OBSERVATIONS).map(l => l.symbol);
+  const priced = loaded.filter(l => !missing.includes(l.symbol));
+  const calendars = priced.flatMap(l => (l.closes ? [l.closes] : []));
+  const dates = calendars.length === 0
+    ? []
+    : Array.from(calendars[0].keys())
+        .filter(date => calendars.every(closes => closes.has(date)))
+        .sort()
+        .slice(-(days + 1));
+
+  const series = new Map(priced.map(l => [
+    l.symbol,
+    dates.map(date => (l.closes ? l.closes.get(date)! : 1)),
+  ]));
+  return { dates, series, missing };
+}
+
+/**
+ * Concentration of the book by current value
+ */
+export function concentrationOf(values: number[]): ConcentrationMetrics {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (total <= 0) return { hhi: 0, effectivePositions: 0, largestWeight: 0, top3Weight: 0 };
+
+  const weights = values.map(v => v / total).sort((a, b) => b - a);
+  const sumSquares = weights.reduce((sum, w) => sum + w * w, 0);
+  return {
+    hhi: sumSquares * 10000,
+    effectivePositions: 1 / sumSquares,
+    largestWeight: weights[0] * 100,
+    top3Weight: weights.slice(0, 3).reduce((sum, w) => sum + w, 0) * 100,
+  };
+}
+
+/**
+ * VaR/CVaR, beta, correlations, risk contributions and concentration for the current holdings
+ */
+export async function getPortfolioRisk(holdings: HoldingValue[], days: number): Promise<PortfolioRisk> {
+  const totalValue = holdings.reduce((sum, h) => sum + h.value, 0);
+  const concentration = concentrationOf(holdings.map(h => h.value));
+  const symbols = holdings.map(h => h.symbol);
+
+  const { dates, series, missing } = await alignedCloses(
+    symbols.includes(BENCHMARK) ? symbols : [...symbols, BENCHMARK],
+    days
+  );
+  const covered = holdings.filter(h => series.has(h.symbol));
+  const coveredValue = covered.reduce((sum, h) => sum + h.value, 0);
+  const missingPrices = missing.filter(symbol => symbols.includes(symbol));
+
+  const result: PortfolioRisk = {
+    startDate: dates[0] ?? null,
+    endDate: dates[dates.length - 1] ?? null,
+    observations: Math.max(0, dates.length - 1),
+    totalValue,
+    coveredValue,
+    volatility: 0,
+    beta: null,
+    maxDrawdown: 0,
+    valueAtRisk: [],
+    positions: [],
+    correlation: { symbols: [], matrix: [] },
+    concentration,
+    missingPrices,
+  };
+  if (covered.length === 0 || coveredValue <= 0 || dates.length <= MIN_OBSERVATIONS) return result;
+
+  // Today's holdings held through the window
+  const portfolioValues = dates.map((_, t) =>
+    covered.reduce((sum, h) => sum + h.quantity * series.get(h.symbol)![t], 0)
+  );
+  const benchmark = series.get(BENCHMARK);
+
+  const weights = covered.map(h => h.value / coveredValue);
+  const returns = covered.map(h => logReturns(series.get(h.symbol)!));
+  const covarianceMatrix = returns.map(x => returns.map(y => covariance(x, y)));
+  const weightedCovariance = covarianceMatrix.map(row => row.reduce((sum, c, j) => sum + c * weights[j], 0));
+  const portfolioVariance = weights.reduce((sum, w, i) => sum + w * weightedCovariance[i], 0);
+
+  const estimate = (method: VaREstimate['method'], confidence: VaREstimate['confidence']): VaREstimate => {
+    const valueAtRisk = method === 'historical'
+      ? calculateVaR(portfolioValues, confidence)
+      : calculateParametricVaR(portfolioValues, confidence);
+    const conditional = method === 'historical'
+      ? calculateCVaR(portfolioValues, confidence)
+      : calculateParametricCVaR(portfolioValues, confidence);
+    return {
+      method,
+      confidence,
+      var: valueAtRisk,
+      cvar: conditional,
+      varAmount: (valueAtRisk / 100) * coveredValue,
+      cvarAmount: (conditional / 100) * coveredValue,
+    };
+  };
+
+  return {
+    ...result,
+    volatility: Math.sqrt(portfolioVariance) * Math.sqrt(365) * 100,
+    beta: benchmark ? calculateBeta(portfolioValues, benchmark) : null,
+    maxDrawdown: calculateMaxDrawdown(portfolioValues),
+    valueAtRisk: [
+      estimate('historical', 95),
+      estimate('historical', 99),
+      estimate('parametric', 95),
+      estimate('parametric', 99),
+    ],
+    positions: covered
+      .map((h, i) => ({
+        symbol: h.symbol,
+        value: h.value,
+        weight: weights[i] * 100,
+        volatility: standardDeviation(returns[i]) * Math.sqrt(365) * 100,
+        beta: benchmark ? calculateBeta(series.get(h.symbol)!, benchmark) : null,
+        var95: calculateVaR(series.get(h.symbol)!, 95),
+        riskContribution: portfolioVariance > 0 ? (weights[i] * weightedCovariance[i] / portfolioVariance) * 100 : 0,
+      }))
+      .sort((a, b) => b.riskContribution - a.riskContribution),
+    correlation: {
+      symbols: covered.map(h => h.symbol),
+      matrix: returns.map((x, i) => returns.map((y, j) => (i === j ? 1 : correlation(x, y)))),
+    },
+  };
+}
+
+/**
+ * Risk for one portfolio or the combined active portfolios
+ */
+export async function getRiskForPortfolios(portfolios: Portfolio[], days: number): Promise<PortfolioRisk> {
+  const valuation = portfolios.length === 1
+    ? await getPortfolioValuation(portfolios[0])
+    : await getAggregateValuation(portfolios);
+  return getPortfolioRisk(valuation.holdings, days);
+}
@@ -0,0 +1,229 @@
+// Shared live price feed
+// One server-side source (REST poller or exchange stream) feeds every subscriber,
+// so clients and routes read cached ticks instead of fetching prices per request
+
+import WebSocket from 'ws';
+import { fetchCurrentPrice, isStablecoin } from './marketData';
+
+export interface PriceTick {
+  symbol: string;
+  price: number;
+  timestamp: number;
+}
+
+/**
+ * Pluggable price source. The feed tells the source which symbols are wanted;
+ * the source emits ticks for them until stopped.
+ */
+export interface PriceSource {
+  name: string;
+  start(emit: (tick: PriceTick) => void): void;
+  setSymbols(symbols: string[]): void;
+  stop(): void;
+}
+
+const POLL_INTERVAL = 5 * 1000;
+const STALE_AFTER = 30 * 1000; // Ticks older than this are refetched on demand
+const BINANCE_STREAM = 'wss://stream.binance.com:9443/stream';
+const RECONNECT_DELAY = 5 * 1000;
+
+/**
+ * Poll current prices for all wanted symbols on a fixed interval
+ */
+export function createPollingSource(intervalMs: number = POLL_INTERVAL): PriceSource {
+  let symbols: string[] = [];
+  let timer: NodeJS.Timeout | null = null;
+  let polling = false;
+
+  return {
+    name: 'polling',
+    start(emit) {
+      const poll = async () => {
+        if (polling || symbols.length === 0) return;
+        polling = true;
+        try {
+          await Promise.all(symbols.map(async symbol => {
+            const price = await fetchCurrentPrice(symbol);
+            if (price !== null) emit({ symbol, price, timestamp: Date.now() });
+          }));
+        } finally {
+          polling = false;
+        }
+      };
+      timer = setInterval(() => { poll().catch(error => console.error('[prices] Poll failed:', error)); }, intervalMs);
+    },
+    setSymbols(next) {
+      symbols = next;
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+/**
+ * Binance combined miniTicker stream. Stablecoins have no USDT pair and are pinned to 1.
+ */
+export function createBinanceStreamSource(): PriceSource {
+  let socket: WebSocket | null = null;
+  let emitTick: ((tick: PriceTick) => void) | null = null;
+  let wanted = new Set<string>();
+  let subscribed = new Set<string>();
+  let requestId = 1;
+  let stopped = true;
+
+  const streamName = (symbol: string) => `${symbol.toLowerCase()}usdt@miniTicker`;
+
+  const sync = () => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    const add = Array.from(wanted).filter(s => !subscribed.has(s) && !isStablecoin(s));
+    const remove = Array.from(subscribed).filter(s => !wanted.has(s));
+    if (add.length > 0) {
+      socket.send(JSON.stringify({ method: 'SUBSCRIBE', params: add.map(streamName), id: requestId++ }));
+    }
+    if (remove.length > 0) {
+      socket.send(JSON.stringify({ method: 'UNSUBSCRIBE', params: remove.map(streamName), id: requestId++ }));
+    }
+    add.forEach(s => subscribed.add(s));
+    remove.forEach(s => subscribed.delete(s));
+  };
+
+  const connect = () => {
+    socket = new WebSocket(BINANCE_STREAM);
+    subscribed = new Set();
+
+    socket.on('open', sync);
+    socket.on('message', (raw) => {
+      try {
+        const message = JSON.parse(raw.toString());
+        const data = message.data;
+        if (data?.e !== '24hrMiniTicker' || !emitTick) return;
+        emitTick({ symbol: data.s.replace(/USDT$/, ''), price: parseFloat(data.c), timestamp: data.E });
+      } catch (error) {
+        console.error('[prices] Bad stream message:', error);
+      }
+    });
+    socket.on('error', (error) => console.error('[prices] Binance stream error:', error.message));
+    socket.on('close', () => {
+      socket = null;
+      if (!stopped) setTimeout(connect, RECONNECT_DELAY);
+    });
+  };
+
+  return {
+    name: 'binance-stream',
+    start(emit) {
+      emitTick = emit;
+      stopped = false;
+      connect();
+    },
+    setSymbols(symbols) {
+      wanted = new Set(symbols);
+      for (const symbol of symbols) {
+        if (isStablecoin(symbol)) emitTick?.({ symbol, price: 1, timestamp: Date.now() });
+      }
+      sync();
+    },
+    stop() {
+      stopped = true;
+      socket?.close();
+      socket = null;
+    },
+  };
+}
+
+/**
+ * Pick the configured source. PRICE_STREAM=binance uses the exchange stream; default is polling.
+ */
+export function createPriceSource(name: string | undefined = process.env.PRICE_STREAM): PriceSource {
+  return name === 'binance' ? createBinanceStreamSource() : createPollingSource();
+}
+
+type TickListener = (tick: PriceTick) => void;
+
+class PriceFeed {
+  private subscriptions = new Map<string, number>(); // symbol -> subscriber count
+  private latest = new Map<string, PriceTick>();
+  private listeners = new Set<TickListener>();
+  private running = false;
+
+  constructor(private source: PriceSource) {}
+
+  /**
+   * Swap the underlying source, e.g. for tests or a different exchange
+   */
+  setSource(source: PriceSource): void {
+    if (this.running) this.source.stop();
+    this.source = source;
+    this.running = false;
+    this.refresh();
+  }
+
+  subscribe(symbols: string[]): void {
+    for (const symbol of symbols.map(s => s.toUpperCase())) {
+      this.subscriptions.set(symbol, (this.subscriptions.get(symbol) || 0) + 1);
+    }
+    this.refresh();
+  }
+
+  unsubscribe(symbols: string[]): void {
+    for (const symbol of symbols.map(s => s.toUpperCase())) {
+      const count = (this.subscriptions.get(symbol) || 0) - 1;
+      if (count > 0) this.subscriptions.set(symbol, count);
+      else this.subscriptions.delete(symbol);
+    }
+    this.refresh();
+  }
+
+  /**
+   * Listen for price changes on any subscribed symbol. Returns an unsubscribe function.
+   */
+  onTick(listener: TickListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getLatest(symbol: string): PriceTick | undefined {
+    return this.latest.get(symbol.toUpperCase());
+  }
+
+  /**
+   * Latest price for a symbol, fetching once when there is no recent tick.
+   * Fetched prices are cached but not broadcast; callers send them to whoever asked.
+   */
+  async getPrice(symbol: string): Promise<number | null> {
+    const symbolUpper = symbol.toUpperCase();
+    const tick = this.latest.get(symbolUpper);
+    if (tick && Date.now() - tick.timestamp < STALE_AFTER) {
+      return tick.price;
+    }
+
+    const price = await fetchCurrentPrice(symbolUpper);
+    if (price !== null) this.latest.set(symbolUpper, { symbol: symbolUpper, price, timestamp: Date.now() });
+    return price;
+  }
+
+  private record(tick: PriceTick): void {
+    const previous = this.latest.get(tick.symbol);
+    this.latest.set(tick.symbol, tick);
+    // Only unchanged prices are dropped; listeners still see every move
+    if (previous?.price === tick.price) return;
+    this.listeners.forEach(listener => listener(tick));
+  }
+
+  private refresh(): void {
+    const symbols = Array.from(this.subscriptions.keys());
+    if (symbols.length > 0 && !this.running) {
+      this.source.start(tick => this.record(tick));
+      this.running = true;
+    }
+    this.source.setSymbols(symbols);
+    if (symbols.length === 0 && this.running) {
+      this.source.stop();
+      this.running = false;
+    }
+  }
+}
+
+export const priceFeed = new PriceFeed(createPriceSource());
@@ -0,0 +1,252 @@
+// Live price stream over WebSocket
+// Clients subscribe to ticker symbols and/or their portfolio; ticks come from the shared
+// price feed and holding values are recomputed server-side as prices move.
+//
+// Client -> server: { type: 'subscribe' | 'unsubscribe', symbols: string[] }
+//                   { type: 'portfolio', portfolioId?: number | 'all' } / { type: 'portfolio', portfolioId: null } to stop
+// Server -> client: { type: 'ticker', symbol, price, timestamp }
+//                   { type: 'portfolio', portfolioId, holdings, totalValue, realizedPnl, unrealizedPnl, totalPnl }
+//                   { type: 'error', error }
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { storage } from '../storage';
+import { priceFeed, type PriceTick } from './priceFeed';
+import {
+  ALL_PORTFOLIOS,
+  computePositions,
+  costBasisMethodOf,
+  defaultPortfolio,
+  mergePositions,
+  openSymbols,
+  valuePositions,
+  type PortfolioSelector,
+  type PositionSummary,
+} from './portfolio';
+
+export const PRICE_STREAM_PATH = '/ws/prices';
+
+const HEARTBEAT_INTERVAL = 30 * 1000;
+const PORTFOLIO_THROTTLE = 1000; // At most one portfolio push per second per client
+const MAX_SYMBOLS = 100;
+
+interface PortfolioSubscription {
+  portfolioId: PortfolioSelector;
+  summary: PositionSummary;
+  symbols: string[];
+  timer: NodeJS.Timeout | null;
+  lastSent: number;
+}
+
+interface StreamClient {
+  socket: WebSocket;
+  userId: string;
+  symbols: Set<string>;
+  portfolio: PortfolioSubscription | null;
+  alive: boolean;
+}
+
+const clients = new Set<StreamClient>();
+
+function send(client: StreamClient, message: Record<string, unknown>): void {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function sendPortfolio(client: StreamClient): void {
+  const subscription = client.portfolio;
+  if (!subscription) return;
+
+  const prices: Record<string, number | undefined> = {};
+  for (const symbol of subscription.symbols) {
+    prices[symbol] = priceFeed.getLatest(symbol)?.price;
+  }
+
+  subscription.lastSent = Date.now();
+  send(client, {
+    type: 'portfolio',
+    portfolioId: subscription.portfolioId,
+    ...valuePositions(subscription.summary, prices),
+  });
+}
+
+/**
+ * Push a portfolio update, coalescing bursts of ticks into one message per throttle window
+ */
+function schedulePortfolio(client: StreamClient): void {
+  const subscription = client.portfolio;
+  if (!subscription || subscription.timer) return;
+
+  const wait = Math.max(0, subscription.lastSent + PORTFOLIO_THROTTLE - Date.now());
+  subscription.timer = setTimeout(() => {
+    subscription.timer = null;
+    sendPortfolio(client);
+  }, wait);
+}
+
+function clearPortfolio(client: StreamClient): void {
+  if (!client.portfolio) return;
+  if (client.portfolio.timer) clearTimeout(client.portfolio.timer);
+  priceFeed.unsubscribe(client.portfolio.symbols);
+  client.portfolio = null;
+}
+
+/**
+ * (Re)load a client's portfolio positions and subscribe to the held symbols.
+ * 'all' combines every active portfolio; no id means the default portfolio.
+ */
+async function loadPortfolio(client: StreamClient, requested?: PortfolioSelector): Promise<void> {
+  const portfolios = await storage.getPortfoliosByUserId(client.userId);
+
+  let portfolioId: PortfolioSelector;
+  let summary: PositionSummary;
+  if (requested === ALL_PORTFOLIOS) {
+    const active = portfolios.filter(p => !p.archived);
+    const summaries = await Promise.all(
+      active.map(async p => computePositions(await storage.getTradesByPortfolioId(p.id), costBasisMethodOf(p)))
+    );
+    portfolioId = ALL_PORTFOLIOS;
+    summary = mergePositions(summaries);
+  } else {
+    const portfolio = requested !== undefined
+      ? portfolios.find(p => p.id === requested)
+      : defaultPortfolio(portfolios);
+
+    if (!portfolio) {
+      clearPortfolio(client);
+      send(client, { type: 'error', error: 'Portfolio not found' });
+      return;
+    }
+    portfolioId = portfolio.id;
+    summary = computePositions(await storage.getTradesByPortfolioId(portfolio.id), costBasisMethodOf(portfolio));
+  }
+
+  const symbols = openSymbols(summary);
+
+  // Subscribe before unsubscribing so shared symbols don't bounce the source
+  priceFeed.subscribe(symbols);
+  const previous = client.portfolio;
+  if (previous?.timer) clearTimeout(previous.timer);
+  if (previous) priceFeed.unsubscribe(previous.symbols);
+
+  client.portfolio = { portfolioId, summary, symbols, timer: null, lastSent: 0 };
+
+  // Make sure every holding has a price before the first push
+  await Promise.all(symbols.map(symbol => priceFeed.getPrice(symbol)));
+  sendPortfolio(client);
+}
+
+async function handleMessage(client: StreamClient, raw: string): Promise<void> {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return send(client, { type: 'error', error: 'Invalid JSON' });
+  }
+
+  const symbols: string[] = Array.isArray(message.symbols)
+    ? message.symbols.filter((s: unknown) => typeof s === 'string' && s.length > 0).map((s: string) => s.toUpperCase())
+    : [];
+
+  switch (message.type) {
+    case 'subscribe': {
+      const added = symbols.filter(s => !client.symbols.has(s)).slice(0, MAX_SYMBOLS - client.symbols.size);
+      added.forEach(s => client.symbols.add(s));
+      priceFeed.subscribe(added);
+      // Send the current price right away so the client doesn't wait for the next move
+      for (const symbol of added) {
+        const price = await priceFeed.getPrice(symbol);
+        if (price !== null && client.symbols.has(symbol)) {
+          send(client, { type: 'ticker', symbol, price, timestamp: Date.now() });
+        }
+      }
+      return;
+    }
+    case 'unsubscribe': {
+      const removed = symbols.filter(s => client.symbols.has(s));
+      removed.forEach(s => client.symbols.delete(s));
+      priceFeed.unsubscribe(removed);
+      return;
+    }
+    case 'portfolio':
+      if (message.portfolioId === null) return clearPortfolio(client);
+      return loadPortfolio(
+        client,
+        typeof message.portfolioId === 'number' || message.portfolioId === ALL_PORTFOLIOS ? message.portfolioId : undefined
+      );
+    default:
+      return send(client, { type: 'error', error: `Unknown message type: ${message.type}` });
+  }
+}
+
+function handleTick(tick: PriceTick): void {
+  for (const client of Array.from(clients)) {
+    if (client.symbols.has(tick.symbol)) {
+      send(client, { type: 'ticker', ...tick });
+    }
+    if (client.portfolio?.symbols.includes(tick.symbol)) {
+      schedulePortfolio(client);
+    }
+  }
+}
+
+/**
+ * Re-read positions for clients watching a portfolio (or the combined view) after its trades change
+ */
+export function notifyPortfolioChanged(portfolioId: number): void {
+  for (const client of Array.from(clients)) {
+    const watching = client.portfolio?.portfolioId;
+    if (watching === portfolioId || watching === ALL_PORTFOLIOS) {
+      loadPortfolio(client, watching).catch(error =>
+        console.error('[prices] Failed to reload portfolio:', error)
+      );
+    }
+  }
+}
+
+/**
+ * Attach the price stream to the HTTP server. Other upgrade requests (e.g. Vite HMR) are left alone.
+ */
+export function attachPriceStream(server: Server, userId: string): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== PRICE_STREAM_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (socket: WebSocket) => {
+    const client: StreamClient = { socket, userId, symbols: new Set(), portfolio: null, alive: true };
+    clients.add(client);
+
+    socket.on('pong', () => { client.alive = true; });
+    socket.on('message', (raw) => {
+      handleMessage(client, raw.toString()).catch(error => {
+        console.error('[prices] Failed to handle message:', error);
+        send(client, { type: 'error', error: 'Failed to handle message' });
+      });
+    });
+    socket.on('close', () => {
+      clients.delete(client);
+      priceFeed.unsubscribe(Array.from(client.symbols));
+      clearPortfolio(client);
+    });
+  });
+
+  priceFeed.onTick(handleTick);
+
+  // Drop connections that stop answering pings
+  setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+}
@@ -0,0 +1,88 @@
+// Strategy profiles - named composite weights and signal thresholds
+// Built-in profiles are seeded into storage on startup and can be edited from the UI
+
+import { storage } from '../storage';
+import type { InsertStrategyProfile, StrategyProfile } from '@shared/schema';
+import {
+  DEFAULT_FACTOR_WEIGHTS,
+  DEFAULT_SIGNAL_THRESHOLDS,
+  type FactorWeights,
+  type SignalThresholds
+} from './quant/engine';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+export const BUILTIN_PROFILES: InsertStrategyProfile[] = [
+  {
+    name: DEFAULT_PROFILE_NAME,
+    description: 'Balanced weights emphasizing trend and momentum',
+    weights: DEFAULT_FACTOR_WEIGHTS,
+    buyThreshold: DEFAULT_SIGNAL_THRESHOLDS.buy,
+    sellThreshold: DEFAULT_SIGNAL_THRESHOLDS.sell,
+  },
+  {
+    name: 'momentum-heavy',
+    description: 'Chases strong trends and momentum, ignores most risk factors',
+    weights: { trend: 0.30, momentum: 0.40, volatility: 0.05, volume: 0.15, risk: 0.05, sentiment: 0.05 },
+    buyThreshold: 62,
+    sellThreshold: 38,
+  },
+  {
+    name: 'low-risk',
+    description: 'Favors low volatility and low drawdown, requires a stronger score to buy',
+    weights: { trend: 0.20, momentum: 0.15, volatility: 0.25, volume: 0.10, risk: 0.25, sentiment: 0.05 },
+    buyThreshold: 70,
+    sellThreshold: 40,
+  },
+];
+
+/**
+ * Insert any built-in profile that is missing from storage
+ */
+export async function ensureBuiltinProfiles(): Promise<void> {
+  for (const profile of BUILTIN_PROFILES) {
+    const existing = await storage.getStrategyProfileByName(profile.name);
+    if (!existing) {
+      await storage.createStrategyProfile(profile);
+    }
+  }
+}
+
+/**
+ * Look up a profile by name, falling back to the default profile when no name is given.
+ * Returns undefined for an unknown name so callers can respond with 404.
+ */
+export async function resolveProfile(name?: string): Promise<StrategyProfile | undefined> {
+  return storage.getStrategyProfileByName(name || DEFAULT_PROFILE_NAME);
+}
+
+/**
+ * Extract engine inputs from a stored profile
+ */
+export function profileToEngineConfig(profile?: StrategyProfile): {
+  weights: FactorWeights;
+  thresholds: SignalThresholds;
+} {
+  if (!profile) {
+    return { weights: DEFAULT_FACTOR_WEIGHTS, thresholds: DEFAULT_SIGNAL_THRESHOLDS };
+  }
+
+  return {
+    weights: profile.weights,
+    thresholds: { buy: profile.buyThreshold, sell: profile.sellThreshold },
+  };
+}
+
+/**
+ * Why a profile can't be renamed or deleted: strategy runners and saved screens refer to it
+ * by name. Returns null when nothing does.
+ */
+export async function profileInUse(name: string): Promise<string | null> {
+  const runners = await storage.getStrategyRunnersByProfile(name);
+  const screens = await storage.getScreensByProfile(name);
+  const users = [
+    runners.length > 0 && `${runners.length} strategy runner${runners.length === 1 ? '' : 's'}`,
+    screens.length > 0 && `${screens.length} saved screen${screens.length === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+  return users.length > 0 ? `Profile "${name}" is used by ${users.join(' and ')}` : null;
+}
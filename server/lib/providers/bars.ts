@@ -0,0 +1,27 @@
+// Bar time helpers shared by providers and the candle store
+
+import { KLINE_INTERVAL_MS, type BinanceKline, type KlineInterval, type KlineRange } from './types';
+
+const WEEK_OFFSET = 4 * KLINE_INTERVAL_MS['1d']; // Binance weekly bars open on Monday; the epoch was a Thursday
+
+/**
+ * Open time of the bar containing `time`
+ */
+export function barOpenTime(time: number, interval: KlineInterval): number {
+  const ms = KLINE_INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET : 0;
+  return Math.floor((time - offset) / ms) * ms + offset;
+}
+
+/**
+ * Apply a range and limit to bars from a source that can't filter server-side
+ */
+export function applyKlineRange(klines: BinanceKline[], limit: number, range?: KlineRange): BinanceKline[] {
+  const inRange = klines.filter(k =>
+    (range?.startTime === undefined || k.openTime >= range.startTime) &&
+    (range?.endTime === undefined || k.openTime <= range.endTime)
+  );
+  return range?.startTime !== undefined
+    ? inRange.slice(0, limit)
+    : inRange.slice(-limit);
+}
@@ -0,0 +1,73 @@
+// Binance market data provider
+// Klines and spot prices for USDT pairs. Has no market listings or coin detail,
+// and skips stablecoins (they don't trade against themselves).
+
+import type { BinanceKline, KlineInterval, KlineRange, MarketDataProvider } from './types';
+import { isStablecoin, toUsdtPair } from './symbols';
+
+const BINANCE_API = 'https://api.binance.com/api/v3';
+const MAX_KLINES = 1000; // Per-request cap on /klines
+
+/**
+ * Fetch OHLC (klines) data from Binance
+ */
+async function fetchBinanceKlines(
+  symbol: string,
+  interval: KlineInterval,
+  limit: number,
+  range?: KlineRange
+): Promise<BinanceKline[]> {
+  try {
+    let url = `${BINANCE_API}/klines?symbol=${toUsdtPair(symbol)}&interval=${interval}&limit=${Math.min(limit, MAX_KLINES)}`;
+    if (range?.startTime !== undefined) url += `&startTime=${range.startTime}`;
+    if (range?.endTime !== undefined) url += `&endTime=${range.endTime}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      // Silently fail for unsupported pairs (Bad Request, Not Found)
+      return [];
+    }
+
+    const data = await response.json();
+
+    return data.map((kline: any[]) => ({
+      openTime: kline[0],
+      open: kline[1],
+      high: kline[2],
+      low: kline[3],
+      close: kline[4],
+      volume: kline[5],
+      closeTime: kline[6],
+      source: 'binance',
+    }));
+  } catch (error) {
+    // Silently fail on network errors
+    return [];
+  }
+}
+
+async function fetchTickerPrice(symbol: string): Promise<number | null> {
+  try {
+    const response = await fetch(`${BINANCE_API}/ticker/price?symbol=${toUsdtPair(symbol)}`);
+
+    if (response.ok) {
+      const data = await response.json();
+      return parseFloat(data.price);
+    }
+  } catch (error) {
+    // Silently fall through to the next provider
+  }
+  return null;
+}
+
+export function createBinanceProvider(): MarketDataProvider {
+  return {
+    name: 'binance',
+    topCoins: async () => [],
+    coinDetail: async () => null,
+    klines: async (symbol, interval, limit, range) =>
+      isStablecoin(symbol) ? [] : fetchBinanceKlines(symbol, interval, limit, range),
+    currentPrice: async (symbol) =>
+      isStablecoin(symbol) ? null : fetchTickerPrice(symbol),
+  };
+}
@@ -0,0 +1,180 @@
+// CoinGecko market data provider
+// Market listings, coin detail, daily history and spot prices
+
+import { KLINE_INTERVAL_MS, type BinanceKline, type CoinData, type CoinDetail, type KlineInterval, type KlineRange, type MarketDataProvider } from './types';
+import { applyKlineRange } from './bars';
+import { symbolToCoinGeckoId } from './symbols';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+
+// Simple in-memory cache
+const cache: Record<string, { data: any; timestamp: number }> = {};
+const CACHE_DURATION = 60 * 1000; // 1 minute
+
+/**
+ * Fetch top coins from CoinGecko
+ */
+async function fetchTopCoins(limit: number): Promise<CoinData[]> {
+  const cacheKey = `topCoins_${limit}`;
+  const now = Date.now();
+
+  if (cache[cacheKey] && now - cache[cacheKey].timestamp < CACHE_DURATION) {
+    return cache[cacheKey].data;
+  }
+
+  try {
+    const response = await fetch(
+      `${COINGECKO_API}/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${limit}&page=1&sparkline=false`
+    );
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        console.warn('CoinGecko rate limit hit, returning cached data if available');
+        return cache[cacheKey]?.data || [];
+      }
+      throw new Error(`CoinGecko API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    cache[cacheKey] = { data, timestamp: now };
+    return data;
+  } catch (error) {
+    console.error('Error fetching top coins:', error);
+    return cache[cacheKey]?.data || [];
+  }
+}
+
+/**
+ * Fetch single coin data from CoinGecko
+ */
+async function fetchCoinData(coinId: string): Promise<CoinDetail | null> {
+  const cacheKey = `coin_${coinId}`;
+  const now = Date.now();
+
+  if (cache[cacheKey] && now - cache[cacheKey].timestamp < CACHE_DURATION) {
+    return cache[cacheKey].data;
+  }
+
+  try {
+    const response = await fetch(
+      `${COINGECKO_API}/coins/${coinId}?localization=false&tickers=false&community_data=false&developer_data=false`
+    );
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        console.warn(`CoinGecko rate limit hit for ${coinId}, returning cached data if available`);
+        return cache[cacheKey]?.data || null;
+      }
+      if (response.status === 404) {
+        console.warn(`CoinGecko: Coin ID "${coinId}" not found`);
+        return null;
+      }
+      console.error(`CoinGecko API error for ${coinId}: ${response.status} ${response.statusText}`);
+      return cache[cacheKey]?.data || null;
+    }
+
+    const data = await response.json();
+    cache[cacheKey] = { data, timestamp: now };
+    return data;
+  } catch (error) {
+    console.error(`Error fetching coin data for ${coinId}:`, error);
+    return cache[cacheKey]?.data || null;
+  }
+}
+
+/**
+ * Fetch historical price data from CoinGecko
+ * Note: CoinGecko only supports daily intervals, so all intervals are converted to daily
+ */
+async function fetchCoinGeckoHistory(coinId: string, days: number = 100): Promise<BinanceKline[]> {
+  try {
+    // CoinGecko market_chart API has limits: max 365 days for daily, max 90 days for hourly
+    // We'll use daily for simplicity and cap at 365 days
+    const cappedDays = Math.min(days, 365);
+
+    const response = await fetch(
+      `${COINGECKO_API}/coins/${coinId}/market_chart?vs_currency=usd&days=${cappedDays}&interval=daily`
+    );
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        console.warn(`CoinGecko: Coin ID "${coinId}" not found`);
+      } else {
+        console.warn(`CoinGecko API error for ${coinId}: ${response.status} ${response.statusText}`);
+      }
+      return [];
+    }
+
+    const data = await response.json();
+
+    // Convert CoinGecko format to our kline format
+    // CoinGecko returns [timestamp, price] arrays
+    const prices = data.prices || [];
+    const volumes = data.total_volumes || [];
+
+    if (prices.length === 0) {
+      console.warn(`CoinGecko: No price data for ${coinId}`);
+      return [];
+    }
+
+    return prices.map((pricePoint: [number, number], index: number) => {
+      const price = pricePoint[1];
+      const volume = volumes[index] ? volumes[index][1] : 0;
+
+      return {
+        openTime: pricePoint[0],
+        open: price.toString(),
+        high: price.toString(),
+        low: price.toString(),
+        close: price.toString(),
+        volume: volume.toString(),
+        closeTime: pricePoint[0],
+        source: 'coingecko',
+      };
+    });
+  } catch (error) {
+    console.error(`Error fetching CoinGecko history for ${coinId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fetch a USD spot price from CoinGecko
+ */
+async function fetchSimplePrice(coinId: string): Promise<number | null> {
+  try {
+    const response = await fetch(`${COINGECKO_API}/simple/price?ids=${coinId}&vs_currencies=usd`);
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data[coinId]?.usd) {
+        return data[coinId].usd;
+      }
+    } else {
+      console.warn(`CoinGecko price fetch failed for ${coinId}: ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Error fetching current price for ${coinId}:`, error);
+  }
+  return null;
+}
+
+function daysSince(time: number): number {
+  return Math.max(0, Math.ceil((Date.now() - time) / KLINE_INTERVAL_MS['1d']));
+}
+
+export function createCoinGeckoProvider(): MarketDataProvider {
+  return {
+    name: 'coingecko',
+    topCoins: (limit) => fetchTopCoins(limit),
+    coinDetail: (symbol) => fetchCoinData(symbolToCoinGeckoId(symbol)),
+    // Daily bars regardless of interval; limit is approximated as a number of days
+    klines: async (symbol: string, _interval: KlineInterval, limit: number, range?: KlineRange) => {
+      // History is always counted back from today, so reach back far enough to cover the range
+      const days = limit + (range?.endTime !== undefined ? daysSince(range.endTime) : 0);
+      const history = await fetchCoinGeckoHistory(symbolToCoinGeckoId(symbol), Math.min(days, 365));
+      return applyKlineRange(history, limit, range);
+    },
+    currentPrice: (symbol) => fetchSimplePrice(symbolToCoinGeckoId(symbol)),
+  };
+}
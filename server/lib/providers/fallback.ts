@@ -0,0 +1,34 @@
+// Fallback chain of market data providers
+// Each call goes to the providers in order and returns the first non-empty result
+
+import type { MarketDataProvider } from './types';
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+}
+
+export function createFallbackProvider(providers: MarketDataProvider[]): MarketDataProvider {
+  const firstResult = async <T>(
+    call: (provider: MarketDataProvider) => Promise<T>,
+    empty: T
+  ): Promise<T> => {
+    for (const provider of providers) {
+      try {
+        const result = await call(provider);
+        if (!isEmpty(result)) return result;
+      } catch (error) {
+        // Providers normally swallow their own errors; keep going if one doesn't
+        console.error(`[market-data] ${provider.name} failed:`, error);
+      }
+    }
+    return empty;
+  };
+
+  return {
+    name: providers.map(p => p.name).join('>'),
+    topCoins: (limit) => firstResult(p => p.topCoins(limit), []),
+    coinDetail: (symbol) => firstResult(p => p.coinDetail(symbol), null),
+    klines: (symbol, interval, limit, range) => firstResult(p => p.klines(symbol, interval, limit, range), []),
+    currentPrice: (symbol) => firstResult(p => p.currentPrice(symbol), null),
+  };
+}
@@ -0,0 +1,192 @@
+// File-backed fixture provider
+// Serves market data from a fixtures directory so the app can run offline with deterministic data.
+//
+//   <dir>/top-coins.json              CoinData[] (required; defines the known symbols)
+//   <dir>/coins/<SYMBOL>.json         CoinDetail (optional; derived from top-coins otherwise)
+//   <dir>/klines/<SYMBOL>_<int>.json  BinanceKline[] (optional; synthesized otherwise)
+//
+// Synthesized bars are a pure function of symbol and bar time, so the same bar always
+// has the same prices no matter when or how it is requested.
+
+import fs from 'fs';
+import path from 'path';
+import {
+  KLINE_INTERVAL_MS,
+  type BinanceKline,
+  type CoinData,
+  type CoinDetail,
+  type KlineInterval,
+  type KlineRange,
+  type MarketDataProvider,
+} from './types';
+import { isStablecoin } from './symbols';
+import { applyKlineRange, barOpenTime } from './bars';
+
+export const DEFAULT_FIXTURE_DIR = path.resolve(process.cwd(), 'fixtures', 'market-data');
+
+const DAY_MS = KLINE_INTERVAL_MS['1d'];
+const SAMPLES_PER_BAR = 4;
+
+/**
+ * FNV-1a hash of a string, scaled to [0, 1)
+ */
+function hash01(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 0x100000000;
+}
+
+/**
+ * Deterministic price for a symbol at a point in time: slow cycles around a base price plus hourly noise
+ */
+function syntheticPrice(symbol: string, basePrice: number, time: number): number {
+  if (isStablecoin(symbol)) {
+    return 1 + (hash01(`${symbol}:${Math.floor(time / 3600000)}`) - 0.5) * 0.002;
+  }
+
+  const phase = (k: number) => hash01(`${symbol}:phase${k}`) * 2 * Math.PI;
+  const cycle = (amplitude: number, periodDays: number, k: number) =>
+    amplitude * Math.sin((2 * Math.PI * time) / (periodDays * DAY_MS) + phase(k));
+  const noise = (hash01(`${symbol}:${Math.floor(time / 3600000)}`) - 0.5) * 0.008;
+
+  return basePrice * Math.exp(cycle(0.25, 120, 1) + cycle(0.08, 21, 2) + cycle(0.02, 2, 3) + noise);
+}
+
+function syntheticKline(
+  symbol: string,
+  coin: CoinData,
+  interval: KlineInterval,
+  openTime: number,
+  now: number
+): BinanceKline {
+  const ms = KLINE_INTERVAL_MS[interval];
+  const end = Math.min(openTime + ms, now); // The current bar is still forming
+  const samples = Array.from({ length: SAMPLES_PER_BAR + 1 }, (_, i) =>
+    syntheticPrice(symbol, coin.current_price, openTime + ((end - openTime) * i) / SAMPLES_PER_BAR)
+  );
+  const open = samples[0];
+  const close = samples[samples.length - 1];
+  const hourlyVolume = (coin.total_volume || 1e6) / 24;
+  const volume = hourlyVolume * (ms / 3600000) * (0.6 + hash01(`${symbol}:vol:${openTime}`) * 0.8) / ((open + close) / 2);
+
+  return {
+    openTime,
+    open: open.toString(),
+    high: Math.max(...samples).toString(),
+    low: Math.min(...samples).toString(),
+    close: close.toString(),
+    volume: volume.toString(),
+    closeTime: openTime + ms - 1,
+    source: 'fixture',
+  };
+}
+
+export function createFixtureProvider(dir: string = process.env.MARKET_DATA_FIXTURES || DEFAULT_FIXTURE_DIR): MarketDataProvider {
+  const files = new Map<string, unknown>();
+
+  const readJson = <T>(relativePath: string): T | null => {
+    if (files.has(relativePath)) return files.get(relativePath) as T | null;
+
+    let data: T | null = null;
+    const fullPath = path.join(dir, relativePath);
+    if (fs.existsSync(fullPath)) {
+      try {
+        data = JSON.parse(fs.readFileSync(fullPath, 'utf8'));
+      } catch (error) {
+        console.warn(`[fixtures] Could not parse ${fullPath}:`, error);
+      }
+    }
+    files.set(relativePath, data);
+    return data;
+  };
+
+  const listedCoins = (): CoinData[] => readJson<CoinData[]>('top-coins.json') || [];
+  const findCoin = (symbol: string) =>
+    listedCoins().find(coin => coin.symbol.toUpperCase() === symbol.toUpperCase());
+
+  const klines = async (
+    symbol: string,
+    interval: KlineInterval,
+    limit: number,
+    range?: KlineRange
+  ): Promise<BinanceKline[]> => {
+    const symbolUpper = symbol.toUpperCase();
+    const recorded = readJson<BinanceKline[]>(path.join('klines', `${symbolUpper}_${interval}.json`));
+    if (recorded) return applyKlineRange(recorded, limit, range);
+
+    const coin = findCoin(symbolUpper);
+    if (!coin) return [];
+
+    const now = Date.now();
+    const ms = KLINE_INTERVAL_MS[interval];
+    const lastOpen = barOpenTime(Math.min(range?.endTime ?? now, now), interval);
+    let firstOpen = lastOpen - (limit - 1) * ms;
+    if (range?.startTime !== undefined) {
+      // Round up to the first bar opening at or after startTime
+      firstOpen = barOpenTime(range.startTime + ms - 1, interval);
+    }
+    const count = Math.min(limit, Math.floor((lastOpen - firstOpen) / ms) + 1);
+    return Array.from({ length: Math.max(0, count) }, (_, i) =>
+      syntheticKline(symbolUpper, coin, interval, firstOpen + i * ms, now)
+    );
+  };
+
+  const currentPrice = async (symbol: string): Promise<number | null> => {
+    const bars = await klines(symbol, '1h', 1);
+    return bars.length > 0 ? parseFloat(bars[bars.length - 1].close) : null;
+  };
+
+  /**
+   * Listed coin with price fields brought in line with the synthesized bars
+   */
+  const liveCoin = async (coin: CoinData): Promise<CoinData> => {
+    const bars = await klines(coin.symbol, '1h', 25);
+    if (bars.length < 25) return coin;
+    const price = parseFloat(bars[24].close);
+    const dayAgo = parseFloat(bars[0].close);
+    const supply = coin.circulating_supply || 0;
+    return {
+      ...coin,
+      current_price: price,
+      market_cap: supply > 0 ? price * supply : coin.market_cap,
+      price_change_percentage_24h: ((price - dayAgo) / dayAgo) * 100,
+    };
+  };
+
+  return {
+    name: 'fixture',
+    topCoins: async (limit) => Promise.all(listedCoins().slice(0, limit).map(liveCoin)),
+    coinDetail: async (symbol) => {
+      const symbolUpper = symbol.toUpperCase();
+      const recorded = readJson<CoinDetail>(path.join('coins', `${symbolUpper}.json`));
+      if (recorded) return recorded;
+
+      const listed = findCoin(symbolUpper);
+      if (!listed) return null;
+      const coin = await liveCoin(listed);
+      return {
+        id: coin.id,
+        symbol: coin.symbol,
+        name: coin.name,
+        image: { thumb: coin.image, small: coin.image, large: coin.image },
+        market_cap_rank: coin.market_cap_rank,
+        categories: [],
+        description: { en: '' },
+        market_data: {
+          current_price: { usd: coin.current_price },
+          price_change_percentage_24h: coin.price_change_percentage_24h,
+          market_cap: { usd: coin.market_cap },
+          total_volume: { usd: coin.total_volume },
+          circulating_supply: coin.circulating_supply,
+          total_supply: coin.total_supply,
+          max_supply: coin.max_supply,
+        },
+      };
+    },
+    klines,
+    currentPrice,
+  };
+}
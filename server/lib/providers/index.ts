@@ -0,0 +1,55 @@
+// Market data provider selection
+// MARKET_DATA_PROVIDERS is a comma-separated fallback order, e.g. "binance,coingecko" or "fixture"
+
+import type { MarketDataProvider } from './types';
+import { createBinanceProvider } from './binance';
+import { createCoinGeckoProvider } from './coingecko';
+import { createFixtureProvider } from './fixture';
+import { createFallbackProvider } from './fallback';
+
+export * from './types';
+export { isStablecoin, symbolToCoinGeckoId } from './symbols';
+export { barOpenTime, applyKlineRange } from './bars';
+export { createBinanceProvider, createCoinGeckoProvider, createFixtureProvider, createFallbackProvider };
+
+export const DEFAULT_PROVIDER_CHAIN = 'binance,coingecko';
+
+const PROVIDER_FACTORIES: Record<string, () => MarketDataProvider> = {
+  binance: createBinanceProvider,
+  coingecko: createCoinGeckoProvider,
+  fixture: () => createFixtureProvider(),
+};
+
+/**
+ * Build the provider (or fallback chain) named in config. Unknown names are an error
+ * so a typo doesn't silently fall back to live APIs.
+ */
+export function createProviderFromConfig(config: string = process.env.MARKET_DATA_PROVIDERS || DEFAULT_PROVIDER_CHAIN): MarketDataProvider {
+  const names = config.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const unknown = names.filter(name => !PROVIDER_FACTORIES[name]);
+  if (names.length === 0 || unknown.length > 0) {
+    throw new Error(
+      `Invalid MARKET_DATA_PROVIDERS "${config}". Use a comma-separated list of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`
+    );
+  }
+
+  const providers = names.map(name => PROVIDER_FACTORIES[name]());
+  return providers.length === 1 ? providers[0] : createFallbackProvider(providers);
+}
+
+// Built at startup so a bad MARKET_DATA_PROVIDERS fails fast
+let activeProvider: MarketDataProvider = createProviderFromConfig();
+
+/**
+ * Active provider (or fallback chain)
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider, e.g. with the fixture provider for offline runs
+ */
+export function setMarketDataProvider(provider: MarketDataProvider): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,61 @@
+// Symbol helpers shared by market data providers
+
+/**
+ * Map common symbols to CoinGecko IDs
+ */
+const SYMBOL_TO_ID_MAP: Record<string, string> = {
+  'BTC': 'bitcoin',
+  'ETH': 'ethereum',
+  'USDT': 'tether',
+  'BNB': 'binancecoin',
+  'SOL': 'solana',
+  'XRP': 'ripple',
+  'USDC': 'usd-coin',
+  'ADA': 'cardano',
+  'DOGE': 'dogecoin',
+  'TRX': 'tron',
+  'AVAX': 'avalanche-2',
+  'SHIB': 'shiba-inu',
+  'DOT': 'polkadot',
+  'MATIC': 'matic-network',
+  'LTC': 'litecoin',
+};
+
+export function symbolToCoinGeckoId(symbol: string): string {
+  return SYMBOL_TO_ID_MAP[symbol.toUpperCase()] || symbol.toLowerCase();
+}
+
+/**
+ * List of stablecoins that don't trade on Binance (or trade against themselves)
+ * These should skip Binance and go directly to CoinGecko
+ */
+const STABLECOINS = new Set([
+  'USDT', 'USDC', 'BUSD', 'DAI', 'TUSD', 'USDP', 'USDD', 'GUSD',
+  'USDK', 'HUSD', 'PAX', 'CUSD', 'USDJ', 'USDE', 'USD1', 'USDT0'
+]);
+
+/**
+ * Check if a symbol is a stablecoin
+ */
+export function isStablecoin(symbol: string): boolean {
+  const symbolUpper = symbol.toUpperCase();
+  // Check exact match
+  if (STABLECOINS.has(symbolUpper)) {
+    return true;
+  }
+  // Check if symbol starts with pattern (e.g., USDT0 starts with USDT)
+  for (const stablecoin of Array.from(STABLECOINS)) {
+    if (symbolUpper.startsWith(stablecoin) || symbolUpper === stablecoin) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Binance USDT trading pair for a symbol
+ */
+export function toUsdtPair(symbol: string): string {
+  const symbolUpper = symbol.toUpperCase();
+  return symbolUpper.endsWith('USDT') ? symbolUpper : `${symbolUpper}USDT`;
+}
@@ -0,0 +1,80 @@
+// Market data provider contract
+// Providers signal "no data" with an empty array or null so a fallback chain can try the next one
+
+export type KlineInterval = '1h' | '4h' | '1d' | '1w';
+
+export const KLINE_INTERVAL_MS: Record<KlineInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface CoinData {
+  id: string;
+  symbol: string;
+  name: string;
+  image: string;
+  current_price: number;
+  market_cap: number;
+  market_cap_rank: number;
+  total_volume: number;
+  price_change_percentage_24h: number;
+  circulating_supply: number;
+  total_supply: number;
+  max_supply: number;
+}
+
+/**
+ * Coin detail in CoinGecko's /coins/{id} shape (the fields the client reads)
+ */
+export interface CoinDetail {
+  id: string;
+  symbol: string;
+  name: string;
+  image?: { thumb?: string; small?: string; large?: string };
+  market_cap_rank?: number | null;
+  categories?: string[];
+  description?: { en?: string };
+  market_data?: {
+    current_price?: { usd?: number };
+    price_change_percentage_24h?: number;
+    market_cap?: { usd?: number };
+    total_volume?: { usd?: number };
+    circulating_supply?: number | null;
+    total_supply?: number | null;
+    max_supply?: number | null;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * OHLCV bar. Prices are strings as returned by Binance.
+ */
+export interface BinanceKline {
+  openTime: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  closeTime: number;
+  source?: string; // Provider that produced the bar
+}
+
+/**
+ * Optional time window for klines (ms since epoch, inclusive open times).
+ * With a startTime the first `limit` bars from it are returned; otherwise the last `limit` up to endTime.
+ */
+export interface KlineRange {
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface MarketDataProvider {
+  name: string;
+  topCoins(limit: number): Promise<CoinData[]>;
+  coinDetail(symbol: string): Promise<CoinDetail | null>;
+  klines(symbol: string, interval: KlineInterval, limit: number, range?: KlineRange): Promise<BinanceKline[]>;
+  currentPrice(symbol: string): Promise<number | null>;
+}
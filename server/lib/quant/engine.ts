@@ -47,6 +47,31 @@ import {
   calculateMaxDrawdown, 
   calculateVaR
 } from './risk';
+import type { FactorWeights } from '@shared/schema';
+
+export type { FactorWeights };
+
+export interface SignalThresholds {
+  buy: number; // Composite score >= buy = BUY
+  sell: number; // Composite score <= sell = SELL
+}
+
+/**
+ * Default composite weights - emphasize trend and momentum (trading signals)
+ */
+export const DEFAULT_FACTOR_WEIGHTS: FactorWeights = {
+  trend: 0.25,
+  momentum: 0.25,
+  volatility: 0.15,
+  volume: 0.15,
+  risk: 0.10,
+  sentiment: 0.10,
+};
+
+export const DEFAULT_SIGNAL_THRESHOLDS: SignalThresholds = {
+  buy: 65,
+  sell: 35,
+};
 
 export interface QuantEngineInput {
   symbol: string;
@@ -56,7 +81,9 @@ export interface QuantEngineInput {
   marketCap?: number;
   benchmarkPrices?: number[]; // For beta calculation
   sentimentScore?: number; // 0-100, defaults to 50
-  interval?: '1h' | '1d'; // Data interval
+  interval?: '1h' | '4h' | '1d' | '1w'; // Data interval
+  weights?: FactorWeights; // Composite weights, defaults to DEFAULT_FACTOR_WEIGHTS
+  thresholds?: SignalThresholds; // BUY/SELL cutoffs, defaults to DEFAULT_SIGNAL_THRESHOLDS
 }
 
 export interface QuantEngineOutput {
@@ -320,13 +347,12 @@ function isStablecoin(symbol: string, currentPrice?: number): boolean {
 }
 
 /**
- * Calculate composite score using new weights
- * 0.25 * trend + 0.25 * momentum + 0.15 * volatility + 0.15 * volume + 0.10 * risk + 0.10 * sentiment
+ * Calculate composite score as a weighted sum of factor scores
+ * Default: 0.25 * trend + 0.25 * momentum + 0.15 * volatility + 0.15 * volume + 0.10 * risk + 0.10 * sentiment
  * 
- * Adjusted weights to emphasize trend and momentum (trading signals)
- * Reduced volatility and risk weights to prevent stablecoins from scoring too high
+ * Weights are normalized by their sum so profiles don't need to add up to exactly 1
  */
-function calculateCompositeScore(
+export function calculateCompositeScore(
   trend: number,
   momentum: number,
   volatility: number,
@@ -334,7 +360,8 @@ function calculateCompositeScore(
   risk: number,
   sentiment: number,
   symbol?: string,
-  currentPrice?: number
+  currentPrice?: number,
+  weights: FactorWeights = DEFAULT_FACTOR_WEIGHTS
 ): number {
   // Invert risk score: lower risk = higher score, but cap the benefit
   // Very low risk (stablecoins) shouldn't dominate the score
@@ -345,15 +372,20 @@ function calculateCompositeScore(
   // Detect stablecoin by symbol or price
   const isStable = symbol ? isStablecoin(symbol, currentPrice) : false;
   
-  // Calculate raw score with adjusted weights
-  // Increased trend and momentum weights for better trading signals
-  const rawScore = 
-    trend * 0.25 +           // Increased from 0.20
-    momentum * 0.25 +        // Increased from 0.20
-    volatility * 0.15 +      // Decreased from 0.20
-    volume * 0.15 +          // Same
-    riskScore * 0.10 +       // Decreased from 0.15
-    sentiment * 0.10;        // Same
+  const weightSum =
+    weights.trend + weights.momentum + weights.volatility +
+    weights.volume + weights.risk + weights.sentiment;
+  const w = weightSum > 0 ? weightSum : 1;
+
+  // Calculate raw score with profile weights
+  const rawScore = (
+    trend * weights.trend +
+    momentum * weights.momentum +
+    volatility * weights.volatility +
+    volume * weights.volume +
+    riskScore * weights.risk +
+    sentiment * weights.sentiment
+  ) / w;
   
   // Apply stablecoin penalty - force neutral score
   let finalScore = rawScore;
@@ -578,9 +610,9 @@ function calculateSupportResistance(
  * Determine trading signal based on composite score thresholds
  * Simple and direct: Composite Score is the primary signal indicator
  * 
- * IF Composite Score ≥ 65:  Signal = "BUY" (Bullish)
- * IF Composite Score ≤ 35:  Signal = "SELL" (Bearish)
- * IF 35 < Score < 65:       Signal = "HOLD" (Neutral)
+ * IF Composite Score ≥ buy (default 65):   Signal = "BUY" (Bullish)
+ * IF Composite Score ≤ sell (default 35):  Signal = "SELL" (Bearish)
+ * Otherwise:                               Signal = "HOLD" (Neutral)
  * 
  * Special case: Stablecoins always return HOLD (Neutral)
  */
@@ -593,7 +625,8 @@ function determineSignal(
   trendContinuation: { continuation: number; reversal: number },
   prices: number[],
   rsi: number,
-  symbol?: string
+  symbol?: string,
+  thresholds: SignalThresholds = DEFAULT_SIGNAL_THRESHOLDS
 ): 'BUY' | 'SELL' | 'HOLD' {
   // Check if it's a stablecoin first - always return HOLD (Neutral)
   if (symbol) {
@@ -605,7 +638,6 @@ function determineSignal(
   }
   
   // Direct composite score-based signal determination
-  // Ensure we're working with a valid number and round it
   const score = Math.round(Number(compositeScore));
   
   if (isNaN(score) || score < 0 || score > 100) {
@@ -613,18 +645,28 @@ function determineSignal(
     return 'HOLD';
   }
   
+  return signalFromScore(score, thresholds);
+}
+
+/**
+ * Map a composite score to a signal using BUY/SELL thresholds
+ * Score >= buy = BUY, score <= sell = SELL, otherwise HOLD
+ */
+export function signalFromScore(
+  compositeScore: number,
+  thresholds: SignalThresholds = DEFAULT_SIGNAL_THRESHOLDS
+): 'BUY' | 'SELL' | 'HOLD' {
+  const score = Math.round(compositeScore);
+
   // Apply thresholds strictly - these are the exact rules
-  // Score >= 65 = BUY (Bullish)
-  if (score >= 65) {
+  if (score >= thresholds.buy) {
     return 'BUY';
   }
   
-  // Score <= 35 = SELL (Bearish)
-  if (score <= 35) {
+  if (score <= thresholds.sell) {
     return 'SELL';
   }
   
-  // 35 < Score < 65 = HOLD (Neutral)
   return 'HOLD';
 }
 
@@ -705,7 +747,9 @@ export async function runQuantEngine(input: QuantEngineInput): Promise<QuantEngi
     volumes,
     benchmarkPrices,
     sentimentScore = 50,
-    interval = '1d'
+    interval = '1d',
+    weights = DEFAULT_FACTOR_WEIGHTS,
+    thresholds = DEFAULT_SIGNAL_THRESHOLDS
   } = input;
 
   // Validate inputs
@@ -785,7 +829,8 @@ export async function runQuantEngine(input: QuantEngineInput): Promise<QuantEngi
     riskScore,
     sentimentScore,
     symbol,
-    priceForStablecoinCheck
+    priceForStablecoinCheck,
+    weights
   );
 
   // ============================================
@@ -834,13 +879,14 @@ export async function runQuantEngine(input: QuantEngineInput): Promise<QuantEngi
     trendContinuation,
     prices,
     momentumMetrics.rsi,
-    symbol // Pass symbol for stablecoin detection
+    symbol, // Pass symbol for stablecoin detection
+    thresholds
   );
   
   // Debug logging for signal determination
-  if (compositeScore <= 35 && signal !== 'SELL') {
+  if (compositeScore <= thresholds.sell && signal !== 'SELL') {
     console.warn(`[runQuantEngine] ${symbol}: Composite score ${compositeScore} should be SELL but got ${signal}`);
-  } else if (compositeScore >= 65 && signal !== 'BUY') {
+  } else if (compositeScore >= thresholds.buy && signal !== 'BUY') {
     console.warn(`[runQuantEngine] ${symbol}: Composite score ${compositeScore} should be BUY but got ${signal}`);
   }
 
@@ -78,19 +78,24 @@ export function calculateSortinoRatio(prices: number[], window: number = 30): nu
  * Uses Wilder's Smoothing (EMA) instead of SMA
  */
 export function calculateRSI(prices: number[], period: number = 14): number {
-  if (prices.length < period + 1) return 50;
+  const series = calculateRSISeries(prices, period);
+  return series[series.length - 1] ?? 50;
+}
 
-  const changes: number[] = [];
-  for (let i = 1; i < prices.length; i++) {
-    changes.push(prices[i] - prices[i - 1]);
-  }
+/**
+ * RSI at every bar, null until `period` changes are available.
+ * Wilder's smoothing only looks back, so each value equals calculateRSI on the prices up to that bar.
+ */
+export function calculateRSISeries(prices: number[], period: number = 14): (number | null)[] {
+  const series: (number | null)[] = prices.map(() => null);
+  if (prices.length < period + 1) return series;
 
   // Calculate initial average gain/loss
   let avgGain = 0;
   let avgLoss = 0;
 
-  for (let i = 0; i < period; i++) {
-    const change = changes[i];
+  for (let i = 1; i <= period; i++) {
+    const change = prices[i] - prices[i - 1];
     if (change > 0) avgGain += change;
     else avgLoss += Math.abs(change);
   }
@@ -98,20 +103,21 @@ export function calculateRSI(prices: number[], period: number = 14): number {
   avgGain /= period;
   avgLoss /= period;
 
-  // Smooth the rest
-  for (let i = period; i < changes.length; i++) {
-    const change = changes[i];
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? Math.abs(change) : 0;
+  for (let i = period; i < prices.length; i++) {
+    // Smooth the rest
+    if (i > period) {
+      const change = prices[i] - prices[i - 1];
+      const gain = change > 0 ? change : 0;
+      const loss = change < 0 ? Math.abs(change) : 0;
 
-    avgGain = (avgGain * (period - 1) + gain) / period;
-    avgLoss = (avgLoss * (period - 1) + loss) / period;
-  }
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
 
-  if (avgLoss === 0) return 100;
+    series[i] = avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss));
+  }
 
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
+  return series;
 }
 
 /**
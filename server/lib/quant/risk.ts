@@ -83,6 +83,51 @@ export function calculateVaR(prices: number[], confidence: 95 | 99 = 95): number
   return Math.abs(percentile(returns, percentileValue) * 100); // As percentage
 }
 
+/**
+ * Calculate Conditional VaR / Expected Shortfall (Historical Method)
+ * CVaR = average loss on the days at or beyond the VaR percentile
+ */
+export function calculateCVaR(prices: number[], confidence: 95 | 99 = 95): number {
+  if (prices.length < 30) return 0;
+  
+  const returns = logReturns(prices);
+  const cutoff = percentile(returns, confidence === 95 ? 5 : 1);
+  const tail = returns.filter(r => r <= cutoff);
+  
+  return Math.max(0, -mean(tail) * 100); // As percentage
+}
+
+// One-sided normal quantiles and densities for the parametric method
+const NORMAL_Z: Record<95 | 99, number> = { 95: 1.6449, 99: 2.3263 };
+const normalDensity = (z: number) => Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+
+/**
+ * Calculate Value at Risk (Parametric / Variance-Covariance Method)
+ * VaR = z * sigma - mu, assuming normally distributed returns
+ */
+export function calculateParametricVaR(prices: number[], confidence: 95 | 99 = 95): number {
+  if (prices.length < 30) return 0;
+  
+  const returns = logReturns(prices);
+  const z = NORMAL_Z[confidence];
+  
+  return Math.max(0, (z * standardDeviation(returns) - mean(returns)) * 100); // As percentage
+}
+
+/**
+ * Calculate Conditional VaR (Parametric Method)
+ * CVaR = sigma * phi(z) / (1 - confidence) - mu
+ */
+export function calculateParametricCVaR(prices: number[], confidence: 95 | 99 = 95): number {
+  if (prices.length < 30) return 0;
+  
+  const returns = logReturns(prices);
+  const z = NORMAL_Z[confidence];
+  const tailProbability = 1 - confidence / 100;
+  
+  return Math.max(0, (standardDeviation(returns) * normalDensity(z) / tailProbability - mean(returns)) * 100);
+}
+
 /**
  * Calculate Risk Score (0-100)
  * Higher = riskier asset
@@ -41,6 +41,12 @@ export function covariance(x: number[], y: number[]): number {
   return cov / x.length;
 }
 
+export function correlation(x: number[], y: number[]): number {
+  const denominator = standardDeviation(x) * standardDeviation(y);
+  if (denominator === 0) return 0;
+  return covariance(x, y) / denominator;
+}
+
 export function simpleMovingAverage(values: number[], period: number): number[] {
   const sma: number[] = [];
   for (let i = 0; i < values.length; i++) {
@@ -102,6 +102,12 @@ export function calculateHurstExponent(prices: number[], maxLag: number = 20): n
   return Math.max(0, Math.min(1, hurst)); // Clamp to [0, 1]
 }
 
+export interface MACDPoint {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
 /**
  * Calculate MACD (Moving Average Convergence Divergence)
  */
@@ -110,27 +116,39 @@ export function calculateMACD(
   fastPeriod: number = 12, 
   slowPeriod: number = 26, 
   signalPeriod: number = 9
-): { macd: number; signal: number; histogram: number } {
-  if (prices.length < slowPeriod + signalPeriod) {
-    return { macd: 0, signal: 0, histogram: 0 };
-  }
-  
+): MACDPoint {
+  const series = calculateMACDSeries(prices, fastPeriod, slowPeriod, signalPeriod);
+  return series[series.length - 1] ?? { macd: 0, signal: 0, histogram: 0 };
+}
+
+/**
+ * MACD at every bar, null until slowPeriod + signalPeriod bars are available.
+ * The EMAs only look back, so each point equals calculateMACD on the prices up to that bar.
+ */
+export function calculateMACDSeries(
+  prices: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): (MACDPoint | null)[] {
+  const series: (MACDPoint | null)[] = prices.map(() => null);
+  if (prices.length < slowPeriod + signalPeriod) return series;
+
   const fastEMA = exponentialMovingAverage(prices, fastPeriod);
   const slowEMA = exponentialMovingAverage(prices, slowPeriod);
-  
+
   const macdLine: number[] = [];
   for (let i = 0; i < prices.length; i++) {
     macdLine.push(fastEMA[i] - slowEMA[i]);
   }
-  
+
   const signalLine = exponentialMovingAverage(macdLine, signalPeriod);
-  
-  const currentIdx = prices.length - 1;
-  const macd = macdLine[currentIdx];
-  const signal = signalLine[currentIdx];
-  const histogram = macd - signal;
-  
-  return { macd, signal, histogram };
+
+  for (let i = slowPeriod + signalPeriod - 1; i < prices.length; i++) {
+    series[i] = { macd: macdLine[i], signal: signalLine[i], histogram: macdLine[i] - signalLine[i] };
+  }
+
+  return series;
 }
 
 /**
@@ -140,13 +158,8 @@ export function calculateMACD(
 export function calculateStandardizedMACDHist(prices: number[], window: number = 50): number {
   if (prices.length < window + 26) return 0;
   
-  const histograms: number[] = [];
-  
-  for (let i = 26; i < prices.length; i++) {
-    const subset = prices.slice(0, i + 1);
-    const { histogram } = calculateMACD(subset);
-    histograms.push(histogram);
-  }
+  // Bars without enough history count as a flat histogram
+  const histograms = calculateMACDSeries(prices).slice(26).map(point => point?.histogram ?? 0);
   
   const recentHist = histograms.slice(-window);
   const currentHist = histograms[histograms.length - 1];
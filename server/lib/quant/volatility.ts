@@ -77,7 +77,15 @@ export function calculateGarmanKlassVolatility(ohlc: OHLC[], window: number = 30
  * Calculate Average True Range (ATR)
  */
 export function calculateATR(ohlc: OHLC[], period: number = 14): number {
-  if (ohlc.length < period + 1) return 0;
+  const series = calculateATRSeries(ohlc, period);
+  return series[series.length - 1] ?? 0;
+}
+
+/**
+ * ATR at every bar as the mean of the trailing `period` true ranges, null until period + 1 bars
+ */
+export function calculateATRSeries(ohlc: OHLC[], period: number = 14): (number | null)[] {
+  const series: (number | null)[] = ohlc.map(() => null);
   
   const trueRanges: number[] = [];
   
@@ -93,9 +101,35 @@ export function calculateATR(ohlc: OHLC[], period: number = 14): number {
     );
     
     trueRanges.push(tr);
+    if (i >= period) {
+      series[i] = mean(trueRanges.slice(-period));
+    }
   }
   
-  return mean(trueRanges.slice(-period));
+  return series;
+}
+
+export interface BollingerPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+/**
+ * Bollinger Bands at every bar: SMA +/- `width` standard deviations, null until the window is full
+ */
+export function calculateBollingerSeries(
+  prices: number[],
+  period: number = 20,
+  width: number = 2
+): (BollingerPoint | null)[] {
+  return prices.map((_, i) => {
+    if (i < period - 1) return null;
+    const window = prices.slice(i - period + 1, i + 1);
+    const middle = mean(window);
+    const band = width * standardDeviation(window);
+    return { upper: middle + band, middle, lower: middle - band };
+  });
 }
 
 /**
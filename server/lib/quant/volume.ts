@@ -36,7 +36,21 @@ export function calculateMFI(
   volumes: number[], 
   period: number = 14
 ): number {
-  if (closes.length < period + 1) return 50;
+  const series = calculateMFISeries(highs, lows, closes, volumes, period);
+  return series[series.length - 1] ?? 50;
+}
+
+/**
+ * MFI at every bar over the trailing `period` flows, null until period + 1 bars are available
+ */
+export function calculateMFISeries(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[],
+  period: number = 14
+): (number | null)[] {
+  const series: (number | null)[] = closes.map(() => null);
   
   const typicalPrices: number[] = [];
   for (let i = 0; i < closes.length; i++) {
@@ -48,24 +62,22 @@ export function calculateMFI(
     moneyFlows.push(typicalPrices[i] * volumes[i]);
   }
   
-  const recentFlows = moneyFlows.slice(-period - 1);
-  const recentPrices = typicalPrices.slice(-period - 1);
-  
-  let positiveFlow = 0;
-  let negativeFlow = 0;
-  
-  for (let i = 1; i < recentFlows.length; i++) {
-    if (recentPrices[i] > recentPrices[i - 1]) {
-      positiveFlow += recentFlows[i];
-    } else if (recentPrices[i] < recentPrices[i - 1]) {
-      negativeFlow += recentFlows[i];
+  for (let end = period; end < closes.length; end++) {
+    let positiveFlow = 0;
+    let negativeFlow = 0;
+    
+    for (let i = end - period + 1; i <= end; i++) {
+      if (typicalPrices[i] > typicalPrices[i - 1]) {
+        positiveFlow += moneyFlows[i];
+      } else if (typicalPrices[i] < typicalPrices[i - 1]) {
+        negativeFlow += moneyFlows[i];
+      }
     }
+    
+    series[end] = negativeFlow === 0 ? 100 : 100 - (100 / (1 + positiveFlow / negativeFlow));
   }
   
-  if (negativeFlow === 0) return 100;
-  
-  const moneyRatio = positiveFlow / negativeFlow;
-  return 100 - (100 / (1 + moneyRatio));
+  return series;
 }
 
 /**
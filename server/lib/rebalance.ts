@@ -0,0 +1,188 @@
+// Rebalancing planner
+// Turns target weights into the buy and sell orders that move a portfolio's current holdings
+// toward them. Positions already within the drift band and orders below the minimum size are
+// left alone; sells fund the buys (plus any new cash), and buys are scaled down when fees or
+// skipped sells would otherwise overspend. Committed plans are saved as ordinary trades.
+
+import { z } from 'zod';
+import type { InsertTrade, Portfolio, Trade } from '@shared/schema';
+import { priceFeed } from './priceFeed';
+import { storage } from '../storage';
+import { getPortfolioValuation, recordTrades } from './portfolio';
+import { recordPaperTrades } from './paperTrading';
+
+const WEIGHT_TOLERANCE = 0.01; // % slack when checking that targets sum to at most 100
+
+export const rebalanceTargetSchema = z.object({
+  symbol: z.string().min(1).transform(s => s.toUpperCase()),
+  weight: z.coerce.number().min(0).max(100), // %
+});
+
+export const rebalanceRequestSchema = z.object({
+  targets: z.array(rebalanceTargetSchema).min(1).max(100)
+    .refine(targets => new Set(targets.map(t => t.symbol)).size === targets.length, 'Each symbol can only be targeted once')
+    .refine(targets => targets.reduce((sum, t) => sum + t.weight, 0) <= 100 + WEIGHT_TOLERANCE, 'Target weights add up to more than 100%'),
+  driftBand: z.coerce.number().min(0).max(50).default(5), // Percentage points of drift tolerated
+  minTradeValue: z.coerce.number().min(0).default(10), // $
+  feeRate: z.coerce.number().min(0).max(0.05).default(0.001), // 0.1% per side, matches trade tax
+  cash: z.coerce.number().min(0).default(0), // New money to deploy alongside the holdings
+  dryRun: z.boolean().default(true),
+});
+
+export type RebalanceRequest = z.infer<typeof rebalanceRequestSchema>;
+
+export type RebalanceAction = 'buy' | 'sell' | 'hold';
+
+export interface RebalanceRow {
+  symbol: string;
+  price: number | null;
+  currentValue: number;
+  currentWeight: number; // %
+  targetWeight: number; // %
+  drift: number; // Current minus target, percentage points
+  action: RebalanceAction;
+  reason: string | null; // Why a drifting position is held
+  quantity: number; // Order size (0 when held)
+  value: number; // Order value before fees
+  fee: number;
+  postWeight: number; // % after the orders
+}
+
+export interface RebalancePlan {
+  totalValue: number; // Holdings plus new cash
+  cash: number;
+  rows: RebalanceRow[];
+  totals: {
+    buyValue: number;
+    sellValue: number;
+    fees: number;
+    turnover: number; // % of total value traded
+    residualCash: number; // Left uninvested after the orders
+  };
+}
+
+export interface RebalanceResult extends RebalancePlan {
+  trades: Trade[];
+}
+
+/**
+ * Orders that move the portfolio's holdings toward the target weights
+ */
+export async function planRebalance(portfolio: Portfolio, request: RebalanceRequest): Promise<RebalancePlan> {
+  const { holdings } = await getPortfolioValuation(portfolio);
+  const holdingsValue = holdings.reduce((sum, h) => sum + h.value, 0);
+  const totalValue = holdingsValue + request.cash;
+  if (totalValue <= 0) {
+    throw new Error('Nothing to rebalance: the portfolio has no holdings or cash');
+  }
+
+  // Held symbols without a target are sold down to zero
+  const targets = new Map(request.targets.map(t => [t.symbol, t.weight]));
+  const symbols = Array.from(new Set([...holdings.map(h => h.symbol), ...Array.from(targets.keys())]));
+
+  const rows: RebalanceRow[] = await Promise.all(symbols.map(async symbol => {
+    const holding = holdings.find(h => h.symbol === symbol);
+    const price = holding?.currentPrice ?? await priceFeed.getPrice(symbol);
+    const currentValue = holding?.value ?? 0;
+    const currentWeight = (currentValue / totalValue) * 100;
+    const targetWeight = targets.get(symbol) ?? 0;
+    const drift = currentWeight - targetWeight;
+    const delta = (targetWeight / 100) * totalValue - currentValue;
+
+    const row: RebalanceRow = {
+      symbol, price, currentValue, currentWeight, targetWeight, drift,
+      action: 'hold', reason: null, quantity: 0, value: 0, fee: 0, postWeight: currentWeight,
+    };
+    if (Math.abs(drift) <= request.driftBand) {
+      row.reason = Math.abs(drift) > 0 ? 'Within drift band' : null;
+    } else if (!price) {
+      row.reason = 'No price available';
+    } else if (Math.abs(delta) < request.minTradeValue) {
+      row.reason = 'Below minimum trade size';
+    } else {
+      row.action = delta > 0 ? 'buy' : 'sell';
+      // A full exit sells the exact holding rather than a price-rounded amount
+      row.quantity = targetWeight === 0 && holding ? holding.quantity : Math.abs(delta) / price;
+      row.value = row.quantity * price;
+    }
+    return row;
+  }));
+
+  // Sells (after fees) and new cash fund the buys; scale buys down if they would overspend
+  const sells = rows.filter(r => r.action === 'sell');
+  const buys = rows.filter(r => r.action === 'buy');
+  const available = request.cash + sells.reduce((sum, r) => sum + r.value * (1 - request.feeRate), 0);
+  const buyCost = buys.reduce((sum, r) => sum + r.value * (1 + request.feeRate), 0);
+  const scale = buyCost > available ? available / buyCost : 1;
+
+  for (const row of buys) {
+    row.quantity *= scale;
+    row.value *= scale;
+    if (row.value < request.minTradeValue) {
+      Object.assign(row, { action: 'hold', reason: 'Below minimum trade size', quantity: 0, value: 0 });
+    }
+  }
+  for (const row of rows) {
+    row.fee = row.value * request.feeRate;
+  }
+
+  const buyValue = buys.reduce((sum, r) => sum + r.value, 0);
+  const sellValue = sells.reduce((sum, r) => sum + r.value, 0);
+  const fees = rows.reduce((sum, r) => sum + r.fee, 0);
+  const residualCash = request.cash + sellValue - buyValue - fees;
+
+  for (const row of rows) {
+    const signed = row.action === 'buy' ? row.value : row.action === 'sell' ? -row.value : 0;
+    row.postWeight = ((row.currentValue + signed) / totalValue) * 100;
+  }
+
+  return {
+    totalValue,
+    cash: request.cash,
+    rows: rows.sort((a, b) => b.targetWeight - a.targetWeight || b.currentValue - a.currentValue),
+    totals: {
+      buyValue,
+      sellValue,
+      fees,
+      turnover: ((buyValue + sellValue) / totalValue) * 100,
+      residualCash,
+    },
+  };
+}
+
+/**
+ * Trades for a plan's orders, sells first so they fund the buys
+ */
+function planToTrades(portfolio: Portfolio, plan: RebalancePlan): InsertTrade[] {
+  const date = new Date();
+  return plan.rows
+    .filter(row => row.action !== 'hold')
+    .sort((a, b) => (a.action === b.action ? 0 : a.action === 'sell' ? -1 : 1))
+    .map(row => ({
+      portfolioId: portfolio.id,
+      symbol: row.symbol,
+      quantity: row.quantity.toFixed(8),
+      buyPrice: row.price!.toString(),
+      subtotal: row.value.toString(),
+      tax: row.fee.toString(),
+      totalCost: (row.action === 'buy' ? row.value + row.fee : row.value - row.fee).toString(),
+      side: row.action,
+      date,
+    }));
+}
+
+/**
+ * Plan the rebalance and save its orders as trades in one go. Paper portfolios pay their
+ * account's fee rate and settle the trades against its cash.
+ */
+export async function executeRebalance(portfolio: Portfolio, request: RebalanceRequest): Promise<RebalanceResult> {
+  const account = await storage.getPaperAccount(portfolio.id);
+  const plan = await planRebalance(portfolio, account ? { ...request, feeRate: parseFloat(account.feeRate) } : request);
+  const orders = planToTrades(portfolio, plan);
+  if (orders.length === 0) {
+    return { ...plan, trades: [] };
+  }
+
+  const trades = account ? await recordPaperTrades(portfolio, orders) : await recordTrades(portfolio, orders);
+  return { ...plan, trades };
+}
@@ -0,0 +1,389 @@
+// Screener
+// Filters the analyzed universe with expressions over engine output fields, e.g.
+//   scores.momentum > 70 and metrics.volatility.regime == "Low" and forecast.probability > 60
+// Expressions are tokenized and parsed into a small AST that is checked against the known
+// fields and evaluated directly; nothing is ever passed to eval or Function.
+
+import { z } from 'zod';
+import type { InsertScreen, StrategyProfile } from '@shared/schema';
+import { fetchTopCoins } from './marketData';
+import { analyzeSymbol, type QuantInterval } from './analysis';
+import { resolveProfile } from './profiles';
+import type { QuantEngineOutput } from './quant/engine';
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_DEPTH = 32; // Nesting of parentheses and `not`
+
+type FieldType = 'number' | 'string';
+
+/**
+ * Fields an expression can reference: QuantEngineOutput paths plus the coin's current price
+ */
+export const SCREEN_FIELDS: Record<string, FieldType> = {
+  symbol: 'string',
+  signal: 'string',
+  marketRegime: 'string',
+  confidence: 'number',
+  currentPrice: 'number',
+  'scores.trend': 'number',
+  'scores.momentum': 'number',
+  'scores.volatility': 'number',
+  'scores.volume': 'number',
+  'scores.risk': 'number',
+  'scores.sentiment': 'number',
+  'scores.compositeScore': 'number',
+  'forecast.direction': 'string',
+  'forecast.probability': 'number',
+  'forecast.trendContinuation': 'number',
+  'forecast.trendReversal': 'number',
+  'forecast.support': 'number',
+  'forecast.resistance': 'number',
+  'forecast.priceTarget': 'number',
+  'metrics.trend.slope': 'number',
+  'metrics.trend.hurstExponent': 'number',
+  'metrics.trend.macdHistogram': 'number',
+  'metrics.trend.trendDirection': 'string',
+  'metrics.momentum.zScore': 'number',
+  'metrics.momentum.sharpeRatio': 'number',
+  'metrics.momentum.sortinoRatio': 'number',
+  'metrics.momentum.rsi': 'number',
+  'metrics.momentum.rsiZ': 'number',
+  'metrics.momentum.roc': 'number',
+  'metrics.volatility.historicalVol': 'number',
+  'metrics.volatility.parkinsonVol': 'number',
+  'metrics.volatility.garmanKlassVol': 'number',
+  'metrics.volatility.atr': 'number',
+  'metrics.volatility.regime': 'string',
+  'metrics.volume.volumeZScore': 'number',
+  'metrics.volume.mfi': 'number',
+  'metrics.volume.priceVolumeConfirmation': 'string',
+  'metrics.risk.beta': 'number',
+  'metrics.risk.maxDrawdown': 'number',
+  'metrics.risk.downsideDeviation': 'number',
+  'metrics.risk.var95': 'number',
+  'metrics.risk.var99': 'number',
+};
+
+export const screenerRequestSchema = z.object({
+  expression: z.string().trim().min(1, 'Enter a filter expression').max(MAX_EXPRESSION_LENGTH),
+  interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+  profile: z.string().optional(),
+  limit: z.number().int().min(1).max(100).default(50), // Size of the universe (top coins by market cap)
+});
+
+export type ScreenerRequest = z.infer<typeof screenerRequestSchema>;
+
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+type Operand =
+  | { type: 'field'; path: string }
+  | { type: 'literal'; value: number | string };
+
+export type ScreenNode =
+  | { type: 'and' | 'or'; left: ScreenNode; right: ScreenNode }
+  | { type: 'not'; operand: ScreenNode }
+  | { type: 'compare'; operator: ComparisonOperator; left: Operand; right: Operand };
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'identifier'; value: string; pos: number }
+  | { kind: 'operator'; value: ComparisonOperator; pos: number }
+  | { kind: 'keyword'; value: 'and' | 'or' | 'not'; pos: number }
+  | { kind: 'paren'; value: '(' | ')'; pos: number }
+  | { kind: 'end'; pos: number };
+
+const SYMBOL_KEYWORDS: Record<string, 'and' | 'or' | 'not'> = { '&&': 'and', '||': 'or', '!': 'not' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const two = source.slice(i, i + 2);
+    if (['==', '!=', '>=', '<='].includes(two)) {
+      tokens.push({ kind: 'operator', value: two as ComparisonOperator, pos: start });
+      i += 2;
+    } else if (two === '&&' || two === '||') {
+      tokens.push({ kind: 'keyword', value: SYMBOL_KEYWORDS[two], pos: start });
+      i += 2;
+    } else if (char === '>' || char === '<') {
+      tokens.push({ kind: 'operator', value: char, pos: start });
+      i++;
+    } else if (char === '=') {
+      throw new Error(`Use == to compare (position ${start + 1})`);
+    } else if (char === '!') {
+      tokens.push({ kind: 'keyword', value: 'not', pos: start });
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char, pos: start });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new Error(`Unterminated string starting at position ${start + 1}`);
+      tokens.push({ kind: 'string', value: source.slice(i + 1, end), pos: start });
+      i = end + 1;
+    } else if (/[0-9.\-]/.test(char)) {
+      const match = /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new Error(`Unexpected "${char}" at position ${start + 1}`);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), pos: start });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i))!;
+      const word = match[0];
+      const keyword = word.toLowerCase();
+      if (keyword === 'and' || keyword === 'or' || keyword === 'not') {
+        tokens.push({ kind: 'keyword', value: keyword, pos: start });
+      } else {
+        tokens.push({ kind: 'identifier', value: word, pos: start });
+      }
+      i += word.length;
+    } else {
+      throw new Error(`Unexpected "${char}" at position ${start + 1}`);
+    }
+  }
+
+  tokens.push({ kind: 'end', pos: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent over: or := and ("or" and)*, and := not ("and" not)*,
+ * not := "not" not | "(" or ")" | operand op operand
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ScreenNode {
+    const node = this.parseOr(0);
+    const next = this.peek();
+    if (next.kind !== 'end') throw this.unexpected(next);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(value: 'and' | 'or' | 'not'): boolean {
+    const token = this.peek();
+    return token.kind === 'keyword' && token.value === value;
+  }
+
+  private unexpected(token: Token): Error {
+    return token.kind === 'end'
+      ? new Error('Expression ends unexpectedly')
+      : new Error(`Unexpected "${token.value}" at position ${token.pos + 1}`);
+  }
+
+  private parseOr(depth: number): ScreenNode {
+    let left = this.parseAnd(depth);
+    while (this.isKeyword('or')) {
+      this.next();
+      left = { type: 'or', left, right: this.parseAnd(depth) };
+    }
+    return left;
+  }
+
+  private parseAnd(depth: number): ScreenNode {
+    let left = this.parseUnary(depth);
+    while (this.isKeyword('and')) {
+      this.next();
+      left = { type: 'and', left, right: this.parseUnary(depth) };
+    }
+    return left;
+  }
+
+  private parseUnary(depth: number): ScreenNode {
+    if (depth > MAX_DEPTH) throw new Error('Expression is nested too deeply');
+
+    if (this.isKeyword('not')) {
+      this.next();
+      return { type: 'not', operand: this.parseUnary(depth + 1) };
+    }
+
+    const token = this.peek();
+    if (token.kind === 'paren' && token.value === '(') {
+      this.next();
+      const node = this.parseOr(depth + 1);
+      const close = this.next();
+      if (close.kind !== 'paren' || close.value !== ')') {
+        throw close.kind === 'end' ? new Error('Missing closing parenthesis') : this.unexpected(close);
+      }
+      return node;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ScreenNode {
+    const left = this.parseOperand();
+    const operator = this.next();
+    if (operator.kind !== 'operator') {
+      throw operator.kind === 'end'
+        ? new Error('Expected a comparison such as > 70 or == "Low"')
+        : this.unexpected(operator);
+    }
+    const right = this.parseOperand();
+
+    const leftType = operandType(left);
+    const rightType = operandType(right);
+    if (left.type === 'literal' && right.type === 'literal') {
+      throw new Error(`Compare a field, not two values (position ${operator.pos + 1})`);
+    }
+    if (leftType !== rightType) {
+      throw new Error(`Can't compare ${describe(left)} (${leftType}) with ${describe(right)} (${rightType})`);
+    }
+    if (leftType === 'string' && operator.value !== '==' && operator.value !== '!=') {
+      throw new Error(`Text fields only support == and != (position ${operator.pos + 1})`);
+    }
+
+    return { type: 'compare', operator: operator.value, left, right };
+  }
+
+  private parseOperand(): Operand {
+    const token = this.next();
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (!Object.prototype.hasOwnProperty.call(SCREEN_FIELDS, token.value)) {
+          throw new Error(`Unknown field "${token.value}" at position ${token.pos + 1}`);
+        }
+        return { type: 'field', path: token.value };
+      default:
+        throw this.unexpected(token);
+    }
+  }
+}
+
+function operandType(operand: Operand): FieldType {
+  return operand.type === 'field' ? SCREEN_FIELDS[operand.path] : typeof operand.value === 'number' ? 'number' : 'string';
+}
+
+function describe(operand: Operand): string {
+  return operand.type === 'field' ? operand.path : JSON.stringify(operand.value);
+}
+
+/**
+ * Parse and type-check an expression. Throws with a message pointing at the problem.
+ */
+export function parseScreenExpression(expression: string): ScreenNode {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  return new Parser(tokenize(expression)).parse();
+}
+
+function resolveField(row: Record<string, unknown>, path: string): unknown {
+  let value: unknown = row;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function resolveOperand(row: Record<string, unknown>, operand: Operand): unknown {
+  return operand.type === 'literal' ? operand.value : resolveField(row, operand.path);
+}
+
+/**
+ * Evaluate a parsed expression against one row. A missing field (e.g. no forecast) makes
+ * its comparison false; text equality ignores case.
+ */
+export function evaluateScreen(node: ScreenNode, row: Record<string, unknown>): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateScreen(node.left, row) && evaluateScreen(node.right, row);
+    case 'or':
+      return evaluateScreen(node.left, row) || evaluateScreen(node.right, row);
+    case 'not':
+      return !evaluateScreen(node.operand, row);
+    case 'compare': {
+      const left = resolveOperand(row, node.left);
+      const right = resolveOperand(row, node.right);
+
+      if (typeof left === 'string' && typeof right === 'string') {
+        const equal = left.toLowerCase() === right.toLowerCase();
+        return node.operator === '==' ? equal : node.operator === '!=' ? !equal : false;
+      }
+      if (typeof left !== 'number' || typeof right !== 'number' || !Number.isFinite(left) || !Number.isFinite(right)) {
+        return false;
+      }
+      switch (node.operator) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+      }
+    }
+  }
+}
+
+/**
+ * Check that a saved screen's expression parses and its profile exists
+ */
+export async function validateScreen(screen: Pick<InsertScreen, 'expression' | 'profile'>): Promise<void> {
+  parseScreenExpression(screen.expression);
+  if (!(await resolveProfile(screen.profile))) {
+    throw new Error(`Unknown strategy profile "${screen.profile}"`);
+  }
+}
+
+export type ScreenRow = QuantEngineOutput & { currentPrice: number };
+
+export interface ScreenerResult {
+  expression: string;
+  interval: QuantInterval;
+  profile: string;
+  evaluated: number; // Coins analyzed successfully
+  matches: ScreenRow[];
+}
+
+/**
+ * Analyze the top coins (reusing cached analyses) and keep the ones matching the expression
+ */
+export async function runScreen(request: ScreenerRequest, profile: StrategyProfile): Promise<ScreenerResult> {
+  const node = parseScreenExpression(request.expression);
+  const coins = await fetchTopCoins(request.limit);
+
+  const rows = await Promise.all(coins.map(async (coin): Promise<ScreenRow | null> => {
+    try {
+      const analysis = await analyzeSymbol(coin.symbol, { interval: request.interval, profile });
+      return analysis ? { ...analysis.result, symbol: coin.symbol.toUpperCase(), currentPrice: coin.current_price } : null;
+    } catch (error) {
+      console.error(`[screener] Failed to analyze ${coin.symbol}:`, error);
+      return null;
+    }
+  }));
+
+  const analyzed = rows.filter((row): row is ScreenRow => row !== null);
+  return {
+    expression: request.expression,
+    interval: request.interval,
+    profile: profile.name,
+    evaluated: analyzed.length,
+    matches: analyzed
+      .filter(row => evaluateScreen(node, row as unknown as Record<string, unknown>))
+      .sort((a, b) => b.scores.compositeScore - a.scores.compositeScore),
+  };
+}
@@ -0,0 +1,330 @@
+// Strategy runner
+// Trades a strategy profile's signals in a paper portfolio. After every bar close the engine
+// scores each symbol in the runner's universe from closed bars only; a transition into BUY opens
+// a position sized by the runner's rule and a transition into SELL closes it. Each run is logged
+// with its inputs, the decision for every symbol and the orders it placed.
+
+import { z } from 'zod';
+import type {
+  InsertStrategyRunner,
+  StrategyProfile,
+  StrategyRun,
+  StrategyRunDecision,
+  StrategyRunner,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { fetchOHLCData, klinesToOHLC, extractPriceVolume } from './marketData';
+import { runQuantEngine } from './quant/engine';
+import { profileToEngineConfig, resolveProfile } from './profiles';
+import { getPaperAccountSummary, placeOrder } from './paperTrading';
+import { computePositions, costBasisMethodOf } from './portfolio';
+import { priceFeed } from './priceFeed';
+import { INTERVAL_MS } from './outcomes';
+import type { QuantInterval } from './analysis';
+
+const SCHEDULE_INTERVAL = 60 * 1000; // Check for newly closed bars every minute
+const ENGINE_LOOKBACK = 200; // Bars fed to the engine, as in analyzeSymbol
+const MIN_BARS = 30;
+const MIN_ORDER_VALUE = 10; // $
+const WEEK_OFFSET = 4 * 24 * 60 * 60 * 1000; // Weekly bars open on Mondays; the epoch was a Thursday
+
+export const strategyRunsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type RunTrigger = 'schedule' | 'manual';
+
+// Runners currently evaluating, so a manual run can't overlap a scheduled one
+const inProgress = new Set<number>();
+
+/**
+ * Close time of the latest fully closed bar: the open of the bar now forming.
+ * Bars are aligned to UTC like the exchange's klines.
+ */
+export function latestBarClose(interval: QuantInterval, now: number = Date.now()): Date {
+  const ms = INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET : 0;
+  return new Date(Math.floor((now - offset) / ms) * ms + offset);
+}
+
+/**
+ * Check that a runner points at an owned, active paper portfolio and an existing profile
+ */
+export async function validateRunnerSetup(runner: Pick<InsertStrategyRunner, 'userId' | 'portfolioId' | 'profile'>): Promise<void> {
+  const portfolio = await storage.getPortfolio(runner.portfolioId);
+  if (!portfolio || portfolio.userId !== runner.userId) {
+    throw new Error('Portfolio not found');
+  }
+  if (portfolio.archived) {
+    throw new Error('Portfolio is archived');
+  }
+  if (!(await storage.getPaperAccount(portfolio.id))) {
+    throw new Error('Enable paper trading on the portfolio before attaching a runner');
+  }
+  if (!(await resolveProfile(runner.profile))) {
+    throw new Error(`Unknown strategy profile "${runner.profile}"`);
+  }
+}
+
+/**
+ * Engine output for a symbol from bars that closed by barClose. Throws when it can't be scored.
+ */
+async function scoreClosedBars(symbol: string, interval: QuantInterval, profile: StrategyProfile, barClose: Date) {
+  const klines = (await fetchOHLCData(symbol, interval, ENGINE_LOOKBACK + 1))
+    .filter(k => k.closeTime < barClose.getTime())
+    .slice(-ENGINE_LOOKBACK);
+  if (klines.length < MIN_BARS) {
+    throw new Error('Not enough price history');
+  }
+  if (barClose.getTime() - klines[klines.length - 1].closeTime > INTERVAL_MS[interval]) {
+    throw new Error('No recent bars');
+  }
+
+  const { closes, volumes } = extractPriceVolume(klines);
+  const { weights, thresholds } = profileToEngineConfig(profile);
+  const result = await runQuantEngine({
+    symbol,
+    prices: closes,
+    ohlc: klinesToOHLC(klines),
+    volumes,
+    interval,
+    sentimentScore: 50, // Neutral, as in analyzeSymbol
+    weights,
+    thresholds,
+  });
+  return { result, price: closes[closes.length - 1] };
+}
+
+/**
+ * Dollar amount for a new position under the runner's sizing rule
+ */
+function entryValue(runner: StrategyRunner, equity: number): number {
+  switch (runner.sizingMethod) {
+    case 'fixed-amount':
+      return parseFloat(runner.sizingValue!);
+    case 'equity-percent':
+      return (equity * parseFloat(runner.sizingValue!)) / 100;
+    default:
+      return equity / runner.universe.length;
+  }
+}
+
+const emptyDecision = (symbol: string, previousSignal: string | null): StrategyRunDecision => ({
+  symbol,
+  signal: null,
+  previousSignal,
+  compositeScore: null,
+  price: null,
+  action: 'none',
+  reason: null,
+  orderId: null,
+  orderStatus: null,
+  quantity: null,
+  fillPrice: null,
+});
+
+/**
+ * Score the universe, turn signal transitions into market orders and log the run.
+ * Sells go first so their proceeds can fund the buys.
+ */
+async function evaluate(runner: StrategyRunner, barCloseTime: Date, inputs: Record<string, unknown>) {
+  const portfolio = await storage.getPortfolio(runner.portfolioId);
+  if (!portfolio || portfolio.archived) {
+    throw new Error('The paper portfolio is missing or archived');
+  }
+  const profile = await resolveProfile(runner.profile);
+  if (!profile) {
+    throw new Error(`Unknown strategy profile "${runner.profile}"`);
+  }
+  const account = await getPaperAccountSummary(portfolio);
+  if (!account) {
+    throw new Error('Paper trading is not enabled for this portfolio');
+  }
+  Object.assign(inputs, { cash: account.cash, equity: account.equity });
+
+  const interval = runner.interval as QuantInterval;
+  const { positions } = computePositions(await storage.getTradesByPortfolioId(portfolio.id), costBasisMethodOf(portfolio));
+  const decisions: StrategyRunDecision[] = [];
+
+  for (const symbol of runner.universe) {
+    const decision = emptyDecision(symbol, runner.lastSignals[symbol] ?? null);
+    decisions.push(decision);
+
+    let scored: Awaited<ReturnType<typeof scoreClosedBars>>;
+    try {
+      scored = await scoreClosedBars(symbol, interval, profile, barCloseTime);
+    } catch (error: any) {
+      decision.reason = error.message || 'Scoring failed';
+      continue;
+    }
+
+    decision.signal = scored.result.signal;
+    decision.compositeScore = scored.result.scores.compositeScore;
+    decision.price = scored.price;
+
+    // Only a change of signal trades. The first signal seen for a symbol (a new runner, or one
+    // just added to the universe) is only recorded: an existing BUY is not a change into BUY.
+    const previous = decision.previousSignal;
+    const held = positions[symbol]?.quantity ?? 0;
+    if (previous === null) {
+      decision.reason = 'First signal, trades start on the next change';
+    } else if (decision.signal === 'SELL' && previous !== 'SELL') {
+      if (held > 0) {
+        decision.action = 'sell';
+        decision.quantity = held;
+      } else {
+        decision.reason = 'No position to close';
+      }
+    } else if (decision.signal === 'BUY' && previous !== 'BUY') {
+      if (held > 0) {
+        decision.reason = 'Already holding';
+      } else {
+        decision.action = 'buy';
+      }
+    }
+  }
+
+  const orderIds: number[] = [];
+  const submit = async (decision: StrategyRunDecision) => {
+    try {
+      const order = await placeOrder(portfolio, {
+        portfolioId: portfolio.id,
+        symbol: decision.symbol,
+        side: decision.action as 'buy' | 'sell',
+        type: 'market',
+        quantity: decision.quantity!.toFixed(8),
+      });
+      orderIds.push(order.id);
+      decision.orderId = order.id;
+      decision.orderStatus = order.status;
+      decision.fillPrice = order.fillPrice ? parseFloat(order.fillPrice) : null;
+      decision.reason = order.cancelReason;
+    } catch (error: any) {
+      decision.reason = error.message || 'Order rejected';
+    }
+  };
+
+  for (const decision of decisions.filter(d => d.action === 'sell')) {
+    await submit(decision);
+  }
+
+  const buys = decisions.filter(d => d.action === 'buy');
+  if (buys.length > 0) {
+    const { availableCash } = (await getPaperAccountSummary(portfolio))!;
+    const { slippageBps, feeRate } = account.account;
+    const costFactor = 1 + parseFloat(feeRate) + slippageBps / 10000;
+    let remaining = availableCash;
+
+    for (const decision of buys) {
+      const price = await priceFeed.getPrice(decision.symbol);
+      const value = Math.min(entryValue(runner, account.equity), remaining / costFactor);
+      if (!price) {
+        decision.reason = 'No price available';
+      } else if (value < MIN_ORDER_VALUE) {
+        decision.reason = 'Not enough cash';
+      } else {
+        decision.quantity = value / price;
+        await submit(decision);
+        if (decision.orderStatus === 'filled') remaining -= value * costFactor;
+      }
+    }
+  }
+
+  return { decisions, orderIds };
+}
+
+/**
+ * Evaluate a runner on the latest closed bar and record the run, successful or not
+ */
+export async function runStrategy(runner: StrategyRunner, trigger: RunTrigger): Promise<StrategyRun> {
+  if (inProgress.has(runner.id)) {
+    throw new Error('This runner is already running');
+  }
+  inProgress.add(runner.id);
+
+  const barCloseTime = latestBarClose(runner.interval as QuantInterval);
+  const inputs: Record<string, unknown> = {
+    profile: runner.profile,
+    interval: runner.interval,
+    universe: runner.universe,
+    sizingMethod: runner.sizingMethod,
+    sizingValue: runner.sizingValue,
+  };
+
+  try {
+    const { decisions, orderIds } = await evaluate(runner, barCloseTime, inputs);
+    const lastSignals = { ...runner.lastSignals };
+    for (const decision of decisions) {
+      if (decision.signal) lastSignals[decision.symbol] = decision.signal;
+    }
+    await storage.updateStrategyRunner(runner.id, { lastSignals, lastBarCloseTime: barCloseTime });
+    return await storage.createStrategyRun({
+      runnerId: runner.id,
+      trigger,
+      status: 'completed',
+      barCloseTime,
+      inputs,
+      decisions,
+      orderIds,
+    });
+  } catch (error: any) {
+    // Don't retry every minute; the next bar close tries again
+    await storage.updateStrategyRunner(runner.id, { lastBarCloseTime: barCloseTime });
+    return await storage.createStrategyRun({
+      runnerId: runner.id,
+      trigger,
+      status: 'failed',
+      barCloseTime,
+      inputs,
+      decisions: [],
+      orderIds: [],
+      error: error.message || 'Run failed',
+    });
+  } finally {
+    inProgress.delete(runner.id);
+  }
+}
+
+/**
+ * Run every active runner whose interval has closed a bar since its last run.
+ * A runner that has never run waits for the next close rather than trading a stale bar.
+ */
+export async function runDueStrategies(now: number = Date.now()): Promise<StrategyRun[]> {
+  const runs: StrategyRun[] = [];
+
+  for (const runner of await storage.getActiveStrategyRunners()) {
+    const barClose = latestBarClose(runner.interval as QuantInterval, now);
+    if (!runner.lastBarCloseTime) {
+      await storage.updateStrategyRunner(runner.id, { lastBarCloseTime: barClose });
+      continue;
+    }
+    if (runner.lastBarCloseTime >= barClose || inProgress.has(runner.id)) continue;
+
+    try {
+      runs.push(await runStrategy(runner, 'schedule'));
+    } catch (error) {
+      console.error(`[strategies] Runner ${runner.id} failed:`, error);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Check for due strategy runners on a fixed schedule
+ */
+export function startStrategyRunner(): void {
+  let running = false;
+
+  setInterval(() => {
+    // Skip a tick rather than overlap when a slow run is still in progress
+    if (running) return;
+    running = true;
+
+    runDueStrategies()
+      .then(runs => {
+        if (runs.length > 0) console.log(`[strategies] Completed ${runs.length} strategy runs`);
+      })
+      .catch(error => console.error('[strategies] Scheduling failed:', error))
+      .finally(() => { running = false; });
+  }, SCHEDULE_INTERVAL);
+}
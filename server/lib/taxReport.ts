@@ -0,0 +1,260 @@
+// Capital gains tax report
+// One row per disposal (a sell closing one buy lot) from the realized PnL logs, with trading
+// fees folded in: the buy's fee adds to the cost basis and the sell's fee reduces proceeds,
+// both prorated by the quantity matched.
+
+import { z } from 'zod';
+import type { Portfolio, RealizedPnlLog, Trade } from '@shared/schema';
+import { storage } from '../storage';
+import { replayLots, toRealizedPnlLogs } from './lots';
+import { costBasisMethodOf } from './portfolio';
+
+export type HoldingPeriod = 'short' | 'long';
+
+export interface Disposal {
+  portfolioId: number;
+  portfolioName: string;
+  symbol: string;
+  quantity: number;
+  acquiredAt: Date;
+  soldAt: Date;
+  proceeds: number; // Sale value less the sell fee
+  costBasis: number; // Purchase cost plus the buy fee
+  gain: number;
+  holdingPeriod: HoldingPeriod;
+  sellTradeId: number | null;
+  lotTradeId: number | null;
+}
+
+export interface TaxTotals {
+  disposals: number;
+  proceeds: number;
+  costBasis: number;
+  shortTermGain: number;
+  longTermGain: number;
+  totalGain: number;
+}
+
+export interface TaxYear extends TaxTotals {
+  year: number;
+}
+
+export interface TaxReport {
+  generatedAt: Date;
+  year: number | null; // null covers every year
+  portfolios: Array<{ id: number; name: string; costBasisMethod: string }>;
+  disposals: Disposal[];
+  years: TaxYear[];
+  totals: TaxTotals;
+}
+
+export const taxReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(1970).max(9999).optional(),
+  format: z.enum(['json', 'csv', 'html']).default('json'),
+});
+
+/**
+ * Long term once the asset was held for more than a year
+ */
+export function holdingPeriod(acquiredAt: Date, soldAt: Date): HoldingPeriod {
+  const anniversary = new Date(acquiredAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return soldAt.getTime() > anniversary.getTime() ? 'long' : 'short';
+}
+
+/**
+ * Share of a trade's fee that belongs to `quantity` of it
+ */
+function proratedFee(trade: Trade | undefined, quantity: number): number {
+  if (!trade?.tax) return 0;
+  const tradeQuantity = parseFloat(trade.quantity);
+  return tradeQuantity > 0 ? (parseFloat(trade.tax) * quantity) / tradeQuantity : 0;
+}
+
+function toDisposal(portfolio: Portfolio, log: RealizedPnlLog, tradesById: Map<number, Trade>): Disposal {
+  const sell = log.tradeId !== null ? tradesById.get(log.tradeId) : undefined;
+  const lot = log.lotTradeId !== null ? tradesById.get(log.lotTradeId) : undefined;
+  const quantity = parseFloat(log.quantity);
+  const soldAt = log.soldAt ?? (sell ? new Date(sell.date) : log.createdAt);
+  const acquiredAt = log.acquiredAt ?? (lot ? new Date(lot.date) : soldAt);
+
+  const proceeds = parseFloat(log.sellPrice) * quantity - proratedFee(sell, quantity);
+  const costBasis = parseFloat(log.buyPrice) * quantity + proratedFee(lot, quantity);
+
+  return {
+    portfolioId: portfolio.id,
+    portfolioName: portfolio.name,
+    symbol: log.symbol,
+    quantity,
+    acquiredAt,
+    soldAt,
+    proceeds,
+    costBasis,
+    gain: proceeds - costBasis,
+    holdingPeriod: holdingPeriod(acquiredAt, soldAt),
+    sellTradeId: log.tradeId,
+    lotTradeId: log.lotTradeId,
+  };
+}
+
+/**
+ * Lot matches replayed from the trades, shaped like stored logs. Used for portfolios whose logs
+ * predate lot accounting; the report stays read-only and their next trade change rewrites them.
+ */
+function replayedLogs(portfolio: Portfolio, trades: Trade[]): RealizedPnlLog[] {
+  const ledger = replayLots(trades, costBasisMethodOf(portfolio));
+  return toRealizedPnlLogs(portfolio.id, ledger).map((log, i) => ({ ...log, id: -(i + 1), createdAt: new Date() }) as RealizedPnlLog);
+}
+
+function emptyTotals(): TaxTotals {
+  return { disposals: 0, proceeds: 0, costBasis: 0, shortTermGain: 0, longTermGain: 0, totalGain: 0 };
+}
+
+function addDisposal(totals: TaxTotals, disposal: Disposal): void {
+  totals.disposals++;
+  totals.proceeds += disposal.proceeds;
+  totals.costBasis += disposal.costBasis;
+  totals.totalGain += disposal.gain;
+  if (disposal.holdingPeriod === 'long') totals.longTermGain += disposal.gain;
+  else totals.shortTermGain += disposal.gain;
+}
+
+/**
+ * Disposals and yearly totals across the given portfolios, optionally for one tax year
+ */
+export async function buildTaxReport(portfolios: Portfolio[], year?: number): Promise<TaxReport> {
+  const disposals: Disposal[] = [];
+
+  for (const portfolio of portfolios) {
+    const trades = await storage.getTradesByPortfolioId(portfolio.id);
+    const stored = await storage.getRealizedPnlLogsByPortfolioId(portfolio.id);
+    // Logs written before lot accounting carry no lot or dates
+    const logs = stored.some(log => log.lotTradeId === null) ? replayedLogs(portfolio, trades) : stored;
+    const tradesById = new Map(trades.map(trade => [trade.id, trade]));
+    disposals.push(...logs.map(log => toDisposal(portfolio, log, tradesById)));
+  }
+
+  const inScope = disposals
+    .filter(disposal => year === undefined || disposal.soldAt.getUTCFullYear() === year)
+    .sort((a, b) => a.soldAt.getTime() - b.soldAt.getTime() || a.acquiredAt.getTime() - b.acquiredAt.getTime());
+
+  const byYear = new Map<number, TaxYear>();
+  const totals = emptyTotals();
+  for (const disposal of inScope) {
+    const disposalYear = disposal.soldAt.getUTCFullYear();
+    const summary = byYear.get(disposalYear) ?? { year: disposalYear, ...emptyTotals() };
+    addDisposal(summary, disposal);
+    addDisposal(totals, disposal);
+    byYear.set(disposalYear, summary);
+  }
+
+  return {
+    generatedAt: new Date(),
+    year: year ?? null,
+    portfolios: portfolios.map(p => ({ id: p.id, name: p.name, costBasisMethod: costBasisMethodOf(p) })),
+    disposals: inScope,
+    years: Array.from(byYear.values()).sort((a, b) => a.year - b.year),
+    totals,
+  };
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+const formatMoney = (value: number) => value.toFixed(2);
+const formatQuantity = (value: number) => parseFloat(value.toFixed(8)).toString();
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One line per disposal, in the column order most tax tools import
+ */
+export function taxReportToCsv(report: TaxReport): string {
+  const header = ['Portfolio', 'Asset', 'Quantity', 'Date Acquired', 'Date Sold', 'Proceeds', 'Cost Basis', 'Gain/Loss', 'Term'];
+  const rows = report.disposals.map(d => [
+    d.portfolioName,
+    d.symbol,
+    formatQuantity(d.quantity),
+    formatDate(d.acquiredAt),
+    formatDate(d.soldAt),
+    formatMoney(d.proceeds),
+    formatMoney(d.costBasis),
+    formatMoney(d.gain),
+    d.holdingPeriod === 'long' ? 'Long' : 'Short',
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function totalsRow(label: string, totals: TaxTotals): string {
+  return `<tr class="total"><td colspan="5">${escapeHtml(label)}</td>` +
+    `<td>${formatMoney(totals.proceeds)}</td><td>${formatMoney(totals.costBasis)}</td>` +
+    `<td>${formatMoney(totals.totalGain)}</td><td></td></tr>`;
+}
+
+/**
+ * Standalone printable report; the browser's print dialog saves it as PDF
+ */
+export function taxReportToHtml(report: TaxReport): string {
+  const scope = report.portfolios.map(p => `${p.name} (${p.costBasisMethod.toUpperCase()})`).join(', ');
+  const period = report.year === null ? 'All years' : `Tax year ${report.year}`;
+
+  const summaryRows = report.years.map(y =>
+    `<tr><td>${y.year}</td><td>${y.disposals}</td><td>${formatMoney(y.proceeds)}</td><td>${formatMoney(y.costBasis)}</td>` +
+    `<td>${formatMoney(y.shortTermGain)}</td><td>${formatMoney(y.longTermGain)}</td><td>${formatMoney(y.totalGain)}</td></tr>`
+  ).join('');
+
+  const disposalSections = report.years.map(y => {
+    const rows = report.disposals
+      .filter(d => d.soldAt.getUTCFullYear() === y.year)
+      .map(d =>
+        `<tr><td>${escapeHtml(d.portfolioName)}</td><td>${escapeHtml(d.symbol)}</td><td>${formatQuantity(d.quantity)}</td>` +
+        `<td>${formatDate(d.acquiredAt)}</td><td>${formatDate(d.soldAt)}</td><td>${formatMoney(d.proceeds)}</td>` +
+        `<td>${formatMoney(d.costBasis)}</td><td>${formatMoney(d.gain)}</td><td>${d.holdingPeriod === 'long' ? 'Long' : 'Short'}</td></tr>`
+      ).join('');
+    return `<h2>${y.year}</h2>
+<table>
+<thead><tr><th>Portfolio</th><th>Asset</th><th>Quantity</th><th>Acquired</th><th>Sold</th><th>Proceeds</th><th>Cost Basis</th><th>Gain/Loss</th><th>Term</th></tr></thead>
+<tbody>${rows}${totalsRow(`Total ${y.year}`, y)}</tbody>
+</table>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Capital Gains Report - ${escapeHtml(period)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #111; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .meta { color: #555; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #ddd; text-align: right; }
+  th:first-child, td:first-child, th:nth-child(2), td:nth-child(2) { text-align: left; }
+  tr.total td { font-weight: bold; border-top: 2px solid #111; }
+  .print { margin-bottom: 16px; }
+  @media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<h1>Capital Gains Report</h1>
+<div class="meta">${escapeHtml(period)} &middot; ${escapeHtml(scope)} &middot; Generated ${formatDate(report.generatedAt)}</div>
+<h2>Summary</h2>
+<table>
+<thead><tr><th>Year</th><th>Disposals</th><th>Proceeds</th><th>Cost Basis</th><th>Short Term</th><th>Long Term</th><th>Total</th></tr></thead>
+<tbody>${summaryRows}</tbody>
+</table>
+${disposalSections || '<p>No disposals in this period.</p>'}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,365 @@
+// CSV import of exchange trade history
+// Rows are mapped to trades through a column mapping (generic, or a preset for a known
+// exchange export layout), validated against insertTradeSchema, checked for duplicates
+// and replayed against the portfolio's lots before anything is written.
+
+import { z } from 'zod';
+import { insertTradeSchema, type InsertTrade, type Portfolio, type Trade } from '@shared/schema';
+import { storage } from '../storage';
+import { newIssues, replayLots } from './lots';
+import { costBasisMethodOf, syncRealizedPnlLogs } from './portfolio';
+
+const MAX_IMPORT_ROWS = 5000;
+
+// Quote currencies treated as USD; pairs quoted in anything else are rejected
+const USD_QUOTES = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'ZUSD', 'USD'];
+
+// Exchange-specific asset codes (Kraken)
+const ASSET_ALIASES: Record<string, string> = { XBT: 'BTC', XXBT: 'BTC', XDG: 'DOGE', XXDG: 'DOGE', XETH: 'ETH' };
+
+export const columnMappingSchema = z.object({
+  date: z.string().min(1),
+  symbol: z.string().min(1),
+  side: z.string().min(1),
+  quantity: z.string().min(1),
+  price: z.string().min(1),
+  fee: z.string().optional(),
+});
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+export interface ImportPreset {
+  name: string;
+  label: string;
+  columns: ColumnMapping;
+  pairs: boolean; // The symbol column holds a trading pair such as BTCUSDT
+}
+
+export const IMPORT_PRESETS = {
+  generic: {
+    name: 'generic',
+    label: 'Generic CSV',
+    columns: { date: 'date', symbol: 'symbol', side: 'side', quantity: 'quantity', price: 'price', fee: 'fee' },
+    pairs: false,
+  },
+  binance: {
+    name: 'binance',
+    label: 'Binance (Spot trade history)',
+    columns: { date: 'Date(UTC)', symbol: 'Pair', side: 'Side', quantity: 'Executed', price: 'Price', fee: 'Fee' },
+    pairs: true,
+  },
+  coinbase: {
+    name: 'coinbase',
+    label: 'Coinbase (Transaction history)',
+    columns: {
+      date: 'Timestamp',
+      symbol: 'Asset',
+      side: 'Transaction Type',
+      quantity: 'Quantity Transacted',
+      price: 'Spot Price at Transaction',
+      fee: 'Fees and/or Spread',
+    },
+    pairs: false,
+  },
+  kraken: {
+    name: 'kraken',
+    label: 'Kraken (Trades)',
+    columns: { date: 'time', symbol: 'pair', side: 'type', quantity: 'vol', price: 'price', fee: 'fee' },
+    pairs: true,
+  },
+} satisfies Record<string, ImportPreset>;
+
+export type ImportPresetName = keyof typeof IMPORT_PRESETS;
+
+export const tradeImportRequestSchema = z.object({
+  csv: z.string().min(1, 'CSV is empty'),
+  preset: z.enum(Object.keys(IMPORT_PRESETS) as [ImportPresetName, ...ImportPresetName[]]).default('generic'),
+  mapping: columnMappingSchema.partial().optional(), // Overrides the preset's column names
+  dryRun: z.boolean().default(true),
+});
+export type TradeImportRequest = z.infer<typeof tradeImportRequestSchema>;
+
+export type ImportRowStatus = 'valid' | 'duplicate' | 'invalid' | 'skipped';
+
+export interface ImportRow {
+  row: number; // CSV record number, header included
+  status: ImportRowStatus;
+  values: Record<string, string>;
+  trade: InsertTrade | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  preset: ImportPresetName;
+  mapping: ColumnMapping;
+  columns: string[];
+  rows: ImportRow[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+export interface ImportResult extends ImportPreview {
+  imported: number;
+}
+
+/**
+ * RFC 4180 records: quoted fields may hold commas, doubled quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Leading number of a cell such as "1,234.5", "$42.10" or "0.0012BTC", with the unit that follows it
+ */
+function parseAmount(value: string | undefined): { amount: number; unit: string | null } {
+  const cleaned = (value ?? '').replace(/[,$\s]/g, '');
+  const match = cleaned.match(/^-?\d*\.?\d+(?:e-?\d+)?/i);
+  if (!match) return { amount: NaN, unit: null };
+  const unit = cleaned.slice(match[0].length).toUpperCase();
+  return { amount: Math.abs(parseFloat(match[0])), unit: unit || null };
+}
+
+/**
+ * Exchange timestamps; values without a timezone are taken as UTC, plain numbers as epoch seconds or ms
+ */
+function parseTimestamp(value: string): Date | null {
+  const trimmed = value.trim().replace(/\s*UTC$/i, 'Z');
+  let date: Date;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const epoch = parseFloat(trimmed);
+    date = new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+  } else if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(trimmed)) {
+    date = new Date(`${trimmed.replace(' ', 'T')}Z`);
+  } else {
+    date = new Date(trimmed.replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T'));
+  }
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function normalizeAsset(asset: string): string {
+  const upper = asset.trim().toUpperCase();
+  return ASSET_ALIASES[upper] ?? upper;
+}
+
+/**
+ * Base asset of a USD-quoted pair ("BTCUSDT", "BTC-USD", "XXBTZUSD"), or null for other quotes
+ */
+function baseOfPair(pair: string): string | null {
+  const cleaned = pair.trim().toUpperCase().replace(/[-_/]/g, '');
+  const quote = USD_QUOTES.find(q => cleaned.endsWith(q) && cleaned.length > q.length);
+  return quote ? normalizeAsset(cleaned.slice(0, -quote.length)) : null;
+}
+
+function parseSide(value: string): 'buy' | 'sell' | null {
+  const lower = value.trim().toLowerCase();
+  if (lower.includes('buy')) return 'buy';
+  if (lower.includes('sell')) return 'sell';
+  return null;
+}
+
+/**
+ * Same trade, as far as an exchange export can tell: symbol, side, time to the second, quantity and price
+ */
+function duplicateKey(trade: Pick<Trade, 'symbol' | 'side' | 'quantity' | 'buyPrice'> & { date: Date | string }): string {
+  return [
+    trade.symbol,
+    trade.side,
+    Math.floor(new Date(trade.date).getTime() / 1000),
+    parseFloat(trade.quantity).toFixed(8),
+    parseFloat(trade.buyPrice).toFixed(2),
+  ].join('|');
+}
+
+function toRow(
+  portfolioId: number,
+  row: number,
+  values: Record<string, string>,
+  mapping: ColumnMapping,
+  pairs: boolean
+): ImportRow {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const result = (status: ImportRowStatus, trade: InsertTrade | null = null): ImportRow =>
+    ({ row, status, values, trade, errors, warnings });
+
+  const side = parseSide(values[mapping.side] ?? '');
+  if (!side) {
+    warnings.push(`Not a trade: "${values[mapping.side] ?? ''}"`);
+    return result('skipped');
+  }
+
+  const rawSymbol = values[mapping.symbol] ?? '';
+  const symbol = pairs ? baseOfPair(rawSymbol) : normalizeAsset(rawSymbol);
+  if (!symbol) errors.push(`Only USD-quoted pairs can be imported, got "${rawSymbol}"`);
+
+  const date = parseTimestamp(values[mapping.date] ?? '');
+  if (!date) errors.push(`Invalid date "${values[mapping.date] ?? ''}"`);
+
+  const { amount: quantity } = parseAmount(values[mapping.quantity]);
+  const { amount: price } = parseAmount(values[mapping.price]);
+  if (!(quantity > 0)) errors.push(`Invalid quantity "${values[mapping.quantity] ?? ''}"`);
+  if (!(price > 0)) errors.push(`Invalid price "${values[mapping.price] ?? ''}"`);
+
+  let fee = 0;
+  if (mapping.fee && values[mapping.fee]) {
+    const parsed = parseAmount(values[mapping.fee]);
+    if (Number.isNaN(parsed.amount)) {
+      warnings.push(`Fee "${values[mapping.fee]}" not understood; imported without a fee`);
+    } else if (parsed.unit && !USD_QUOTES.includes(parsed.unit)) {
+      warnings.push(`Fee paid in ${parsed.unit} is not counted`);
+    } else {
+      fee = parsed.amount;
+    }
+  }
+
+  if (errors.length > 0) return result('invalid');
+
+  const subtotal = quantity * price;
+  const parsed = insertTradeSchema.safeParse({
+    portfolioId,
+    symbol,
+    quantity: quantity.toString(),
+    buyPrice: price.toString(), // Sell price for sells, as everywhere else
+    subtotal: subtotal.toString(),
+    tax: fee.toString(),
+    totalCost: (side === 'buy' ? subtotal + fee : subtotal - fee).toString(),
+    side,
+    date,
+  });
+  if (!parsed.success) {
+    errors.push(...parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`));
+    return result('invalid');
+  }
+  return result('valid', parsed.data);
+}
+
+/**
+ * Parse, validate and check a CSV against the portfolio without writing anything
+ */
+export async function previewTradeImport(portfolio: Portfolio, request: TradeImportRequest): Promise<ImportPreview> {
+  const preset: ImportPreset = IMPORT_PRESETS[request.preset];
+  const mapping = { ...preset.columns, ...request.mapping } as ColumnMapping;
+  const records = parseCsv(request.csv);
+
+  // Exports such as Coinbase's start with a preamble; the header is the first record with the mapped columns
+  const required = [mapping.date, mapping.symbol, mapping.side, mapping.quantity, mapping.price].map(c => c.toLowerCase());
+  const headerIndex = records.findIndex(record => {
+    const names = record.map(name => name.trim().toLowerCase());
+    return required.every(column => names.includes(column));
+  });
+  if (headerIndex === -1) {
+    throw new Error(`CSV has no header row with the columns ${required.join(', ')}`);
+  }
+
+  const header = records[headerIndex].map(name => name.trim());
+  const dataRecords = records.slice(headerIndex + 1);
+  if (dataRecords.length > MAX_IMPORT_ROWS) {
+    throw new Error(`CSV has ${dataRecords.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+  }
+
+  // Match column names case-insensitively
+  const byLowerName = new Map(header.map((name, i) => [name.toLowerCase(), i]));
+  const resolved = Object.fromEntries(
+    Object.entries(mapping).map(([key, column]) => [key, column ? header[byLowerName.get(column.toLowerCase()) ?? -1] : column])
+  ) as ColumnMapping;
+
+  const rows = dataRecords.map((record, i) => {
+    const values = Object.fromEntries(header.map((name, column) => [name, (record[column] ?? '').trim()]));
+    return toRow(portfolio.id, headerIndex + i + 2, values, resolved, preset.pairs);
+  });
+
+  // Each stored trade accounts for one matching row, so re-importing a file adds nothing while
+  // identical partial fills within one file (common in Binance exports) are all kept
+  const existing = await storage.getTradesByPortfolioId(portfolio.id);
+  const stored = new Map<string, number>();
+  for (const trade of existing) {
+    const key = duplicateKey(trade);
+    stored.set(key, (stored.get(key) ?? 0) + 1);
+  }
+  const firstInFile = new Map<string, number>();
+  for (const row of rows) {
+    if (row.status !== 'valid' || !row.trade) continue;
+    const key = duplicateKey(row.trade);
+    const unmatched = stored.get(key) ?? 0;
+    if (unmatched > 0) {
+      stored.set(key, unmatched - 1);
+      row.status = 'duplicate';
+      row.warnings.push('Already recorded');
+      continue;
+    }
+    const first = firstInFile.get(key);
+    if (first !== undefined) {
+      row.warnings.push(`Same as row ${first}; imported as a separate fill`);
+    } else {
+      firstInFile.set(key, row.row);
+    }
+  }
+
+  // Replay with the new trades so sells the portfolio can't cover are caught before import
+  const method = costBasisMethodOf(portfolio);
+  const candidates = rows.filter(row => row.status === 'valid');
+  const candidateIds = new Map(candidates.map((row, i) => [Number.MAX_SAFE_INTEGER - candidates.length + i, row]));
+  const asTrades = Array.from(candidateIds, ([id, row]) => ({ ...row.trade!, id, lots: null, createdAt: new Date() } as Trade));
+  for (const issue of newIssues(replayLots(existing, method), replayLots([...existing, ...asTrades], method))) {
+    const row = candidateIds.get(issue.tradeId);
+    if (!row) continue;
+    row.status = 'invalid';
+    row.errors.push(issue.message);
+  }
+
+  const counts: Record<ImportRowStatus, number> = { valid: 0, duplicate: 0, invalid: 0, skipped: 0 };
+  rows.forEach(row => counts[row.status]++);
+
+  return { preset: request.preset, mapping: resolved, columns: header, rows, counts };
+}
+
+/**
+ * Insert the valid rows of a previewed import in one transaction, then re-match realized PnL.
+ * Duplicate, invalid and skipped rows are left out.
+ */
+export async function importTrades(portfolio: Portfolio, request: TradeImportRequest): Promise<ImportResult> {
+  const preview = await previewTradeImport(portfolio, request);
+  const trades = preview.rows.filter(row => row.status === 'valid').map(row => row.trade!);
+
+  if (trades.length > 0) {
+    await storage.createTrades(trades);
+    await syncRealizedPnlLogs(portfolio);
+  }
+  return { ...preview, imported: trades.length };
+}
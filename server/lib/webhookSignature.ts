@@ -0,0 +1,32 @@
+// Webhook payload signing
+// Kept free of storage/db imports so standalone receivers can verify signatures
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-QuantEdge-Signature';
+export const EVENT_HEADER = 'X-QuantEdge-Event';
+
+const SIGNATURE_TOLERANCE = 5 * 60; // Seconds a signed timestamp stays valid
+
+/**
+ * Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+export function signPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a signature header against the raw request body
+ */
+export function verifySignature(secret: string, body: string, header: string | undefined): boolean {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+  const timestamp = parseInt(parts.t);
+  if (isNaN(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE) return false;
+
+  const expected = Buffer.from(signPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
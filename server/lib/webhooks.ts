@@ -0,0 +1,195 @@
+// Webhook delivery
+// Signs event payloads with each endpoint's secret, POSTs them to subscribed endpoints,
+// retries failures with exponential backoff and keeps a delivery log
+
+import { randomBytes, randomUUID } from 'crypto';
+import type { WebhookDelivery, WebhookEndpoint } from '@shared/schema';
+import { storage } from '../storage';
+import { EVENT_HEADER, SIGNATURE_HEADER, signPayload } from './webhookSignature';
+
+export type WebhookEventType = 'signal.changed' | 'regime.changed' | 'alert.triggered' | 'test';
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface DispatchTarget {
+  userId?: string; // Only this user's endpoints (alert events)
+  symbol?: string; // Matched against each endpoint's symbol filter
+}
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY = 30 * 1000; // 30s, 1m, 2m, 4m, 8m
+const REQUEST_TIMEOUT = 10 * 1000;
+const DISPATCH_INTERVAL = 15 * 1000;
+
+/**
+ * New random signing secret for an endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Hide all but the last four characters of a secret
+ */
+export function maskSecret(secret: string): string {
+  return `whsec_••••${secret.slice(-4)}`;
+}
+
+function buildPayload(type: WebhookEventType, data: Record<string, unknown>): WebhookPayload {
+  return { id: randomUUID(), type, createdAt: new Date().toISOString(), data };
+}
+
+function isSubscribed(endpoint: WebhookEndpoint, type: WebhookEventType, target: DispatchTarget): boolean {
+  if (!endpoint.events.includes(type)) return false;
+  if (target.userId && endpoint.userId !== target.userId) return false;
+  if (target.symbol && endpoint.symbols && endpoint.symbols.length > 0) {
+    return endpoint.symbols.includes(target.symbol.toUpperCase());
+  }
+  return true;
+}
+
+/**
+ * POST a delivery to its endpoint once and record the result.
+ * Failures are rescheduled with exponential backoff until MAX_ATTEMPTS is reached.
+ */
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'QuantEdge-Webhooks/1.0',
+        [EVENT_HEADER]: delivery.event,
+        [SIGNATURE_HEADER]: signPayload(endpoint.secret, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `HTTP ${response.status}`;
+  } catch (err: any) {
+    error = err?.name === 'TimeoutError' ? 'Request timed out' : err?.message || 'Request failed';
+  }
+
+  if (!error) {
+    const delivered = await storage.updateWebhookDelivery(delivery.id, {
+      status: 'delivered',
+      attempts,
+      responseStatus,
+      error: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date(),
+    });
+    return delivered ?? delivery;
+  }
+
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    status: exhausted ? 'failed' : 'pending',
+    attempts,
+    responseStatus,
+    error,
+    nextAttemptAt: exhausted ? null : new Date(Date.now() + BASE_RETRY_DELAY * Math.pow(2, attempts - 1)),
+  });
+  return updated ?? delivery;
+}
+
+async function enqueueDelivery(endpoint: WebhookEndpoint, payload: WebhookPayload): Promise<WebhookDelivery> {
+  const delivery = await storage.createWebhookDelivery({
+    endpointId: endpoint.id,
+    event: payload.type,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    // Picked up by the retry queue only if this first attempt never records a result
+    nextAttemptAt: new Date(Date.now() + BASE_RETRY_DELAY),
+  });
+  return attemptDelivery(delivery, endpoint);
+}
+
+/**
+ * Send an event to every enabled endpoint subscribed to it. Resolves after the first delivery
+ * attempts, which can take up to REQUEST_TIMEOUT, so request handlers should not await it.
+ * Never throws: webhook problems must not break the analysis or alert that raised the event.
+ */
+export async function dispatchWebhookEvent(
+  type: Exclude<WebhookEventType, 'test'>,
+  data: Record<string, unknown>,
+  target: DispatchTarget = {}
+): Promise<void> {
+  try {
+    const endpoints = (await storage.getEnabledWebhookEndpoints())
+      .filter(endpoint => isSubscribed(endpoint, type, target));
+    if (endpoints.length === 0) return;
+
+    const payload = buildPayload(type, data);
+    await Promise.all(endpoints.map(endpoint =>
+      enqueueDelivery(endpoint, payload).catch(error =>
+        console.error(`[webhooks] Failed to deliver ${type} to endpoint ${endpoint.id}:`, error)
+      )
+    ));
+  } catch (error) {
+    console.error(`[webhooks] Failed to dispatch ${type}:`, error);
+  }
+}
+
+/**
+ * Deliver a sample event to one endpoint right away, regardless of its subscriptions
+ */
+export async function sendTestEvent(endpoint: WebhookEndpoint): Promise<WebhookDelivery> {
+  const payload = buildPayload('test', {
+    message: 'Test event from QuantEdge',
+    endpointId: endpoint.id,
+  });
+  return enqueueDelivery(endpoint, payload);
+}
+
+/**
+ * Retry deliveries whose backoff has elapsed
+ */
+export async function processDueDeliveries(): Promise<number> {
+  const due = await storage.getDueWebhookDeliveries(new Date());
+  let processed = 0;
+
+  for (const delivery of due) {
+    const endpoint = await storage.getWebhookEndpoint(delivery.endpointId);
+    if (!endpoint || !endpoint.enabled) {
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        error: 'Endpoint disabled',
+        nextAttemptAt: null,
+      });
+      continue;
+    }
+    await attemptDelivery(delivery, endpoint);
+    processed++;
+  }
+
+  return processed;
+}
+
+/**
+ * Run the retry queue on a fixed schedule
+ */
+export function startWebhookDispatcher(): void {
+  let running = false;
+
+  setInterval(() => {
+    if (running) return;
+    running = true;
+
+    processDueDeliveries()
+      .catch(error => console.error('[webhooks] Retry processing failed:', error))
+      .finally(() => { running = false; });
+  }, DISPATCH_INTERVAL);
+}
@@ -0,0 +1,442 @@
+// Walk-forward optimizer for composite score weights and signal thresholds
+// Factor scores are computed once per bar, then candidate weight vectors are
+// searched on rolling training windows and validated on the following window
+
+import { z } from 'zod';
+import {
+  insertStrategyProfileSchema,
+  type OptimizerRun,
+  type StrategyProfile
+} from '@shared/schema';
+import { storage } from '../storage';
+import { getStoredKlines, isStablecoin, type BinanceKline } from './marketData';
+import {
+  calculateCompositeScore,
+  signalFromScore,
+  DEFAULT_FACTOR_WEIGHTS,
+  DEFAULT_SIGNAL_THRESHOLDS,
+  type FactorWeights,
+  type SignalThresholds
+} from './quant/engine';
+import {
+  klineSchema,
+  scoreHistory,
+  simulateSignals,
+  type BacktestMetrics,
+  type ScoredBar,
+  type TradingSignal
+} from './backtest';
+
+export const optimizerRequestSchema = z.object({
+  symbol: z.string().min(1).transform(s => s.toUpperCase()),
+  interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+  lookback: z.coerce.number().int().min(30).max(300).default(100), // Rolling window fed to the engine
+  trainBars: z.coerce.number().int().min(30).max(1000).default(120), // In-sample window per fold
+  testBars: z.coerce.number().int().min(10).max(500).default(40), // Out-of-sample window per fold
+  candidates: z.coerce.number().int().min(10).max(2000).default(300), // Random weight vectors to try
+  topN: z.coerce.number().int().min(1).max(50).default(10),
+  objective: z.enum(['sharpeRatio', 'sortinoRatio', 'totalReturn']).default('sharpeRatio'),
+  seed: z.coerce.number().int().default(42), // Same seed + data = same candidates
+  initialCapital: z.coerce.number().positive().default(10000),
+  feeRate: z.coerce.number().min(0).max(0.05).default(0.001),
+  klines: z.array(klineSchema).optional(), // Optional supplied kline file instead of the candle store
+});
+
+export const applyCandidateSchema = z.object({
+  rank: z.coerce.number().int().min(1),
+  name: z.string().min(1), // Validated again as a profile name
+});
+
+export type OptimizerRequest = z.infer<typeof optimizerRequestSchema>;
+export type OptimizerObjective = OptimizerRequest['objective'];
+
+export interface SegmentMetrics {
+  totalReturn: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  hitRate: number;
+  tradeCount: number;
+  exposure: number;
+}
+
+export interface FoldResult {
+  fold: number;
+  trainStart: number;
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+  bestCandidate: number; // Candidate with the best in-sample objective for this fold
+  inSample: SegmentMetrics;
+  outOfSample: SegmentMetrics;
+}
+
+export interface RankedCandidate {
+  rank: number;
+  candidate: number;
+  weights: FactorWeights;
+  thresholds: SignalThresholds;
+  inSample: SegmentMetrics; // Averaged across folds
+  outOfSample: SegmentMetrics; // Averaged across folds
+  foldsWon: number; // Folds where this candidate had the best in-sample objective
+  efficiency: number | null; // Out-of-sample / in-sample objective
+}
+
+export interface OptimizerResults {
+  symbol: string;
+  interval: OptimizerRequest['interval'];
+  objective: OptimizerObjective;
+  bars: number;
+  startTime: number;
+  endTime: number;
+  candidatesTested: number;
+  folds: FoldResult[];
+  ranked: RankedCandidate[];
+  baseline: RankedCandidate; // Default profile evaluated on the same folds
+  walkForward: SegmentMetrics; // Each fold's best candidate traded on its test window, chained
+}
+
+interface Candidate {
+  weights: FactorWeights;
+  thresholds: SignalThresholds;
+}
+
+interface Fold {
+  trainStart: number; // Bar indexes, end exclusive
+  trainEnd: number;
+  testEnd: number;
+}
+
+const MAX_HISTORY_BARS = 5000; // Most recent stored bars loaded per run
+
+// Progress (0-100) of runs executing in this process
+const activeRuns = new Map<number, number>();
+
+/**
+ * Small deterministic PRNG (mulberry32) so runs are reproducible from a seed
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw a weight vector uniformly from the simplex, rounded to 2 decimals
+ */
+function sampleWeights(rng: () => number): FactorWeights {
+  const draws = Array.from({ length: 6 }, () => -Math.log(1 - rng()));
+  const total = draws.reduce((sum, d) => sum + d, 0);
+  const [trend, momentum, volatility, volume, risk, sentiment] = draws.map(
+    d => Math.round((d / total) * 100) / 100
+  );
+  return { trend, momentum, volatility, volume, risk, sentiment };
+}
+
+/**
+ * Generate candidates: the default profile first, then random weights and thresholds
+ */
+function generateCandidates(count: number, seed: number): Candidate[] {
+  const rng = createRng(seed);
+  const candidates: Candidate[] = [
+    { weights: DEFAULT_FACTOR_WEIGHTS, thresholds: DEFAULT_SIGNAL_THRESHOLDS },
+  ];
+
+  while (candidates.length < count) {
+    const weights = sampleWeights(rng);
+    if (Object.values(weights).every(w => w === 0)) continue;
+
+    candidates.push({
+      weights,
+      thresholds: {
+        buy: 55 + Math.floor(rng() * 21), // 55-75
+        sell: 25 + Math.floor(rng() * 21), // 25-45
+      },
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Split scored bars into walk-forward folds: each test window follows its training window,
+ * and the next fold slides forward by one test window
+ */
+function buildFolds(barCount: number, trainBars: number, testBars: number): Fold[] {
+  const folds: Fold[] = [];
+  for (let start = 0; start + trainBars + testBars <= barCount; start += testBars) {
+    folds.push({ trainStart: start, trainEnd: start + trainBars, testEnd: start + trainBars + testBars });
+  }
+  return folds;
+}
+
+function toSegmentMetrics(metrics: BacktestMetrics): SegmentMetrics {
+  return {
+    totalReturn: metrics.totalReturn,
+    sharpeRatio: metrics.sharpeRatio,
+    sortinoRatio: metrics.sortinoRatio,
+    maxDrawdown: metrics.maxDrawdown,
+    hitRate: metrics.hitRate,
+    tradeCount: metrics.tradeCount,
+    exposure: metrics.exposure,
+  };
+}
+
+/**
+ * Average per-fold metrics (trade counts are summed, drawdown takes the worst fold)
+ */
+function averageMetrics(segments: SegmentMetrics[]): SegmentMetrics {
+  const avg = (key: keyof SegmentMetrics) =>
+    segments.reduce((sum, s) => sum + (Number.isFinite(s[key]) ? s[key] : 0), 0) / segments.length;
+
+  return {
+    totalReturn: avg('totalReturn'),
+    sharpeRatio: avg('sharpeRatio'),
+    sortinoRatio: avg('sortinoRatio'),
+    maxDrawdown: Math.max(...segments.map(s => s.maxDrawdown)),
+    hitRate: avg('hitRate'),
+    tradeCount: segments.reduce((sum, s) => sum + s.tradeCount, 0),
+    exposure: avg('exposure'),
+  };
+}
+
+/**
+ * Recompute composite-score signals for every bar with a candidate's weights and thresholds
+ */
+function candidateSignals(bars: ScoredBar[], candidate: Candidate): TradingSignal[] {
+  return bars.map(bar => {
+    const score = calculateCompositeScore(
+      bar.scores.trend,
+      bar.scores.momentum,
+      bar.scores.volatility,
+      bar.scores.volume,
+      bar.scores.risk,
+      bar.scores.sentiment,
+      undefined,
+      undefined,
+      candidate.weights
+    );
+    return signalFromScore(score, candidate.thresholds);
+  });
+}
+
+/**
+ * Run the walk-forward search over pre-scored bars
+ */
+export async function optimizeWeights(
+  request: OptimizerRequest,
+  klines: BinanceKline[],
+  onProgress?: (progress: number) => void
+): Promise<OptimizerResults> {
+  const { symbol, interval, lookback, trainBars, testBars, objective, initialCapital, feeRate } = request;
+
+  // Scoring every bar is the expensive part (~80% of the run)
+  const bars = await scoreHistory(symbol, klines, lookback, interval, (done, total) => {
+    onProgress?.(Math.round((done / total) * 80));
+  });
+
+  const folds = buildFolds(bars.length, trainBars, testBars);
+  if (folds.length === 0) {
+    throw new Error(`Not enough history: ${bars.length} scored bars, need at least ${trainBars + testBars}`);
+  }
+
+  const candidates = generateCandidates(request.candidates, request.seed);
+  const simulation = { initialCapital, feeRate, interval };
+  const evaluate = (signals: TradingSignal[], start: number, end: number) =>
+    toSegmentMetrics(simulateSignals(bars.slice(start, end), signals.slice(start, end), simulation).metrics);
+
+  // evaluations[candidate][fold]
+  const evaluations: { signals: TradingSignal[]; inSample: SegmentMetrics[]; outOfSample: SegmentMetrics[] }[] = [];
+
+  for (let c = 0; c < candidates.length; c++) {
+    const signals = candidateSignals(bars, candidates[c]);
+    evaluations.push({
+      signals,
+      inSample: folds.map(f => evaluate(signals, f.trainStart, f.trainEnd)),
+      outOfSample: folds.map(f => evaluate(signals, f.trainEnd, f.testEnd)),
+    });
+
+    if ((c + 1) % 25 === 0) {
+      onProgress?.(80 + Math.round(((c + 1) / candidates.length) * 20));
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  const objectiveOf = (m: SegmentMetrics) => (Number.isFinite(m[objective]) ? m[objective] : 0);
+
+  // Per fold, pick the candidate with the best training objective (no peeking at the test window)
+  const foldWinners = folds.map((_, f) => {
+    let best = 0;
+    for (let c = 1; c < candidates.length; c++) {
+      if (objectiveOf(evaluations[c].inSample[f]) > objectiveOf(evaluations[best].inSample[f])) best = c;
+    }
+    return best;
+  });
+
+  const foldResults: FoldResult[] = folds.map((fold, f) => ({
+    fold: f + 1,
+    trainStart: bars[fold.trainStart].openTime,
+    trainEnd: bars[fold.trainEnd - 1].closeTime,
+    testStart: bars[fold.trainEnd].openTime,
+    testEnd: bars[fold.testEnd - 1].closeTime,
+    bestCandidate: foldWinners[f],
+    inSample: evaluations[foldWinners[f]].inSample[f],
+    outOfSample: evaluations[foldWinners[f]].outOfSample[f],
+  }));
+
+  // Chain each fold's winner over its own test window for a true walk-forward equity curve
+  const wfStart = folds[0].trainEnd;
+  const wfEnd = folds[folds.length - 1].testEnd;
+  const wfSignals: TradingSignal[] = [];
+  folds.forEach((fold, f) => {
+    for (let i = fold.trainEnd; i < fold.testEnd; i++) wfSignals.push(evaluations[foldWinners[f]].signals[i]);
+  });
+  const walkForward = toSegmentMetrics(
+    simulateSignals(bars.slice(wfStart, wfEnd), wfSignals, simulation).metrics
+  );
+
+  const summarize = (c: number): RankedCandidate => {
+    const inSample = averageMetrics(evaluations[c].inSample);
+    const outOfSample = averageMetrics(evaluations[c].outOfSample);
+    const isObjective = objectiveOf(inSample);
+    return {
+      rank: 0,
+      candidate: c,
+      weights: candidates[c].weights,
+      thresholds: candidates[c].thresholds,
+      inSample,
+      outOfSample,
+      foldsWon: foldWinners.filter(w => w === c).length,
+      efficiency: isObjective > 0 ? objectiveOf(outOfSample) / isObjective : null,
+    };
+  };
+
+  // Rank by average in-sample objective; out-of-sample numbers are reported, never used to select
+  const ranked = candidates
+    .map((_, c) => summarize(c))
+    .sort((a, b) => objectiveOf(b.inSample) - objectiveOf(a.inSample) || b.foldsWon - a.foldsWon)
+    .slice(0, request.topN)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+
+  onProgress?.(100);
+
+  return {
+    symbol,
+    interval,
+    objective,
+    bars: bars.length,
+    startTime: bars[0].openTime,
+    endTime: bars[bars.length - 1].closeTime,
+    candidatesTested: candidates.length,
+    folds: foldResults,
+    ranked,
+    baseline: summarize(0),
+    walkForward,
+  };
+}
+
+/**
+ * Validate inputs, persist a run and execute it in the background.
+ * Uses supplied or already-stored klines only - the optimizer never calls external APIs.
+ */
+export async function startOptimizerRun(request: OptimizerRequest): Promise<OptimizerRun> {
+  const { klines: suppliedKlines, ...config } = request;
+
+  if (isStablecoin(request.symbol)) {
+    throw new Error('Stablecoins always score neutral and cannot be optimized');
+  }
+
+  const klines: BinanceKline[] = suppliedKlines
+    ? [...suppliedKlines].sort((a, b) => a.openTime - b.openTime)
+    : await getStoredKlines(request.symbol, request.interval, MAX_HISTORY_BARS);
+
+  const required = request.lookback + request.trainBars + request.testBars;
+  if (klines.length < required) {
+    throw new Error(
+      `Need at least ${required} stored ${request.interval} bars for ${request.symbol}, have ${klines.length}. ` +
+      `Sync candles or run a backtest for the symbol first to load its history.`
+    );
+  }
+
+  const run = await storage.createOptimizerRun({
+    symbol: request.symbol,
+    interval: request.interval,
+    status: 'running',
+    config,
+  });
+
+  activeRuns.set(run.id, 0);
+  optimizeWeights(request, klines, progress => activeRuns.set(run.id, progress))
+    .then(results => storage.updateOptimizerRun(run.id, {
+      status: 'completed',
+      results,
+      completedAt: new Date(),
+    }))
+    .catch(error => {
+      console.error(`[weight-optimizer] Run ${run.id} failed:`, error);
+      return storage.updateOptimizerRun(run.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      });
+    })
+    .finally(() => activeRuns.delete(run.id));
+
+  return run;
+}
+
+/**
+ * Attach live progress to a run. Runs left 'running' by a previous process are reported as failed.
+ */
+export function withProgress(run: OptimizerRun): OptimizerRun & { progress: number } {
+  if (run.status !== 'running') {
+    return { ...run, progress: 100 };
+  }
+
+  const progress = activeRuns.get(run.id);
+  if (progress === undefined) {
+    return { ...run, status: 'failed', error: 'Interrupted by server restart', progress: 0 };
+  }
+
+  return { ...run, progress };
+}
+
+/**
+ * Save a ranked candidate from a completed run as a strategy profile
+ */
+export async function applyOptimizerCandidate(
+  runId: number,
+  rank: number,
+  name: string
+): Promise<StrategyProfile> {
+  const run = await storage.getOptimizerRun(runId);
+  if (!run || run.status !== 'completed' || !run.results) {
+    throw new Error('Optimizer run not found or not completed');
+  }
+
+  const results = run.results as OptimizerResults;
+  const entry = results.ranked.find(r => r.rank === rank);
+  if (!entry) {
+    throw new Error(`No candidate with rank ${rank} in run ${runId}`);
+  }
+
+  const profile = insertStrategyProfileSchema.parse({
+    name,
+    description: `Optimized on ${results.symbol} ${results.interval} (run #${runId}, rank ${rank}, ` +
+      `OOS ${results.objective} ${entry.outOfSample[results.objective].toFixed(2)})`,
+    weights: entry.weights,
+    buyThreshold: entry.thresholds.buy,
+    sellThreshold: entry.thresholds.sell,
+  });
+
+  if (await storage.getStrategyProfileByName(profile.name)) {
+    throw new Error(`Profile "${profile.name}" already exists`);
+  }
+
+  return storage.createStrategyProfile(profile);
+}
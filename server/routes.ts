@@ -1,18 +1,73 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertTradeSchema, insertChatLogSchema } from "@shared/schema";
+import { insertTradeSchema, insertChatLogSchema, insertStrategyProfileSchema, insertAlertSchema, insertWebhookEndpointSchema, insertPortfolioSchema, insertCashFlowSchema, insertOrderSchema, insertStrategyRunnerSchema, insertScreenSchema, type Portfolio } from "@shared/schema";
 import {
   fetchTopCoins,
-  fetchCoinData,
+  fetchCoinDetail,
   fetchOHLCData,
   klinesToOHLC,
   extractPriceVolume,
-  fetchCurrentPrice,
-  symbolToCoinGeckoId
+  fetchCurrentPrice
 } from "./lib/marketData";
+import { candleSyncRequestSchema, startCandleSync, syncCandles } from "./lib/candles";
+import { chartQuerySchema, getChartData } from "./lib/chart";
+import { getIndicatorSeries, indicatorQuerySchema } from "./lib/indicators";
 import { runQuantEngine, type QuantEngineOutput } from "./lib/quant/engine";
 import { quantCache } from "./lib/cache";
+import { backtestRequestSchema, runBacktest } from "./lib/backtest";
+import {
+  optimizerRequestSchema,
+  startOptimizerRun,
+  withProgress,
+  applyCandidateSchema,
+  applyOptimizerCandidate
+} from "./lib/weightOptimizer";
+import { analyzeSymbol, evictProfileAnalyses, type QuantInterval } from "./lib/analysis";
+import { analyzeConfluence, MTF_INTERVALS } from "./lib/confluence";
+import { ensureBuiltinProfiles, profileInUse, resolveProfile, DEFAULT_PROFILE_NAME } from "./lib/profiles";
+import { getCalibrationReport, startOutcomeTracker } from "./lib/outcomes";
+import { startAlertEvaluator } from "./lib/alerts";
+import {
+  dispatchWebhookEvent,
+  generateWebhookSecret,
+  maskSecret,
+  sendTestEvent,
+  startWebhookDispatcher,
+} from "./lib/webhooks";
+import {
+  defaultPortfolio,
+  ensurePortfolios,
+  getAggregateValuation,
+  getLotLedger,
+  getPortfolioValuation,
+  recordTrade,
+  removeTrade,
+  syncRealizedPnlLogs,
+} from "./lib/portfolio";
+import { attachPriceStream, notifyPortfolioChanged } from "./lib/priceStream";
+import { buildTaxReport, taxReportQuerySchema, taxReportToCsv, taxReportToHtml } from "./lib/taxReport";
+import { IMPORT_PRESETS, importTrades, previewTradeImport, tradeImportRequestSchema } from "./lib/tradeImport";
+import { getPerformance, performanceQuerySchema } from "./lib/performance";
+import { getRiskForPortfolios, riskQuerySchema } from "./lib/portfolioRisk";
+import { allocationRequestSchema, optimizeAllocation } from "./lib/allocation";
+import { executeRebalance, planRebalance, rebalanceRequestSchema } from "./lib/rebalance";
+import {
+  cancelOrder,
+  getPaperAccountSummary,
+  openPaperAccount,
+  orderQuerySchema,
+  PAPER_MANUAL_TRADES_ERROR,
+  paperAccountRequestSchema,
+  paperSettingsSchema,
+  placeOrder,
+  recordCashFlow,
+  removeCashFlow,
+  startPaperMatcher,
+  updatePaperSettings,
+} from "./lib/paperTrading";
+import { runStrategy, startStrategyRunner, strategyRunsQuerySchema, validateRunnerSetup } from "./lib/strategyRunner";
+import { runScreen, screenerRequestSchema, validateScreen, SCREEN_FIELDS } from "./lib/screener";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   console.log('🚀 Running in local development mode (no authentication)');
@@ -20,6 +75,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mock user ID for local development
   const MOCK_USER_ID = 'local-dev-user';
 
+  // Seed built-in strategy profiles (default, momentum-heavy, low-risk)
+  await ensureBuiltinProfiles();
+
+  // Revisit stored snapshots once their forecast horizon has passed
+  startOutcomeTracker();
+  startAlertEvaluator();
+  startWebhookDispatcher();
+  startCandleSync();
+  startPaperMatcher();
+  startStrategyRunner();
+
   // ============================================
   // AUTH ROUTES
   // ============================================
@@ -76,8 +142,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/coin/:symbol", async (req, res) => {
     try {
       const { symbol } = req.params;
-      const coinId = symbolToCoinGeckoId(symbol);
-      const coinData = await fetchCoinData(coinId);
+      const coinData = await fetchCoinDetail(symbol);
 
       if (!coinData) {
         return res.status(404).json({ error: "Coin not found" });
@@ -131,6 +196,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * GET /api/chart/:symbol
+   * Candles with moving average, Bollinger, RSI, MACD and MFI values on every bar
+   */
+  app.get("/api/chart/:symbol", async (req, res) => {
+    try {
+      const parsed = chartQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid chart query" });
+      }
+
+      const bars = await getChartData(req.params.symbol, parsed.data);
+      res.json(bars);
+    } catch (error) {
+      console.error(`Error in /api/chart/${req.params.symbol}:`, error);
+      res.status(500).json({ error: "Failed to build chart data" });
+    }
+  });
+
+  /**
+   * GET /api/indicators/:symbol
+   * Indicator histories aligned to kline open times (`names=rsi,macd,mfi,atr,bbands`, `interval`, `limit`)
+   */
+  app.get("/api/indicators/:symbol", async (req, res) => {
+    try {
+      const parsed = indicatorQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid indicator query" });
+      }
+
+      const series = await getIndicatorSeries(req.params.symbol, parsed.data);
+      res.json(series);
+    } catch (error) {
+      console.error(`Error in /api/indicators/${req.params.symbol}:`, error);
+      res.status(500).json({ error: "Failed to calculate indicators" });
+    }
+  });
+
+  /**
+   * GET /api/candles
+   * Stored candle series with bar counts and time span
+   */
+  app.get("/api/candles", async (req, res) => {
+    try {
+      const series = await storage.getCandleSeries();
+      res.json(series);
+    } catch (error) {
+      console.error("Error in /api/candles:", error);
+      res.status(500).json({ error: "Failed to fetch candle series" });
+    }
+  });
+
+  /**
+   * POST /api/candles/:symbol/sync
+   * Sync a symbol's stored candles now, paging back until `bars` are stored (for long backtests)
+   */
+  app.post("/api/candles/:symbol/sync", async (req, res) => {
+    try {
+      const { interval, bars } = candleSyncRequestSchema.parse(req.body ?? {});
+      const result = await syncCandles(req.params.symbol, interval, bars);
+      res.json(result);
+    } catch (error: any) {
+      console.error(`Error in /api/candles/${req.params.symbol}/sync:`, error);
+      res.status(400).json({ error: error.message || "Failed to sync candles" });
+    }
+  });
+
   // ============================================
   // QUANT ANALYSIS ROUTES
   // ============================================
@@ -138,13 +270,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * GET /api/quant/top50
    * Get quant analysis for top 50 coins
+   * Optional ?profile= selects a strategy profile (defaults to "default")
    */
   app.get("/api/quant/top50", async (req, res) => {
     try {
-      const interval = (req.query.interval as '1h' | '1d') || '1d';
+      const interval = (req.query.interval as QuantInterval) || '1d';
       const limit = parseInt(req.query.limit as string) || 50;
+      const mtf = req.query.mtf === 'true'; // Add multi-timeframe confluence to each coin
+      const profile = await resolveProfile(req.query.profile as string | undefined);
+
+      if (!MTF_INTERVALS.includes(interval)) {
+        return res.status(400).json({ error: `Interval must be one of: ${MTF_INTERVALS.join(', ')}` });
+      }
+      if (!profile) {
+        return res.status(404).json({ error: `Unknown strategy profile: ${req.query.profile}` });
+      }
 
-      console.log(`[quant/top50] Fetching top ${limit} coins with interval ${interval}`);
+      console.log(`[quant/top50] Fetching top ${limit} coins with interval ${interval}, profile ${profile.name}${mtf ? ', with confluence' : ''}`);
 
       // Fetch top coins
       const coins = await fetchTopCoins(limit);
@@ -160,73 +302,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const results = await Promise.allSettled(
         coins.map(async (coin: any) => {
           const symbol = coin.symbol.toUpperCase();
-          const cacheKey = `quant_${symbol}_${interval}`;
-          
-          // Check cache first, but recalculate if it's a stablecoin to ensure correct score
-          const cached = quantCache.get<QuantEngineOutput>(cacheKey);
-          const isStablecoinCheck = symbol.includes('USD') && coin.current_price > 0.85 && coin.current_price < 1.15;
           
           // Don't use cache for stablecoins - always recalculate to ensure neutral score
-          if (cached && !isStablecoinCheck) {
-            console.log(`[quant/top50] Using cached data for ${symbol}`);
-            return { ...cached, symbol, currentPrice: coin.current_price };
-          }
-          
-          if (cached && isStablecoinCheck) {
-            console.log(`[quant/top50] Stablecoin detected (${symbol}), recalculating to ensure neutral score`);
-          }
+          const isStablecoinCheck = symbol.includes('USD') && coin.current_price > 0.85 && coin.current_price < 1.15;
 
           try {
-            // Fetch OHLC data
-            const klines = await fetchOHLCData(symbol, interval, 200);
-            if (klines.length === 0) {
+            const analysis = await analyzeSymbol(symbol, { interval, profile, skipCache: isStablecoinCheck });
+            if (!analysis) {
               console.warn(`[quant/top50] No OHLC data for ${symbol}`);
               return null;
             }
 
-            const ohlc = klinesToOHLC(klines);
-            const { closes, volumes } = extractPriceVolume(klines);
-
-            // Run quant engine
-            const result = await runQuantEngine({
-              symbol,
-              prices: closes,
-              ohlc,
-              volumes,
-              interval,
-              sentimentScore: 50 // Default, will be updated with sentiment API
-            });
-
-            // Cache for 1 minute
-            quantCache.set(cacheKey, result, 60 * 1000);
-
-            // Ensure signal is correctly determined from composite score
-            const top50Signal = result.scores.compositeScore >= 65 ? 'BUY' : 
-                               result.scores.compositeScore <= 35 ? 'SELL' : 'HOLD';
-            
-            // Save to database
-            await storage.createQuantSignal({
-              symbol,
-              score: result.scores.compositeScore,
-              signal: top50Signal === 'BUY' ? 'Bullish' : top50Signal === 'SELL' ? 'Bearish' : 'Neutral',
-              confidence: result.confidence,
-              factors: {
-                trend: result.scores.trend,
-                momentum: result.scores.momentum,
-                volatility: result.scores.volatility,
-                volume: result.scores.volume,
-                risk: result.scores.risk,
-                sentiment: result.scores.sentiment
-              } as any,
-              explanation: `Composite: ${result.scores.compositeScore}, Regime: ${result.marketRegime}`,
-            });
-
-            // Ensure signal is correctly determined from composite score
-            const top50FinalSignal = result.scores.compositeScore >= 65 ? 'BUY' : 
-                                    result.scores.compositeScore <= 35 ? 'SELL' : 'HOLD';
-            
-            console.log(`[quant/top50] Successfully processed ${symbol} - Score: ${result.scores.compositeScore}, Signal: ${top50FinalSignal}`);
-            return { ...result, symbol, currentPrice: coin.current_price, signal: top50FinalSignal };
+            const { result, fromCache } = analysis;
+            if (fromCache) {
+              console.log(`[quant/top50] Using cached data for ${symbol}`);
+            } else {
+              console.log(`[quant/top50] Successfully processed ${symbol} - Score: ${result.scores.compositeScore}, Signal: ${result.signal}`);
+            }
+
+            const confluence = mtf
+              ? await analyzeConfluence(symbol, profile, { skipCache: isStablecoinCheck })
+              : undefined;
+
+            return { ...result, symbol, currentPrice: coin.current_price, confluence };
           } catch (error) {
             console.error(`[quant/top50] Error processing ${symbol}:`, error);
             return null;
@@ -270,73 +368,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * GET /api/quant/calibration
+   * Forecast calibration: reliability buckets, Brier score and per-symbol accuracy
+   * Query: interval, profile, symbol (optional)
+   */
+  app.get("/api/quant/calibration", async (req, res) => {
+    try {
+      const interval = (req.query.interval as QuantInterval) || '1d';
+      const profile = (req.query.profile as string) || DEFAULT_PROFILE_NAME;
+      const symbol = req.query.symbol ? (req.query.symbol as string).toUpperCase() : undefined;
+
+      const report = await getCalibrationReport(interval, profile, symbol);
+      res.json(report);
+    } catch (error) {
+      console.error("Error in /api/quant/calibration:", error);
+      res.status(500).json({ error: "Failed to build calibration report" });
+    }
+  });
+
+  /**
+   * GET /api/quant/:symbol/mtf
+   * Run the engine on 1h, 4h, 1d and 1w and score how aligned the timeframes are
+   * Query: profile
+   */
+  app.get("/api/quant/:symbol/mtf", async (req, res) => {
+    try {
+      const profile = await resolveProfile(req.query.profile as string | undefined);
+      if (!profile) {
+        return res.status(404).json({ error: `Unknown strategy profile: ${req.query.profile}` });
+      }
+
+      const confluence = await analyzeConfluence(req.params.symbol, profile);
+      if (!confluence) {
+        return res.status(404).json({ error: "No data available for symbol" });
+      }
+
+      res.json(confluence);
+    } catch (error) {
+      console.error(`Error in /api/quant/${req.params.symbol}/mtf:`, error);
+      res.status(500).json({ error: "Failed to calculate multi-timeframe analysis" });
+    }
+  });
+
+  /**
+   * GET /api/quant/:symbol/history
+   * Get stored engine snapshots for a symbol, oldest first
+   * Query: from, to (ISO date or epoch ms), interval, profile, limit
+   */
+  app.get("/api/quant/:symbol/history", async (req, res) => {
+    try {
+      const symbol = req.params.symbol.toUpperCase();
+      const interval = (req.query.interval as QuantInterval) || '1d';
+      const profile = (req.query.profile as string) || DEFAULT_PROFILE_NAME;
+      const limit = Math.min(parseInt(req.query.limit as string) || 500, 5000);
+
+      if (!MTF_INTERVALS.includes(interval)) {
+        return res.status(400).json({ error: `Interval must be one of: ${MTF_INTERVALS.join(', ')}` });
+      }
+
+      const parseDate = (value: unknown): Date | undefined => {
+        if (typeof value !== 'string' || value === '') return undefined;
+        const date = /^\d+$/.test(value) ? new Date(parseInt(value)) : new Date(value);
+        if (isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`);
+        return date;
+      };
+
+      let from: Date | undefined;
+      let to: Date | undefined;
+      try {
+        from = parseDate(req.query.from);
+        to = parseDate(req.query.to);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const snapshots = await storage.getQuantSnapshots(symbol, { interval, profile, from, to, limit });
+      res.json(snapshots);
+    } catch (error) {
+      console.error(`Error in /api/quant/${req.params.symbol}/history:`, error);
+      res.status(500).json({ error: "Failed to fetch quant history" });
+    }
+  });
+
   /**
    * GET /api/quant/:symbol
    * Get detailed quant analysis for a single symbol
+   * Optional ?profile= selects a strategy profile (defaults to "default")
    */
   app.get("/api/quant/:symbol", async (req, res) => {
     try {
       const { symbol } = req.params;
-      const interval = (req.query.interval as '1h' | '1d') || '1d';
-      const cacheKey = `quant_${symbol.toUpperCase()}_${interval}`;
+      const interval = (req.query.interval as QuantInterval) || '1d';
+      const profile = await resolveProfile(req.query.profile as string | undefined);
 
-      // Check cache
-      const cached = quantCache.get<QuantEngineOutput>(cacheKey);
-      if (cached) {
-        return res.json(cached);
+      if (!MTF_INTERVALS.includes(interval)) {
+        return res.status(400).json({ error: `Interval must be one of: ${MTF_INTERVALS.join(', ')}` });
+      }
+      if (!profile) {
+        return res.status(404).json({ error: `Unknown strategy profile: ${req.query.profile}` });
       }
 
-      // Fetch market data
-      const klines = await fetchOHLCData(symbol, interval, 200);
+      const analysis = await analyzeSymbol(symbol, { interval, profile });
 
-      if (klines.length === 0) {
+      if (!analysis) {
         return res.status(404).json({ error: "No data available for symbol" });
       }
 
-      const ohlc = klinesToOHLC(klines);
-      const { closes, volumes } = extractPriceVolume(klines);
-
-      // Run quant engine
-      const result = await runQuantEngine({
-        symbol: symbol.toUpperCase(),
-        prices: closes,
-        ohlc,
-        volumes,
-        interval,
-        sentimentScore: 50 // Default
-      });
-
-      // Cache for 1 minute
-      quantCache.set(cacheKey, result, 60 * 1000);
-
-      // Ensure signal is correctly determined from composite score
-      const finalSignal = result.scores.compositeScore >= 65 ? 'BUY' : 
-                         result.scores.compositeScore <= 35 ? 'SELL' : 'HOLD';
-      
-      // Save to database
-      await storage.createQuantSignal({
-        symbol: symbol.toUpperCase(),
-        score: result.scores.compositeScore,
-        signal: finalSignal === 'BUY' ? 'Bullish' : finalSignal === 'SELL' ? 'Bearish' : 'Neutral',
-        confidence: result.confidence,
-        factors: {
-          trend: result.scores.trend,
-          momentum: result.scores.momentum,
-          volatility: result.scores.volatility,
-          volume: result.scores.volume,
-          risk: result.scores.risk,
-          sentiment: result.scores.sentiment
-        } as any,
-        explanation: `Composite: ${result.scores.compositeScore}, Regime: ${result.marketRegime}`,
-      });
-
-      res.json(result);
+      res.json(analysis.result);
     } catch (error) {
       console.error(`Error in /api/quant/${req.params.symbol}:`, error);
       res.status(500).json({ error: "Failed to calculate quant analysis" });
     }
   });
 
+
   /**
    * GET /api/quant/signal/:symbol
    * Get trading signal for a symbol (lightweight endpoint)
@@ -344,41 +490,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/quant/signal/:symbol", async (req, res) => {
     try {
       const { symbol } = req.params;
-      const interval = (req.query.interval as '1h' | '1d') || '1d';
-      const cacheKey = `quant_${symbol.toUpperCase()}_${interval}`;
+      const interval = (req.query.interval as QuantInterval) || '1d';
+      const profile = await resolveProfile(req.query.profile as string | undefined);
 
-      // Check cache first
-      const cached = quantCache.get<QuantEngineOutput>(cacheKey);
-      if (cached) {
-        return res.json({
-          symbol: cached.symbol,
-          signal: cached.signal,
-          compositeScore: cached.scores.compositeScore,
-          confidence: cached.confidence,
-          marketRegime: cached.marketRegime
-        });
+      if (!MTF_INTERVALS.includes(interval)) {
+        return res.status(400).json({ error: `Interval must be one of: ${MTF_INTERVALS.join(', ')}` });
+      }
+      if (!profile) {
+        return res.status(404).json({ error: `Unknown strategy profile: ${req.query.profile}` });
       }
 
-      // Fetch and calculate if not cached
-      const klines = await fetchOHLCData(symbol, interval, 200);
-      if (klines.length === 0) {
+      const analysis = await analyzeSymbol(symbol, { interval, profile });
+      if (!analysis) {
         return res.status(404).json({ error: "No data available for symbol" });
       }
 
-      const ohlc = klinesToOHLC(klines);
-      const { closes, volumes } = extractPriceVolume(klines);
-
-      const result = await runQuantEngine({
-        symbol: symbol.toUpperCase(),
-        prices: closes,
-        ohlc,
-        volumes,
-        interval,
-        sentimentScore: 50
-      });
-
-      quantCache.set(cacheKey, result, 60 * 1000);
-
+      const { result } = analysis;
       res.json({
         symbol: result.symbol,
         signal: result.signal,
@@ -392,6 +519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+
   /**
    * GET /api/quant/score/:symbol (legacy endpoint, redirects to /api/quant/:symbol)
    */
@@ -453,8 +581,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         explanation: `Market regime: ${result.marketRegime}, Volatility: ${result.metrics.volatility.regime}, Trend: ${result.scores.trend}/100`
       };
 
+      const previous = await storage.getLatestRegimeLog();
+
       // Save to database
-      await storage.createRegimeLog({
+      const log = await storage.createRegimeLog({
         regime: result.marketRegime,
         volatility: result.metrics.volatility.regime,
         trendStrength: result.scores.trend,
@@ -462,6 +592,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         explanation: regimeData.explanation,
       });
 
+      // Not awaited: a slow subscriber must not hold up the response
+      if (previous && previous.regime !== log.regime) {
+        void dispatchWebhookEvent('regime.changed', {
+          benchmark: 'BTC',
+          previousRegime: previous.regime,
+          ...regimeData,
+          loggedAt: log.createdAt.toISOString(),
+        });
+      }
+
       res.json(regimeData);
     } catch (error) {
       console.error("Error in /api/regime:", error);
@@ -470,230 +610,1369 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ============================================
-  // PORTFOLIO ROUTES
+  // BACKTEST ROUTES
   // ============================================
 
   /**
-   * GET /api/portfolio
-   * Get authenticated user's portfolio with all trades
+   * POST /api/backtest
+   * Replay the quant engine over historical klines and simulate trading its signals
    */
-  app.get("/api/portfolio", async (req: any, res) => {
+  app.post("/api/backtest", async (req, res) => {
     try {
-      const userId = MOCK_USER_ID;
+      const validated = backtestRequestSchema.parse(req.body);
+      console.log(`[backtest] Running ${validated.symbol} ${validated.interval} (lookback ${validated.lookback})`);
 
-      // Get user's portfolios
-      const portfolios = await storage.getPortfoliosByUserId(userId);
+      const result = await runBacktest(validated);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error in /api/backtest:", error);
+      res.status(400).json({ error: error.message || "Failed to run backtest" });
+    }
+  });
 
-      if (portfolios.length === 0) {
-        // Create default portfolio
-        const portfolio = await storage.createPortfolio({
-          userId,
-          name: "Default Portfolio",
-        });
+  // ============================================
+  // ALLOCATION OPTIMIZER ROUTES
+  // ============================================
 
-        return res.json({
-          portfolio,
-          trades: [],
-          holdings: {},
-          totalValue: 0,
-        });
-      }
+  /**
+   * POST /api/allocation/optimize
+   * Target weights for a universe of coins under mean-variance, minimum-variance, risk-parity
+   * or quant-score-tilted objectives, with the efficient frontier
+   */
+  app.post("/api/allocation/optimize", async (req, res) => {
+    try {
+      const validated = allocationRequestSchema.parse(req.body);
+      console.log(`[allocation] Optimizing ${validated.symbols?.join(",") ?? `top ${validated.universeSize}`} (${validated.objective})`);
 
-      // Get trades for first portfolio
-      const portfolio = portfolios[0];
-      const trades = await storage.getTradesByPortfolioId(portfolio.id);
+      const result = await optimizeAllocation(validated);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error in /api/allocation/optimize:", error);
+      res.status(400).json({ error: error.message || "Failed to optimize allocation" });
+    }
+  });
 
-      // Calculate holdings and realized PnL from trades (recalculate from scratch)
-      const holdings: Record<string, { quantity: number; avgEntry: number }> = {};
-      let totalRealizedPnl = 0;
+  // ============================================
+  // WEIGHT OPTIMIZER ROUTES
+  // ============================================
 
-      // Process trades in chronological order to calculate realized PnL correctly
-      const sortedTrades = [...trades].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  /**
+   * GET /api/weight-optimizer/runs
+   * List recent optimizer runs
+   */
+  app.get("/api/weight-optimizer/runs", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const runs = await storage.getOptimizerRuns(limit);
+      res.json(runs.map(withProgress));
+    } catch (error) {
+      console.error("Error in /api/weight-optimizer/runs:", error);
+      res.status(500).json({ error: "Failed to fetch optimizer runs" });
+    }
+  });
 
-      for (const trade of sortedTrades) {
-        const symbol = trade.symbol;
-        const quantity = parseFloat(trade.quantity);
-        const price = parseFloat(trade.buyPrice);
+  /**
+   * POST /api/weight-optimizer/runs
+   * Start a walk-forward weight optimization over cached klines
+   */
+  app.post("/api/weight-optimizer/runs", async (req, res) => {
+    try {
+      const validated = optimizerRequestSchema.parse(req.body);
+      console.log(`[weight-optimizer] Starting ${validated.symbol} ${validated.interval} (${validated.candidates} candidates)`);
 
-        if (!holdings[symbol]) {
-          holdings[symbol] = { quantity: 0, avgEntry: 0 };
-        }
+      const run = await startOptimizerRun(validated);
+      res.status(202).json(withProgress(run));
+    } catch (error: any) {
+      console.error("Error in /api/weight-optimizer/runs:", error);
+      res.status(400).json({ error: error.message || "Failed to start optimizer run" });
+    }
+  });
 
-        if (trade.side === 'buy') {
-          // Buy trade: update holdings
-          const prevTotal = holdings[symbol].quantity * holdings[symbol].avgEntry;
-          holdings[symbol].quantity += quantity;
-          holdings[symbol].avgEntry = (prevTotal + quantity * price) / holdings[symbol].quantity;
-        } else {
-          // Sell trade: calculate realized PnL and reduce holdings
-          const avgEntry = holdings[symbol].avgEntry;
-          const realizedPnl = (price - avgEntry) * quantity;
-          totalRealizedPnl += realizedPnl;
-          
-          holdings[symbol].quantity -= quantity;
-          
-          // If all sold, reset avgEntry
-          if (holdings[symbol].quantity <= 0.00000001) {
-            holdings[symbol].quantity = 0;
-            holdings[symbol].avgEntry = 0;
-          }
-        }
+  /**
+   * GET /api/weight-optimizer/runs/:id
+   * Get an optimizer run with progress and results
+   */
+  app.get("/api/weight-optimizer/runs/:id", async (req, res) => {
+    try {
+      const run = await storage.getOptimizerRun(parseInt(req.params.id));
+      if (!run) {
+        return res.status(404).json({ error: "Optimizer run not found" });
       }
+      res.json(withProgress(run));
+    } catch (error) {
+      console.error(`Error in /api/weight-optimizer/runs/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to fetch optimizer run" });
+    }
+  });
 
-      // Calculate total value and unrealized PnL (fetch current prices)
-      let totalValue = 0;
-      let totalUnrealizedPnl = 0;
-      const holdingsWithValue = [];
-
-      for (const [symbol, data] of Object.entries(holdings)) {
-        if (data.quantity > 0) {
-          const currentPrice = await fetchCurrentPrice(symbol) || data.avgEntry;
-          const value = data.quantity * currentPrice;
-          const unrealizedPnl = (currentPrice - data.avgEntry) * data.quantity;
-
-          totalValue += value;
-          totalUnrealizedPnl += unrealizedPnl;
-
-          holdingsWithValue.push({
-            symbol,
-            quantity: data.quantity,
-            avgEntry: data.avgEntry,
-            currentPrice,
-            value,
-            unrealizedPnl,
-            pnlPercent: ((currentPrice - data.avgEntry) / data.avgEntry) * 100,
-          });
-        }
-      }
+  /**
+   * POST /api/weight-optimizer/runs/:id/apply
+   * Save a ranked candidate as a strategy profile
+   * Body: { rank: number, name: string }
+   */
+  app.post("/api/weight-optimizer/runs/:id/apply", async (req, res) => {
+    try {
+      const { rank, name } = applyCandidateSchema.parse(req.body);
 
-      res.json({
-        portfolio,
-        trades,
-        holdings: holdingsWithValue,
-        totalValue,
-        realizedPnl: totalRealizedPnl,
-        unrealizedPnl: totalUnrealizedPnl,
-        totalPnl: totalRealizedPnl + totalUnrealizedPnl,
-      });
+      const profile = await applyOptimizerCandidate(parseInt(req.params.id), rank, name);
+      res.json(profile);
+    } catch (error: any) {
+      console.error(`Error in /api/weight-optimizer/runs/${req.params.id}/apply:`, error);
+      res.status(400).json({ error: error.message || "Failed to apply optimizer result" });
+    }
+  });
+
+  // ============================================
+  // STRATEGY PROFILE ROUTES
+  // ============================================
+
+  /**
+   * GET /api/strategy-profiles
+   * List all strategy profiles
+   */
+  app.get("/api/strategy-profiles", async (req, res) => {
+    try {
+      const profiles = await storage.getStrategyProfiles();
+      res.json(profiles);
     } catch (error) {
-      console.error(`Error in /api/portfolio/${req.params.userId}:`, error);
-      res.status(500).json({ error: "Failed to fetch portfolio" });
+      console.error("Error in /api/strategy-profiles:", error);
+      res.status(500).json({ error: "Failed to fetch strategy profiles" });
     }
   });
 
   /**
-   * POST /api/portfolio/trade
-   * Add a new trade (buy or sell)
+   * POST /api/strategy-profiles
+   * Create a strategy profile
    */
-  app.post("/api/portfolio/trade", async (req, res) => {
+  app.post("/api/strategy-profiles", async (req, res) => {
     try {
-      const validated = insertTradeSchema.parse(req.body);
+      const validated = insertStrategyProfileSchema.parse(req.body);
 
-      // If it's a sell trade, calculate realized PnL
-      if (validated.side === 'sell') {
-        // Get portfolio to find avg entry price
-        const trades = await storage.getTradesByPortfolioId(validated.portfolioId);
-        const holdings: Record<string, { quantity: number; avgEntry: number }> = {};
+      const existing = await storage.getStrategyProfileByName(validated.name);
+      if (existing) {
+        return res.status(400).json({ error: `Profile "${validated.name}" already exists` });
+      }
 
-        // Calculate current holdings and avg entry
-        for (const trade of trades) {
-          const symbol = trade.symbol;
-          const quantity = parseFloat(trade.quantity);
-          const price = parseFloat(trade.buyPrice);
+      const profile = await storage.createStrategyProfile(validated);
+      res.json(profile);
+    } catch (error: any) {
+      console.error("Error in /api/strategy-profiles:", error);
+      res.status(400).json({ error: error.message || "Invalid profile data" });
+    }
+  });
 
-          if (!holdings[symbol]) {
-            holdings[symbol] = { quantity: 0, avgEntry: 0 };
-          }
+  /**
+   * PUT /api/strategy-profiles/:id
+   * Update a strategy profile's weights, thresholds or description. Renaming is refused (409)
+   * while strategy runners or saved screens refer to the profile by name.
+   */
+  app.put("/api/strategy-profiles/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStrategyProfile(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Strategy profile not found" });
+      }
 
-          if (trade.side === 'buy') {
-            const prevTotal = holdings[symbol].quantity * holdings[symbol].avgEntry;
-            holdings[symbol].quantity += quantity;
-            holdings[symbol].avgEntry = (prevTotal + quantity * price) / holdings[symbol].quantity;
-          } else {
-            holdings[symbol].quantity -= quantity;
-          }
-        }
+      // Validate the merged profile so the threshold ordering check sees both values
+      const validated = insertStrategyProfileSchema.parse({
+        name: existing.name,
+        description: existing.description,
+        weights: existing.weights,
+        buyThreshold: existing.buyThreshold,
+        sellThreshold: existing.sellThreshold,
+        ...req.body,
+      });
 
-        const holding = holdings[validated.symbol];
-        if (!holding || holding.quantity < parseFloat(validated.quantity)) {
-          return res.status(400).json({ error: "Insufficient quantity to sell" });
+      if (validated.name !== existing.name) {
+        if (existing.name === DEFAULT_PROFILE_NAME) {
+          return res.status(400).json({ error: "The default profile cannot be renamed" });
+        }
+        const clash = await storage.getStrategyProfileByName(validated.name);
+        if (clash) {
+          return res.status(400).json({ error: `Profile "${validated.name}" already exists` });
+        }
+        const inUse = await profileInUse(existing.name);
+        if (inUse) {
+          return res.status(409).json({ error: inUse });
         }
-
-        // Calculate realized PnL
-        const sellPrice = parseFloat(validated.buyPrice); // buyPrice field holds sell price for sell trades
-        const quantity = parseFloat(validated.quantity);
-        const realizedPnl = (sellPrice - holding.avgEntry) * quantity;
-
-        // Create sell trade
-        const trade = await storage.createTrade(validated);
-
-        // Log realized PnL
-        await storage.createRealizedPnlLog({
-          portfolioId: validated.portfolioId,
-          symbol: validated.symbol,
-          quantity: validated.quantity,
-          buyPrice: holding.avgEntry.toString(),
-          sellPrice: sellPrice.toString(),
-          realizedPnl: realizedPnl.toString(),
-          tradeId: trade.id,
-        });
-
-        return res.json(trade);
       }
 
-      // Regular buy trade
-      const trade = await storage.createTrade(validated);
-      res.json(trade);
+      const profile = await storage.updateStrategyProfile(id, validated);
+      // Cached scores and signals were computed with the old settings
+      evictProfileAnalyses(existing.name);
+      res.json(profile);
     } catch (error: any) {
-      console.error("Error in /api/portfolio/trade:", error);
-      res.status(400).json({ error: error.message || "Failed to add trade" });
+      console.error(`Error in /api/strategy-profiles/${req.params.id}:`, error);
+      res.status(400).json({ error: error.message || "Invalid profile data" });
     }
   });
 
   /**
-   * DELETE /api/portfolio/trade/:id
-   * Delete a trade and its associated realized PnL log
+   * DELETE /api/strategy-profiles/:id
+   * Delete a strategy profile (the default profile cannot be removed; 409 while runners or
+   * saved screens use it)
    */
-  app.delete("/api/portfolio/trade/:id", async (req, res) => {
+  app.delete("/api/strategy-profiles/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      
-      // Delete associated realized PnL log first (if it exists)
-      await storage.deleteRealizedPnlLogByTradeId(id);
-      
-      // Then delete the trade
-      await storage.deleteTrade(id);
-      
+      const existing = await storage.getStrategyProfile(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Strategy profile not found" });
+      }
+      if (existing.name === DEFAULT_PROFILE_NAME) {
+        return res.status(400).json({ error: "The default profile cannot be deleted" });
+      }
+      const inUse = await profileInUse(existing.name);
+      if (inUse) {
+        return res.status(409).json({ error: inUse });
+      }
+
+      await storage.deleteStrategyProfile(id);
+      evictProfileAnalyses(existing.name);
       res.json({ success: true });
     } catch (error) {
-      console.error(`Error in /api/portfolio/trade/${req.params.id}:`, error);
-      res.status(500).json({ error: "Failed to delete trade" });
+      console.error(`Error in /api/strategy-profiles/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete strategy profile" });
     }
   });
 
   // ============================================
-  // CHAT ROUTES
+  // STRATEGY RUNNER ROUTES
   // ============================================
 
   /**
-   * POST /api/chat
-   * AI chatbot with Grok sentiment + GPT signals + Quant analysis
+   * GET /api/strategy-runners
+   * List the user's strategy runners
    */
-  app.post("/api/chat", async (req: any, res) => {
+  app.get("/api/strategy-runners", async (req, res) => {
     try {
-      const { message } = req.body;
-      const userId = MOCK_USER_ID;
+      res.json(await storage.getStrategyRunnersByUserId(MOCK_USER_ID));
+    } catch (error) {
+      console.error("Error in /api/strategy-runners:", error);
+      res.status(500).json({ error: "Failed to fetch strategy runners" });
+    }
+  });
 
-      if (!message) {
-        return res.status(400).json({ error: "Message is required" });
-      }
+  /**
+   * POST /api/strategy-runners
+   * Attach a strategy to a paper portfolio. Its first run, on the next bar close, records the
+   * current signals; it trades on the changes after that.
+   * Body: { name, portfolioId, profile, interval, universe, sizingMethod, sizingValue, status }
+   */
+  app.post("/api/strategy-runners", async (req, res) => {
+    try {
+      const validated = insertStrategyRunnerSchema.parse({ ...req.body, userId: MOCK_USER_ID });
+      await validateRunnerSetup(validated);
+      res.json(await storage.createStrategyRunner(validated));
+    } catch (error: any) {
+      console.error("Error in /api/strategy-runners:", error);
+      res.status(400).json({ error: error.message || "Invalid strategy runner" });
+    }
+  });
 
-      // Import AI chat functions
-      const { processAIChat, getMarketRegimeAnalysis } = await import('./lib/aiChat');
+  /**
+   * PUT /api/strategy-runners/:id
+   * Update a runner, e.g. pause or resume it. Changing the portfolio, profile or interval
+   * forgets the previous signals, since they no longer describe the same strategy.
+   */
+  app.put("/api/strategy-runners/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStrategyRunner(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Strategy runner not found" });
+      }
 
-      let response: string;
+      const { id: _id, createdAt, updatedAt, lastSignals, lastBarCloseTime, ...current } = existing;
+      const validated = insertStrategyRunnerSchema.parse({ ...current, ...req.body, userId: MOCK_USER_ID });
+      await validateRunnerSetup(validated);
 
-      // Check if asking about market regime
+      const strategyChanged = validated.portfolioId !== existing.portfolioId
+        || validated.profile !== existing.profile
+        || validated.interval !== existing.interval;
+      const runner = await storage.updateStrategyRunner(id, {
+        ...validated,
+        ...(strategyChanged && { lastSignals: {}, lastBarCloseTime: null }),
+      });
+      res.json(runner);
+    } catch (error: any) {
+      console.error(`Error in /api/strategy-runners/${req.params.id}:`, error);
+      res.status(400).json({ error: error.message || "Invalid strategy runner" });
+    }
+  });
+
+  /**
+   * DELETE /api/strategy-runners/:id
+   * Delete a runner and its run log. Orders it placed stay in the portfolio.
+   */
+  app.delete("/api/strategy-runners/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getStrategyRunner(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Strategy runner not found" });
+      }
+
+      await storage.deleteStrategyRunner(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/strategy-runners/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete strategy runner" });
+    }
+  });
+
+  /**
+   * POST /api/strategy-runners/:id/run
+   * Evaluate a runner on the latest closed bar now, whether or not it is paused
+   */
+  app.post("/api/strategy-runners/:id/run", async (req, res) => {
+    try {
+      const runner = await storage.getStrategyRunner(parseInt(req.params.id));
+      if (!runner || runner.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Strategy runner not found" });
+      }
+
+      res.json(await runStrategy(runner, "manual"));
+    } catch (error: any) {
+      console.error(`Error in /api/strategy-runners/${req.params.id}/run:`, error);
+      res.status(400).json({ error: error.message || "Failed to run strategy" });
+    }
+  });
+
+  /**
+   * GET /api/strategy-runners/:id/runs?limit=50
+   * Run log for a runner, newest first
+   */
+  app.get("/api/strategy-runners/:id/runs", async (req, res) => {
+    try {
+      const runner = await storage.getStrategyRunner(parseInt(req.params.id));
+      if (!runner || runner.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Strategy runner not found" });
+      }
+
+      const parsed = strategyRunsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid run query" });
+      }
+
+      res.json(await storage.getStrategyRuns(runner.id, parsed.data.limit));
+    } catch (error) {
+      console.error(`Error in /api/strategy-runners/${req.params.id}/runs:`, error);
+      res.status(500).json({ error: "Failed to fetch strategy runs" });
+    }
+  });
+
+  // ============================================
+  // SCREENER ROUTES
+  // ============================================
+
+  /**
+   * GET /api/screener/fields
+   * Fields a screener expression can reference, with their types
+   */
+  app.get("/api/screener/fields", (req, res) => {
+    res.json(Object.entries(SCREEN_FIELDS).map(([field, type]) => ({ field, type })));
+  });
+
+  /**
+   * POST /api/screener/run
+   * Analyze the top coins and return those matching a filter expression
+   * Body: { expression, interval, profile, limit }
+   */
+  app.post("/api/screener/run", async (req, res) => {
+    try {
+      const validated = screenerRequestSchema.parse(req.body);
+      const profile = await resolveProfile(validated.profile);
+      if (!profile) {
+        return res.status(404).json({ error: `Unknown strategy profile: ${validated.profile}` });
+      }
+
+      console.log(`[screener] Screening top ${validated.limit} on ${validated.interval}, profile ${profile.name}: ${validated.expression}`);
+      res.json(await runScreen(validated, profile));
+    } catch (error: any) {
+      console.error("Error in /api/screener/run:", error);
+      res.status(400).json({ error: error.message || "Failed to run screen" });
+    }
+  });
+
+  /**
+   * GET /api/screens
+   * List the user's saved screens
+   */
+  app.get("/api/screens", async (req, res) => {
+    try {
+      res.json(await storage.getScreensByUserId(MOCK_USER_ID));
+    } catch (error) {
+      console.error("Error in /api/screens:", error);
+      res.status(500).json({ error: "Failed to fetch screens" });
+    }
+  });
+
+  /**
+   * POST /api/screens
+   * Save a screen
+   * Body: { name, expression, interval, profile }
+   */
+  app.post("/api/screens", async (req, res) => {
+    try {
+      const validated = insertScreenSchema.parse({ ...req.body, userId: MOCK_USER_ID });
+      await validateScreen(validated);
+      res.json(await storage.createScreen(validated));
+    } catch (error: any) {
+      console.error("Error in /api/screens:", error);
+      res.status(400).json({ error: error.message || "Invalid screen" });
+    }
+  });
+
+  /**
+   * PUT /api/screens/:id
+   * Rename a screen or change its expression, interval or profile
+   */
+  app.put("/api/screens/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getScreen(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Screen not found" });
+      }
+
+      const { id: _id, createdAt, updatedAt, ...current } = existing;
+      const validated = insertScreenSchema.parse({ ...current, ...req.body, userId: MOCK_USER_ID });
+      await validateScreen(validated);
+      res.json(await storage.updateScreen(id, validated));
+    } catch (error: any) {
+      console.error(`Error in /api/screens/${req.params.id}:`, error);
+      res.status(400).json({ error: error.message || "Invalid screen" });
+    }
+  });
+
+  /**
+   * DELETE /api/screens/:id
+   * Delete a saved screen
+   */
+  app.delete("/api/screens/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getScreen(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Screen not found" });
+      }
+
+      await storage.deleteScreen(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/screens/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete screen" });
+    }
+  });
+
+  // ============================================
+  // ALERT ROUTES
+  // ============================================
+
+  /**
+   * GET /api/alerts
+   * List the user's alerts
+   */
+  app.get("/api/alerts", async (req, res) => {
+    try {
+      const alerts = await storage.getAlertsByUserId(MOCK_USER_ID);
+      res.json(alerts);
+    } catch (error) {
+      console.error("Error in /api/alerts:", error);
+      res.status(500).json({ error: "Failed to fetch alerts" });
+    }
+  });
+
+  /**
+   * POST /api/alerts
+   * Create an alert
+   * Body: { symbol, interval, metric, condition, threshold | targetValue, cooldownMinutes }
+   */
+  app.post("/api/alerts", async (req, res) => {
+    try {
+      const validated = insertAlertSchema.parse({ ...req.body, userId: MOCK_USER_ID });
+      const alert = await storage.createAlert(validated);
+      res.json(alert);
+    } catch (error: any) {
+      console.error("Error in /api/alerts:", error);
+      res.status(400).json({ error: error.message || "Invalid alert data" });
+    }
+  });
+
+  /**
+   * PUT /api/alerts/:id
+   * Update an alert (e.g. enable/disable, change threshold)
+   */
+  app.put("/api/alerts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAlert(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+
+      const { id: _id, createdAt, lastValue, lastTriggeredAt, ...current } = existing;
+      const validated = insertAlertSchema.parse({ ...current, ...req.body, userId: MOCK_USER_ID });
+
+      // Changing the rule resets crossing detection
+      const alert = await storage.updateAlert(id, { ...validated, lastValue: null });
+      res.json(alert);
+    } catch (error: any) {
+      console.error(`Error in /api/alerts/${req.params.id}:`, error);
+      res.status(400).json({ error: error.message || "Invalid alert data" });
+    }
+  });
+
+  /**
+   * DELETE /api/alerts/:id
+   * Delete an alert and its events
+   */
+  app.delete("/api/alerts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getAlert(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+
+      await storage.deleteAlert(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/alerts/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete alert" });
+    }
+  });
+
+  /**
+   * GET /api/alert-events
+   * Get triggered alert events, newest first
+   * Query: afterId (only events newer than this id), limit
+   */
+  app.get("/api/alert-events", async (req, res) => {
+    try {
+      const afterId = parseInt(req.query.afterId as string) || 0;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const events = await storage.getAlertEventsByUserId(MOCK_USER_ID, afterId, limit);
+      res.json(events);
+    } catch (error) {
+      console.error("Error in /api/alert-events:", error);
+      res.status(500).json({ error: "Failed to fetch alert events" });
+    }
+  });
+
+  /**
+   * POST /api/alert-events/read
+   * Mark alert events as read
+   * Body: { ids?: number[] } - omit ids to mark all as read
+   */
+  app.post("/api/alert-events/read", async (req, res) => {
+    try {
+      const ids = Array.isArray(req.body?.ids) ? req.body.ids.map((id: unknown) => Number(id)) : undefined;
+      await storage.markAlertEventsRead(MOCK_USER_ID, ids);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error in /api/alert-events/read:", error);
+      res.status(500).json({ error: "Failed to update alert events" });
+    }
+  });
+
+  // ============================================
+  // WEBHOOK ROUTES
+  // ============================================
+
+  /**
+   * GET /api/webhooks
+   * List the user's webhook endpoints (secrets masked)
+   */
+  app.get("/api/webhooks", async (req, res) => {
+    try {
+      const endpoints = await storage.getWebhookEndpointsByUserId(MOCK_USER_ID);
+      res.json(endpoints.map(endpoint => ({ ...endpoint, secret: maskSecret(endpoint.secret) })));
+    } catch (error) {
+      console.error("Error in /api/webhooks:", error);
+      res.status(500).json({ error: "Failed to fetch webhooks" });
+    }
+  });
+
+  /**
+   * POST /api/webhooks
+   * Register a webhook endpoint. The signing secret is only returned in full here and on rotation.
+   * Body: { url, description?, events: string[], symbols?: string[] }
+   */
+  app.post("/api/webhooks", async (req, res) => {
+    try {
+      const validated = insertWebhookEndpointSchema.parse({ ...req.body, userId: MOCK_USER_ID });
+      const endpoint = await storage.createWebhookEndpoint({ ...validated, secret: generateWebhookSecret() });
+      res.json(endpoint);
+    } catch (error: any) {
+      console.error("Error in /api/webhooks:", error);
+      res.status(400).json({ error: error.message || "Invalid webhook data" });
+    }
+  });
+
+  /**
+   * PUT /api/webhooks/:id
+   * Update a webhook endpoint's URL, subscriptions or enabled state
+   */
+  app.put("/api/webhooks/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWebhookEndpoint(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const { id: _id, createdAt, secret, ...current } = existing;
+      const validated = insertWebhookEndpointSchema.parse({ ...current, ...req.body, userId: MOCK_USER_ID });
+      const endpoint = await storage.updateWebhookEndpoint(id, validated);
+      res.json({ ...endpoint, secret: maskSecret(secret) });
+    } catch (error: any) {
+      console.error(`Error in /api/webhooks/${req.params.id}:`, error);
+      res.status(400).json({ error: error.message || "Invalid webhook data" });
+    }
+  });
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Delete a webhook endpoint and its delivery log
+   */
+  app.delete("/api/webhooks/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWebhookEndpoint(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      await storage.deleteWebhookEndpoint(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/webhooks/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/:id/rotate-secret
+   * Replace the signing secret and return the new one
+   */
+  app.post("/api/webhooks/:id/rotate-secret", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWebhookEndpoint(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const endpoint = await storage.updateWebhookEndpoint(id, { secret: generateWebhookSecret() });
+      res.json(endpoint);
+    } catch (error) {
+      console.error(`Error in /api/webhooks/${req.params.id}/rotate-secret:`, error);
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  /**
+   * POST /api/webhooks/:id/test
+   * Send a signed test event to the endpoint and return the delivery
+   */
+  app.post("/api/webhooks/:id/test", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWebhookEndpoint(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const delivery = await sendTestEvent(existing);
+      res.json(delivery);
+    } catch (error) {
+      console.error(`Error in /api/webhooks/${req.params.id}/test:`, error);
+      res.status(500).json({ error: "Failed to send test event" });
+    }
+  });
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   * Delivery log for an endpoint, newest first
+   * Query: limit
+   */
+  app.get("/api/webhooks/:id/deliveries", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWebhookEndpoint(id);
+      if (!existing || existing.userId !== MOCK_USER_ID) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const deliveries = await storage.getWebhookDeliveries(id, limit);
+      res.json(deliveries);
+    } catch (error) {
+      console.error(`Error in /api/webhooks/${req.params.id}/deliveries:`, error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // ============================================
+  // PORTFOLIO ROUTES
+  // ============================================
+
+  /**
+   * Load a portfolio if it belongs to the current user
+   */
+  const getOwnedPortfolio = async (id: number) => {
+    const portfolio = Number.isNaN(id) ? undefined : await storage.getPortfolio(id);
+    return portfolio && portfolio.userId === MOCK_USER_ID ? portfolio : undefined;
+  };
+
+  /**
+   * Resolve a ?portfolioId= selector: "all" is every active portfolio, an id must be owned,
+   * and no id means the default portfolio
+   */
+  const selectPortfolios = async (portfolioId?: number | "all"): Promise<Portfolio[] | undefined> => {
+    if (portfolioId === undefined) return [defaultPortfolio(await ensurePortfolios(MOCK_USER_ID))!];
+    if (portfolioId === "all") return (await ensurePortfolios(MOCK_USER_ID)).filter(p => !p.archived);
+    const owned = await getOwnedPortfolio(portfolioId);
+    return owned ? [owned] : undefined;
+  };
+
+  /**
+   * GET /api/portfolios
+   * List the user's portfolios (creates the default portfolio on first use)
+   */
+  app.get("/api/portfolios", async (req, res) => {
+    try {
+      const portfolios = await ensurePortfolios(MOCK_USER_ID);
+      res.json(portfolios);
+    } catch (error) {
+      console.error("Error in /api/portfolios:", error);
+      res.status(500).json({ error: "Failed to fetch portfolios" });
+    }
+  });
+
+  /**
+   * POST /api/portfolios
+   * Create a portfolio
+   */
+  app.post("/api/portfolios", async (req, res) => {
+    try {
+      const validated = insertPortfolioSchema.parse({ ...req.body, userId: MOCK_USER_ID, archived: false });
+      const portfolio = await storage.createPortfolio(validated);
+      res.json(portfolio);
+    } catch (error: any) {
+      console.error("Error in /api/portfolios:", error);
+      res.status(400).json({ error: error.message || "Invalid portfolio data" });
+    }
+  });
+
+  /**
+   * GET /api/portfolios/all
+   * Combined holdings and PnL across all active portfolios, with a per-portfolio breakdown
+   */
+  app.get("/api/portfolios/all", async (req, res) => {
+    try {
+      const portfolios = await ensurePortfolios(MOCK_USER_ID);
+      const valuation = await getAggregateValuation(portfolios.filter(p => !p.archived));
+      res.json({ portfolio: null, ...valuation });
+    } catch (error) {
+      console.error("Error in /api/portfolios/all:", error);
+      res.status(500).json({ error: "Failed to fetch portfolios" });
+    }
+  });
+
+  /**
+   * GET /api/portfolios/:id
+   * A portfolio with its trades and holdings valued at current prices
+   */
+  app.get("/api/portfolios/:id", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const valuation = await getPortfolioValuation(portfolio);
+      res.json({ portfolio, ...valuation });
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to fetch portfolio" });
+    }
+  });
+
+  /**
+   * GET /api/portfolios/:id/lots
+   * Open lots and the lots each sell closed, under the portfolio's cost basis method
+   */
+  app.get("/api/portfolios/:id/lots", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      res.json(await getLotLedger(portfolio));
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}/lots:`, error);
+      res.status(500).json({ error: "Failed to fetch lots" });
+    }
+  });
+
+  /**
+   * GET /api/portfolios/:id/tax-report?year=2024&format=json|csv|html
+   * Capital gains disposals with short/long term classification and yearly totals.
+   * :id may be "all" to cover every portfolio, archived ones included.
+   */
+  app.get("/api/portfolios/:id/tax-report", async (req, res) => {
+    try {
+      const parsed = taxReportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid tax report query" });
+      }
+
+      const isAll = req.params.id === "all";
+      const owned = isAll ? undefined : await getOwnedPortfolio(parseInt(req.params.id));
+      if (!isAll && !owned) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const portfolios = owned ? [owned] : await ensurePortfolios(MOCK_USER_ID);
+      const { year, format } = parsed.data;
+      const report = await buildTaxReport(portfolios, year);
+
+      if (format === "csv") {
+        const filename = `tax-report-${isAll ? "all" : owned!.id}-${year ?? "all-years"}.csv`;
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+        return res.send(taxReportToCsv(report));
+      }
+      if (format === "html") {
+        return res.type("html").send(taxReportToHtml(report));
+      }
+      res.json(report);
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}/tax-report:`, error);
+      res.status(500).json({ error: "Failed to build tax report" });
+    }
+  });
+
+  /**
+   * PUT /api/portfolios/:id
+   * Rename, archive/unarchive or change the cost basis method of a portfolio
+   */
+  app.put("/api/portfolios/:id", async (req, res) => {
+    try {
+      const existing = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const validated = insertPortfolioSchema.pick({ name: true, archived: true, costBasisMethod: true }).partial().parse(req.body);
+      // Changing the method re-matches realized PnL, which would rewrite an archived portfolio's tax history
+      const methodChanged = validated.costBasisMethod !== undefined && validated.costBasisMethod !== existing.costBasisMethod;
+      if (methodChanged && (validated.archived ?? existing.archived)) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+
+      const portfolio = await storage.updatePortfolio(existing.id, validated);
+      if (portfolio && portfolio.costBasisMethod !== existing.costBasisMethod) {
+        // Realized PnL is re-matched under the new method
+        await syncRealizedPnlLogs(portfolio);
+        notifyPortfolioChanged(portfolio.id);
+      }
+      res.json(portfolio);
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}:`, error);
+      res.status(400).json({ error: error.message || "Invalid portfolio data" });
+    }
+  });
+
+  /**
+   * DELETE /api/portfolios/:id
+   * Delete a portfolio with its trades and realized PnL logs
+   */
+  app.delete("/api/portfolios/:id", async (req, res) => {
+    try {
+      const existing = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const portfolios = await storage.getPortfoliosByUserId(MOCK_USER_ID);
+      if (portfolios.length <= 1) {
+        return res.status(400).json({ error: "Cannot delete your only portfolio" });
+      }
+
+      await storage.deletePortfolio(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete portfolio" });
+    }
+  });
+
+  /**
+   * POST /api/portfolios/:id/trades
+   * Add a trade (buy or sell) to a portfolio
+   */
+  app.post("/api/portfolios/:id/trades", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+      if (await storage.getPaperAccount(portfolio.id)) {
+        return res.status(400).json({ error: PAPER_MANUAL_TRADES_ERROR });
+      }
+
+      const validated = insertTradeSchema.parse({ ...req.body, portfolioId: portfolio.id });
+      const trade = await recordTrade(portfolio, validated);
+      notifyPortfolioChanged(portfolio.id);
+      res.json(trade);
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/trades:`, error);
+      res.status(400).json({ error: error.message || "Failed to add trade" });
+    }
+  });
+
+  /**
+   * GET /api/trade-import/presets
+   * CSV layouts the trade importer understands, with their column names
+   */
+  app.get("/api/trade-import/presets", (req, res) => {
+    res.json(Object.values(IMPORT_PRESETS));
+  });
+
+  /**
+   * POST /api/portfolios/:id/trades/import
+   * Import trades from an exchange CSV. With dryRun (the default) only the validated preview
+   * is returned; otherwise the valid rows are inserted in one transaction.
+   */
+  app.post("/api/portfolios/:id/trades/import", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const validated = tradeImportRequestSchema.parse(req.body);
+      if (validated.dryRun) {
+        return res.json(await previewTradeImport(portfolio, validated));
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+      if (await storage.getPaperAccount(portfolio.id)) {
+        return res.status(400).json({ error: PAPER_MANUAL_TRADES_ERROR });
+      }
+
+      const result = await importTrades(portfolio, validated);
+      if (result.imported > 0) notifyPortfolioChanged(portfolio.id);
+      res.json(result);
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/trades/import:`, error);
+      res.status(400).json({ error: error.message || "Failed to import trades" });
+    }
+  });
+
+  /**
+   * POST /api/portfolios/:id/rebalance
+   * Plan the orders that move current holdings to target weights. With dryRun (the default)
+   * only the plan is returned; otherwise its orders are saved as trades in one go.
+   */
+  app.post("/api/portfolios/:id/rebalance", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const validated = rebalanceRequestSchema.parse(req.body);
+      if (validated.dryRun) {
+        return res.json(await planRebalance(portfolio, validated));
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+
+      const result = await executeRebalance(portfolio, validated);
+      if (result.trades.length > 0) notifyPortfolioChanged(portfolio.id);
+      res.json(result);
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/rebalance:`, error);
+      res.status(400).json({ error: error.message || "Failed to rebalance portfolio" });
+    }
+  });
+
+  /**
+   * DELETE /api/portfolios/:id/trades/:tradeId
+   * Delete a trade and re-match realized PnL without it
+   */
+  app.delete("/api/portfolios/:id/trades/:tradeId", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      const trade = await storage.getTrade(parseInt(req.params.tradeId));
+      if (!portfolio || !trade || trade.portfolioId !== portfolio.id) {
+        return res.status(404).json({ error: "Trade not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+      if (await storage.getPaperAccount(portfolio.id)) {
+        return res.status(400).json({ error: PAPER_MANUAL_TRADES_ERROR });
+      }
+
+      await removeTrade(portfolio, trade);
+      notifyPortfolioChanged(portfolio.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}/trades/${req.params.tradeId}:`, error);
+      res.status(500).json({ error: "Failed to delete trade" });
+    }
+  });
+
+  /**
+   * GET /api/portfolios/:id/cash-flows
+   * Deposits and withdrawals, newest first
+   */
+  app.get("/api/portfolios/:id/cash-flows", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      res.json(await storage.getCashFlowsByPortfolioId(portfolio.id));
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}/cash-flows:`, error);
+      res.status(500).json({ error: "Failed to fetch cash flows" });
+    }
+  });
+
+  /**
+   * POST /api/portfolios/:id/cash-flows
+   * Record a deposit or withdrawal. Once a portfolio has any, performance tracks its cash balance.
+   */
+  app.post("/api/portfolios/:id/cash-flows", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+
+      const validated = insertCashFlowSchema.parse({ ...req.body, portfolioId: portfolio.id });
+      res.json(await recordCashFlow(portfolio.id, validated));
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/cash-flows:`, error);
+      res.status(400).json({ error: error.message || "Invalid cash flow" });
+    }
+  });
+
+  /**
+   * DELETE /api/portfolios/:id/cash-flows/:flowId
+   * Delete a deposit or withdrawal
+   */
+  app.delete("/api/portfolios/:id/cash-flows/:flowId", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      const flow = await storage.getCashFlow(parseInt(req.params.flowId));
+      if (!portfolio || !flow || flow.portfolioId !== portfolio.id) {
+        return res.status(404).json({ error: "Cash flow not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+
+      // Also undoes the flow's effect on a paper account's cash
+      try {
+        await removeCashFlow(flow);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}/cash-flows/${req.params.flowId}:`, error);
+      res.status(500).json({ error: "Failed to delete cash flow" });
+    }
+  });
+
+  /**
+   * GET /api/portfolios/:id/paper
+   * Paper account cash, committed cash and equity; 404 when paper trading isn't enabled
+   */
+  app.get("/api/portfolios/:id/paper", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const summary = await getPaperAccountSummary(portfolio);
+      if (!summary) {
+        return res.status(404).json({ error: "Paper trading is not enabled for this portfolio" });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}/paper:`, error);
+      res.status(500).json({ error: "Failed to fetch paper account" });
+    }
+  });
+
+  /**
+   * POST /api/portfolios/:id/paper
+   * Enable paper trading with a virtual starting balance, slippage and fee rate
+   */
+  app.post("/api/portfolios/:id/paper", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+
+      const validated = paperAccountRequestSchema.parse(req.body);
+      res.json(await openPaperAccount(portfolio, validated));
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/paper:`, error);
+      res.status(400).json({ error: error.message || "Failed to enable paper trading" });
+    }
+  });
+
+  /**
+   * PUT /api/portfolios/:id/paper
+   * Change the simulated slippage or fee rate for future fills
+   */
+  app.put("/api/portfolios/:id/paper", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const validated = paperSettingsSchema.parse(req.body);
+      res.json(await updatePaperSettings(portfolio, validated));
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/paper:`, error);
+      res.status(400).json({ error: error.message || "Failed to update paper settings" });
+    }
+  });
+
+  /**
+   * GET /api/portfolios/:id/orders?status=open|filled|cancelled
+   * Paper orders, newest first
+   */
+  app.get("/api/portfolios/:id/orders", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      const parsed = orderQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid order query" });
+      }
+
+      res.json(await storage.getOrdersByPortfolioId(portfolio.id, parsed.data.status));
+    } catch (error) {
+      console.error(`Error in /api/portfolios/${req.params.id}/orders:`, error);
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  /**
+   * POST /api/portfolios/:id/orders
+   * Place a paper market or limit order. Market orders come back filled (or cancelled with a
+   * reason); limit orders stay open until the matcher sees the price reach them.
+   */
+  app.post("/api/portfolios/:id/orders", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+
+      const validated = insertOrderSchema.parse({ ...req.body, portfolioId: portfolio.id });
+      res.json(await placeOrder(portfolio, validated));
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/orders:`, error);
+      res.status(400).json({ error: error.message || "Failed to place order" });
+    }
+  });
+
+  /**
+   * POST /api/portfolios/:id/orders/:orderId/cancel
+   * Cancel an open paper order; filled and cancelled orders are kept as history
+   */
+  app.post("/api/portfolios/:id/orders/:orderId/cancel", async (req, res) => {
+    try {
+      const portfolio = await getOwnedPortfolio(parseInt(req.params.id));
+      const order = await storage.getOrder(parseInt(req.params.orderId));
+      if (!portfolio || !order || order.portfolioId !== portfolio.id) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      res.json(await cancelOrder(portfolio, order));
+    } catch (error: any) {
+      console.error(`Error in /api/portfolios/${req.params.id}/orders/${req.params.orderId}/cancel:`, error);
+      res.status(400).json({ error: error.message || "Failed to cancel order" });
+    }
+  });
+
+  /**
+   * GET /api/portfolio/performance?portfolioId=all|<id>&days=365
+   * Daily value series rebuilt from trades, cash flows and daily closes, with time- and
+   * money-weighted returns against BTC and an equal-weight top-10 index. Defaults to the
+   * default portfolio; "all" combines the active portfolios.
+   */
+  app.get("/api/portfolio/performance", async (req, res) => {
+    try {
+      const parsed = performanceQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid performance query" });
+      }
+
+      const portfolios = await selectPortfolios(parsed.data.portfolioId);
+      if (!portfolios) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      res.json(await getPerformance(portfolios, parsed.data.days));
+    } catch (error) {
+      console.error("Error in /api/portfolio/performance:", error);
+      res.status(500).json({ error: "Failed to compute performance" });
+    }
+  });
+
+  /**
+   * GET /api/portfolio/risk?portfolioId=all|<id>&days=365
+   * Historical and parametric VaR/CVaR, beta to BTC, correlations, per-position risk
+   * contribution and concentration for the current holdings
+   */
+  app.get("/api/portfolio/risk", async (req, res) => {
+    try {
+      const parsed = riskQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid risk query" });
+      }
+
+      const portfolios = await selectPortfolios(parsed.data.portfolioId);
+      if (!portfolios) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+
+      res.json(await getRiskForPortfolios(portfolios, parsed.data.days));
+    } catch (error) {
+      console.error("Error in /api/portfolio/risk:", error);
+      res.status(500).json({ error: "Failed to compute portfolio risk" });
+    }
+  });
+
+  /**
+   * GET /api/portfolio
+   * The default portfolio (first active one) with all trades
+   */
+  app.get("/api/portfolio", async (req, res) => {
+    try {
+      const portfolio = defaultPortfolio(await ensurePortfolios(MOCK_USER_ID))!;
+      const valuation = await getPortfolioValuation(portfolio);
+      res.json({ portfolio, ...valuation });
+    } catch (error) {
+      console.error("Error in /api/portfolio:", error);
+      res.status(500).json({ error: "Failed to fetch portfolio" });
+    }
+  });
+
+  /**
+   * POST /api/portfolio/trade
+   * Add a new trade (buy or sell); portfolioId comes from the body
+   */
+  app.post("/api/portfolio/trade", async (req, res) => {
+    try {
+      const validated = insertTradeSchema.parse(req.body);
+      const portfolio = await getOwnedPortfolio(validated.portfolioId);
+      if (!portfolio) {
+        return res.status(404).json({ error: "Portfolio not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+      if (await storage.getPaperAccount(portfolio.id)) {
+        return res.status(400).json({ error: PAPER_MANUAL_TRADES_ERROR });
+      }
+
+      const trade = await recordTrade(portfolio, validated);
+      notifyPortfolioChanged(portfolio.id);
+      res.json(trade);
+    } catch (error: any) {
+      console.error("Error in /api/portfolio/trade:", error);
+      res.status(400).json({ error: error.message || "Failed to add trade" });
+    }
+  });
+
+  /**
+   * DELETE /api/portfolio/trade/:id
+   * Delete a trade and re-match realized PnL without it
+   */
+  app.delete("/api/portfolio/trade/:id", async (req, res) => {
+    try {
+      const trade = await storage.getTrade(parseInt(req.params.id));
+      const portfolio = trade ? await getOwnedPortfolio(trade.portfolioId) : undefined;
+      if (!trade || !portfolio) {
+        return res.status(404).json({ error: "Trade not found" });
+      }
+      if (portfolio.archived) {
+        return res.status(400).json({ error: "Portfolio is archived" });
+      }
+      if (await storage.getPaperAccount(portfolio.id)) {
+        return res.status(400).json({ error: PAPER_MANUAL_TRADES_ERROR });
+      }
+
+      await removeTrade(portfolio, trade);
+      notifyPortfolioChanged(trade.portfolioId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(`Error in /api/portfolio/trade/${req.params.id}:`, error);
+      res.status(500).json({ error: "Failed to delete trade" });
+    }
+  });
+
+  // ============================================
+  // CHAT ROUTES
+  // ============================================
+
+  /**
+   * POST /api/chat
+   * AI chatbot with Grok sentiment + GPT signals + Quant analysis
+   */
+  app.post("/api/chat", async (req: any, res) => {
+    try {
+      const { message } = req.body;
+      const userId = MOCK_USER_ID;
+
+      if (!message) {
+        return res.status(400).json({ error: "Message is required" });
+      }
+
+      // Import AI chat functions
+      const { processAIChat, getMarketRegimeAnalysis } = await import('./lib/aiChat');
+
+      let response: string;
+
+      // Check if asking about market regime
       if (message.toLowerCase().includes('regime') ||
         message.toLowerCase().includes('overall market') ||
         message.toLowerCase().includes('market condition')) {
@@ -731,5 +2010,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
+  // Live ticker and portfolio updates over WebSocket
+  attachPriceStream(httpServer, MOCK_USER_ID);
+
   return httpServer;
 }
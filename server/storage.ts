@@ -2,16 +2,37 @@ import {
   users, 
   portfolios, 
   trades, 
+  cashFlows,
+  paperAccounts,
+  orders,
   quantSignals, 
   chatLogs, 
   regimeLogs,
   realizedPnlLogs,
+  strategyProfiles,
+  strategyRunners,
+  strategyRuns,
+  screens,
+  optimizerRuns,
+  quantSnapshots,
+  signalOutcomes,
+  alerts,
+  alertEvents,
+  webhookEndpoints,
+  webhookDeliveries,
+  candles,
   type User, 
   type UpsertUser,
   type Portfolio,
   type InsertPortfolio,
   type Trade,
   type InsertTrade,
+  type CashFlow,
+  type InsertCashFlow,
+  type PaperAccount,
+  type InsertPaperAccount,
+  type Order,
+  type InsertOrder,
   type QuantSignal,
   type InsertQuantSignal,
   type ChatLog,
@@ -19,10 +40,83 @@ import {
   type RegimeLog,
   type InsertRegimeLog,
   type RealizedPnlLog,
-  type InsertRealizedPnlLog
+  type InsertRealizedPnlLog,
+  type StrategyProfile,
+  type InsertStrategyProfile,
+  type StrategyRunner,
+  type InsertStrategyRunner,
+  type StrategyRun,
+  type Screen,
+  type InsertScreen,
+  type InsertStrategyRun,
+  type OptimizerRun,
+  type InsertOptimizerRun,
+  type QuantSnapshot,
+  type InsertQuantSnapshot,
+  type SignalOutcome,
+  type InsertSignalOutcome,
+  type Alert,
+  type InsertAlert,
+  type AlertEvent,
+  type InsertAlertEvent,
+  type WebhookEndpoint,
+  type InsertWebhookEndpoint,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type Candle,
+  type InsertCandle
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, gt, gte, lte, isNull, inArray, asc, sql } from "drizzle-orm";
+
+export interface QuantSnapshotQuery {
+  interval: string;
+  profile: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export type PortfolioUpdate = Partial<Omit<Portfolio, 'id' | 'userId' | 'createdAt'>>;
+
+export type PaperAccountUpdate = Partial<Omit<PaperAccount, 'id' | 'portfolioId' | 'createdAt'>>;
+
+export type OrderUpdate = Partial<Omit<Order, 'id' | 'portfolioId' | 'createdAt'>>;
+
+// Execution details written to an order when it fills
+export type PaperFill = Pick<Order, 'fillPrice' | 'fee' | 'filledAt'>;
+
+export type StrategyRunnerUpdate = Partial<Omit<StrategyRunner, 'id' | 'userId' | 'createdAt'>>;
+
+export type ScreenUpdate = Partial<Omit<Screen, 'id' | 'userId' | 'createdAt'>>;
+
+export type AlertUpdate = Partial<Omit<Alert, 'id' | 'userId' | 'createdAt'>>;
+
+export type WebhookEndpointUpdate = Partial<Omit<WebhookEndpoint, 'id' | 'userId' | 'createdAt'>>;
+
+export type WebhookDeliveryUpdate = Partial<Omit<WebhookDelivery, 'id' | 'endpointId' | 'createdAt'>>;
+
+export interface SignalOutcomeQuery {
+  interval: string;
+  profile: string;
+  symbol?: string;
+}
+
+export interface CandleQuery {
+  interval: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface CandleSeries {
+  symbol: string;
+  interval: string;
+  count: number;
+  firstOpenTime: Date;
+  lastOpenTime: Date;
+  lastUpdatedAt: Date;
+}
 
 export interface IStorage {
   // Users
@@ -31,14 +125,41 @@ export interface IStorage {
   
   // Portfolios
   getPortfoliosByUserId(userId: string): Promise<Portfolio[]>;
+  getPortfolio(id: number): Promise<Portfolio | undefined>;
   createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio>;
+  updatePortfolio(id: number, portfolio: PortfolioUpdate): Promise<Portfolio | undefined>;
+  deletePortfolio(id: number): Promise<void>;
   
   // Trades
   getTradesByPortfolioId(portfolioId: number): Promise<Trade[]>;
+  getTrade(id: number): Promise<Trade | undefined>;
   createTrade(trade: InsertTrade): Promise<Trade>;
+  createTrades(trades: InsertTrade[]): Promise<Trade[]>;
   updateTrade(id: number, trade: Partial<InsertTrade>): Promise<Trade | undefined>;
   deleteTrade(id: number): Promise<void>;
   
+  // Cash Flows
+  getCashFlowsByPortfolioId(portfolioId: number): Promise<CashFlow[]>;
+  getCashFlow(id: number): Promise<CashFlow | undefined>;
+  createCashFlow(flow: InsertCashFlow): Promise<CashFlow>;
+  deleteCashFlow(id: number): Promise<void>;
+  createPaperCashFlow(flow: InsertCashFlow, cash: string): Promise<CashFlow>;
+  deletePaperCashFlow(flow: CashFlow, cash: string): Promise<void>;
+  
+  // Paper Accounts
+  getPaperAccount(portfolioId: number): Promise<PaperAccount | undefined>;
+  createPaperAccount(account: InsertPaperAccount): Promise<PaperAccount>;
+  updatePaperAccount(portfolioId: number, account: PaperAccountUpdate): Promise<PaperAccount | undefined>;
+  fillPaperOrder(orderId: number, trade: InsertTrade, cash: string, fill: PaperFill): Promise<{ trade: Trade; order: Order }>;
+  createPaperTrades(portfolioId: number, trades: InsertTrade[], cash: string): Promise<Trade[]>;
+  
+  // Orders
+  getOrdersByPortfolioId(portfolioId: number, status?: string): Promise<Order[]>;
+  getOpenOrders(): Promise<Order[]>;
+  getOrder(id: number): Promise<Order | undefined>;
+  createOrder(order: InsertOrder): Promise<Order>;
+  updateOrder(id: number, order: OrderUpdate): Promise<Order | undefined>;
+  
   // Quant Signals
   getLatestQuantSignal(symbol: string): Promise<QuantSignal | undefined>;
   getRecentQuantSignals(limit: number): Promise<QuantSignal[]>;
@@ -56,6 +177,84 @@ export interface IStorage {
   getRealizedPnlLogsByPortfolioId(portfolioId: number): Promise<RealizedPnlLog[]>;
   createRealizedPnlLog(log: InsertRealizedPnlLog): Promise<RealizedPnlLog>;
   deleteRealizedPnlLogByTradeId(tradeId: number): Promise<void>;
+  replaceRealizedPnlLogs(portfolioId: number, logs: InsertRealizedPnlLog[]): Promise<void>;
+  
+  // Strategy Profiles
+  getStrategyProfiles(): Promise<StrategyProfile[]>;
+  getStrategyProfile(id: number): Promise<StrategyProfile | undefined>;
+  getStrategyProfileByName(name: string): Promise<StrategyProfile | undefined>;
+  createStrategyProfile(profile: InsertStrategyProfile): Promise<StrategyProfile>;
+  updateStrategyProfile(id: number, profile: Partial<InsertStrategyProfile>): Promise<StrategyProfile | undefined>;
+  deleteStrategyProfile(id: number): Promise<void>;
+  
+  // Strategy Runners
+  getStrategyRunnersByUserId(userId: string): Promise<StrategyRunner[]>;
+  getActiveStrategyRunners(): Promise<StrategyRunner[]>;
+  getStrategyRunnersByProfile(profile: string): Promise<StrategyRunner[]>;
+  getStrategyRunner(id: number): Promise<StrategyRunner | undefined>;
+  createStrategyRunner(runner: InsertStrategyRunner): Promise<StrategyRunner>;
+  updateStrategyRunner(id: number, runner: StrategyRunnerUpdate): Promise<StrategyRunner | undefined>;
+  deleteStrategyRunner(id: number): Promise<void>;
+  
+  // Strategy Runs
+  getStrategyRuns(runnerId: number, limit?: number): Promise<StrategyRun[]>;
+  createStrategyRun(run: InsertStrategyRun): Promise<StrategyRun>;
+  
+  // Screens
+  getScreensByUserId(userId: string): Promise<Screen[]>;
+  getScreen(id: number): Promise<Screen | undefined>;
+  getScreensByProfile(profile: string): Promise<Screen[]>;
+  createScreen(screen: InsertScreen): Promise<Screen>;
+  updateScreen(id: number, screen: ScreenUpdate): Promise<Screen | undefined>;
+  deleteScreen(id: number): Promise<void>;
+  
+  // Optimizer Runs
+  getOptimizerRuns(limit?: number): Promise<OptimizerRun[]>;
+  getOptimizerRun(id: number): Promise<OptimizerRun | undefined>;
+  createOptimizerRun(run: InsertOptimizerRun): Promise<OptimizerRun>;
+  updateOptimizerRun(id: number, run: Partial<InsertOptimizerRun>): Promise<OptimizerRun | undefined>;
+  
+  // Quant Snapshots
+  getQuantSnapshot(symbol: string, interval: string, profile: string, barCloseTime: Date): Promise<QuantSnapshot | undefined>;
+  getQuantSnapshots(symbol: string, query: QuantSnapshotQuery): Promise<QuantSnapshot[]>;
+  upsertQuantSnapshot(snapshot: InsertQuantSnapshot): Promise<QuantSnapshot>;
+  
+  // Signal Outcomes
+  getSnapshotsAwaitingOutcome(interval: string, closedBefore: Date, limit?: number): Promise<QuantSnapshot[]>;
+  getSignalOutcomes(query: SignalOutcomeQuery): Promise<SignalOutcome[]>;
+  createSignalOutcome(outcome: InsertSignalOutcome): Promise<SignalOutcome>;
+  
+  // Alerts
+  getAlertsByUserId(userId: string): Promise<Alert[]>;
+  getEnabledAlerts(): Promise<Alert[]>;
+  getAlert(id: number): Promise<Alert | undefined>;
+  createAlert(alert: InsertAlert): Promise<Alert>;
+  updateAlert(id: number, alert: AlertUpdate): Promise<Alert | undefined>;
+  deleteAlert(id: number): Promise<void>;
+  
+  // Alert Events
+  getAlertEventsByUserId(userId: string, afterId?: number, limit?: number): Promise<AlertEvent[]>;
+  createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent>;
+  markAlertEventsRead(userId: string, ids?: number[]): Promise<void>;
+  
+  // Webhooks
+  getWebhookEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]>;
+  getEnabledWebhookEndpoints(): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined>;
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint>;
+  updateWebhookEndpoint(id: number, endpoint: WebhookEndpointUpdate): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(id: number): Promise<void>;
+  
+  // Webhook Deliveries
+  getWebhookDeliveries(endpointId: number, limit?: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(now: Date, limit?: number): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, delivery: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined>;
+  
+  // Candles
+  getCandles(symbol: string, query: CandleQuery): Promise<Candle[]>;
+  getCandleSeries(symbol?: string, interval?: string): Promise<CandleSeries[]>;
+  upsertCandles(candles: InsertCandle[]): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -82,7 +281,12 @@ export class DatabaseStorage implements IStorage {
   
   // Portfolios
   async getPortfoliosByUserId(userId: string): Promise<Portfolio[]> {
-    return await db.select().from(portfolios).where(eq(portfolios.userId, userId));
+    return await db.select().from(portfolios).where(eq(portfolios.userId, userId)).orderBy(portfolios.id);
+  }
+  
+  async getPortfolio(id: number): Promise<Portfolio | undefined> {
+    const [portfolio] = await db.select().from(portfolios).where(eq(portfolios.id, id));
+    return portfolio || undefined;
   }
   
   async createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio> {
@@ -90,16 +294,46 @@ export class DatabaseStorage implements IStorage {
     return newPortfolio;
   }
   
+  async updatePortfolio(id: number, portfolioUpdate: PortfolioUpdate): Promise<Portfolio | undefined> {
+    const [updated] = await db
+      .update(portfolios)
+      .set({ ...portfolioUpdate, updatedAt: new Date() })
+      .where(eq(portfolios.id, id))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async deletePortfolio(id: number): Promise<void> {
+    // Trades, cash flows and realized PnL logs cascade
+    await db.delete(portfolios).where(eq(portfolios.id, id));
+  }
+  
   // Trades
   async getTradesByPortfolioId(portfolioId: number): Promise<Trade[]> {
     return await db.select().from(trades).where(eq(trades.portfolioId, portfolioId)).orderBy(desc(trades.date));
   }
   
+  async getTrade(id: number): Promise<Trade | undefined> {
+    const [trade] = await db.select().from(trades).where(eq(trades.id, id));
+    return trade || undefined;
+  }
+  
   async createTrade(trade: InsertTrade): Promise<Trade> {
     const [newTrade] = await db.insert(trades).values(trade).returning();
     return newTrade;
   }
   
+  async createTrades(tradeRows: InsertTrade[]): Promise<Trade[]> {
+    // All or nothing, in chunks to stay well under the Postgres parameter limit
+    return await db.transaction(async (tx) => {
+      const created: Trade[] = [];
+      for (let i = 0; i < tradeRows.length; i += 500) {
+        created.push(...await tx.insert(trades).values(tradeRows.slice(i, i + 500)).returning());
+      }
+      return created;
+    });
+  }
+  
   async updateTrade(id: number, tradeUpdate: Partial<InsertTrade>): Promise<Trade | undefined> {
     const [updated] = await db.update(trades).set(tradeUpdate).where(eq(trades.id, id)).returning();
     return updated || undefined;
@@ -109,6 +343,121 @@ export class DatabaseStorage implements IStorage {
     await db.delete(trades).where(eq(trades.id, id));
   }
   
+  // Cash Flows
+  async getCashFlowsByPortfolioId(portfolioId: number): Promise<CashFlow[]> {
+    return await db.select().from(cashFlows).where(eq(cashFlows.portfolioId, portfolioId)).orderBy(desc(cashFlows.date));
+  }
+  
+  async getCashFlow(id: number): Promise<CashFlow | undefined> {
+    const [flow] = await db.select().from(cashFlows).where(eq(cashFlows.id, id));
+    return flow || undefined;
+  }
+  
+  async createCashFlow(flow: InsertCashFlow): Promise<CashFlow> {
+    const [newFlow] = await db.insert(cashFlows).values(flow).returning();
+    return newFlow;
+  }
+  
+  async deleteCashFlow(id: number): Promise<void> {
+    await db.delete(cashFlows).where(eq(cashFlows.id, id));
+  }
+  
+  async createPaperCashFlow(flow: InsertCashFlow, cash: string): Promise<CashFlow> {
+    // The flow and the paper account cash it moves are written together or not at all
+    return await db.transaction(async (tx) => {
+      const [newFlow] = await tx.insert(cashFlows).values(flow).returning();
+      await tx
+        .update(paperAccounts)
+        .set({ cash, updatedAt: new Date() })
+        .where(eq(paperAccounts.portfolioId, flow.portfolioId));
+      return newFlow;
+    });
+  }
+  
+  async deletePaperCashFlow(flow: CashFlow, cash: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(cashFlows).where(eq(cashFlows.id, flow.id));
+      await tx
+        .update(paperAccounts)
+        .set({ cash, updatedAt: new Date() })
+        .where(eq(paperAccounts.portfolioId, flow.portfolioId));
+    });
+  }
+  
+  // Paper Accounts
+  async getPaperAccount(portfolioId: number): Promise<PaperAccount | undefined> {
+    const [account] = await db.select().from(paperAccounts).where(eq(paperAccounts.portfolioId, portfolioId));
+    return account || undefined;
+  }
+  
+  async createPaperAccount(account: InsertPaperAccount): Promise<PaperAccount> {
+    const [newAccount] = await db.insert(paperAccounts).values(account).returning();
+    return newAccount;
+  }
+  
+  async updatePaperAccount(portfolioId: number, accountUpdate: PaperAccountUpdate): Promise<PaperAccount | undefined> {
+    const [updated] = await db
+      .update(paperAccounts)
+      .set({ ...accountUpdate, updatedAt: new Date() })
+      .where(eq(paperAccounts.portfolioId, portfolioId))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async fillPaperOrder(orderId: number, trade: InsertTrade, cash: string, fill: PaperFill): Promise<{ trade: Trade; order: Order }> {
+    // The trade, the cash it moves and the order's status change together or not at all
+    return await db.transaction(async (tx) => {
+      const [newTrade] = await tx.insert(trades).values(trade).returning();
+      await tx
+        .update(paperAccounts)
+        .set({ cash, updatedAt: new Date() })
+        .where(eq(paperAccounts.portfolioId, trade.portfolioId));
+      const [order] = await tx
+        .update(orders)
+        .set({ ...fill, status: 'filled', tradeId: newTrade.id })
+        .where(eq(orders.id, orderId))
+        .returning();
+      return { trade: newTrade, order };
+    });
+  }
+  
+  async createPaperTrades(portfolioId: number, tradeRows: InsertTrade[], cash: string): Promise<Trade[]> {
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(trades).values(tradeRows).returning();
+      await tx
+        .update(paperAccounts)
+        .set({ cash, updatedAt: new Date() })
+        .where(eq(paperAccounts.portfolioId, portfolioId));
+      return created;
+    });
+  }
+  
+  // Orders
+  async getOrdersByPortfolioId(portfolioId: number, status?: string): Promise<Order[]> {
+    const conditions = [eq(orders.portfolioId, portfolioId)];
+    if (status) conditions.push(eq(orders.status, status));
+    return await db.select().from(orders).where(and(...conditions)).orderBy(desc(orders.createdAt));
+  }
+  
+  async getOpenOrders(): Promise<Order[]> {
+    return await db.select().from(orders).where(eq(orders.status, "open")).orderBy(asc(orders.createdAt));
+  }
+  
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order || undefined;
+  }
+  
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const [newOrder] = await db.insert(orders).values(order).returning();
+    return newOrder;
+  }
+  
+  async updateOrder(id: number, orderUpdate: OrderUpdate): Promise<Order | undefined> {
+    const [updated] = await db.update(orders).set(orderUpdate).where(eq(orders.id, id)).returning();
+    return updated || undefined;
+  }
+  
   // Quant Signals
   async getLatestQuantSignal(symbol: string): Promise<QuantSignal | undefined> {
     const [signal] = await db.select().from(quantSignals).where(eq(quantSignals.symbol, symbol)).orderBy(desc(quantSignals.createdAt)).limit(1);
@@ -158,6 +507,423 @@ export class DatabaseStorage implements IStorage {
   async deleteRealizedPnlLogByTradeId(tradeId: number): Promise<void> {
     await db.delete(realizedPnlLogs).where(eq(realizedPnlLogs.tradeId, tradeId));
   }
+
+  async replaceRealizedPnlLogs(portfolioId: number, logs: InsertRealizedPnlLog[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(realizedPnlLogs).where(eq(realizedPnlLogs.portfolioId, portfolioId));
+      for (let i = 0; i < logs.length; i += 500) {
+        await tx.insert(realizedPnlLogs).values(logs.slice(i, i + 500));
+      }
+    });
+  }
+  
+  // Strategy Profiles
+  async getStrategyProfiles(): Promise<StrategyProfile[]> {
+    return await db.select().from(strategyProfiles).orderBy(strategyProfiles.id);
+  }
+  
+  async getStrategyProfile(id: number): Promise<StrategyProfile | undefined> {
+    const [profile] = await db.select().from(strategyProfiles).where(eq(strategyProfiles.id, id));
+    return profile || undefined;
+  }
+  
+  async getStrategyProfileByName(name: string): Promise<StrategyProfile | undefined> {
+    const [profile] = await db.select().from(strategyProfiles).where(eq(strategyProfiles.name, name));
+    return profile || undefined;
+  }
+  
+  async createStrategyProfile(profile: InsertStrategyProfile): Promise<StrategyProfile> {
+    const [newProfile] = await db.insert(strategyProfiles).values(profile).returning();
+    return newProfile;
+  }
+  
+  async updateStrategyProfile(id: number, profileUpdate: Partial<InsertStrategyProfile>): Promise<StrategyProfile | undefined> {
+    const [updated] = await db
+      .update(strategyProfiles)
+      .set({ ...profileUpdate, updatedAt: new Date() })
+      .where(eq(strategyProfiles.id, id))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async deleteStrategyProfile(id: number): Promise<void> {
+    await db.delete(strategyProfiles).where(eq(strategyProfiles.id, id));
+  }
+  
+  // Strategy Runners
+  async getStrategyRunnersByUserId(userId: string): Promise<StrategyRunner[]> {
+    return await db.select().from(strategyRunners).where(eq(strategyRunners.userId, userId)).orderBy(desc(strategyRunners.createdAt));
+  }
+  
+  async getActiveStrategyRunners(): Promise<StrategyRunner[]> {
+    return await db.select().from(strategyRunners).where(eq(strategyRunners.status, "active"));
+  }
+  
+  async getStrategyRunnersByProfile(profile: string): Promise<StrategyRunner[]> {
+    return await db.select().from(strategyRunners).where(eq(strategyRunners.profile, profile));
+  }
+  
+  async getStrategyRunner(id: number): Promise<StrategyRunner | undefined> {
+    const [runner] = await db.select().from(strategyRunners).where(eq(strategyRunners.id, id));
+    return runner || undefined;
+  }
+  
+  async createStrategyRunner(runner: InsertStrategyRunner): Promise<StrategyRunner> {
+    const [newRunner] = await db.insert(strategyRunners).values(runner).returning();
+    return newRunner;
+  }
+  
+  async updateStrategyRunner(id: number, runnerUpdate: StrategyRunnerUpdate): Promise<StrategyRunner | undefined> {
+    const [updated] = await db
+      .update(strategyRunners)
+      .set({ ...runnerUpdate, updatedAt: new Date() })
+      .where(eq(strategyRunners.id, id))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async deleteStrategyRunner(id: number): Promise<void> {
+    await db.delete(strategyRunners).where(eq(strategyRunners.id, id));
+  }
+  
+  // Strategy Runs
+  async getStrategyRuns(runnerId: number, limit: number = 50): Promise<StrategyRun[]> {
+    return await db
+      .select()
+      .from(strategyRuns)
+      .where(eq(strategyRuns.runnerId, runnerId))
+      .orderBy(desc(strategyRuns.createdAt))
+      .limit(limit);
+  }
+  
+  async createStrategyRun(run: InsertStrategyRun): Promise<StrategyRun> {
+    const [newRun] = await db.insert(strategyRuns).values(run).returning();
+    return newRun;
+  }
+  
+  // Screens
+  async getScreensByUserId(userId: string): Promise<Screen[]> {
+    return await db.select().from(screens).where(eq(screens.userId, userId)).orderBy(asc(screens.name));
+  }
+  
+  async getScreen(id: number): Promise<Screen | undefined> {
+    const [screen] = await db.select().from(screens).where(eq(screens.id, id));
+    return screen || undefined;
+  }
+  
+  async getScreensByProfile(profile: string): Promise<Screen[]> {
+    return await db.select().from(screens).where(eq(screens.profile, profile));
+  }
+  
+  async createScreen(screen: InsertScreen): Promise<Screen> {
+    const [newScreen] = await db.insert(screens).values(screen).returning();
+    return newScreen;
+  }
+  
+  async updateScreen(id: number, screenUpdate: ScreenUpdate): Promise<Screen | undefined> {
+    const [updated] = await db
+      .update(screens)
+      .set({ ...screenUpdate, updatedAt: new Date() })
+      .where(eq(screens.id, id))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async deleteScreen(id: number): Promise<void> {
+    await db.delete(screens).where(eq(screens.id, id));
+  }
+  
+  // Optimizer Runs
+  async getOptimizerRuns(limit: number = 20): Promise<OptimizerRun[]> {
+    return await db.select().from(optimizerRuns).orderBy(desc(optimizerRuns.createdAt)).limit(limit);
+  }
+  
+  async getOptimizerRun(id: number): Promise<OptimizerRun | undefined> {
+    const [run] = await db.select().from(optimizerRuns).where(eq(optimizerRuns.id, id));
+    return run || undefined;
+  }
+  
+  async createOptimizerRun(run: InsertOptimizerRun): Promise<OptimizerRun> {
+    const [newRun] = await db.insert(optimizerRuns).values(run).returning();
+    return newRun;
+  }
+  
+  async updateOptimizerRun(id: number, runUpdate: Partial<InsertOptimizerRun>): Promise<OptimizerRun | undefined> {
+    const [updated] = await db
+      .update(optimizerRuns)
+      .set(runUpdate)
+      .where(eq(optimizerRuns.id, id))
+      .returning();
+    return updated || undefined;
+  }
+  
+  // Quant Snapshots
+  async getQuantSnapshot(symbol: string, interval: string, profile: string, barCloseTime: Date): Promise<QuantSnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(quantSnapshots)
+      .where(and(
+        eq(quantSnapshots.symbol, symbol),
+        eq(quantSnapshots.interval, interval),
+        eq(quantSnapshots.profile, profile),
+        eq(quantSnapshots.barCloseTime, barCloseTime)
+      ));
+    return snapshot || undefined;
+  }
+  
+  async getQuantSnapshots(symbol: string, query: QuantSnapshotQuery): Promise<QuantSnapshot[]> {
+    const conditions = [
+      eq(quantSnapshots.symbol, symbol),
+      eq(quantSnapshots.interval, query.interval),
+      eq(quantSnapshots.profile, query.profile),
+    ];
+    if (query.from) conditions.push(gte(quantSnapshots.barCloseTime, query.from));
+    if (query.to) conditions.push(lte(quantSnapshots.barCloseTime, query.to));
+
+    // Take the most recent rows, then return them oldest first for charting
+    const rows = await db
+      .select()
+      .from(quantSnapshots)
+      .where(and(...conditions))
+      .orderBy(desc(quantSnapshots.barCloseTime))
+      .limit(query.limit ?? 500);
+    return rows.reverse();
+  }
+  
+  async upsertQuantSnapshot(snapshot: InsertQuantSnapshot): Promise<QuantSnapshot> {
+    const [saved] = await db
+      .insert(quantSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: [quantSnapshots.symbol, quantSnapshots.interval, quantSnapshots.profile, quantSnapshots.barCloseTime],
+        set: {
+          compositeScore: snapshot.compositeScore,
+          signal: snapshot.signal,
+          confidence: snapshot.confidence,
+          marketRegime: snapshot.marketRegime,
+          output: snapshot.output,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+  
+  // Signal Outcomes
+  async getSnapshotsAwaitingOutcome(interval: string, closedBefore: Date, limit: number = 200): Promise<QuantSnapshot[]> {
+    const rows = await db
+      .select({ snapshot: quantSnapshots })
+      .from(quantSnapshots)
+      .leftJoin(signalOutcomes, eq(signalOutcomes.snapshotId, quantSnapshots.id))
+      .where(and(
+        eq(quantSnapshots.interval, interval),
+        lte(quantSnapshots.barCloseTime, closedBefore),
+        isNull(signalOutcomes.id)
+      ))
+      .orderBy(quantSnapshots.barCloseTime)
+      .limit(limit);
+    return rows.map(row => row.snapshot);
+  }
+  
+  async getSignalOutcomes(query: SignalOutcomeQuery): Promise<SignalOutcome[]> {
+    const conditions = [
+      eq(signalOutcomes.interval, query.interval),
+      eq(signalOutcomes.profile, query.profile),
+    ];
+    if (query.symbol) conditions.push(eq(signalOutcomes.symbol, query.symbol));
+
+    return await db
+      .select()
+      .from(signalOutcomes)
+      .where(and(...conditions))
+      .orderBy(signalOutcomes.barCloseTime);
+  }
+  
+  async createSignalOutcome(outcome: InsertSignalOutcome): Promise<SignalOutcome> {
+    const [newOutcome] = await db.insert(signalOutcomes).values(outcome).returning();
+    return newOutcome;
+  }
+  
+  // Alerts
+  async getAlertsByUserId(userId: string): Promise<Alert[]> {
+    return await db.select().from(alerts).where(eq(alerts.userId, userId)).orderBy(desc(alerts.createdAt));
+  }
+  
+  async getEnabledAlerts(): Promise<Alert[]> {
+    return await db.select().from(alerts).where(eq(alerts.enabled, true));
+  }
+  
+  async getAlert(id: number): Promise<Alert | undefined> {
+    const [alert] = await db.select().from(alerts).where(eq(alerts.id, id));
+    return alert || undefined;
+  }
+  
+  async createAlert(alert: InsertAlert): Promise<Alert> {
+    const [newAlert] = await db.insert(alerts).values(alert).returning();
+    return newAlert;
+  }
+  
+  async updateAlert(id: number, alertUpdate: AlertUpdate): Promise<Alert | undefined> {
+    const [updated] = await db
+      .update(alerts)
+      .set(alertUpdate)
+      .where(eq(alerts.id, id))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async deleteAlert(id: number): Promise<void> {
+    await db.delete(alerts).where(eq(alerts.id, id));
+  }
+  
+  // Alert Events
+  async getAlertEventsByUserId(userId: string, afterId: number = 0, limit: number = 50): Promise<AlertEvent[]> {
+    return await db
+      .select()
+      .from(alertEvents)
+      .where(and(eq(alertEvents.userId, userId), gt(alertEvents.id, afterId)))
+      .orderBy(desc(alertEvents.id))
+      .limit(limit);
+  }
+  
+  async createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent> {
+    const [newEvent] = await db.insert(alertEvents).values(event).returning();
+    return newEvent;
+  }
+  
+  async markAlertEventsRead(userId: string, ids?: number[]): Promise<void> {
+    const conditions = [eq(alertEvents.userId, userId)];
+    if (ids && ids.length > 0) conditions.push(inArray(alertEvents.id, ids));
+    await db.update(alertEvents).set({ read: true }).where(and(...conditions));
+  }
+  
+  // Webhooks
+  async getWebhookEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    return await db
+      .select()
+      .from(webhookEndpoints)
+      .where(eq(webhookEndpoints.userId, userId))
+      .orderBy(desc(webhookEndpoints.createdAt));
+  }
+  
+  async getEnabledWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.enabled, true));
+  }
+  
+  async getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint || undefined;
+  }
+  
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const [newEndpoint] = await db.insert(webhookEndpoints).values(endpoint).returning();
+    return newEndpoint;
+  }
+  
+  async updateWebhookEndpoint(id: number, endpointUpdate: WebhookEndpointUpdate): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set(endpointUpdate)
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return updated || undefined;
+  }
+  
+  async deleteWebhookEndpoint(id: number): Promise<void> {
+    await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+  }
+  
+  // Webhook Deliveries
+  async getWebhookDeliveries(endpointId: number, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+  
+  async getDueWebhookDeliveries(now: Date, limit: number = 50): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+  
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [newDelivery] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return newDelivery;
+  }
+  
+  async updateWebhookDelivery(id: number, deliveryUpdate: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set(deliveryUpdate)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  
+  // Candles
+  async getCandles(symbol: string, query: CandleQuery): Promise<Candle[]> {
+    const conditions = [eq(candles.symbol, symbol), eq(candles.interval, query.interval)];
+    if (query.from) conditions.push(gte(candles.openTime, query.from));
+    if (query.to) conditions.push(lte(candles.openTime, query.to));
+
+    // Take the most recent bars, then return them oldest first
+    const rows = await db
+      .select()
+      .from(candles)
+      .where(and(...conditions))
+      .orderBy(desc(candles.openTime))
+      .limit(query.limit ?? 1000);
+    return rows.reverse();
+  }
+  
+  async getCandleSeries(symbol?: string, interval?: string): Promise<CandleSeries[]> {
+    const conditions = [];
+    if (symbol) conditions.push(eq(candles.symbol, symbol));
+    if (interval) conditions.push(eq(candles.interval, interval));
+
+    return await db
+      .select({
+        symbol: candles.symbol,
+        interval: candles.interval,
+        count: sql<number>`count(*)::int`,
+        firstOpenTime: sql<Date>`min(${candles.openTime})`.mapWith(candles.openTime),
+        lastOpenTime: sql<Date>`max(${candles.openTime})`.mapWith(candles.openTime),
+        lastUpdatedAt: sql<Date>`max(${candles.updatedAt})`.mapWith(candles.updatedAt),
+      })
+      .from(candles)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(candles.symbol, candles.interval)
+      .orderBy(candles.symbol, candles.interval);
+  }
+  
+  async upsertCandles(rows: InsertCandle[]): Promise<number> {
+    // Insert in chunks to stay well under the Postgres parameter limit
+    for (let i = 0; i < rows.length; i += 500) {
+      await db
+        .insert(candles)
+        .values(rows.slice(i, i + 500))
+        .onConflictDoUpdate({
+          target: [candles.symbol, candles.interval, candles.openTime],
+          set: {
+            open: sql`excluded.open`,
+            high: sql`excluded.high`,
+            low: sql`excluded.low`,
+            close: sql`excluded.close`,
+            volume: sql`excluded.volume`,
+            source: sql`excluded.source`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+    return rows.length;
+  }
 }
 
 /**
@@ -167,12 +933,42 @@ export class MockStorage implements IStorage {
   private users = new Map<string, User>();
   private portfolios = new Map<number, Portfolio>();
   private trades = new Map<number, Trade>();
+  private cashFlows = new Map<number, CashFlow>();
+  private nextCashFlowId = 1;
+  private paperAccounts = new Map<number, PaperAccount>(); // portfolioId -> account
+  private nextPaperAccountId = 1;
+  private orders = new Map<number, Order>();
+  private nextOrderId = 1;
   private quantSignals: QuantSignal[] = [];
   private chatLogs: ChatLog[] = [];
   private regimeLogs: RegimeLog[] = [];
   private realizedPnlLogs: RealizedPnlLog[] = [];
+  private strategyProfiles = new Map<number, StrategyProfile>();
+  private strategyRunners = new Map<number, StrategyRunner>();
+  private strategyRuns: StrategyRun[] = [];
+  private nextStrategyRunnerId = 1;
+  private nextStrategyRunId = 1;
+  private screens = new Map<number, Screen>();
+  private nextScreenId = 1;
   private nextPortfolioId = 1;
   private nextTradeId = 1;
+  private optimizerRuns = new Map<number, OptimizerRun>();
+  private nextStrategyProfileId = 1;
+  private nextOptimizerRunId = 1;
+  private quantSnapshots: QuantSnapshot[] = [];
+  private nextQuantSnapshotId = 1;
+  private signalOutcomes: SignalOutcome[] = [];
+  private nextSignalOutcomeId = 1;
+  private alerts = new Map<number, Alert>();
+  private alertEvents: AlertEvent[] = [];
+  private nextAlertId = 1;
+  private nextAlertEventId = 1;
+  private webhookEndpoints = new Map<number, WebhookEndpoint>();
+  private webhookDeliveries: WebhookDelivery[] = [];
+  private nextWebhookEndpointId = 1;
+  private nextWebhookDeliveryId = 1;
+  private candles = new Map<string, Candle>(); // symbol_interval_openTime -> bar
+  private nextCandleId = 1;
 
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
@@ -192,10 +988,16 @@ export class MockStorage implements IStorage {
     return Array.from(this.portfolios.values()).filter(p => p.userId === userId);
   }
 
+  async getPortfolio(id: number): Promise<Portfolio | undefined> {
+    return this.portfolios.get(id);
+  }
+
   async createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio> {
     const id = this.nextPortfolioId++;
     const newPortfolio: Portfolio = {
       ...portfolio,
+      archived: portfolio.archived ?? false,
+      costBasisMethod: portfolio.costBasisMethod ?? 'average',
       id,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -204,12 +1006,42 @@ export class MockStorage implements IStorage {
     return newPortfolio;
   }
 
+  async updatePortfolio(id: number, portfolioUpdate: PortfolioUpdate): Promise<Portfolio | undefined> {
+    const portfolio = this.portfolios.get(id);
+    if (!portfolio) return undefined;
+    const updated: Portfolio = { ...portfolio, ...portfolioUpdate, updatedAt: new Date() };
+    this.portfolios.set(id, updated);
+    return updated;
+  }
+
+  async deletePortfolio(id: number): Promise<void> {
+    this.portfolios.delete(id);
+    for (const trade of Array.from(this.trades.values())) {
+      if (trade.portfolioId === id) this.trades.delete(trade.id);
+    }
+    for (const flow of Array.from(this.cashFlows.values())) {
+      if (flow.portfolioId === id) this.cashFlows.delete(flow.id);
+    }
+    for (const order of Array.from(this.orders.values())) {
+      if (order.portfolioId === id) this.orders.delete(order.id);
+    }
+    this.paperAccounts.delete(id);
+    for (const runner of Array.from(this.strategyRunners.values())) {
+      if (runner.portfolioId === id) this.deleteStrategyRunner(runner.id);
+    }
+    this.realizedPnlLogs = this.realizedPnlLogs.filter(log => log.portfolioId !== id);
+  }
+
   async getTradesByPortfolioId(portfolioId: number): Promise<Trade[]> {
     return Array.from(this.trades.values())
       .filter(t => t.portfolioId === portfolioId)
       .sort((a, b) => b.date.getTime() - a.date.getTime());
   }
 
+  async getTrade(id: number): Promise<Trade | undefined> {
+    return this.trades.get(id);
+  }
+
   async createTrade(trade: InsertTrade): Promise<Trade> {
     const id = this.nextTradeId++;
     const newTrade: Trade = {
@@ -222,6 +1054,14 @@ export class MockStorage implements IStorage {
     return newTrade;
   }
 
+  async createTrades(trades: InsertTrade[]): Promise<Trade[]> {
+    const created: Trade[] = [];
+    for (const trade of trades) {
+      created.push(await this.createTrade(trade));
+    }
+    return created;
+  }
+
   async updateTrade(id: number, tradeUpdate: Partial<InsertTrade>): Promise<Trade | undefined> {
     const trade = this.trades.get(id);
     if (!trade) return undefined;
@@ -234,6 +1074,117 @@ export class MockStorage implements IStorage {
     this.trades.delete(id);
   }
 
+  async getCashFlowsByPortfolioId(portfolioId: number): Promise<CashFlow[]> {
+    return Array.from(this.cashFlows.values())
+      .filter(flow => flow.portfolioId === portfolioId)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async getCashFlow(id: number): Promise<CashFlow | undefined> {
+    return this.cashFlows.get(id);
+  }
+
+  async createCashFlow(flow: InsertCashFlow): Promise<CashFlow> {
+    const id = this.nextCashFlowId++;
+    const newFlow: CashFlow = { ...flow, note: flow.note ?? null, id, createdAt: new Date() };
+    this.cashFlows.set(id, newFlow);
+    return newFlow;
+  }
+
+  async deleteCashFlow(id: number): Promise<void> {
+    this.cashFlows.delete(id);
+  }
+
+  async createPaperCashFlow(flow: InsertCashFlow, cash: string): Promise<CashFlow> {
+    const newFlow = await this.createCashFlow(flow);
+    await this.updatePaperAccount(flow.portfolioId, { cash });
+    return newFlow;
+  }
+
+  async deletePaperCashFlow(flow: CashFlow, cash: string): Promise<void> {
+    this.cashFlows.delete(flow.id);
+    await this.updatePaperAccount(flow.portfolioId, { cash });
+  }
+
+  async getPaperAccount(portfolioId: number): Promise<PaperAccount | undefined> {
+    return this.paperAccounts.get(portfolioId);
+  }
+
+  async createPaperAccount(account: InsertPaperAccount): Promise<PaperAccount> {
+    const newAccount: PaperAccount = {
+      ...account,
+      slippageBps: account.slippageBps ?? 5,
+      feeRate: account.feeRate ?? "0.001",
+      id: this.nextPaperAccountId++,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.paperAccounts.set(account.portfolioId, newAccount);
+    return newAccount;
+  }
+
+  async updatePaperAccount(portfolioId: number, accountUpdate: PaperAccountUpdate): Promise<PaperAccount | undefined> {
+    const account = this.paperAccounts.get(portfolioId);
+    if (!account) return undefined;
+    const updated: PaperAccount = { ...account, ...accountUpdate, updatedAt: new Date() };
+    this.paperAccounts.set(portfolioId, updated);
+    return updated;
+  }
+
+  async fillPaperOrder(orderId: number, trade: InsertTrade, cash: string, fill: PaperFill): Promise<{ trade: Trade; order: Order }> {
+    const newTrade = await this.createTrade(trade);
+    await this.updatePaperAccount(trade.portfolioId, { cash });
+    const order = await this.updateOrder(orderId, { ...fill, status: 'filled', tradeId: newTrade.id });
+    return { trade: newTrade, order: order! };
+  }
+
+  async createPaperTrades(portfolioId: number, trades: InsertTrade[], cash: string): Promise<Trade[]> {
+    const created = await this.createTrades(trades);
+    await this.updatePaperAccount(portfolioId, { cash });
+    return created;
+  }
+
+  async getOrdersByPortfolioId(portfolioId: number, status?: string): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(o => o.portfolioId === portfolioId && (!status || o.status === status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getOpenOrders(): Promise<Order[]> {
+    return Array.from(this.orders.values()).filter(o => o.status === "open");
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    return this.orders.get(id);
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const id = this.nextOrderId++;
+    const newOrder: Order = {
+      ...order,
+      limitPrice: order.limitPrice ?? null,
+      status: "open",
+      fillPrice: null,
+      fee: null,
+      tradeId: null,
+      cancelReason: null,
+      id,
+      createdAt: new Date(),
+      filledAt: null,
+      cancelledAt: null,
+    };
+    this.orders.set(id, newOrder);
+    return newOrder;
+  }
+
+  async updateOrder(id: number, orderUpdate: OrderUpdate): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+    const updated: Order = { ...order, ...orderUpdate };
+    this.orders.set(id, updated);
+    return updated;
+  }
+
   async getLatestQuantSignal(symbol: string): Promise<QuantSignal | undefined> {
     return this.quantSignals.filter(s => s.symbol === symbol).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
   }
@@ -284,10 +1235,459 @@ export class MockStorage implements IStorage {
   }
 
   async deleteRealizedPnlLogByTradeId(tradeId: number): Promise<void> {
-    const index = this.realizedPnlLogs.findIndex(log => log.tradeId === tradeId);
-    if (index !== -1) {
-      this.realizedPnlLogs.splice(index, 1);
+    this.realizedPnlLogs = this.realizedPnlLogs.filter(log => log.tradeId !== tradeId);
+  }
+
+  async replaceRealizedPnlLogs(portfolioId: number, logs: InsertRealizedPnlLog[]): Promise<void> {
+    this.realizedPnlLogs = this.realizedPnlLogs.filter(log => log.portfolioId !== portfolioId);
+    for (const log of logs) {
+      await this.createRealizedPnlLog(log);
+    }
+  }
+
+  async getStrategyProfiles(): Promise<StrategyProfile[]> {
+    return Array.from(this.strategyProfiles.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getStrategyProfile(id: number): Promise<StrategyProfile | undefined> {
+    return this.strategyProfiles.get(id);
+  }
+
+  async getStrategyProfileByName(name: string): Promise<StrategyProfile | undefined> {
+    return Array.from(this.strategyProfiles.values()).find(p => p.name === name);
+  }
+
+  async createStrategyProfile(profile: InsertStrategyProfile): Promise<StrategyProfile> {
+    if (await this.getStrategyProfileByName(profile.name)) {
+      throw new Error(`Strategy profile "${profile.name}" already exists`);
+    }
+    const id = this.nextStrategyProfileId++;
+    const newProfile: StrategyProfile = {
+      ...profile,
+      description: profile.description ?? null,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.strategyProfiles.set(id, newProfile);
+    return newProfile;
+  }
+
+  async updateStrategyProfile(id: number, profileUpdate: Partial<InsertStrategyProfile>): Promise<StrategyProfile | undefined> {
+    const profile = this.strategyProfiles.get(id);
+    if (!profile) return undefined;
+    const updated: StrategyProfile = { ...profile, ...profileUpdate, updatedAt: new Date() };
+    this.strategyProfiles.set(id, updated);
+    return updated;
+  }
+
+  async deleteStrategyProfile(id: number): Promise<void> {
+    this.strategyProfiles.delete(id);
+  }
+
+  async getStrategyRunnersByUserId(userId: string): Promise<StrategyRunner[]> {
+    return Array.from(this.strategyRunners.values())
+      .filter(r => r.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getActiveStrategyRunners(): Promise<StrategyRunner[]> {
+    return Array.from(this.strategyRunners.values()).filter(r => r.status === "active");
+  }
+
+  async getStrategyRunnersByProfile(profile: string): Promise<StrategyRunner[]> {
+    return Array.from(this.strategyRunners.values()).filter(r => r.profile === profile);
+  }
+
+  async getStrategyRunner(id: number): Promise<StrategyRunner | undefined> {
+    return this.strategyRunners.get(id);
+  }
+
+  async createStrategyRunner(runner: InsertStrategyRunner): Promise<StrategyRunner> {
+    const id = this.nextStrategyRunnerId++;
+    const newRunner: StrategyRunner = {
+      ...runner,
+      profile: runner.profile ?? "default",
+      sizingValue: runner.sizingValue ?? null,
+      lastSignals: {},
+      lastBarCloseTime: null,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.strategyRunners.set(id, newRunner);
+    return newRunner;
+  }
+
+  async updateStrategyRunner(id: number, runnerUpdate: StrategyRunnerUpdate): Promise<StrategyRunner | undefined> {
+    const runner = this.strategyRunners.get(id);
+    if (!runner) return undefined;
+    const updated: StrategyRunner = { ...runner, ...runnerUpdate, updatedAt: new Date() };
+    this.strategyRunners.set(id, updated);
+    return updated;
+  }
+
+  async deleteStrategyRunner(id: number): Promise<void> {
+    this.strategyRunners.delete(id);
+    this.strategyRuns = this.strategyRuns.filter(r => r.runnerId !== id);
+  }
+
+  async getStrategyRuns(runnerId: number, limit: number = 50): Promise<StrategyRun[]> {
+    return this.strategyRuns
+      .filter(r => r.runnerId === runnerId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createStrategyRun(run: InsertStrategyRun): Promise<StrategyRun> {
+    const newRun: StrategyRun = { ...run, error: run.error ?? null, id: this.nextStrategyRunId++, createdAt: new Date() };
+    this.strategyRuns.push(newRun);
+    return newRun;
+  }
+
+  async getScreensByUserId(userId: string): Promise<Screen[]> {
+    return Array.from(this.screens.values())
+      .filter(s => s.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getScreen(id: number): Promise<Screen | undefined> {
+    return this.screens.get(id);
+  }
+
+  async getScreensByProfile(profile: string): Promise<Screen[]> {
+    return Array.from(this.screens.values()).filter(s => s.profile === profile);
+  }
+
+  async createScreen(screen: InsertScreen): Promise<Screen> {
+    const id = this.nextScreenId++;
+    const newScreen: Screen = {
+      ...screen,
+      profile: screen.profile ?? "default",
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.screens.set(id, newScreen);
+    return newScreen;
+  }
+
+  async updateScreen(id: number, screenUpdate: ScreenUpdate): Promise<Screen | undefined> {
+    const screen = this.screens.get(id);
+    if (!screen) return undefined;
+    const updated: Screen = { ...screen, ...screenUpdate, updatedAt: new Date() };
+    this.screens.set(id, updated);
+    return updated;
+  }
+
+  async deleteScreen(id: number): Promise<void> {
+    this.screens.delete(id);
+  }
+
+  async getOptimizerRuns(limit: number = 20): Promise<OptimizerRun[]> {
+    return Array.from(this.optimizerRuns.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getOptimizerRun(id: number): Promise<OptimizerRun | undefined> {
+    return this.optimizerRuns.get(id);
+  }
+
+  async createOptimizerRun(run: InsertOptimizerRun): Promise<OptimizerRun> {
+    const id = this.nextOptimizerRunId++;
+    const newRun: OptimizerRun = {
+      ...run,
+      status: run.status ?? 'running',
+      results: run.results ?? null,
+      error: run.error ?? null,
+      completedAt: run.completedAt ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.optimizerRuns.set(id, newRun);
+    return newRun;
+  }
+
+  async updateOptimizerRun(id: number, runUpdate: Partial<InsertOptimizerRun>): Promise<OptimizerRun | undefined> {
+    const run = this.optimizerRuns.get(id);
+    if (!run) return undefined;
+    const updated: OptimizerRun = { ...run, ...runUpdate };
+    this.optimizerRuns.set(id, updated);
+    return updated;
+  }
+
+  async getQuantSnapshot(symbol: string, interval: string, profile: string, barCloseTime: Date): Promise<QuantSnapshot | undefined> {
+    return this.quantSnapshots.find(s =>
+      s.symbol === symbol &&
+      s.interval === interval &&
+      s.profile === profile &&
+      s.barCloseTime.getTime() === barCloseTime.getTime()
+    );
+  }
+
+  async getQuantSnapshots(symbol: string, query: QuantSnapshotQuery): Promise<QuantSnapshot[]> {
+    return this.quantSnapshots
+      .filter(s =>
+        s.symbol === symbol &&
+        s.interval === query.interval &&
+        s.profile === query.profile &&
+        (!query.from || s.barCloseTime >= query.from) &&
+        (!query.to || s.barCloseTime <= query.to)
+      )
+      .sort((a, b) => a.barCloseTime.getTime() - b.barCloseTime.getTime())
+      .slice(-(query.limit ?? 500));
+  }
+
+  async upsertQuantSnapshot(snapshot: InsertQuantSnapshot): Promise<QuantSnapshot> {
+    const profile = snapshot.profile ?? 'default';
+    const existing = await this.getQuantSnapshot(snapshot.symbol, snapshot.interval, profile, snapshot.barCloseTime);
+    if (existing) {
+      Object.assign(existing, snapshot, { profile, updatedAt: new Date() });
+      return existing;
+    }
+
+    const newSnapshot: QuantSnapshot = {
+      ...snapshot,
+      profile,
+      id: this.nextQuantSnapshotId++,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.quantSnapshots.push(newSnapshot);
+    return newSnapshot;
+  }
+
+  async getSnapshotsAwaitingOutcome(interval: string, closedBefore: Date, limit: number = 200): Promise<QuantSnapshot[]> {
+    const evaluated = new Set(this.signalOutcomes.map(o => o.snapshotId));
+    return this.quantSnapshots
+      .filter(s => s.interval === interval && s.barCloseTime <= closedBefore && !evaluated.has(s.id))
+      .sort((a, b) => a.barCloseTime.getTime() - b.barCloseTime.getTime())
+      .slice(0, limit);
+  }
+
+  async getSignalOutcomes(query: SignalOutcomeQuery): Promise<SignalOutcome[]> {
+    return this.signalOutcomes
+      .filter(o =>
+        o.interval === query.interval &&
+        o.profile === query.profile &&
+        (!query.symbol || o.symbol === query.symbol)
+      )
+      .sort((a, b) => a.barCloseTime.getTime() - b.barCloseTime.getTime());
+  }
+
+  async createSignalOutcome(outcome: InsertSignalOutcome): Promise<SignalOutcome> {
+    const newOutcome: SignalOutcome = {
+      ...outcome,
+      entryPrice: outcome.entryPrice ?? null,
+      exitPrice: outcome.exitPrice ?? null,
+      realizedReturn: outcome.realizedReturn ?? null,
+      correct: outcome.correct ?? null,
+      id: this.nextSignalOutcomeId++,
+      evaluatedAt: new Date(),
+    };
+    this.signalOutcomes.push(newOutcome);
+    return newOutcome;
+  }
+
+  async getAlertsByUserId(userId: string): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(a => a.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getEnabledAlerts(): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter(a => a.enabled);
+  }
+
+  async getAlert(id: number): Promise<Alert | undefined> {
+    return this.alerts.get(id);
+  }
+
+  async createAlert(alert: InsertAlert): Promise<Alert> {
+    const id = this.nextAlertId++;
+    const newAlert: Alert = {
+      ...alert,
+      threshold: alert.threshold ?? null,
+      targetValue: alert.targetValue ?? null,
+      enabled: alert.enabled ?? true,
+      lastValue: null,
+      lastTriggeredAt: null,
+      id,
+      createdAt: new Date(),
+    };
+    this.alerts.set(id, newAlert);
+    return newAlert;
+  }
+
+  async updateAlert(id: number, alertUpdate: AlertUpdate): Promise<Alert | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+    const updated: Alert = { ...alert, ...alertUpdate };
+    this.alerts.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlert(id: number): Promise<void> {
+    this.alerts.delete(id);
+    this.alertEvents = this.alertEvents.filter(e => e.alertId !== id);
+  }
+
+  async getAlertEventsByUserId(userId: string, afterId: number = 0, limit: number = 50): Promise<AlertEvent[]> {
+    return this.alertEvents
+      .filter(e => e.userId === userId && e.id > afterId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent> {
+    const newEvent: AlertEvent = {
+      ...event,
+      read: event.read ?? false,
+      id: this.nextAlertEventId++,
+      triggeredAt: new Date(),
+    };
+    this.alertEvents.push(newEvent);
+    return newEvent;
+  }
+
+  async markAlertEventsRead(userId: string, ids?: number[]): Promise<void> {
+    for (const event of this.alertEvents) {
+      if (event.userId === userId && (!ids || ids.length === 0 || ids.includes(event.id))) {
+        event.read = true;
+      }
+    }
+  }
+
+  async getWebhookEndpointsByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    return Array.from(this.webhookEndpoints.values())
+      .filter(e => e.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getEnabledWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return Array.from(this.webhookEndpoints.values()).filter(e => e.enabled);
+  }
+
+  async getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+    return this.webhookEndpoints.get(id);
+  }
+
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint): Promise<WebhookEndpoint> {
+    const id = this.nextWebhookEndpointId++;
+    const newEndpoint: WebhookEndpoint = {
+      ...endpoint,
+      description: endpoint.description ?? null,
+      symbols: endpoint.symbols ?? null,
+      enabled: endpoint.enabled ?? true,
+      id,
+      createdAt: new Date(),
+    };
+    this.webhookEndpoints.set(id, newEndpoint);
+    return newEndpoint;
+  }
+
+  async updateWebhookEndpoint(id: number, endpointUpdate: WebhookEndpointUpdate): Promise<WebhookEndpoint | undefined> {
+    const endpoint = this.webhookEndpoints.get(id);
+    if (!endpoint) return undefined;
+    const updated: WebhookEndpoint = { ...endpoint, ...endpointUpdate };
+    this.webhookEndpoints.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhookEndpoint(id: number): Promise<void> {
+    this.webhookEndpoints.delete(id);
+    this.webhookDeliveries = this.webhookDeliveries.filter(d => d.endpointId !== id);
+  }
+
+  async getWebhookDeliveries(endpointId: number, limit: number = 50): Promise<WebhookDelivery[]> {
+    return this.webhookDeliveries
+      .filter(d => d.endpointId === endpointId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getDueWebhookDeliveries(now: Date, limit: number = 50): Promise<WebhookDelivery[]> {
+    return this.webhookDeliveries
+      .filter(d => d.status === 'pending' && d.nextAttemptAt !== null && d.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const newDelivery: WebhookDelivery = {
+      ...delivery,
+      status: delivery.status ?? 'pending',
+      attempts: delivery.attempts ?? 0,
+      responseStatus: delivery.responseStatus ?? null,
+      error: delivery.error ?? null,
+      nextAttemptAt: delivery.nextAttemptAt ?? null,
+      deliveredAt: delivery.deliveredAt ?? null,
+      id: this.nextWebhookDeliveryId++,
+      createdAt: new Date(),
+    };
+    this.webhookDeliveries.push(newDelivery);
+    return newDelivery;
+  }
+
+  async updateWebhookDelivery(id: number, deliveryUpdate: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const index = this.webhookDeliveries.findIndex(d => d.id === id);
+    if (index < 0) return undefined;
+    this.webhookDeliveries[index] = { ...this.webhookDeliveries[index], ...deliveryUpdate };
+    return this.webhookDeliveries[index];
+  }
+
+  
+  async getCandles(symbol: string, query: CandleQuery): Promise<Candle[]> {
+    return Array.from(this.candles.values())
+      .filter(c =>
+        c.symbol === symbol &&
+        c.interval === query.interval &&
+        (!query.from || c.openTime >= query.from) &&
+        (!query.to || c.openTime <= query.to)
+      )
+      .sort((a, b) => a.openTime.getTime() - b.openTime.getTime())
+      .slice(-(query.limit ?? 1000));
+  }
+  
+  async getCandleSeries(symbol?: string, interval?: string): Promise<CandleSeries[]> {
+    const series = new Map<string, CandleSeries>();
+    for (const candle of Array.from(this.candles.values())) {
+      if ((symbol && candle.symbol !== symbol) || (interval && candle.interval !== interval)) continue;
+      const key = `${candle.symbol}_${candle.interval}`;
+      const current = series.get(key);
+      if (!current) {
+        series.set(key, {
+          symbol: candle.symbol,
+          interval: candle.interval,
+          count: 1,
+          firstOpenTime: candle.openTime,
+          lastOpenTime: candle.openTime,
+          lastUpdatedAt: candle.updatedAt,
+        });
+        continue;
+      }
+      current.count++;
+      if (candle.openTime < current.firstOpenTime) current.firstOpenTime = candle.openTime;
+      if (candle.openTime > current.lastOpenTime) current.lastOpenTime = candle.openTime;
+      if (candle.updatedAt > current.lastUpdatedAt) current.lastUpdatedAt = candle.updatedAt;
+    }
+    return Array.from(series.values())
+      .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.interval.localeCompare(b.interval));
+  }
+  
+  async upsertCandles(rows: InsertCandle[]): Promise<number> {
+    for (const row of rows) {
+      const key = `${row.symbol}_${row.interval}_${row.openTime.getTime()}`;
+      const existing = this.candles.get(key);
+      this.candles.set(key, {
+        ...row,
+        id: existing?.id ?? this.nextCandleId++,
+        createdAt: existing?.createdAt ?? new Date(),
+        updatedAt: new Date(),
+      });
     }
+    return rows.length;
   }
 }
 
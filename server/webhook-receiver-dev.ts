@@ -0,0 +1,48 @@
+// Local webhook receiver for development
+// Stands in for a bot endpoint: logs each delivery and checks its signature.
+//
+//   npm run webhooks:receiver
+//   WEBHOOK_SECRET=whsec_... npm run webhooks:receiver   (reject bad signatures with 401)
+//
+// Register http://localhost:4400/ as the endpoint URL. Use /fail to answer 500
+// (exercises retries with backoff) or /slow to outlast the delivery timeout.
+
+import { createServer } from "node:http";
+import { EVENT_HEADER, SIGNATURE_HEADER, verifySignature } from "./lib/webhookSignature";
+
+const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || "4400", 10);
+const secret = process.env.WEBHOOK_SECRET;
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = req.headers[SIGNATURE_HEADER.toLowerCase()] as string | undefined;
+    const event = req.headers[EVENT_HEADER.toLowerCase()] || "unknown";
+    const verified = secret ? verifySignature(secret, body, signature) : null;
+
+    const time = new Date().toLocaleTimeString();
+    const check = verified === null ? "unchecked" : verified ? "valid" : "INVALID";
+    console.log(`${time} [receiver] ${req.method} ${req.url} ${event} (signature ${check})`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (verified === false) {
+      res.writeHead(401).end("invalid signature");
+    } else if (req.url?.startsWith("/fail")) {
+      res.writeHead(500).end("simulated failure");
+    } else if (req.url?.startsWith("/slow")) {
+      setTimeout(() => res.writeHead(200).end("ok"), 15000);
+    } else {
+      res.writeHead(200).end("ok");
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[receiver] Listening on http://localhost:${port}`);
+});
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, decimal, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, decimal, timestamp, jsonb, index, uniqueIndex, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -33,10 +33,20 @@ export const portfolios = pgTable("portfolios", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   name: text("name").notNull().default("Default Portfolio"),
+  archived: boolean("archived").notNull().default(false), // Hidden from the switcher; read-only
+  costBasisMethod: text("cost_basis_method").notNull().default("average"), // 'average', 'fifo', 'lifo' or 'specific'
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const insertPortfolioSchema = createInsertSchema(portfolios).omit({ id: true, createdAt: true });
+// How sells are matched against buy lots
+export const costBasisMethods = ["average", "fifo", "lifo", "specific"] as const;
+export type CostBasisMethod = typeof costBasisMethods[number];
+
+export const insertPortfolioSchema = createInsertSchema(portfolios).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  name: z.string().trim().min(1, "Portfolio name is required").max(100),
+  costBasisMethod: z.enum(costBasisMethods).optional(),
+});
 export type Portfolio = typeof portfolios.$inferSelect;
 export type InsertPortfolio = z.infer<typeof insertPortfolioSchema>;
 
@@ -52,15 +62,213 @@ export const trades = pgTable("trades", {
   totalCost: decimal("total_cost", { precision: 20, scale: 2 }),
   side: text("side").notNull(), // 'buy' or 'sell'
   date: timestamp("date").notNull(),
+  lots: jsonb("lots").$type<LotSelection[]>(), // Sells under specific-lot identification: which buy lots to close
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// A buy trade (lot) and the quantity a sell closes from it
+export const lotSelectionSchema = z.object({
+  tradeId: z.number().int().positive(),
+  quantity: z.string().refine(value => parseFloat(value) > 0, "Lot quantity must be positive"),
+});
+export type LotSelection = z.infer<typeof lotSelectionSchema>;
+
 export const insertTradeSchema = createInsertSchema(trades).omit({ id: true, createdAt: true }).extend({
   date: z.coerce.date(), // Accept both Date objects and ISO date strings
+  lots: z.array(lotSelectionSchema)
+    .min(1)
+    .refine(lots => new Set(lots.map(lot => lot.tradeId)).size === lots.length, "Each lot can only be selected once")
+    .nullish(),
 });
 export type Trade = typeof trades.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 
+// Cash flows table - deposits into and withdrawals out of a portfolio's cash balance
+export const cashFlows = pgTable("cash_flows", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // 'deposit' or 'withdrawal'
+  amount: decimal("amount", { precision: 20, scale: 2 }).notNull(), // USD, always positive
+  date: timestamp("date").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCashFlowSchema = createInsertSchema(cashFlows).omit({ id: true, createdAt: true }).extend({
+  type: z.enum(["deposit", "withdrawal"]),
+  amount: z.string().refine(value => parseFloat(value) > 0, "Amount must be positive"),
+  date: z.coerce.date(),
+  note: z.string().max(200).nullish(),
+});
+export type CashFlow = typeof cashFlows.$inferSelect;
+export type InsertCashFlow = z.infer<typeof insertCashFlowSchema>;
+
+// Paper accounts table - virtual cash and execution settings for simulated trading on a portfolio
+export const paperAccounts = pgTable("paper_accounts", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().unique().references(() => portfolios.id, { onDelete: "cascade" }),
+  cash: decimal("cash", { precision: 20, scale: 2 }).notNull(), // USD
+  slippageBps: integer("slippage_bps").notNull().default(5), // Applied against the order, in basis points
+  feeRate: decimal("fee_rate", { precision: 10, scale: 6 }).notNull().default("0.001"), // Fraction of the fill value
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertPaperAccountSchema = createInsertSchema(paperAccounts).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  cash: z.string().refine(value => parseFloat(value) >= 0, "Cash can't be negative"),
+  slippageBps: z.number().int().min(0).max(500).optional(),
+  feeRate: z.coerce.string().refine(value => parseFloat(value) >= 0 && parseFloat(value) <= 0.05, "Fee rate must be between 0 and 0.05").optional(),
+});
+export type PaperAccount = typeof paperAccounts.$inferSelect;
+export type InsertPaperAccount = z.infer<typeof insertPaperAccountSchema>;
+
+// Orders table - simulated market and limit orders against a paper account
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id, { onDelete: "cascade" }),
+  symbol: text("symbol").notNull(),
+  side: text("side").notNull(), // 'buy' or 'sell'
+  type: text("type").notNull(), // 'market' or 'limit'
+  quantity: decimal("quantity", { precision: 20, scale: 8 }).notNull(),
+  limitPrice: decimal("limit_price", { precision: 20, scale: 8 }), // Limit orders only
+  status: text("status").notNull().default("open"), // 'open', 'filled' or 'cancelled'
+  fillPrice: decimal("fill_price", { precision: 20, scale: 8 }),
+  fee: decimal("fee", { precision: 20, scale: 2 }),
+  tradeId: integer("trade_id").references(() => trades.id, { onDelete: "set null" }), // Trade recorded by the fill
+  cancelReason: text("cancel_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  filledAt: timestamp("filled_at"),
+  cancelledAt: timestamp("cancelled_at"),
+}, (table) => [
+  index("IDX_orders_portfolio_status").on(table.portfolioId, table.status),
+]);
+
+export const orderSides = ["buy", "sell"] as const;
+export const orderTypes = ["market", "limit"] as const;
+export const orderStatuses = ["open", "filled", "cancelled"] as const;
+export type OrderStatus = typeof orderStatuses[number];
+
+export const insertOrderSchema = createInsertSchema(orders)
+  .omit({ id: true, createdAt: true, status: true, fillPrice: true, fee: true, tradeId: true, cancelReason: true, filledAt: true, cancelledAt: true })
+  .extend({
+    symbol: z.string().min(1).transform(s => s.toUpperCase()),
+    side: z.enum(orderSides),
+    type: z.enum(orderTypes),
+    quantity: z.coerce.string().refine(value => parseFloat(value) > 0, "Quantity must be positive"),
+    limitPrice: z.coerce.string().refine(value => parseFloat(value) > 0, "Limit price must be positive").nullish(),
+  })
+  .refine(order => order.type === 'market' || order.limitPrice != null, {
+    message: "Limit orders need a limit price",
+    path: ["limitPrice"],
+  });
+export type Order = typeof orders.$inferSelect;
+export type InsertOrder = z.infer<typeof insertOrderSchema>;
+
+// How a strategy runner sizes each entry
+export const positionSizingMethods = ["fixed-amount", "equity-percent", "equal-weight"] as const;
+export type PositionSizingMethod = typeof positionSizingMethods[number];
+
+// Strategy runners table - a universe and scoring profile traded automatically in a paper portfolio
+export const strategyRunners = pgTable("strategy_runners", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  portfolioId: integer("portfolio_id").notNull().references(() => portfolios.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  profile: text("profile").notNull().default("default"), // Strategy profile name
+  interval: text("interval").notNull().default("1d"), // '1h', '4h', '1d', '1w'
+  universe: jsonb("universe").$type<string[]>().notNull(), // Symbols to trade
+  sizingMethod: text("sizing_method").notNull().default("equal-weight"), // 'fixed-amount', 'equity-percent' or 'equal-weight'
+  sizingValue: decimal("sizing_value", { precision: 20, scale: 2 }), // $ per entry or % of equity; unused for equal-weight
+  status: text("status").notNull().default("active"), // 'active' or 'paused'
+  lastSignals: jsonb("last_signals").$type<Record<string, string>>().notNull().default({}), // Signal per symbol at the last run
+  lastBarCloseTime: timestamp("last_bar_close_time"), // Bar the last scheduled run acted on
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertStrategyRunnerSchema = createInsertSchema(strategyRunners)
+  .omit({ id: true, createdAt: true, updatedAt: true, lastSignals: true, lastBarCloseTime: true })
+  .extend({
+    name: z.string().trim().min(1, "Runner name is required").max(100),
+    interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+    universe: z.array(z.string().trim().min(1).transform(s => s.toUpperCase())).min(1).max(30)
+      .refine(symbols => new Set(symbols).size === symbols.length, "Each symbol can only be listed once"),
+    sizingMethod: z.enum(positionSizingMethods).default("equal-weight"),
+    sizingValue: z.coerce.string().refine(value => parseFloat(value) > 0, "Position size must be positive").nullish(),
+    status: z.enum(["active", "paused"]).default("active"),
+  })
+  .refine(runner => runner.sizingMethod === "equal-weight" || runner.sizingValue != null, {
+    message: "This sizing method needs a position size",
+    path: ["sizingValue"],
+  })
+  .refine(runner => runner.sizingMethod !== "equity-percent" || parseFloat(runner.sizingValue!) <= 100, {
+    message: "A position can't be more than 100% of equity",
+    path: ["sizingValue"],
+  });
+export type StrategyRunner = typeof strategyRunners.$inferSelect;
+export type InsertStrategyRunner = z.infer<typeof insertStrategyRunnerSchema>;
+
+// What a runner saw and did for one symbol on a run
+export const strategyRunDecisionSchema = z.object({
+  symbol: z.string(),
+  signal: z.string().nullable(), // null when the symbol couldn't be scored
+  previousSignal: z.string().nullable(),
+  compositeScore: z.number().nullable(),
+  price: z.number().nullable(), // Close of the bar the signal came from
+  action: z.enum(["buy", "sell", "none"]),
+  reason: z.string().nullable(), // Why a transition didn't become an order, or why an order failed
+  orderId: z.number().int().nullable(),
+  orderStatus: z.string().nullable(),
+  quantity: z.number().nullable(),
+  fillPrice: z.number().nullable(),
+});
+export type StrategyRunDecision = z.infer<typeof strategyRunDecisionSchema>;
+
+// Strategy runs table - one log entry per runner evaluation
+export const strategyRuns = pgTable("strategy_runs", {
+  id: serial("id").primaryKey(),
+  runnerId: integer("runner_id").notNull().references(() => strategyRunners.id, { onDelete: "cascade" }),
+  trigger: text("trigger").notNull(), // 'schedule' or 'manual'
+  status: text("status").notNull(), // 'completed' or 'failed'
+  barCloseTime: timestamp("bar_close_time").notNull(), // Close of the latest bar evaluated
+  inputs: jsonb("inputs").notNull(), // Profile, interval, universe, sizing and account state at the start
+  decisions: jsonb("decisions").$type<StrategyRunDecision[]>().notNull(),
+  orderIds: jsonb("order_ids").$type<number[]>().notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_strategy_runs_runner").on(table.runnerId, table.createdAt),
+]);
+
+export const insertStrategyRunSchema = createInsertSchema(strategyRuns).omit({ id: true, createdAt: true }).extend({
+  decisions: z.array(strategyRunDecisionSchema),
+  orderIds: z.array(z.number().int()),
+});
+export type StrategyRun = typeof strategyRuns.$inferSelect;
+export type InsertStrategyRun = z.infer<typeof insertStrategyRunSchema>;
+
+// Screens table - saved screener filter expressions per user
+export const screens = pgTable("screens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  expression: text("expression").notNull(), // e.g. 'scores.momentum > 70 and metrics.volatility.regime == "Low"'
+  interval: text("interval").notNull().default("1d"), // Engine interval the screen runs on
+  profile: text("profile").notNull().default("default"), // Strategy profile name
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertScreenSchema = createInsertSchema(screens)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().trim().min(1).max(100),
+    expression: z.string().trim().min(1).max(1000),
+    interval: z.enum(["1h", "4h", "1d", "1w"]).default("1d"),
+  });
+export type Screen = typeof screens.$inferSelect;
+export type InsertScreen = z.infer<typeof insertScreenSchema>;
+
 // Quant signals table
 export const quantSignals = pgTable("quant_signals", {
   id: serial("id").primaryKey(),
@@ -114,10 +322,250 @@ export const realizedPnlLogs = pgTable("realized_pnl_logs", {
   buyPrice: decimal("buy_price", { precision: 20, scale: 2 }).notNull(),
   sellPrice: decimal("sell_price", { precision: 20, scale: 2 }).notNull(),
   realizedPnl: decimal("realized_pnl", { precision: 20, scale: 2 }).notNull(),
-  tradeId: integer("trade_id").references(() => trades.id),
+  tradeId: integer("trade_id").references(() => trades.id), // The sell
+  lotTradeId: integer("lot_trade_id").references(() => trades.id, { onDelete: "cascade" }), // The buy lot it closed
+  acquiredAt: timestamp("acquired_at"),
+  soldAt: timestamp("sold_at"),
+  method: text("method"), // Cost basis method the match was made under
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertRealizedPnlLogSchema = createInsertSchema(realizedPnlLogs).omit({ id: true, createdAt: true });
 export type RealizedPnlLog = typeof realizedPnlLogs.$inferSelect;
 export type InsertRealizedPnlLog = z.infer<typeof insertRealizedPnlLogSchema>;
+
+// Factor weights for the composite score (normalized by their sum in the engine)
+export const factorWeightsSchema = z.object({
+  trend: z.number().min(0),
+  momentum: z.number().min(0),
+  volatility: z.number().min(0),
+  volume: z.number().min(0),
+  risk: z.number().min(0),
+  sentiment: z.number().min(0),
+}).refine(
+  (weights) => Object.values(weights).some(weight => weight > 0),
+  { message: "At least one factor weight must be positive" },
+);
+export type FactorWeights = z.infer<typeof factorWeightsSchema>;
+
+// Strategy profiles table - named factor weights and signal thresholds
+export const strategyProfiles = pgTable("strategy_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // e.g. 'default', 'momentum-heavy', 'low-risk'
+  description: text("description"),
+  weights: jsonb("weights").$type<FactorWeights>().notNull(),
+  buyThreshold: integer("buy_threshold").notNull().default(65), // Composite score >= threshold = BUY
+  sellThreshold: integer("sell_threshold").notNull().default(35), // Composite score <= threshold = SELL
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertStrategyProfileSchema = createInsertSchema(strategyProfiles)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+    weights: factorWeightsSchema,
+    buyThreshold: z.number().int().min(1).max(100),
+    sellThreshold: z.number().int().min(0).max(99),
+  })
+  .refine(
+    (profile) => profile.sellThreshold < profile.buyThreshold,
+    { message: "Sell threshold must be below buy threshold", path: ["sellThreshold"] },
+  );
+export type StrategyProfile = typeof strategyProfiles.$inferSelect;
+export type InsertStrategyProfile = z.infer<typeof insertStrategyProfileSchema>;
+
+// Weight optimizer runs - walk-forward search over factor weights and thresholds
+export const optimizerRuns = pgTable("optimizer_runs", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  interval: text("interval").notNull(), // '1h', '4h', '1d', '1w'
+  status: text("status").notNull().default("running"), // 'running', 'completed', 'failed'
+  config: jsonb("config").notNull(), // Validated optimizer request (without klines)
+  results: jsonb("results"), // { ranked, folds, baseline } once completed
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertOptimizerRunSchema = createInsertSchema(optimizerRuns).omit({ id: true, createdAt: true });
+export type OptimizerRun = typeof optimizerRuns.$inferSelect;
+export type InsertOptimizerRun = z.infer<typeof insertOptimizerRunSchema>;
+
+// Quant snapshots table - full engine output per symbol/interval/profile and bar
+export const quantSnapshots = pgTable(
+  "quant_snapshots",
+  {
+    id: serial("id").primaryKey(),
+    symbol: text("symbol").notNull(),
+    interval: text("interval").notNull(), // '1h', '4h', '1d', '1w'
+    profile: text("profile").notNull().default("default"), // Strategy profile name
+    barCloseTime: timestamp("bar_close_time").notNull(), // Close time of the last kline analyzed
+    compositeScore: integer("composite_score").notNull(), // 0-100
+    signal: text("signal").notNull(), // 'BUY', 'SELL', 'HOLD'
+    confidence: integer("confidence").notNull(), // 0-100
+    marketRegime: text("market_regime").notNull(), // 'bull', 'bear', 'sideways'
+    output: jsonb("output").notNull(), // Full QuantEngineOutput (scores, forecast, metrics)
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("UQ_quant_snapshot_bar").on(table.symbol, table.interval, table.profile, table.barCloseTime),
+  ],
+);
+
+export const insertQuantSnapshotSchema = createInsertSchema(quantSnapshots).omit({ id: true, createdAt: true, updatedAt: true });
+export type QuantSnapshot = typeof quantSnapshots.$inferSelect;
+export type InsertQuantSnapshot = z.infer<typeof insertQuantSnapshotSchema>;
+
+// Signal outcomes table - realized result of a snapshot's forecast after N bars
+export const signalOutcomes = pgTable("signal_outcomes", {
+  id: serial("id").primaryKey(),
+  snapshotId: integer("snapshot_id").notNull().unique().references(() => quantSnapshots.id, { onDelete: "cascade" }),
+  symbol: text("symbol").notNull(),
+  interval: text("interval").notNull(),
+  profile: text("profile").notNull(),
+  barCloseTime: timestamp("bar_close_time").notNull(),
+  horizonBars: integer("horizon_bars").notNull(), // Bars between the snapshot and the exit price
+  signal: text("signal").notNull(), // 'BUY', 'SELL', 'HOLD' at the time of the snapshot
+  direction: text("direction").notNull(), // Forecast direction: 'UP', 'DOWN', 'SIDEWAYS'
+  probability: integer("probability").notNull(), // Forecast probability 0-100
+  status: text("status").notNull(), // 'evaluated' or 'unavailable' (the bar is outside or missing from the price history)
+  entryPrice: decimal("entry_price", { precision: 20, scale: 8 }),
+  exitPrice: decimal("exit_price", { precision: 20, scale: 8 }),
+  realizedReturn: decimal("realized_return", { precision: 12, scale: 4 }), // Percentage
+  correct: boolean("correct"), // Null for SIDEWAYS forecasts and unavailable outcomes
+  evaluatedAt: timestamp("evaluated_at").defaultNow().notNull(),
+});
+
+export const insertSignalOutcomeSchema = createInsertSchema(signalOutcomes).omit({ id: true, evaluatedAt: true });
+export type SignalOutcome = typeof signalOutcomes.$inferSelect;
+export type InsertSignalOutcome = z.infer<typeof insertSignalOutcomeSchema>;
+
+// Alerts table - user-defined price and signal rules
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  symbol: text("symbol").notNull(),
+  interval: text("interval").notNull().default("1d"), // Engine interval for quant metrics
+  metric: text("metric").notNull(), // 'price', 'compositeScore', factor scores, 'rsi', 'regime', 'signal'
+  condition: text("condition").notNull(), // 'above', 'below', 'crosses_above', 'crosses_below', 'is', 'changes_to'
+  threshold: decimal("threshold", { precision: 20, scale: 8 }), // Numeric metrics
+  targetValue: text("target_value"), // Categorical metrics, e.g. 'bear' or 'SELL'
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(60),
+  enabled: boolean("enabled").notNull().default(true),
+  lastValue: text("last_value"), // Value seen on the previous evaluation, for crossings
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const NUMERIC_ALERT_METRICS = ['price', 'compositeScore', 'trend', 'momentum', 'volatility', 'volume', 'risk', 'rsi'] as const;
+export const CATEGORICAL_ALERT_METRICS = ['regime', 'signal'] as const;
+
+export const insertAlertSchema = createInsertSchema(alerts)
+  .omit({ id: true, createdAt: true, lastValue: true, lastTriggeredAt: true })
+  .extend({
+    symbol: z.string().min(1).transform(s => s.toUpperCase()),
+    interval: z.enum(['1h', '4h', '1d', '1w']).default('1d'),
+    metric: z.enum([...NUMERIC_ALERT_METRICS, ...CATEGORICAL_ALERT_METRICS]),
+    condition: z.enum(['above', 'below', 'crosses_above', 'crosses_below', 'is', 'changes_to']),
+    threshold: z.coerce.string().nullish(),
+    cooldownMinutes: z.number().int().min(0).max(10080).default(60),
+  })
+  .refine(
+    (alert) => (CATEGORICAL_ALERT_METRICS as readonly string[]).includes(alert.metric)
+      ? ['is', 'changes_to'].includes(alert.condition) && !!alert.targetValue
+      : ['above', 'below', 'crosses_above', 'crosses_below'].includes(alert.condition) &&
+        alert.threshold != null && !isNaN(parseFloat(alert.threshold)),
+    { message: "Numeric metrics need a threshold and above/below/crosses condition; regime and signal need a target value and is/changes_to" },
+  );
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+
+// Alert events table - one row per trigger
+export const alertEvents = pgTable("alert_events", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => alerts.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  symbol: text("symbol").notNull(),
+  message: text("message").notNull(),
+  value: text("value").notNull(), // Metric value that triggered the alert
+  read: boolean("read").notNull().default(false),
+  triggeredAt: timestamp("triggered_at").defaultNow().notNull(),
+});
+
+export const insertAlertEventSchema = createInsertSchema(alertEvents).omit({ id: true, triggeredAt: true });
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type InsertAlertEvent = z.infer<typeof insertAlertEventSchema>;
+
+// Webhook endpoints table
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing secret
+  events: text("events").array().notNull(), // Subscribed event types
+  symbols: text("symbols").array(), // Optional symbol filter; null means all symbols
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const WEBHOOK_EVENTS = ['signal.changed', 'regime.changed', 'alert.triggered'] as const;
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints)
+  .omit({ id: true, createdAt: true, secret: true })
+  .extend({
+    url: z.string().url().refine(url => /^https?:\/\//.test(url), { message: "Webhook URL must use http or https" }),
+    events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+    symbols: z.array(z.string().min(1).transform(s => s.toUpperCase())).nullish(),
+  });
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema> & { secret: string };
+
+// Webhook deliveries table
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: "cascade" }),
+  event: text("event").notNull(), // 'signal.changed', 'regime.changed', 'alert.triggered', 'test'
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending', 'delivered', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_webhook_delivery_due").on(table.status, table.nextAttemptAt),
+]);
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true });
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+// Candles table - locally stored OHLCV bars, kept current by the candle sync job
+export const candles = pgTable(
+  "candles",
+  {
+    id: serial("id").primaryKey(),
+    symbol: text("symbol").notNull(),
+    interval: text("interval").notNull(), // '1h', '4h', '1d', '1w'
+    openTime: timestamp("open_time").notNull(),
+    open: decimal("open", { precision: 30, scale: 12 }).notNull(),
+    high: decimal("high", { precision: 30, scale: 12 }).notNull(),
+    low: decimal("low", { precision: 30, scale: 12 }).notNull(),
+    close: decimal("close", { precision: 30, scale: 12 }).notNull(),
+    volume: decimal("volume", { precision: 38, scale: 8 }).notNull(),
+    source: text("source").notNull(), // Provider the bar came from: 'binance', 'coingecko', 'fixture'
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("UQ_candle_bar").on(table.symbol, table.interval, table.openTime),
+  ],
+);
+
+export const insertCandleSchema = createInsertSchema(candles).omit({ id: true, createdAt: true, updatedAt: true });
+export type Candle = typeof candles.$inferSelect;
+export type InsertCandle = z.infer<typeof insertCandleSchema>;